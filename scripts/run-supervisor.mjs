@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+/**
+ * Runs a command detached from the web server so it survives restarts.
+ *
+ * Usage: node run-supervisor.mjs <runsDir> <id> <command>
+ *
+ * The command runs through the shell in the current directory. Output is
+ * appended to <runsDir>/<id>.log as JSON lines ({ stream, line, timestamp }),
+ * <id>.pid holds the supervisor and command PIDs, and <id>.exit is written
+ * last with { code, endedAt }. SIGTERM and SIGINT are passed on to the
+ * command's whole process group, so processes it started stop too.
+ */
+
+import { spawn } from 'child_process';
+import { openSync, writeSync, closeSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+
+const [runsDir, id, command] = process.argv.slice(2);
+
+if (!runsDir || !id || !command) {
+  console.error('Usage: run-supervisor.mjs <runsDir> <id> <command>');
+  process.exit(2);
+}
+
+const logFd = openSync(join(runsDir, `${id}.log`), 'a');
+let finished = false;
+
+function writeLine(stream, line) {
+  if (finished) return;
+  writeSync(
+    logFd,
+    `${JSON.stringify({ stream, line, timestamp: Date.now() })}\n`,
+  );
+}
+
+function finish(code) {
+  if (finished) return;
+  finished = true;
+  closeSync(logFd);
+  writeFileSync(
+    join(runsDir, `${id}.exit`),
+    JSON.stringify({ code, endedAt: Date.now() }),
+  );
+  process.exit(0);
+}
+
+const child = spawn(command, {
+  shell: true,
+  stdio: ['ignore', 'pipe', 'pipe'],
+  detached: true,
+});
+
+writeFileSync(
+  join(runsDir, `${id}.pid`),
+  JSON.stringify({ supervisorPid: process.pid, pid: child.pid ?? null }),
+);
+
+createInterface({ input: child.stdout }).on('line', (line) =>
+  writeLine('stdout', line),
+);
+createInterface({ input: child.stderr }).on('line', (line) =>
+  writeLine('stderr', line),
+);
+
+child.on('error', (error) => {
+  writeLine('stderr', `Process error: ${error.message}`);
+  finish(-1);
+});
+
+child.on('close', (code) => finish(code));
+
+for (const signal of ['SIGTERM', 'SIGINT']) {
+  process.on(signal, () => {
+    try {
+      process.kill(-child.pid, signal);
+    } catch {
+      child.kill(signal);
+    }
+  });
+}
+// The server that started us may go away; keep running without it
+process.on('SIGHUP', () => {});
@@ -3,40 +3,161 @@
  * GET /api/events?project=encodedPath&topics=tickets,progress,process:id1,process:id2
  *
  * Topics:
- * - 'tickets': file change events for tickets.json
+ * - 'tickets': ticket-added / ticket-removed / ticket-field-changed events
+ *   diffed from tickets.json, or a plain change event when no diff is possible
  * - 'progress': file change events for progress.txt
- * - 'process:{id}': output and exit events for a process
+ * - 'process:{id}': output and exit events for a process. The output so
+ *   far is replayed first; resume=id:seq (comma separated) starts the
+ *   replay at that line for a client that already has the earlier ones
  *
  * Event format: { topic: string, type: string, data: any }
+ *
+ * Output events have the SSE id "{processId}:{seq}". A reconnecting client
+ * that sends it back in the Last-Event-ID header (or the lastEventId param,
+ * as EventSource can't set headers on a new connection) is only sent the
+ * lines after it.
  */
 
 import { watch, type FSWatcher } from 'chokidar';
 import { getRalphDir, getRalphFilePath } from '@/server/trpc';
 import { getProcessRunner } from '@/server/services/process-runner';
+import { readTicketsReport } from '@/server/services/tickets-file';
+import { syncExternalChanges } from '@/server/services/ticket-history';
+import { readOutputRange } from '@/server/services/output-spool';
 import type { ProcessRunner, ProcessOutputLine } from '@/lib/process-runner';
+import type { Ticket } from '@/lib/schemas';
+import { diffTickets } from '@/lib/ticket-history';
+import { toTicketEvents } from '@/lib/ticket-events';
+import { isErr } from '@/lib/result';
 
 interface EventMessage {
   topic: string;
   type: string;
   data: unknown;
+  /**
+   * SSE event id, sent outside the data
+   */
+  id?: string;
+}
+
+function formatSSE({ id, ...message }: EventMessage): string {
+  const idField = id === undefined ? '' : `id: ${id}\n`;
+  return `${idField}data: ${JSON.stringify(message)}\n\n`;
 }
 
-function formatSSE(message: EventMessage): string {
-  return `data: ${JSON.stringify(message)}\n\n`;
+interface WatcherClient {
+  controller: ReadableStreamDefaultController<Uint8Array>;
+  watchTickets: boolean;
+  watchProgress: boolean;
+}
+
+/**
+ * Last successfully parsed tickets.json, used to diff the next change
+ */
+interface TicketsState {
+  tickets: Ticket[];
+  revision: string;
 }
 
 interface DirectoryWatcher {
   watcher: FSWatcher;
-  clients: Set<{
-    controller: ReadableStreamDefaultController<Uint8Array>;
-    watchTickets: boolean;
-    watchProgress: boolean;
-  }>;
+  clients: Set<WatcherClient>;
   ralphDir: string;
+  ticketsState: TicketsState | null;
+  /**
+   * Serialises tickets.json reads so diffs are applied in order
+   */
+  ticketsQueue: Promise<void>;
 }
 
 const watchers = new Map<string, DirectoryWatcher>();
 
+/**
+ * Lines read from a run's output log at a time while replaying
+ */
+const REPLAY_PAGE_LINES = 1000;
+
+function broadcast(
+  clients: Set<WatcherClient>,
+  messages: EventMessage[],
+  accepts: (client: WatcherClient) => boolean,
+): void {
+  const encoded = new TextEncoder().encode(messages.map(formatSSE).join(''));
+
+  for (const client of clients) {
+    if (!accepts(client)) continue;
+    try {
+      client.controller.enqueue(encoded);
+    } catch {
+      clients.delete(client);
+    }
+  }
+}
+
+async function readTicketsState(
+  ralphDir: string,
+): Promise<TicketsState | null> {
+  const result = await readTicketsReport(ralphDir);
+  // Entries left out can't be diffed reliably; clients refetch instead
+  if (isErr(result) || result.value.problems.some((p) => p.excluded)) {
+    return null;
+  }
+  return {
+    tickets: result.value.data.tickets,
+    revision: result.value.revision,
+  };
+}
+
+/**
+ * Diff tickets.json against the last version seen and build the events
+ * to send. Falls back to a plain change event when there is nothing to
+ * diff against or the file could not be parsed, so clients refetch.
+ */
+async function getTicketsMessages(
+  directoryWatcher: DirectoryWatcher,
+): Promise<EventMessage[]> {
+  const previous = directoryWatcher.ticketsState;
+  const next = await readTicketsState(directoryWatcher.ralphDir);
+  directoryWatcher.ticketsState = next;
+
+  if (previous && next && previous.revision === next.revision) {
+    return [];
+  }
+
+  const events =
+    previous && next
+      ? toTicketEvents(
+          diffTickets(previous.tickets, next.tickets),
+          previous.revision,
+          next.revision,
+        )
+      : [];
+
+  if (events.length === 0) {
+    return [
+      {
+        topic: 'tickets',
+        type: 'change',
+        data: { file: 'tickets.json', timestamp: Date.now() },
+      },
+    ];
+  }
+
+  return events.map((event) => ({ topic: 'tickets', ...event }));
+}
+
+/**
+ * Record an edit to tickets.json made outside ralph-watch, such as ralph
+ * moving a ticket to in_progress, so the status change is dated while it
+ * happens rather than at the next edit from the UI
+ */
+async function recordTicketsChange(ralphDir: string): Promise<void> {
+  const result = await syncExternalChanges(ralphDir);
+  if (isErr(result)) {
+    console.error(`[events] ${result.error}`);
+  }
+}
+
 function getOrCreateWatcher(ralphDir: string): DirectoryWatcher {
   const existing = watchers.get(ralphDir);
   if (existing) {
@@ -46,11 +167,7 @@ function getOrCreateWatcher(ralphDir: string): DirectoryWatcher {
   const ticketsPath = getRalphFilePath('tickets.json', ralphDir);
   const progressPath = getRalphFilePath('progress.txt', ralphDir);
 
-  const clients = new Set<{
-    controller: ReadableStreamDefaultController<Uint8Array>;
-    watchTickets: boolean;
-    watchProgress: boolean;
-  }>();
+  const clients = new Set<WatcherClient>();
 
   const watcher = watch([ticketsPath, progressPath], {
     persistent: true,
@@ -62,50 +179,45 @@ function getOrCreateWatcher(ralphDir: string): DirectoryWatcher {
   });
 
   watcher.on('change', (path) => {
-    const isTickets = path.endsWith('tickets.json');
-    const topic = isTickets ? 'tickets' : 'progress';
-    const message = formatSSE({
-      topic,
-      type: 'change',
-      data: {
-        file: isTickets ? 'tickets.json' : 'progress.txt',
-        timestamp: Date.now(),
-      },
-    });
-    const encoded = new TextEncoder().encode(message);
-
-    for (const client of clients) {
-      if (
-        (isTickets && client.watchTickets) ||
-        (!isTickets && client.watchProgress)
-      ) {
-        try {
-          client.controller.enqueue(encoded);
-        } catch {
-          clients.delete(client);
-        }
-      }
+    if (path.endsWith('tickets.json')) {
+      directoryWatcher.ticketsQueue = directoryWatcher.ticketsQueue
+        .then(() => recordTicketsChange(ralphDir))
+        .then(() => getTicketsMessages(directoryWatcher))
+        .then((messages) =>
+          broadcast(clients, messages, (client) => client.watchTickets),
+        )
+        // Keep the queue alive for the next change
+        .catch((error) =>
+          console.error(
+            '[events] Failed to process tickets.json change:',
+            error,
+          ),
+        );
+      return;
     }
+
+    broadcast(
+      clients,
+      [
+        {
+          topic: 'progress',
+          type: 'change',
+          data: { file: 'progress.txt', timestamp: Date.now() },
+        },
+      ],
+      (client) => client.watchProgress,
+    );
   });
 
   watcher.on('error', (error: unknown) => {
     console.error(`[events] File watcher error for ${ralphDir}:`, error);
     const errorMessage =
       error instanceof Error ? error.message : 'Unknown error';
-    const message = formatSSE({
-      topic: 'error',
-      type: 'error',
-      data: { message: errorMessage },
-    });
-    const encoded = new TextEncoder().encode(message);
-
-    for (const client of clients) {
-      try {
-        client.controller.enqueue(encoded);
-      } catch {
-        clients.delete(client);
-      }
-    }
+    broadcast(
+      clients,
+      [{ topic: 'error', type: 'error', data: { message: errorMessage } }],
+      () => true,
+    );
   });
 
   console.log(`[events] File watcher started for ${ralphDir}`);
@@ -114,6 +226,15 @@ function getOrCreateWatcher(ralphDir: string): DirectoryWatcher {
     watcher,
     clients,
     ralphDir,
+    ticketsState: null,
+    // Record the starting point so the first change can be diffed
+    ticketsQueue: readTicketsState(ralphDir)
+      .then((state) => {
+        directoryWatcher.ticketsState = state;
+      })
+      .catch((error) =>
+        console.error('[events] Failed to read tickets.json:', error),
+      ),
   };
 
   watchers.set(ralphDir, directoryWatcher);
@@ -164,6 +285,117 @@ function getProcessIdsFromTopics(topics: Set<string>): string[] {
   return processIds;
 }
 
+/**
+ * Parse "id:seq,id:seq": the line each process's replay starts from,
+ * i.e. how many lines the client already has
+ */
+function parseResume(resumeParam: string | null): Map<string, number> {
+  const resume = new Map<string, number>();
+  for (const entry of resumeParam?.split(',') ?? []) {
+    const separator = entry.lastIndexOf(':');
+    const line = Number(entry.slice(separator + 1));
+    if (separator > 0 && Number.isInteger(line) && line >= 0) {
+      resume.set(entry.slice(0, separator), line);
+    }
+  }
+  return resume;
+}
+
+/**
+ * Resume the process of an output event id ("{processId}:{seq}") after
+ * that line, unless `resume` already says where to start
+ */
+function addLastEventId(
+  resume: Map<string, number>,
+  lastEventId: string | null,
+): void {
+  const separator = lastEventId?.lastIndexOf(':') ?? -1;
+  if (!lastEventId || separator <= 0) return;
+  const processId = lastEventId.slice(0, separator);
+  const seq = Number(lastEventId.slice(separator + 1));
+  if (Number.isInteger(seq) && seq >= 0 && !resume.has(processId)) {
+    resume.set(processId, seq + 1);
+  }
+}
+
+/**
+ * Replay a process's output from line `from`, then follow it live.
+ * Replayed lines come from the run's output log, then from the runner's
+ * buffer for lines not yet saved. Live lines are matched up by seq so
+ * none are sent twice.
+ */
+async function streamProcess({
+  send,
+  runner,
+  ralphDir,
+  processId,
+  from,
+  unsubscribers,
+  isClosed,
+}: {
+  send: (message: EventMessage) => void;
+  runner: ProcessRunner;
+  ralphDir: string;
+  processId: string;
+  from: number;
+  unsubscribers: Array<() => void>;
+  isClosed: () => boolean;
+}): Promise<void> {
+  const topic = `process:${processId}`;
+  const sendLine = (line: ProcessOutputLine) =>
+    send({
+      topic,
+      type: 'output',
+      data: line,
+      id: `${processId}:${line.seq}`,
+    });
+
+  let next = from;
+  let replaying = true;
+  const pending: ProcessOutputLine[] = [];
+
+  unsubscribers.push(
+    runner.onOutput(processId, (line) => {
+      if (replaying) {
+        pending.push(line);
+      } else if (line.seq >= next) {
+        next = line.seq + 1;
+        sendLine(line);
+      }
+    }),
+  );
+
+  send({ topic, type: 'replay-start', data: { from } });
+
+  // Read the log a page at a time so long runs aren't loaded at once
+  while (!isClosed()) {
+    const page = await readOutputRange(ralphDir, processId, {
+      from: next,
+      to: next + REPLAY_PAGE_LINES,
+    });
+    if (isErr(page) || page.value.lines.length === 0) break;
+    page.value.lines.forEach(sendLine);
+    next = page.value.to;
+  }
+
+  for (const line of pending) {
+    if (line.seq >= next) {
+      next = line.seq + 1;
+      sendLine(line);
+    }
+  }
+  replaying = false;
+
+  send({ topic, type: 'replay-end', data: { from, to: next } });
+
+  if (isClosed()) return;
+  unsubscribers.push(
+    runner.onExit(processId, (code) =>
+      send({ topic, type: 'exit', data: { code } }),
+    ),
+  );
+}
+
 export async function GET(request: Request): Promise<Response> {
   const url = new URL(request.url);
   const projectParam = url.searchParams.get('project');
@@ -172,6 +404,11 @@ export async function GET(request: Request): Promise<Response> {
   const ralphDir = projectParam ?? getRalphDir();
   const topics = parseTopics(topicsParam);
   const processIds = getProcessIdsFromTopics(topics);
+  const resume = parseResume(url.searchParams.get('resume'));
+  addLastEventId(
+    resume,
+    request.headers.get('last-event-id') ?? url.searchParams.get('lastEventId'),
+  );
 
   const watchTickets = topics.has('tickets');
   const watchProgress = topics.has('progress');
@@ -180,15 +417,24 @@ export async function GET(request: Request): Promise<Response> {
   const runner = getRunner();
 
   const unsubscribers: Array<() => void> = [];
-  let clientRecord: {
-    controller: ReadableStreamDefaultController<Uint8Array>;
-    watchTickets: boolean;
-    watchProgress: boolean;
-  } | null = null;
+  let clientRecord: WatcherClient | null = null;
   let directoryWatcher: DirectoryWatcher | null = null;
 
+  // Detached processes started before a server restart
+  await runner.adopt(ralphDir);
+
+  let closed = false;
+
   const stream = new ReadableStream<Uint8Array>({
-    start(controller) {
+    async start(controller) {
+      const send = (message: EventMessage) => {
+        try {
+          controller.enqueue(encoder.encode(formatSSE(message)));
+        } catch {
+          // Controller closed
+        }
+      };
+
       const connectMessage = formatSSE({
         topic: 'system',
         type: 'connected',
@@ -214,78 +460,27 @@ export async function GET(request: Request): Promise<Response> {
         const status = runner.getStatus(processId);
 
         if (status.state === 'not_found') {
-          const errorMessage = formatSSE({
+          send({
             topic: `process:${processId}`,
             type: 'error',
             data: { message: 'Process not found' },
           });
-          controller.enqueue(encoder.encode(errorMessage));
           continue;
         }
 
-        const bufferedOutput = runner.getOutput(processId);
-        if (bufferedOutput.length > 0) {
-          const replayStartMessage = formatSSE({
-            topic: `process:${processId}`,
-            type: 'replay-start',
-            data: { count: bufferedOutput.length },
-          });
-          controller.enqueue(encoder.encode(replayStartMessage));
-
-          for (const line of bufferedOutput) {
-            const outputMessage = formatSSE({
-              topic: `process:${processId}`,
-              type: 'output',
-              data: line,
-            });
-            controller.enqueue(encoder.encode(outputMessage));
-          }
-
-          const replayEndMessage = formatSSE({
-            topic: `process:${processId}`,
-            type: 'replay-end',
-            data: { count: bufferedOutput.length },
-          });
-          controller.enqueue(encoder.encode(replayEndMessage));
-        }
-
-        const seenTimestamps = new Set(bufferedOutput.map((l) => l.timestamp));
-        const unsubOutput = runner.onOutput(
+        await streamProcess({
+          send,
+          runner,
+          ralphDir,
           processId,
-          (line: ProcessOutputLine) => {
-            if (seenTimestamps.has(line.timestamp)) {
-              return;
-            }
-            try {
-              const outputMessage = formatSSE({
-                topic: `process:${processId}`,
-                type: 'output',
-                data: line,
-              });
-              controller.enqueue(encoder.encode(outputMessage));
-            } catch {
-              // Controller closed
-            }
-          },
-        );
-        unsubscribers.push(unsubOutput);
-
-        const unsubExit = runner.onExit(processId, (code: number | null) => {
-          try {
-            const exitMessage = formatSSE({
-              topic: `process:${processId}`,
-              type: 'exit',
-              data: { code },
-            });
-            controller.enqueue(encoder.encode(exitMessage));
-          } catch {
-            // Controller closed
-          }
+          from: resume.get(processId) ?? 0,
+          unsubscribers,
+          isClosed: () => closed,
         });
-        unsubscribers.push(unsubExit);
       }
     },
     cancel() {
+      closed = true;
       for (const unsub of unsubscribers) {
         unsub();
       }
@@ -0,0 +1,121 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { trpc } from '@/lib/trpc';
+import { TicketGraph } from '@/components/TicketGraph';
+import { TicketFilter } from '@/components/TicketFilter';
+import { filterTicketsByStatus, type TicketStatus } from '@/lib/ticket-filter';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
+import { ConnectionStatusIndicator } from '@/components/ConnectionStatus';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { useProjectPath } from '@/components/providers/TRPCProvider';
+import { deriveProjectName } from '@/lib/recent-projects';
+import { encodeProjectPath } from '@/lib/project-path';
+import { getNextTicket } from '@/lib/ticket-dependencies';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+function Header() {
+  const projectPath = useProjectPath();
+  const projectName = deriveProjectName(projectPath);
+
+  return (
+    <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+      <div className="flex h-14 items-center gap-4 px-4 lg:px-6">
+        <Link href={`/project/${encodeProjectPath(projectPath)}`}>
+          <Button variant="ghost" size="sm" className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            <span className="hidden sm:inline">Back to Tickets</span>
+          </Button>
+        </Link>
+        <div className="flex flex-1 items-center gap-2">
+          <div className="flex flex-col">
+            <span className="text-sm font-medium">{projectName}</span>
+            <span className="text-xs text-muted-foreground truncate max-w-[300px]">
+              Dependency Graph
+            </span>
+          </div>
+        </div>
+        <ThemeToggle />
+        <ConnectionStatusIndicator />
+      </div>
+    </header>
+  );
+}
+
+function GraphPageContent() {
+  const router = useRouter();
+  const projectPath = useProjectPath();
+  const [statusFilter, setStatusFilter] = useState<TicketStatus>('incomplete');
+  const { data, isLoading, error } = trpc.tickets.list.useQuery();
+  const statuses = useTicketStatuses();
+
+  const tickets = data?.tickets ?? [];
+  const nextTicket = getNextTicket(tickets, statuses);
+  const visibleTickets = filterTicketsByStatus(tickets, statusFilter, statuses);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center p-8 text-muted-foreground">
+          Loading tickets...
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="flex items-center justify-center p-8 text-destructive">
+          Error loading tickets: {error.message}
+        </div>
+      );
+    }
+
+    return (
+      <TicketGraph
+        tickets={visibleTickets}
+        nextTicketId={nextTicket?.id ?? null}
+        onTicketSelect={(ticket) =>
+          router.push(
+            `/project/${encodeProjectPath(projectPath)}?ticket=${ticket.id}`,
+          )
+        }
+      />
+    );
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Header />
+      <main className="flex flex-1 flex-col gap-4 overflow-hidden p-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <TicketFilter value={statusFilter} onChange={setStatusFilter} />
+          <span className="text-sm text-muted-foreground">
+            {nextTicket
+              ? `Next up: #${nextTicket.id} ${nextTicket.title}`
+              : 'No pending tickets ready to run'}
+          </span>
+        </div>
+        <div className="flex-1 overflow-auto rounded-md border bg-muted/20">
+          {renderContent()}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default function GraphPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center">
+          Loading...
+        </div>
+      }
+    >
+      <GraphPageContent />
+    </Suspense>
+  );
+}
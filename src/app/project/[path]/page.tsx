@@ -4,18 +4,36 @@ import { useState, Suspense } from 'react';
 import { trpc } from '@/lib/trpc';
 import type { Ticket } from '@/lib/schemas';
 import { TicketList } from '@/components/TicketList';
-import { TicketFilter, type TicketStatus } from '@/components/TicketFilter';
+import {
+  TicketFilter,
+  LabelFilter,
+  TicketSortSelect,
+} from '@/components/TicketFilter';
+import { TicketDatesDetail } from '@/components/TicketDates';
+import { TicketProblemsBanner } from '@/components/TicketProblemsBanner';
 import { QuickAddBar } from '@/components/QuickAddBar';
 import { DescriptionViewer } from '@/components/DescriptionViewer';
+import { TicketCommits } from '@/components/TicketCommits';
+import { TicketComments } from '@/components/TicketComments';
 import { EditTicketForm } from '@/components/EditTicketForm';
 import { DeleteTicketButton } from '@/components/DeleteTicketButton';
+import { DependencyBadges } from '@/components/DependencyPicker';
+import { LabelBadges } from '@/components/LabelPicker';
+import { BreakDownButton, SubticketBadges } from '@/components/BreakDownDialog';
+import { TicketHistory } from '@/components/TicketHistory';
+import { AcceptanceCriteriaChecklist } from '@/components/AcceptanceCriteria';
 import { ConnectionStatusIndicator } from '@/components/ConnectionStatus';
 import { RalphSidePanel } from '@/components/RalphSidePanel';
+import { CommandPalette } from '@/components/CommandPalette';
+import { ImportTicketsDialog } from '@/components/ImportTicketsDialog';
+import { ExportTicketsButton } from '@/components/ExportTicketsButton';
 import { MobileLayout } from '@/components/MobileLayout';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { useProjectPath } from '@/components/providers/TRPCProvider';
 import { useIsMobile } from '@/hooks/use-media-query';
 import { useSelectedTicket } from '@/hooks/use-selected-ticket';
+import { useTicketFilter } from '@/hooks/use-ticket-filter';
+import { collectLabels } from '@/lib/ticket-labels';
 import { useResizablePanel } from '@/hooks/use-resizable-panel';
 import { ResizableHandle } from '@/components/ResizableHandle';
 import { deriveProjectName } from '@/lib/recent-projects';
@@ -32,13 +50,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
-import { FileText, Copy, Sparkles } from 'lucide-react';
+import { FileText, Copy, Sparkles, Network } from 'lucide-react';
 import Link from 'next/link';
 import {
   RightTerminalPane,
   TerminalToggleButton,
   useTerminalWidth,
 } from '@/components/RightTerminalPane';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
 
 const TICKET_SIDEBAR_CONFIG = {
   storageKey: 'ralph-ticket-sidebar-width',
@@ -68,12 +87,21 @@ function Header() {
             </span>
           </div>
         </div>
+        <CommandPalette />
+        <ImportTicketsDialog />
+        <ExportTicketsButton />
         <Link href={`/project/${encodeProjectPath(projectPath)}/progress`}>
           <Button variant="ghost" size="sm" className="gap-2">
             <FileText className="h-4 w-4" />
             <span className="hidden sm:inline">Progress Log</span>
           </Button>
         </Link>
+        <Link href={`/project/${encodeProjectPath(projectPath)}/graph`}>
+          <Button variant="ghost" size="sm" className="gap-2">
+            <Network className="h-4 w-4" />
+            <span className="hidden sm:inline">Graph</span>
+          </Button>
+        </Link>
         <TerminalToggleButton />
         <ThemeToggle />
         <ConnectionStatusIndicator />
@@ -97,6 +125,7 @@ function DetailPanel({
   onTicketDeleted,
 }: DetailPanelProps) {
   const [isEditing, setIsEditing] = useState(false);
+  const statuses = useTicketStatuses();
   const { toast } = useToast();
 
   const handleEditSuccess = () => {
@@ -175,7 +204,7 @@ function DetailPanel({
                 variant="outline"
                 className={cn(
                   'shrink-0 capitalize',
-                  getStatusBadgeClass(ticket.status),
+                  getStatusBadgeClass(ticket.status, statuses),
                 )}
               >
                 {formatStatus(ticket.status)}
@@ -198,6 +227,7 @@ function DetailPanel({
               >
                 <Sparkles className="h-4 w-4" />
               </Button>
+              <BreakDownButton ticket={ticket} />
               <Button
                 variant="outline"
                 size="sm"
@@ -214,12 +244,32 @@ function DetailPanel({
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          <TicketDatesDetail ticket={ticket} />
           {ticket.priority !== undefined && (
             <div className="flex items-center gap-2 text-sm">
               <span className="font-medium">Priority:</span>
               <span className="text-muted-foreground">{ticket.priority}</span>
             </div>
           )}
+          {ticket.labels && ticket.labels.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Labels:</span>
+              <LabelBadges labels={ticket.labels} />
+            </div>
+          )}
+          {ticket.dependsOn && ticket.dependsOn.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Depends on:</span>
+              <DependencyBadges dependsOn={ticket.dependsOn} />
+            </div>
+          )}
+          {ticket.parentId !== undefined && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Split from:</span>
+              <DependencyBadges dependsOn={[ticket.parentId]} />
+            </div>
+          )}
+          <SubticketBadges parentId={ticket.id} />
           {ticket.description && (
             <div className="space-y-2">
               <span className="text-sm font-medium">Description:</span>
@@ -229,6 +279,26 @@ function DetailPanel({
               />
             </div>
           )}
+          <TicketComments
+            ticketId={ticket.id}
+            comments={ticket.comments ?? []}
+          />
+          {ticket.acceptanceCriteria &&
+            ticket.acceptanceCriteria.length > 0 && (
+              <div className="space-y-2">
+                <span className="text-sm font-medium">
+                  Acceptance criteria (
+                  {ticket.acceptanceCriteria.filter((c) => c.done).length}/
+                  {ticket.acceptanceCriteria.length}):
+                </span>
+                <AcceptanceCriteriaChecklist
+                  ticketId={ticket.id}
+                  criteria={ticket.acceptanceCriteria}
+                />
+              </div>
+            )}
+          <TicketCommits ticketId={ticket.id} />
+          <TicketHistory ticketId={ticket.id} />
         </CardContent>
       </Card>
     </div>
@@ -280,14 +350,21 @@ function DesktopProjectContent() {
   const [desktopTab, setDesktopTab] = useState<'tickets' | 'details'>(
     'tickets',
   );
-  const [statusFilter, setStatusFilter] = useState<TicketStatus>('incomplete');
+  const {
+    status: statusFilter,
+    setStatus: setStatusFilter,
+    labels: labelFilter,
+    setLabels: setLabelFilter,
+    sort,
+    setSort,
+  } = useTicketFilter();
 
   const ticketSidebar = useResizablePanel(TICKET_SIDEBAR_CONFIG);
 
-  const { data: tickets } = trpc.tickets.list.useQuery();
+  const { data } = trpc.tickets.list.useQuery();
 
   const selectedTicket =
-    tickets?.find((t) => t.id === selectedTicketId) ?? null;
+    data?.tickets.find((t) => t.id === selectedTicketId) ?? null;
 
   const handleTicketSelect = (ticket: Ticket | null) => {
     setSelectedTicketId(ticket?.id ?? null);
@@ -315,14 +392,23 @@ function DesktopProjectContent() {
           <div className="mb-4">
             <QuickAddBar />
           </div>
-          <div className="mb-4">
+          <div className="mb-4 flex flex-col gap-2">
+            <TicketProblemsBanner />
             <TicketFilter value={statusFilter} onChange={setStatusFilter} />
+            <LabelFilter
+              options={collectLabels(data?.tickets ?? [])}
+              value={labelFilter}
+              onChange={setLabelFilter}
+            />
+            <TicketSortSelect value={sort} onChange={setSort} />
           </div>
           <ScrollArea className="flex-1 lg:h-[calc(100vh-11rem)]">
             <TicketList
               onTicketSelect={handleTicketSelect}
               selectedTicketId={selectedTicketId}
               statusFilter={statusFilter}
+              labelFilter={labelFilter}
+              sort={sort}
             />
           </ScrollArea>
         </div>
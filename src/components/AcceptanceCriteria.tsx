@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import type { AcceptanceCriterion } from '@/lib/schemas';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useTicketsRevision } from '@/hooks/use-tickets-revision';
+import { createHistoryId } from '@/lib/ticket-history';
+import { cn } from '@/lib/utils';
+
+export interface AcceptanceCriteriaEditorProps {
+  id?: string;
+  value: AcceptanceCriterion[];
+  onChange: (criteria: AcceptanceCriterion[]) => void;
+}
+
+/**
+ * Editable list of acceptance criteria for the ticket forms
+ */
+export function AcceptanceCriteriaEditor({
+  id,
+  value,
+  onChange,
+}: AcceptanceCriteriaEditorProps) {
+  const [draft, setDraft] = useState('');
+
+  const update = (index: number, changes: Partial<AcceptanceCriterion>) => {
+    onChange(value.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+  };
+
+  const add = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onChange([...value, { text, done: false }]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {value.map((criterion, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={criterion.done}
+            onChange={(e) => update(index, { done: e.target.checked })}
+            aria-label={`Mark "${criterion.text}" as met`}
+            className="h-4 w-4 shrink-0 accent-primary"
+          />
+          <Input
+            value={criterion.text}
+            onChange={(e) => update(index, { text: e.target.value })}
+            className="h-8"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            aria-label={`Remove "${criterion.text}"`}
+          >
+            <X />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              // Add the criterion instead of submitting the form
+              e.preventDefault();
+              add();
+            }
+          }}
+          placeholder="Add a criterion and press Enter"
+          className="h-8"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={add}
+          disabled={!draft.trim()}
+          aria-label="Add criterion"
+        >
+          <Plus />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Drop blank criteria and trim the rest before saving
+ */
+export function cleanAcceptanceCriteria(
+  criteria: AcceptanceCriterion[],
+): AcceptanceCriterion[] {
+  return criteria
+    .map((c) => ({ ...c, text: c.text.trim() }))
+    .filter((c) => c.text.length > 0);
+}
+
+export interface AcceptanceCriteriaChecklistProps {
+  ticketId: number;
+  criteria: AcceptanceCriterion[];
+}
+
+/**
+ * Checklist of a ticket's acceptance criteria; ticking one saves it
+ */
+export function AcceptanceCriteriaChecklist({
+  ticketId,
+  criteria,
+}: AcceptanceCriteriaChecklistProps) {
+  const { toast } = useToast();
+  const utils = trpc.useUtils();
+  const getRevision = useTicketsRevision();
+
+  const updateMutation = trpc.tickets.update.useMutation({
+    onSuccess: () => {
+      utils.tickets.list.invalidate();
+    },
+    onError: (error) => {
+      utils.tickets.list.invalidate();
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update criterion',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggle = async (index: number) => {
+    updateMutation.mutate({
+      id: ticketId,
+      data: {
+        acceptanceCriteria: criteria.map((c, i) =>
+          i === index ? { ...c, done: !c.done } : c,
+        ),
+      },
+      revision: await getRevision(),
+      historyId: createHistoryId(),
+    });
+  };
+
+  return (
+    <ul className="space-y-1">
+      {criteria.map((criterion, index) => (
+        <li key={index}>
+          <label className="flex cursor-pointer items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={criterion.done}
+              onChange={() => toggle(index)}
+              disabled={updateMutation.isPending}
+              className="mt-0.5 h-4 w-4 shrink-0 accent-primary"
+            />
+            <span
+              className={cn(
+                criterion.done && 'text-muted-foreground line-through',
+              )}
+            >
+              {criterion.text}
+            </span>
+          </label>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -2,10 +2,21 @@
 
 import { useState } from 'react';
 import { trpc } from '@/lib/trpc';
+import type { AcceptanceCriterion } from '@/lib/schemas';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
+import { useTicketsRevision } from '@/hooks/use-tickets-revision';
+import { UndoToastAction } from '@/components/UndoToastAction';
+import { createHistoryId } from '@/lib/ticket-history';
+import { applyTicketTemplate } from '@/lib/ticket-templates';
+import { DependencyPicker } from '@/components/DependencyPicker';
+import { LabelPicker } from '@/components/LabelPicker';
+import {
+  AcceptanceCriteriaEditor,
+  cleanAcceptanceCriteria,
+} from '@/components/AcceptanceCriteria';
 
 export interface AddTicketFormProps {
   onSuccess?: () => void;
@@ -22,24 +33,59 @@ export function AddTicketForm({
   const [description, setDescription] = useState('');
   const [priority, setPriority] = useState<number>(1);
   const [status, setStatus] = useState<'draft' | 'pending'>(defaultStatus);
+  const [dependsOn, setDependsOn] = useState<number[]>([]);
+  const [labels, setLabels] = useState<string[]>([]);
+  const [acceptanceCriteria, setAcceptanceCriteria] = useState<
+    AcceptanceCriterion[]
+  >([]);
+
+  const [templateName, setTemplateName] = useState('');
 
   const { toast } = useToast();
   const utils = trpc.useUtils();
+  const getRevision = useTicketsRevision();
+
+  const configQuery = trpc.config.get.useQuery();
+  const templates = configQuery.data?.ticketTemplates ?? [];
+
+  const handleTemplateChange = (name: string) => {
+    const findTemplate = (n: string) =>
+      templates.find((t) => t.name === n) ?? null;
+    const draft = applyTicketTemplate(
+      { title, description, priority, labels, status },
+      findTemplate(name),
+      findTemplate(templateName),
+    );
+    setTemplateName(name);
+    setTitle(draft.title);
+    setDescription(draft.description);
+    setPriority(draft.priority);
+    setLabels(draft.labels);
+    setStatus(draft.status);
+  };
 
   const createMutation = trpc.tickets.create.useMutation({
-    onSuccess: (ticket) => {
+    onSuccess: (ticket, { historyId }) => {
       setTitle('');
       setDescription('');
       setPriority(1);
       setStatus(defaultStatus);
+      setDependsOn([]);
+      setAcceptanceCriteria([]);
+      setLabels([]);
+      setTemplateName('');
       utils.tickets.list.invalidate();
       toast({
         title: ticket.status === 'draft' ? 'Draft created' : 'Ticket created',
         description: `"${ticket.title}" added as ${ticket.status}`,
+        action: historyId ? (
+          <UndoToastAction historyId={historyId} />
+        ) : undefined,
       });
       onSuccess?.();
     },
     onError: (error) => {
+      utils.tickets.list.invalidate();
       toast({
         title: 'Error',
         description: error.message || 'Failed to create ticket',
@@ -48,7 +94,7 @@ export function AddTicketForm({
     },
   });
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!title.trim()) {
@@ -60,16 +106,43 @@ export function AddTicketForm({
       return;
     }
 
+    const criteria = cleanAcceptanceCriteria(acceptanceCriteria);
     createMutation.mutate({
       title: title.trim(),
       description: description.trim() || undefined,
       priority,
       status,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+      acceptanceCriteria: criteria.length > 0 ? criteria : undefined,
+      labels: labels.length > 0 ? labels : undefined,
+      revision: await getRevision(),
+      historyId: createHistoryId(),
     });
   };
 
   return (
     <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      {templates.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <label htmlFor="template" className="text-sm font-medium">
+            Template
+          </label>
+          <select
+            id="template"
+            value={templateName}
+            onChange={(e) => handleTemplateChange(e.target.value)}
+            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <option value="">No template</option>
+            {templates.map((t) => (
+              <option key={t.name} value={t.name}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <div className="flex flex-col gap-2">
         <label htmlFor="title" className="text-sm font-medium">
           Title <span className="text-destructive">*</span>
@@ -96,6 +169,17 @@ export function AddTicketForm({
         />
       </div>
 
+      <div className="flex flex-col gap-2">
+        <label htmlFor="acceptance-criteria" className="text-sm font-medium">
+          Acceptance criteria
+        </label>
+        <AcceptanceCriteriaEditor
+          id="acceptance-criteria"
+          value={acceptanceCriteria}
+          onChange={setAcceptanceCriteria}
+        />
+      </div>
+
       <div className="flex flex-col gap-2">
         <label htmlFor="priority" className="text-sm font-medium">
           Priority
@@ -113,6 +197,27 @@ export function AddTicketForm({
         </p>
       </div>
 
+      <div className="flex flex-col gap-2">
+        <label htmlFor="depends-on" className="text-sm font-medium">
+          Depends on
+        </label>
+        <DependencyPicker
+          id="depends-on"
+          value={dependsOn}
+          onChange={setDependsOn}
+        />
+        <p className="text-xs text-muted-foreground">
+          Ralph should finish these tickets first
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label htmlFor="labels" className="text-sm font-medium">
+          Labels
+        </label>
+        <LabelPicker id="labels" value={labels} onChange={setLabels} />
+      </div>
+
       <div className="flex flex-col gap-2">
         <label className="text-sm font-medium">Status</label>
         <div className="flex gap-4">
@@ -0,0 +1,302 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { RotateCcw, Split } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import type { Ticket } from '@/lib/schemas';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DependencyBadges } from '@/components/DependencyPicker';
+import { useProjectPath } from '@/components/providers/TRPCProvider';
+import { useTerminal } from '@/hooks/use-terminal';
+import { useToast } from '@/hooks/use-toast';
+import { useTicketsRevision } from '@/hooks/use-tickets-revision';
+import { isOk } from '@/lib/result';
+import { createHistoryId } from '@/lib/ticket-history';
+import { formatTicketForClipboard } from '@/lib/ticket-ui';
+import {
+  BREAKDOWN_PROMPT,
+  parseSubtickets,
+  stripAnsi,
+  toCreateTicket,
+} from '@/lib/ticket-breakdown';
+import { cn } from '@/lib/utils';
+
+const TERMINAL_WS_PORT = 3001;
+
+/**
+ * Tickets split out of the given ticket
+ */
+export function SubticketBadges({ parentId }: { parentId: number }) {
+  const { data } = trpc.tickets.list.useQuery();
+  const childIds = (data?.tickets ?? [])
+    .filter((t) => t.parentId === parentId)
+    .map((t) => t.id);
+
+  if (childIds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium">Subtasks:</span>
+      <DependencyBadges dependsOn={childIds} />
+    </div>
+  );
+}
+
+interface BreakDownSessionProps {
+  ticket: Ticket;
+  onCreated: () => void;
+}
+
+/**
+ * Runs the decomposition prompt in a terminal session and reviews the
+ * subtickets from the reply before creating them
+ */
+function BreakDownSession({ ticket, onCreated }: BreakDownSessionProps) {
+  const projectPath = useProjectPath();
+  const { toast } = useToast();
+  const utils = trpc.useUtils();
+  const getRevision = useTicketsRevision();
+  const [reply, setReply] = useState('');
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [isCreating, setIsCreating] = useState(false);
+
+  const wsUrl =
+    typeof window !== 'undefined'
+      ? `ws://${window.location.hostname}:${TERMINAL_WS_PORT}`
+      : '';
+
+  const { status, exitCode, connect, disconnect } = useTerminal({
+    wsUrl,
+    cwd: projectPath,
+    context: formatTicketForClipboard(ticket) + BREAKDOWN_PROMPT,
+    label: `Break down #${ticket.id}`,
+    onOutput: (data) => setReply((prev) => prev + stripAnsi(data)),
+    onError: (message) =>
+      toast({
+        title: 'Terminal error',
+        description: message,
+        variant: 'destructive',
+      }),
+  });
+
+  // Run the prompt once per dialog; the ticket is captured at open time, so
+  // later edits to it change connect without starting another session
+  const connectRef = useRef(connect);
+  useEffect(() => {
+    connectRef.current = connect;
+  }, [connect]);
+
+  useEffect(() => {
+    connectRef.current();
+    return disconnect;
+  }, [disconnect]);
+
+  const createMutation = trpc.tickets.create.useMutation();
+
+  const parsed = useMemo(() => parseSubtickets(reply), [reply]);
+  const subtickets = isOk(parsed) ? parsed.value : [];
+  const selected = subtickets.filter((_, index) => !excluded.has(index));
+  const isRunning = status === 'connecting' || status === 'connected';
+  const hasExited = exitCode !== null;
+
+  const toggle = (index: number) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(index)) {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleRunAgain = () => {
+    setReply('');
+    setExcluded(new Set());
+    connect();
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    let created = 0;
+    try {
+      // One at a time so each create sees the previous one's ID, and is
+      // based on the revision the previous one wrote
+      let revision = await getRevision();
+      for (const subticket of selected) {
+        await createMutation.mutateAsync({
+          ...toCreateTicket(subticket, ticket.id),
+          revision,
+          historyId: createHistoryId(),
+        });
+        created++;
+        await utils.tickets.list.invalidate();
+        revision = (await utils.tickets.list.fetch()).revision;
+      }
+      toast({
+        title: 'Subtickets created',
+        description: `Split #${ticket.id} into ${created} tickets`,
+      });
+      onCreated();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Created ${created} of ${selected.length} subtickets: ${
+          error instanceof Error ? error.message : 'Failed to create ticket'
+        }`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCreating(false);
+      utils.tickets.list.invalidate();
+    }
+  };
+
+  const getStatusText = () => {
+    if (status === 'error') return 'Could not reach the terminal server';
+    if (hasExited) return `Claude finished (exit code ${exitCode})`;
+    if (status === 'connecting') return 'Starting Claude...';
+    if (status === 'connected') return 'Claude is thinking...';
+    return 'Disconnected';
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span
+          className={cn(
+            'text-muted-foreground',
+            isRunning && !hasExited && 'animate-pulse',
+            status === 'error' && 'text-destructive',
+          )}
+        >
+          {getStatusText()}
+        </span>
+        {!isRunning && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={handleRunAgain}
+          >
+            <RotateCcw className="mr-1 h-3 w-3" />
+            Run again
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label htmlFor="breakdown-reply" className="text-sm font-medium">
+          Reply
+        </label>
+        <Textarea
+          id="breakdown-reply"
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          placeholder="Claude's JSON reply appears here. You can also paste or edit it."
+          rows={6}
+          className="font-mono text-xs"
+        />
+        {reply.trim() && !isOk(parsed) && !isRunning && (
+          <p className="text-sm text-destructive">{parsed.error}</p>
+        )}
+      </div>
+
+      {subtickets.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-medium">
+            Subtickets ({selected.length} of {subtickets.length} selected)
+          </span>
+          <ul className="flex max-h-64 flex-col gap-2 overflow-y-auto">
+            {subtickets.map((subticket, index) => (
+              <li key={index} className="rounded-md border p-2">
+                <label className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!excluded.has(index)}
+                    onChange={() => toggle(index)}
+                    className="mt-0.5 h-4 w-4 shrink-0 accent-primary"
+                  />
+                  <span className="flex flex-col gap-1">
+                    <span className="font-medium">{subticket.title}</span>
+                    {subticket.description && (
+                      <span className="line-clamp-2 text-xs text-muted-foreground">
+                        {subticket.description}
+                      </span>
+                    )}
+                    {subticket.acceptanceCriteria?.length ? (
+                      <span className="text-xs text-muted-foreground">
+                        {subticket.acceptanceCriteria.length} acceptance
+                        criteria
+                      </span>
+                    ) : null}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button
+          onClick={handleCreate}
+          disabled={selected.length === 0 || isCreating}
+        >
+          {isCreating
+            ? 'Creating...'
+            : `Create ${selected.length} subticket${selected.length === 1 ? '' : 's'}`}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+/**
+ * "Break down" button: asks Claude to split a ticket into subtickets linked
+ * to it via parentId
+ */
+export function BreakDownButton({ ticket }: { ticket: Ticket }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => setOpen(true)}
+        title="Break down into subtickets with Claude"
+      >
+        <Split className="h-4 w-4" />
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Break down #{ticket.id}</DialogTitle>
+            <DialogDescription>
+              Claude suggests subtickets for &quot;{ticket.title}&quot;. Review
+              them before they are added to the queue.
+            </DialogDescription>
+          </DialogHeader>
+          {open && (
+            <BreakDownSession
+              ticket={ticket}
+              onCreated={() => setOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
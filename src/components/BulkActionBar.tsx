@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import type { BulkUpdateTicket } from '@/lib/schemas';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useTicketsRevision } from '@/hooks/use-tickets-revision';
+import { UndoToastAction } from '@/components/UndoToastAction';
+import { createHistoryId } from '@/lib/ticket-history';
+
+export interface BulkActionBarProps {
+  selectedIds: number[];
+  onClear: () => void;
+}
+
+function formatIdList(ids: number[]): string {
+  return ids.map((id) => `#${id}`).join(', ');
+}
+
+/**
+ * Actions applied to every selected ticket in a single tickets.json write
+ */
+export function BulkActionBar({ selectedIds, onClear }: BulkActionBarProps) {
+  const [priority, setPriority] = useState('');
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const { toast } = useToast();
+  const utils = trpc.useUtils();
+  const getRevision = useTicketsRevision();
+  const statuses = useTicketStatuses();
+  const count = selectedIds.length;
+  const noun = count === 1 ? 'ticket' : 'tickets';
+
+  const bulkUpdateMutation = trpc.tickets.bulkUpdate.useMutation({
+    onSuccess: (updated, { historyId }) => {
+      utils.tickets.list.invalidate();
+      toast({
+        title: 'Tickets updated',
+        description: `Updated ${updated.length} ${updated.length === 1 ? 'ticket' : 'tickets'}.`,
+        action: historyId ? (
+          <UndoToastAction historyId={historyId} />
+        ) : undefined,
+      });
+      setPriority('');
+    },
+    onError: (error) => {
+      utils.tickets.list.invalidate();
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update tickets',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const bulkDeleteMutation = trpc.tickets.bulkDelete.useMutation({
+    onSuccess: ({ ids }, { historyId }) => {
+      utils.tickets.list.invalidate();
+      toast({
+        title: 'Tickets deleted',
+        description: `Removed ${formatIdList(ids)}.`,
+        action: historyId ? (
+          <UndoToastAction historyId={historyId} />
+        ) : undefined,
+      });
+      setDeleteOpen(false);
+      onClear();
+    },
+    onError: (error) => {
+      utils.tickets.list.invalidate();
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete tickets',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const isPending =
+    bulkUpdateMutation.isPending || bulkDeleteMutation.isPending;
+
+  const applyUpdate = async (data: BulkUpdateTicket) => {
+    bulkUpdateMutation.mutate({
+      ids: selectedIds,
+      data,
+      revision: await getRevision(),
+      historyId: createHistoryId(),
+    });
+  };
+
+  const handlePrioritySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseInt(priority, 10);
+    if (Number.isNaN(value)) return;
+    applyUpdate({ priority: value });
+  };
+
+  const handleDelete = async () => {
+    bulkDeleteMutation.mutate({
+      ids: selectedIds,
+      revision: await getRevision(),
+      historyId: createHistoryId(),
+    });
+  };
+
+  return (
+    <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 rounded-lg border bg-background p-2 shadow-sm">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={onClear}
+        aria-label="Clear selection"
+      >
+        <X />
+      </Button>
+      <span className="text-sm font-medium">
+        {count} {noun} selected
+      </span>
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Set status"
+          value=""
+          onChange={(e) => applyUpdate({ status: e.target.value })}
+          disabled={isPending}
+          className="h-8 rounded-md border border-input bg-transparent px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <option value="" disabled>
+            Set status...
+          </option>
+          {statuses.map((s) => (
+            <option key={s.name} value={s.name}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        <form
+          onSubmit={handlePrioritySubmit}
+          className="flex items-center gap-1"
+        >
+          <Input
+            type="number"
+            aria-label="Priority"
+            placeholder="Priority"
+            value={priority}
+            onChange={(e) => setPriority(e.target.value)}
+            disabled={isPending}
+            className="h-8 w-24"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            size="sm"
+            disabled={isPending || priority === ''}
+          >
+            Set
+          </Button>
+        </form>
+        <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" size="sm" disabled={isPending}>
+              Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                Delete {count} {noun}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                Are you sure you want to delete {formatIdList(selectedIds)}?
+                This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={bulkDeleteMutation.isPending}>
+                Cancel
+              </AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDelete}
+                disabled={bulkDeleteMutation.isPending}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                {bulkDeleteMutation.isPending ? 'Deleting...' : 'Delete'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { useRouter } from 'next/navigation';
+import { FileText, Network, Play, Search, Tag } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { Button } from '@/components/ui/button';
+import { DialogTitle } from '@/components/ui/dialog';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { UndoToastAction } from '@/components/UndoToastAction';
+import { useProjectPath } from '@/components/providers/TRPCProvider';
+import { useSelectedTicket } from '@/hooks/use-selected-ticket';
+import { requestCommandRun } from '@/hooks/use-command-requests';
+import { useToast } from '@/hooks/use-toast';
+import { useTicketsRevision } from '@/hooks/use-tickets-revision';
+import { encodeProjectPath } from '@/lib/project-path';
+import { getAvailableStatuses } from '@/lib/ticket-workflow';
+import { createHistoryId } from '@/lib/ticket-history';
+import {
+  getStatusBadgeClass,
+  formatStatus,
+  isConflictError,
+} from '@/lib/ticket-ui';
+import { cn } from '@/lib/utils';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
+
+function getShortcutSnapshot(): string {
+  if (typeof navigator === 'undefined') return 'Ctrl+K';
+  const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
+  return isMac ? '⌘K' : 'Ctrl+K';
+}
+
+function getShortcutServerSnapshot(): string {
+  return 'Ctrl+K';
+}
+
+function subscribeNoop(): () => void {
+  return () => {};
+}
+
+/**
+ * Ctrl/Cmd+K palette for finding tickets and running project actions.
+ * Tickets are fuzzy-matched on ID, title and description.
+ */
+export function CommandPalette() {
+  const [open, setOpen] = useState(false);
+  const router = useRouter();
+  const projectPath = useProjectPath();
+  const { selectedTicketId, setSelectedTicketId } = useSelectedTicket();
+  const { toast } = useToast();
+  const utils = trpc.useUtils();
+  const getRevision = useTicketsRevision();
+  const shortcut = useSyncExternalStore(
+    subscribeNoop,
+    getShortcutSnapshot,
+    getShortcutServerSnapshot,
+  );
+
+  const { data } = trpc.tickets.list.useQuery();
+  const tickets = [...(data?.tickets ?? [])].sort((a, b) => b.id - a.id);
+  const selectedTicket = tickets.find((t) => t.id === selectedTicketId);
+
+  const configQuery = trpc.config.get.useQuery();
+  const statuses = useTicketStatuses();
+  const commands = configQuery.data?.commands ?? [];
+
+  const updateMutation = trpc.tickets.update.useMutation({
+    onSuccess: (ticket, { historyId }) => {
+      utils.tickets.list.invalidate();
+      toast({
+        title: 'Ticket updated',
+        description: `#${ticket.id} is now ${formatStatus(ticket.status)}`,
+        action: historyId ? (
+          <UndoToastAction historyId={historyId} />
+        ) : undefined,
+      });
+    },
+    onError: (error) => {
+      if (isConflictError(error)) {
+        utils.tickets.list.invalidate();
+      }
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update ticket',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const setStatus = async (id: number, status: string) => {
+    try {
+      updateMutation.mutate({
+        id,
+        data: { status },
+        revision: await getRevision(),
+        historyId: createHistoryId(),
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          error instanceof Error ? error.message : 'Failed to update ticket',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const runAndClose = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const projectUrl = `/project/${encodeProjectPath(projectPath)}`;
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="gap-2"
+        onClick={() => setOpen(true)}
+        title={`Search tickets and actions (${shortcut})`}
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden sm:inline">Search</span>
+      </Button>
+      <CommandDialog open={open} onOpenChange={setOpen}>
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <CommandInput placeholder="Search tickets or type a command..." />
+        <CommandList className="max-h-[60vh]">
+          <CommandEmpty>No results found</CommandEmpty>
+
+          {selectedTicket && (
+            <CommandGroup heading={`Set status of #${selectedTicket.id}`}>
+              {getAvailableStatuses(statuses, selectedTicket.status)
+                .filter((status) => status.name !== selectedTicket.status)
+                .map((status) => (
+                  <CommandItem
+                    key={status.name}
+                    value={`Set status ${status.label}`}
+                    disabled={updateMutation.isPending}
+                    onSelect={() =>
+                      runAndClose(
+                        () => void setStatus(selectedTicket.id, status.name),
+                      )
+                    }
+                  >
+                    <Tag />
+                    <span>Mark as {status.label}</span>
+                  </CommandItem>
+                ))}
+            </CommandGroup>
+          )}
+
+          <CommandGroup heading="Actions">
+            {commands.map((command) => (
+              <CommandItem
+                key={command.cmd}
+                value={`Run ${command.label} ${command.cmd}`}
+                onSelect={() =>
+                  runAndClose(() => {
+                    if (!requestCommandRun(command)) {
+                      toast({
+                        title: 'Error',
+                        description: 'No run controls are available here',
+                        variant: 'destructive',
+                      });
+                    }
+                  })
+                }
+              >
+                <Play />
+                <span>Run: {command.label}</span>
+                <CommandShortcut className="tracking-normal font-mono">
+                  {command.cmd}
+                </CommandShortcut>
+              </CommandItem>
+            ))}
+            <CommandItem
+              value="Open progress log"
+              onSelect={() =>
+                runAndClose(() => router.push(`${projectUrl}/progress`))
+              }
+            >
+              <FileText />
+              <span>Open progress log</span>
+            </CommandItem>
+            <CommandItem
+              value="Open dependency graph"
+              onSelect={() =>
+                runAndClose(() => router.push(`${projectUrl}/graph`))
+              }
+            >
+              <Network />
+              <span>Open dependency graph</span>
+            </CommandItem>
+          </CommandGroup>
+
+          <CommandGroup heading="Tickets">
+            {tickets.map((ticket) => (
+              <CommandItem
+                key={ticket.id}
+                value={`#${ticket.id} ${ticket.title}`}
+                keywords={[ticket.description ?? '', ...(ticket.labels ?? [])]}
+                onSelect={() =>
+                  runAndClose(() => setSelectedTicketId(ticket.id))
+                }
+              >
+                <span className="flex-1 truncate">
+                  #{ticket.id}: {ticket.title}
+                </span>
+                <span
+                  className={cn(
+                    'rounded px-1.5 py-0.5 text-xs capitalize',
+                    getStatusBadgeClass(ticket.status, statuses),
+                  )}
+                >
+                  {formatStatus(ticket.status)}
+                </span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
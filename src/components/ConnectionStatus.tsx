@@ -7,9 +7,17 @@ import {
   type TicketStatusChange,
 } from '@/hooks/use-event-stream';
 import { useNotifications } from '@/hooks/use-notifications';
+import { highlightTicket } from '@/hooks/use-ticket-highlight';
 import { useProjectPath } from '@/components/providers/TRPCProvider';
 import { trpc } from '@/lib/trpc';
 import { cn } from '@/lib/utils';
+import {
+  applyTicketEvent,
+  canApplyTicketEvent,
+  type TicketEvent,
+} from '@/lib/ticket-events';
+import { withBlockedState } from '@/lib/ticket-dependencies';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
 
 function getStatusColor(status: ConnectionStatus): string {
   switch (status) {
@@ -60,6 +68,7 @@ export function ConnectionStatusIndicator({
   const { showNotification, permission, isSupported } = useNotifications();
   const projectPath = useProjectPath();
   const utils = trpc.useUtils();
+  const statuses = useTicketStatuses();
 
   const handleTicketsChange = useCallback(() => {
     void utils.tickets.list.invalidate();
@@ -69,9 +78,38 @@ export function ConnectionStatusIndicator({
     void utils.progress.read.invalidate();
   }, [utils.progress.read]);
 
-  const getTickets = useCallback(() => {
-    return utils.tickets.list.getData();
-  }, [utils.tickets.list]);
+  const handleTicketEvent = useCallback(
+    (event: TicketEvent) => {
+      const cached = utils.tickets.list.getData();
+      if (!cached || !canApplyTicketEvent(cached.revision, event)) {
+        // Our copy is from a different revision; patching it would be wrong
+        void utils.tickets.list.invalidate();
+        return;
+      }
+
+      utils.tickets.list.setData(undefined, {
+        tickets: withBlockedState(
+          applyTicketEvent(cached.tickets, event),
+          statuses,
+        ),
+        revision: event.data.revision,
+        problems: cached.problems,
+      });
+
+      if (event.type === 'ticket-added') {
+        highlightTicket(event.data.ticket.id);
+      } else if (event.type === 'ticket-field-changed') {
+        highlightTicket(event.data.ticketId);
+      }
+    },
+    [utils.tickets.list, statuses],
+  );
+
+  const handleReconnect = useCallback(() => {
+    // Changes made while disconnected were not sent
+    void utils.tickets.list.invalidate();
+    void utils.progress.read.invalidate();
+  }, [utils.tickets.list, utils.progress.read]);
 
   const handleTicketStatusChange = useCallback(
     (change: TicketStatusChange) => {
@@ -94,9 +132,10 @@ export function ConnectionStatusIndicator({
     project: projectPath,
     topics,
     onTicketsChange: handleTicketsChange,
+    onTicketEvent: handleTicketEvent,
     onProgressChange: handleProgressChange,
     onTicketStatusChange: handleTicketStatusChange,
-    getTickets,
+    onReconnect: handleReconnect,
   });
 
   const notificationIndicator = getNotificationIndicator(
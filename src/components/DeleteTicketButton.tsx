@@ -15,6 +15,9 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
+import { useTicketsRevision } from '@/hooks/use-tickets-revision';
+import { UndoToastAction } from '@/components/UndoToastAction';
+import { createHistoryId } from '@/lib/ticket-history';
 
 export interface DeleteTicketButtonProps {
   ticketId: number;
@@ -30,18 +33,23 @@ export function DeleteTicketButton({
   const [open, setOpen] = useState(false);
   const { toast } = useToast();
   const utils = trpc.useUtils();
+  const getRevision = useTicketsRevision();
 
   const deleteMutation = trpc.tickets.delete.useMutation({
-    onSuccess: () => {
+    onSuccess: (_result, { historyId }) => {
       utils.tickets.list.invalidate();
       toast({
         title: 'Ticket deleted',
         description: `Ticket #${ticketId} has been removed.`,
+        action: historyId ? (
+          <UndoToastAction historyId={historyId} />
+        ) : undefined,
       });
       setOpen(false);
       onSuccess?.();
     },
     onError: (error) => {
+      utils.tickets.list.invalidate();
       toast({
         title: 'Error',
         description: error.message || 'Failed to delete ticket',
@@ -50,8 +58,12 @@ export function DeleteTicketButton({
     },
   });
 
-  const handleDelete = () => {
-    deleteMutation.mutate({ id: ticketId });
+  const handleDelete = async () => {
+    deleteMutation.mutate({
+      id: ticketId,
+      revision: await getRevision(),
+      historyId: createHistoryId(),
+    });
   };
 
   return (
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Plus, X } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { cn } from '@/lib/utils';
+import { getStatusBadgeClass, formatStatus } from '@/lib/ticket-ui';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
+
+export interface DependencyPickerProps {
+  id?: string;
+  value: number[];
+  onChange: (dependsOn: number[]) => void;
+  /**
+   * Ticket being edited; excluded from the options
+   */
+  excludeId?: number;
+}
+
+/**
+ * Read-only list of a ticket's dependencies, coloured by their status.
+ */
+export function DependencyBadges({ dependsOn }: { dependsOn: number[] }) {
+  const { data } = trpc.tickets.list.useQuery();
+  const statuses = useTicketStatuses();
+  const tickets = data?.tickets ?? [];
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {dependsOn.map((depId) => {
+        const ticket = tickets.find((t) => t.id === depId);
+        return (
+          <Badge
+            key={depId}
+            variant="outline"
+            className={cn(
+              'font-normal',
+              ticket
+                ? getStatusBadgeClass(ticket.status, statuses)
+                : 'line-through',
+            )}
+            title={ticket ? formatStatus(ticket.status) : 'Deleted ticket'}
+          >
+            <span className="max-w-[200px] truncate">
+              #{depId}
+              {ticket ? `: ${ticket.title}` : ''}
+            </span>
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Multi-select for the tickets a ticket depends on.
+ */
+export function DependencyPicker({
+  id,
+  value,
+  onChange,
+  excludeId,
+}: DependencyPickerProps) {
+  const [open, setOpen] = useState(false);
+  const { data } = trpc.tickets.list.useQuery();
+  const statuses = useTicketStatuses();
+  const tickets = data?.tickets ?? [];
+  const options = tickets
+    .filter((t) => t.id !== excludeId)
+    .sort((a, b) => b.id - a.id);
+
+  const toggle = (ticketId: number) => {
+    onChange(
+      value.includes(ticketId)
+        ? value.filter((v) => v !== ticketId)
+        : [...value, ticketId].sort((a, b) => a - b),
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {value.map((depId) => {
+        const ticket = tickets.find((t) => t.id === depId);
+        return (
+          <Badge
+            key={depId}
+            variant="outline"
+            className={cn(
+              'gap-1 font-normal',
+              ticket && getStatusBadgeClass(ticket.status, statuses),
+            )}
+          >
+            <span className="max-w-[160px] truncate">
+              #{depId}
+              {ticket ? `: ${ticket.title}` : ''}
+            </span>
+            <button
+              type="button"
+              onClick={() => toggle(depId)}
+              aria-label={`Remove dependency #${depId}`}
+              className="rounded-sm opacity-70 hover:opacity-100"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        );
+      })}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs"
+          >
+            <Plus className="h-3 w-3" />
+            Add dependency
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search tickets..." />
+            <CommandList>
+              <CommandEmpty>No tickets found</CommandEmpty>
+              <CommandGroup>
+                {options.map((ticket) => (
+                  <CommandItem
+                    key={ticket.id}
+                    value={`#${ticket.id} ${ticket.title}`}
+                    onSelect={() => toggle(ticket.id)}
+                  >
+                    <Check
+                      className={cn(
+                        'h-4 w-4',
+                        value.includes(ticket.id) ? 'opacity-100' : 'opacity-0',
+                      )}
+                    />
+                    <span className="flex-1 truncate">
+                      #{ticket.id}: {ticket.title}
+                    </span>
+                    <span className="text-xs capitalize text-muted-foreground">
+                      {formatStatus(ticket.status)}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import { FileDiff } from 'lucide-react';
+import { skipToken } from '@tanstack/react-query';
+import { trpc } from '@/lib/trpc';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DiffViewer } from '@/components/DiffViewer';
+import { cn } from '@/lib/utils';
+
+type DiffMode = 'ticket' | 'refs';
+
+/**
+ * Each commit that mentions the ticket with the changes it made
+ */
+function TicketDiff({ ticketId }: { ticketId: number }) {
+  const { data, error, isLoading } = trpc.git.ticketDiff.useQuery({
+    ticketId,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading diff...</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-destructive">{error.message}</p>;
+  }
+  if (!data || data.commits.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No commits mention ticket #{ticketId}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {data.commits.map(({ commit, files, truncated }) => (
+        <section key={commit.sha} className="space-y-2">
+          <h3 className="flex flex-wrap items-baseline gap-2 text-sm">
+            <code className="rounded bg-muted px-1 font-mono text-xs">
+              {commit.shortSha}
+            </code>
+            <span className="font-medium">{commit.subject}</span>
+            <span className="text-xs text-muted-foreground">
+              {commit.author}, {new Date(commit.date).toLocaleString()}
+            </span>
+          </h3>
+          <DiffViewer files={files} truncated={truncated} />
+        </section>
+      ))}
+      {data.omitted > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {data.omitted} older commit{data.omitted === 1 ? '' : 's'} not shown.
+        </p>
+      )}
+      {data.failed > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {data.failed} commit{data.failed === 1 ? '' : 's'} could not be read.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Diff between two refs typed or picked by the user
+ */
+function RefsDiff() {
+  const { data: refsData } = trpc.git.refs.useQuery();
+  const refs = refsData?.refs;
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [compared, setCompared] = useState<{
+    from: string;
+    to: string;
+  } | null>(null);
+
+  const { data, error, isFetching } = trpc.git.diff.useQuery(
+    compared ?? skipToken,
+  );
+
+  // An empty "To" compares against the current branch
+  const toValue = to.trim() || refs?.head || 'HEAD';
+  const canCompare = from.trim() !== '';
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex flex-wrap items-end gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (canCompare) {
+            setCompared({ from: from.trim(), to: toValue });
+          }
+        }}
+      >
+        <div className="flex flex-col gap-1">
+          <label htmlFor="diff-from" className="text-sm font-medium">
+            From
+          </label>
+          <Input
+            id="diff-from"
+            list="diff-refs"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            placeholder="main"
+            className="h-8 w-48 font-mono text-xs"
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor="diff-to" className="text-sm font-medium">
+            To
+          </label>
+          <Input
+            id="diff-to"
+            list="diff-refs"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            placeholder={refs?.head ?? 'HEAD'}
+            className="h-8 w-48 font-mono text-xs"
+          />
+        </div>
+        <datalist id="diff-refs">
+          {[...(refs?.branches ?? []), ...(refs?.tags ?? [])].map((ref) => (
+            <option key={ref} value={ref} />
+          ))}
+        </datalist>
+        <Button type="submit" size="sm" disabled={!canCompare || isFetching}>
+          {isFetching ? 'Comparing...' : 'Compare'}
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+      {data && !error && (
+        <DiffViewer files={data.files} truncated={data.truncated} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * "Diff" button opening the changes made for a ticket, or between two refs
+ */
+export function DiffPanelButton({ ticketId }: { ticketId: number }) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<DiffMode>('ticket');
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 gap-1 px-2 text-xs"
+        onClick={() => setOpen(true)}
+        title="View the changes made for this ticket"
+      >
+        <FileDiff className="h-3 w-3" />
+        Diff
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Changes for #{ticketId}</DialogTitle>
+            <DialogDescription>
+              The commits that mention this ticket, or any two branches, tags or
+              commits.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex border-b">
+            {(
+              [
+                ['ticket', 'Ticket commits'],
+                ['refs', 'Compare refs'],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                className={cn(
+                  'px-4 py-2 text-sm font-medium transition-colors',
+                  mode === value
+                    ? 'border-b-2 border-primary text-foreground'
+                    : 'text-muted-foreground hover:text-foreground',
+                )}
+                onClick={() => setMode(value)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {open &&
+            (mode === 'ticket' ? (
+              <TicketDiff ticketId={ticketId} />
+            ) : (
+              <RefsDiff />
+            ))}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
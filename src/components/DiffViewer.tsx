@@ -0,0 +1,189 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import type { DiffFile, DiffLine } from '@/lib/git-diff';
+import {
+  getLanguage,
+  tokenizeLine,
+  type Language,
+  type TokenKind,
+} from '@/lib/syntax-highlight';
+import { cn } from '@/lib/utils';
+
+/**
+ * Files with more changed lines than this start collapsed
+ */
+const COLLAPSE_AFTER_LINES = 300;
+
+const tokenClasses: Record<TokenKind, string> = {
+  plain: '',
+  keyword: 'text-purple-700 dark:text-purple-400',
+  string: 'text-green-700 dark:text-green-400',
+  comment: 'italic text-muted-foreground',
+  number: 'text-orange-700 dark:text-orange-400',
+};
+
+const lineClasses: Record<DiffLine['kind'], string> = {
+  context: '',
+  add: 'bg-green-500/10',
+  delete: 'bg-red-500/10',
+  note: 'italic text-muted-foreground',
+};
+
+const lineMarkers: Record<DiffLine['kind'], string> = {
+  context: ' ',
+  add: '+',
+  delete: '-',
+  note: '',
+};
+
+const statusLabels: Record<DiffFile['status'], string> = {
+  added: 'Added',
+  deleted: 'Deleted',
+  modified: '',
+  renamed: 'Renamed',
+};
+
+function DiffLineRow({
+  line,
+  language,
+}: {
+  line: DiffLine;
+  language: Language | null;
+}) {
+  const tokens = useMemo(
+    () => (line.kind === 'note' ? null : tokenizeLine(line.text, language)),
+    [line, language],
+  );
+
+  return (
+    <tr className={lineClasses[line.kind]}>
+      <td className="w-10 select-none px-2 text-right text-muted-foreground">
+        {line.oldLine ?? ''}
+      </td>
+      <td className="w-10 select-none px-2 text-right text-muted-foreground">
+        {line.newLine ?? ''}
+      </td>
+      <td className="whitespace-pre pr-4">
+        <span className="select-none text-muted-foreground">
+          {lineMarkers[line.kind]}
+        </span>
+        {tokens
+          ? tokens.map((token, index) => (
+              <span key={index} className={tokenClasses[token.kind]}>
+                {token.text}
+              </span>
+            ))
+          : line.text}
+      </td>
+    </tr>
+  );
+}
+
+function DiffFileView({ file }: { file: DiffFile }) {
+  const [open, setOpen] = useState(
+    file.additions + file.deletions <= COLLAPSE_AFTER_LINES,
+  );
+  const language = getLanguage(file.path);
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="overflow-hidden rounded-md border"
+    >
+      <CollapsibleTrigger className="flex w-full items-center gap-2 bg-muted px-2 py-1.5 text-left text-sm">
+        {open ? (
+          <ChevronDown className="h-4 w-4 shrink-0" />
+        ) : (
+          <ChevronRight className="h-4 w-4 shrink-0" />
+        )}
+        <span className="min-w-0 flex-1 truncate font-mono text-xs">
+          {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+        </span>
+        {statusLabels[file.status] && (
+          <span className="text-xs text-muted-foreground">
+            {statusLabels[file.status]}
+          </span>
+        )}
+        <span className="shrink-0 font-mono text-xs">
+          <span className="text-green-700 dark:text-green-400">
+            +{file.additions}
+          </span>{' '}
+          <span className="text-red-700 dark:text-red-400">
+            -{file.deletions}
+          </span>
+        </span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        {file.binary ? (
+          <p className="px-3 py-2 text-sm text-muted-foreground">
+            Binary file not shown
+          </p>
+        ) : file.hunks.length === 0 ? (
+          <p className="px-3 py-2 text-sm text-muted-foreground">
+            No content changes
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse font-mono text-xs leading-5">
+              {file.hunks.map((hunk, hunkIndex) => (
+                <tbody key={hunkIndex}>
+                  <tr className="bg-blue-500/10 text-muted-foreground">
+                    <td colSpan={3} className="whitespace-pre px-2">
+                      {hunk.header}
+                    </td>
+                  </tr>
+                  {hunk.lines.map((line, lineIndex) => (
+                    <DiffLineRow
+                      key={lineIndex}
+                      line={line}
+                      language={language}
+                    />
+                  ))}
+                </tbody>
+              ))}
+            </table>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export interface DiffViewerProps {
+  files: DiffFile[];
+  /**
+   * The diff was cut short by the server
+   */
+  truncated?: boolean;
+  className?: string;
+}
+
+/**
+ * Unified diff with syntax highlighting, one collapsible section per file.
+ * Large files start collapsed.
+ */
+export function DiffViewer({ files, truncated, className }: DiffViewerProps) {
+  return (
+    <div className={cn('space-y-2', className)}>
+      {files.length === 0 && (
+        <p className="text-sm text-muted-foreground">No changes</p>
+      )}
+      {files.map((file, index) => (
+        <DiffFileView key={`${index}-${file.path}`} file={file} />
+      ))}
+      {truncated && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          The diff is too large to show in full; the rest was left out.
+        </p>
+      )}
+    </div>
+  );
+}
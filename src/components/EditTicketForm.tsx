@@ -2,12 +2,23 @@
 
 import { useState } from 'react';
 import { trpc } from '@/lib/trpc';
-import type { Ticket } from '@/lib/schemas';
-import { ticketStatuses } from '@/lib/schemas';
+import type { Ticket, AcceptanceCriterion } from '@/lib/schemas';
+import { getAvailableStatuses } from '@/lib/ticket-workflow';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
+import { useTicketsRevision } from '@/hooks/use-tickets-revision';
+import { UndoToastAction } from '@/components/UndoToastAction';
+import { createHistoryId } from '@/lib/ticket-history';
+import { isConflictError } from '@/lib/ticket-ui';
+import { DependencyPicker } from '@/components/DependencyPicker';
+import { LabelPicker } from '@/components/LabelPicker';
+import {
+  AcceptanceCriteriaEditor,
+  cleanAcceptanceCriteria,
+} from '@/components/AcceptanceCriteria';
 
 export interface EditTicketFormProps {
   ticket: Ticket;
@@ -24,12 +35,28 @@ export function EditTicketForm({
   const [description, setDescription] = useState(ticket.description ?? '');
   const [priority, setPriority] = useState<number>(ticket.priority ?? 1);
   const [status, setStatus] = useState(ticket.status);
+  const statuses = useTicketStatuses();
+  const [dependsOn, setDependsOn] = useState<number[]>(ticket.dependsOn ?? []);
+  const [labels, setLabels] = useState<string[]>(ticket.labels ?? []);
+  const initialDueDate = ticket.dueAt?.slice(0, 10) ?? '';
+  const [dueDate, setDueDate] = useState(initialDueDate);
+  const [acceptanceCriteria, setAcceptanceCriteria] = useState<
+    AcceptanceCriterion[]
+  >(ticket.acceptanceCriteria ?? []);
 
   const { toast } = useToast();
   const utils = trpc.useUtils();
+  const getRevision = useTicketsRevision();
+
+  // Revision of tickets.json this edit is based on, captured when editing
+  // starts so external changes made meanwhile are detected on save. Loaded
+  // on save if the ticket list wasn't cached yet.
+  const [baseRevision, setBaseRevision] = useState(
+    () => utils.tickets.list.getData()?.revision,
+  );
 
   const updateMutation = trpc.tickets.update.useMutation({
-    onSuccess: () => {
+    onSuccess: (_ticket, { historyId }) => {
       // Invalidate tickets query to refetch
       utils.tickets.list.invalidate();
 
@@ -37,12 +64,28 @@ export function EditTicketForm({
       toast({
         title: 'Ticket updated',
         description: 'Your changes have been saved.',
+        action: historyId ? (
+          <UndoToastAction historyId={historyId} />
+        ) : undefined,
       });
 
       // Call onSuccess callback if provided
       onSuccess?.();
     },
-    onError: (error) => {
+    onError: async (error) => {
+      if (isConflictError(error)) {
+        // Rebase on the latest revision so a second save overwrites
+        await utils.tickets.list.invalidate();
+        setBaseRevision(utils.tickets.list.getData()?.revision);
+        toast({
+          title: 'Ticket changed on disk',
+          description:
+            'tickets.json was modified while you were editing. Save again to overwrite it with your changes.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
       toast({
         title: 'Error',
         description: error.message || 'Failed to update ticket',
@@ -51,7 +94,7 @@ export function EditTicketForm({
     },
   });
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!title.trim()) {
@@ -63,6 +106,7 @@ export function EditTicketForm({
       return;
     }
 
+    const criteria = cleanAcceptanceCriteria(acceptanceCriteria);
     updateMutation.mutate({
       id: ticket.id,
       data: {
@@ -70,7 +114,20 @@ export function EditTicketForm({
         description: description.trim() || undefined,
         priority,
         status,
+        // Avoid writing an empty dependsOn to tickets that never had one
+        dependsOn:
+          dependsOn.length > 0 || ticket.dependsOn ? dependsOn : undefined,
+        acceptanceCriteria:
+          criteria.length > 0 || ticket.acceptanceCriteria
+            ? criteria
+            : undefined,
+        labels: labels.length > 0 || ticket.labels ? labels : undefined,
+        // Clearing the date removes it; an untouched date keeps its time
+        dueAt:
+          dueDate === initialDueDate ? undefined : dueDate ? dueDate : null,
       },
+      revision: baseRevision ?? (await getRevision()),
+      historyId: createHistoryId(),
     });
   };
 
@@ -102,6 +159,20 @@ export function EditTicketForm({
         />
       </div>
 
+      <div className="flex flex-col gap-2">
+        <label
+          htmlFor="edit-acceptance-criteria"
+          className="text-sm font-medium"
+        >
+          Acceptance criteria
+        </label>
+        <AcceptanceCriteriaEditor
+          id="edit-acceptance-criteria"
+          value={acceptanceCriteria}
+          onChange={setAcceptanceCriteria}
+        />
+      </div>
+
       <div className="flex flex-col gap-2">
         <label htmlFor="edit-priority" className="text-sm font-medium">
           Priority
@@ -129,14 +200,48 @@ export function EditTicketForm({
           onChange={(e) => setStatus(e.target.value)}
           className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
         >
-          {ticketStatuses.map((s) => (
-            <option key={s} value={s}>
-              {s.replace(/_/g, ' ')}
+          {getAvailableStatuses(statuses, ticket.status).map((s) => (
+            <option key={s.name} value={s.name}>
+              {s.label}
             </option>
           ))}
         </select>
       </div>
 
+      <div className="flex flex-col gap-2">
+        <label htmlFor="edit-depends-on" className="text-sm font-medium">
+          Depends on
+        </label>
+        <DependencyPicker
+          id="edit-depends-on"
+          value={dependsOn}
+          onChange={setDependsOn}
+          excludeId={ticket.id}
+        />
+        <p className="text-xs text-muted-foreground">
+          Ralph should finish these tickets first
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label htmlFor="edit-labels" className="text-sm font-medium">
+          Labels
+        </label>
+        <LabelPicker id="edit-labels" value={labels} onChange={setLabels} />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label htmlFor="edit-due-date" className="text-sm font-medium">
+          Due date
+        </label>
+        <Input
+          id="edit-due-date"
+          type="date"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+        />
+      </div>
+
       <div className="flex gap-2">
         {onCancel && (
           <Button
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useTicketFilter } from '@/hooks/use-ticket-filter';
+import { useToast } from '@/hooks/use-toast';
+import {
+  exportFormats,
+  exportFormatLabels,
+  type ExportFormat,
+  type TicketExport,
+} from '@/lib/ticket-export';
+
+/**
+ * Save an export as a file via a temporary object URL
+ */
+function downloadExport({ filename, mimeType, content }: TicketExport) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download the tickets shown by the current status filter as a report
+ */
+export function ExportTicketsButton() {
+  const { status } = useTicketFilter();
+  const [includeProgress, setIncludeProgress] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const utils = trpc.useUtils();
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      downloadExport(
+        await utils.tickets.export.fetch({ format, status, includeProgress }),
+      );
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          error instanceof Error ? error.message : 'Failed to export tickets',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-2"
+          disabled={isExporting}
+          title="Export tickets"
+        >
+          <Download className="h-4 w-4" />
+          <span className="hidden sm:inline">Export</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>
+          Export {status === 'all' ? 'all' : status.replace('_', ' ')} tickets
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {exportFormats.map((format) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {exportFormatLabels[format]}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={includeProgress}
+          onCheckedChange={setIncludeProgress}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Include progress notes
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
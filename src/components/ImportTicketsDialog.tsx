@@ -0,0 +1,248 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { UndoToastAction } from '@/components/UndoToastAction';
+import { useToast } from '@/hooks/use-toast';
+import { useTicketsRevision } from '@/hooks/use-tickets-revision';
+import { isOk } from '@/lib/result';
+import { createHistoryId } from '@/lib/ticket-history';
+import {
+  detectImportFormat,
+  importFormats,
+  importFormatLabels,
+  parseImport,
+  type ImportFormat,
+} from '@/lib/ticket-import';
+import { cn } from '@/lib/utils';
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * Import tickets from a Markdown checklist, CSV or GitHub issues export,
+ * with a preview of what will be created
+ */
+export function ImportTicketsDialog() {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('markdown');
+  const [status, setStatus] = useState<'draft' | 'pending'>('draft');
+  const { toast } = useToast();
+  const utils = trpc.useUtils();
+  const getRevision = useTicketsRevision();
+
+  const parsed = useMemo(() => parseImport(format, text), [format, text]);
+  const rows = isOk(parsed) ? parsed.value : [];
+  const accepted = rows.filter((row) => row.ticket !== null);
+
+  const importMutation = trpc.tickets.import.useMutation({
+    onSuccess: (tickets, { historyId }) => {
+      utils.tickets.list.invalidate();
+      toast({
+        title: 'Tickets imported',
+        description: `Added ${tickets.length} tickets (#${tickets[0]?.id}–#${tickets[tickets.length - 1]?.id})`,
+        action: historyId ? (
+          <UndoToastAction historyId={historyId} />
+        ) : undefined,
+      });
+      setText('');
+      setOpen(false);
+    },
+    onError: (error) => {
+      utils.tickets.list.invalidate();
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to import tickets',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    setFormat(detectImportFormat(content, file.name));
+    setText(content);
+  };
+
+  const handleTextChange = (value: string) => {
+    if (!text.trim()) {
+      setFormat(detectImportFormat(value));
+    }
+    setText(value);
+  };
+
+  const handleImport = async () => {
+    importMutation.mutate({
+      tickets: accepted.map((row) => ({ ...row.ticket!, status })),
+      revision: await getRevision(),
+      historyId: createHistoryId(),
+    });
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="gap-2"
+        onClick={() => setOpen(true)}
+        title="Import tickets"
+      >
+        <Upload className="h-4 w-4" />
+        <span className="hidden sm:inline">Import</span>
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Import tickets</DialogTitle>
+            <DialogDescription>
+              Paste or upload a Markdown checklist, a CSV with title,
+              description and priority columns, or a GitHub issues JSON export.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="flex flex-col gap-2">
+              <label htmlFor="import-format" className="text-sm font-medium">
+                Format
+              </label>
+              <select
+                id="import-format"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as ImportFormat)}
+                className={selectClassName}
+              >
+                {importFormats.map((f) => (
+                  <option key={f} value={f}>
+                    {importFormatLabels[f]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-2">
+              <label htmlFor="import-status" className="text-sm font-medium">
+                Import as
+              </label>
+              <select
+                id="import-status"
+                value={status}
+                onChange={(e) =>
+                  setStatus(e.target.value as 'draft' | 'pending')
+                }
+                className={selectClassName}
+              >
+                <option value="draft">Draft (not ready)</option>
+                <option value="pending">Pending (ready)</option>
+              </select>
+            </div>
+            <div className="flex flex-col gap-2">
+              <label htmlFor="import-file" className="text-sm font-medium">
+                File
+              </label>
+              <input
+                id="import-file"
+                type="file"
+                accept=".md,.markdown,.txt,.csv,.json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="text-sm file:mr-2 file:rounded-md file:border-0 file:bg-muted file:px-2 file:py-1 file:text-sm"
+              />
+            </div>
+          </div>
+
+          <Textarea
+            aria-label="Import text"
+            value={text}
+            onChange={(e) => handleTextChange(e.target.value)}
+            placeholder={'- [ ] First task\n- [ ] Second task'}
+            rows={6}
+            className="font-mono text-xs"
+          />
+
+          {text.trim() && !isOk(parsed) && (
+            <p className="text-sm text-destructive">{parsed.error}</p>
+          )}
+
+          {rows.length > 0 && (
+            <div className="max-h-72 overflow-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-muted text-left text-xs text-muted-foreground">
+                  <tr>
+                    <th className="px-2 py-1.5 font-medium">Source</th>
+                    <th className="px-2 py-1.5 font-medium">Title</th>
+                    <th className="px-2 py-1.5 font-medium">Priority</th>
+                    <th className="px-2 py-1.5 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => (
+                    <tr
+                      key={index}
+                      className={cn(
+                        'border-t align-top',
+                        !row.ticket && 'bg-destructive/5',
+                      )}
+                    >
+                      <td className="whitespace-nowrap px-2 py-1.5 text-xs text-muted-foreground">
+                        {row.source}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        {row.title || (
+                          <span className="italic text-muted-foreground">
+                            (no title)
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        {row.ticket?.priority ?? ''}
+                      </td>
+                      <td className="px-2 py-1.5 text-xs">
+                        {row.ticket ? (
+                          <span className="text-[hsl(var(--status-completed-fg))]">
+                            Ready
+                          </span>
+                        ) : (
+                          <span className="text-destructive">
+                            {row.errors.join('; ')}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <DialogFooter className="items-center gap-2">
+            {rows.length > 0 && (
+              <span className="text-sm text-muted-foreground sm:mr-auto">
+                {accepted.length} of {rows.length} rows will be imported
+              </span>
+            )}
+            <Button
+              onClick={handleImport}
+              disabled={accepted.length === 0 || importMutation.isPending}
+            >
+              {importMutation.isPending
+                ? 'Importing...'
+                : `Import ${accepted.length} ticket${accepted.length === 1 ? '' : 's'}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
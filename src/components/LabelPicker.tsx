@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Plus, Tag, X } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { cn } from '@/lib/utils';
+import { collectLabels, normalizeLabel } from '@/lib/ticket-labels';
+
+export interface LabelPickerProps {
+  id?: string;
+  value: string[];
+  onChange: (labels: string[]) => void;
+}
+
+/**
+ * Read-only list of a ticket's labels.
+ */
+export function LabelBadges({
+  labels,
+  className,
+}: {
+  labels: string[];
+  className?: string;
+}) {
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {labels.map((label) => (
+        <Badge key={label} variant="secondary" className="gap-1 font-normal">
+          <Tag className="h-3 w-3" />
+          <span className="max-w-[160px] truncate">{label}</span>
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Multi-select for ticket labels, suggesting labels already used in the
+ * project and allowing new ones to be created from the search text.
+ */
+export function LabelPicker({ id, value, onChange }: LabelPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const { data } = trpc.tickets.list.useQuery();
+  const options = collectLabels(data?.tickets ?? []);
+  const newLabel = normalizeLabel(search);
+  const canCreate =
+    newLabel !== '' && !options.includes(newLabel) && !value.includes(newLabel);
+
+  const toggle = (label: string) => {
+    onChange(
+      value.includes(label)
+        ? value.filter((v) => v !== label)
+        : [...value, label],
+    );
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setSearch('');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {value.map((label) => (
+        <Badge key={label} variant="secondary" className="gap-1 font-normal">
+          <span className="max-w-[160px] truncate">{label}</span>
+          <button
+            type="button"
+            onClick={() => toggle(label)}
+            aria-label={`Remove label ${label}`}
+            className="rounded-sm opacity-70 hover:opacity-100"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs"
+          >
+            <Plus className="h-3 w-3" />
+            Add label
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Search or create label..."
+              value={search}
+              onValueChange={setSearch}
+            />
+            <CommandList>
+              <CommandEmpty>Type to create a label</CommandEmpty>
+              <CommandGroup>
+                {options.map((label) => (
+                  <CommandItem
+                    key={label}
+                    value={label}
+                    onSelect={() => toggle(label)}
+                  >
+                    <Check
+                      className={cn(
+                        'h-4 w-4',
+                        value.includes(label) ? 'opacity-100' : 'opacity-0',
+                      )}
+                    />
+                    <span className="flex-1 truncate">{label}</span>
+                  </CommandItem>
+                ))}
+                {canCreate && (
+                  <CommandItem
+                    value={`create:${newLabel}`}
+                    onSelect={() => {
+                      toggle(newLabel);
+                      setSearch('');
+                    }}
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span className="flex-1 truncate">
+                      Create &quot;{newLabel}&quot;
+                    </span>
+                  </CommandItem>
+                )}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -4,21 +4,39 @@ import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { trpc } from '@/lib/trpc';
 import type { Ticket } from '@/lib/schemas';
 import { TicketList } from '@/components/TicketList';
-import { TicketFilter, type TicketStatus } from '@/components/TicketFilter';
+import {
+  TicketFilter,
+  LabelFilter,
+  TicketSortSelect,
+} from '@/components/TicketFilter';
+import { TicketDatesDetail } from '@/components/TicketDates';
+import { TicketProblemsBanner } from '@/components/TicketProblemsBanner';
 import { QuickAddBar } from '@/components/QuickAddBar';
 import { ProgressViewer } from '@/components/ProgressViewer';
 import { DescriptionViewer } from '@/components/DescriptionViewer';
+import { TicketCommits } from '@/components/TicketCommits';
+import { TicketComments } from '@/components/TicketComments';
 import { ProcessOutputViewer } from '@/components/ProcessOutputViewer';
 import { Terminal as TerminalComponent } from '@/components/Terminal';
 import { EditTicketForm } from '@/components/EditTicketForm';
 import { DeleteTicketButton } from '@/components/DeleteTicketButton';
+import { DependencyBadges } from '@/components/DependencyPicker';
+import { LabelBadges } from '@/components/LabelPicker';
+import { BreakDownButton, SubticketBadges } from '@/components/BreakDownDialog';
+import { TicketHistory } from '@/components/TicketHistory';
+import { AcceptanceCriteriaChecklist } from '@/components/AcceptanceCriteria';
 import { BottomTabBar, type MobileTab } from '@/components/BottomTabBar';
 import { useEventStream } from '@/hooks/use-event-stream';
+import { QueuedRuns } from '@/components/QueuedRuns';
 import { useProjectPath } from '@/components/providers/TRPCProvider';
 import { useSelectedTicket } from '@/hooks/use-selected-ticket';
+import { useCommandRequests } from '@/hooks/use-command-requests';
+import { useTicketFilter } from '@/hooks/use-ticket-filter';
+import { collectLabels } from '@/lib/ticket-labels';
 import { useToast } from '@/hooks/use-toast';
 import { getStatusBadgeClass, formatStatus } from '@/lib/ticket-ui';
-import type { ProcessOutputLine } from '@/lib/process-runner';
+import type { ProcessHandle, ProcessOutputLine } from '@/lib/process-runner';
+import { appendNewLines, dropLinesFrom, getNextSeq } from '@/lib/process-state';
 import type { CommandConfig } from '@/lib/project-config';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
@@ -36,6 +54,7 @@ import {
   Settings,
   type LucideIcon,
 } from 'lucide-react';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
 
 const iconMap: Record<string, LucideIcon> = {
   play: Play,
@@ -65,6 +84,7 @@ function MobileTicketDetail({
   onTicketDeleted,
 }: MobileTicketDetailProps) {
   const [isEditing, setIsEditing] = useState(false);
+  const statuses = useTicketStatuses();
 
   const handleEditSuccess = () => {
     setIsEditing(false);
@@ -102,24 +122,47 @@ function MobileTicketDetail({
             <CardTitle className="text-base">
               #{ticket.id}: {ticket.title}
             </CardTitle>
-            <Badge
-              variant="outline"
-              className={cn(
-                'shrink-0 capitalize',
-                getStatusBadgeClass(ticket.status),
-              )}
-            >
-              {formatStatus(ticket.status)}
-            </Badge>
+            <div className="flex items-center gap-1">
+              <BreakDownButton ticket={ticket} />
+              <Badge
+                variant="outline"
+                className={cn(
+                  'shrink-0 capitalize',
+                  getStatusBadgeClass(ticket.status, statuses),
+                )}
+              >
+                {formatStatus(ticket.status)}
+              </Badge>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          <TicketDatesDetail ticket={ticket} />
           {ticket.priority !== undefined && (
             <div className="flex items-center gap-2 text-sm">
               <span className="font-medium">Priority:</span>
               <span className="text-muted-foreground">{ticket.priority}</span>
             </div>
           )}
+          {ticket.labels && ticket.labels.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Labels:</span>
+              <LabelBadges labels={ticket.labels} />
+            </div>
+          )}
+          {ticket.dependsOn && ticket.dependsOn.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Depends on:</span>
+              <DependencyBadges dependsOn={ticket.dependsOn} />
+            </div>
+          )}
+          {ticket.parentId !== undefined && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Split from:</span>
+              <DependencyBadges dependsOn={[ticket.parentId]} />
+            </div>
+          )}
+          <SubticketBadges parentId={ticket.id} />
           {ticket.description && (
             <div className="space-y-2">
               <span className="text-sm font-medium">Description:</span>
@@ -129,6 +172,26 @@ function MobileTicketDetail({
               />
             </div>
           )}
+          <TicketComments
+            ticketId={ticket.id}
+            comments={ticket.comments ?? []}
+          />
+          {ticket.acceptanceCriteria &&
+            ticket.acceptanceCriteria.length > 0 && (
+              <div className="space-y-2">
+                <span className="text-sm font-medium">
+                  Acceptance criteria (
+                  {ticket.acceptanceCriteria.filter((c) => c.done).length}/
+                  {ticket.acceptanceCriteria.length}):
+                </span>
+                <AcceptanceCriteriaChecklist
+                  ticketId={ticket.id}
+                  criteria={ticket.acceptanceCriteria}
+                />
+              </div>
+            )}
+          <TicketCommits ticketId={ticket.id} />
+          <TicketHistory ticketId={ticket.id} />
           <div className="flex gap-2 pt-2">
             <Button
               variant="outline"
@@ -158,7 +221,14 @@ export function MobileLayout() {
   const { toast } = useToast();
   const projectPath = useProjectPath();
   const [activeTab, setActiveTab] = useState<MobileTab>('tickets');
-  const [statusFilter, setStatusFilter] = useState<TicketStatus>('incomplete');
+  const {
+    status: statusFilter,
+    setStatus: setStatusFilter,
+    labels: labelFilter,
+    setLabels: setLabelFilter,
+    sort,
+    setSort,
+  } = useTicketFilter();
   const { selectedTicketId, setSelectedTicketId } = useSelectedTicket();
   const showTicketDetail = selectedTicketId !== null;
 
@@ -173,12 +243,12 @@ export function MobileLayout() {
   // Terminal tab state
   const [isTerminalConnected, setIsTerminalConnected] = useState(false);
 
-  const { data: tickets } = trpc.tickets.list.useQuery();
+  const { data: ticketsData } = trpc.tickets.list.useQuery();
   const configQuery = trpc.config.get.useQuery();
   const commands = configQuery.data?.commands ?? [];
 
   const selectedTicket =
-    tickets?.find((t) => t.id === selectedTicketId) ?? null;
+    ticketsData?.tickets.find((t) => t.id === selectedTicketId) ?? null;
 
   const topics = useMemo(() => {
     const t: string[] = [];
@@ -188,10 +258,34 @@ export function MobileLayout() {
     return t;
   }, [runningProcess]);
 
+  const getProcessResume = useCallback(
+    (processId: string) =>
+      processId === runningProcess?.id ? getNextSeq(lines) : 0,
+    [runningProcess, lines],
+  );
+
+  const handleProcessReplayStart = useCallback(
+    (processId: string, from: number) => {
+      if (runningProcess && processId === runningProcess.id) {
+        setLines((prev) => dropLinesFrom(prev, from));
+      }
+    },
+    [runningProcess],
+  );
+
   const handleProcessOutput = useCallback(
     (processId: string, line: ProcessOutputLine) => {
       if (runningProcess && processId === runningProcess.id) {
-        setLines((prev) => [...prev, line]);
+        setLines((prev) => appendNewLines(prev, [line]));
+      }
+    },
+    [runningProcess],
+  );
+
+  const handleProcessOutputBatch = useCallback(
+    (processId: string, batch: ProcessOutputLine[]) => {
+      if (runningProcess && processId === runningProcess.id) {
+        setLines((prev) => appendNewLines(prev, batch));
       }
     },
     [runningProcess],
@@ -209,30 +303,53 @@ export function MobileLayout() {
   const { connectionStatus } = useEventStream({
     project: projectPath,
     topics,
+    getProcessResume,
+    onProcessReplayStart: handleProcessReplayStart,
     onProcessOutput: handleProcessOutput,
+    onProcessOutputBatch: handleProcessOutputBatch,
     onProcessExit: handleProcessExit,
   });
 
+  const getCommandLabel = (cmd: string) =>
+    commands.find((c) => c.cmd === cmd)?.label ?? 'Command';
+
+  const handleStarted = (handle: ProcessHandle, command: string) => {
+    const label = getCommandLabel(command);
+    setRunningProcess({ id: handle.id, label });
+    setLastExitCode(null);
+    setLines([]);
+    setProcessExitCode(null);
+    toast({
+      title: `Running: ${label}`,
+      description: `Process started (PID: ${handle.pid})`,
+    });
+  };
+
+  const handleStartError = (error: { message: string }) => {
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to start process',
+      variant: 'destructive',
+    });
+  };
+
   const startMutation = trpc.process.start.useMutation({
-    onSuccess: (handle, variables) => {
-      const label =
-        commands.find((c) => c.cmd === variables.command)?.label ?? 'Command';
-      setRunningProcess({ id: handle.id, label });
-      setLastExitCode(null);
-      setLines([]);
-      setProcessExitCode(null);
-      toast({
-        title: `Running: ${label}`,
-        description: `Process started (PID: ${handle.pid})`,
-      });
-    },
-    onError: (error) => {
+    onSuccess: (handle, variables) => handleStarted(handle, variables.command),
+    onError: handleStartError,
+  });
+
+  const enqueueMutation = trpc.process.enqueue.useMutation({
+    onSuccess: (result, variables) => {
+      if (result.state === 'started') {
+        handleStarted(result.handle, variables.command);
+        return;
+      }
       toast({
-        title: 'Error',
-        description: error.message || 'Failed to start process',
-        variant: 'destructive',
+        title: `Queued: ${getCommandLabel(variables.command)}`,
+        description: `Starts when a run finishes (#${result.run.position} in the queue)`,
       });
     },
+    onError: handleStartError,
   });
 
   const killMutation = trpc.process.kill.useMutation({
@@ -285,16 +402,32 @@ export function MobileLayout() {
   }, [runningProcess, processExitCode, handleProcessComplete]);
 
   const isRunning = runningProcess !== null && processExitCode === null;
-  const isStarting = startMutation.isPending;
+  const isStarting = startMutation.isPending || enqueueMutation.isPending;
   const isStopping = killMutation.isPending;
   const buttonsDisabled = isRunning || isStarting;
   const hasOutput = lines.length > 0 || lastExitCode !== null;
 
   const handleRunCommand = (command: CommandConfig) => {
     if (isRunning || isStarting) return;
-    startMutation.mutate({ command: command.cmd });
+    // Destructive commands such as Stop aren't queued behind the runs they
+    // act on
+    const mutation = command.destructive ? startMutation : enqueueMutation;
+    mutation.mutate({ command: command.cmd, detached: command.detached });
   };
 
+  useCommandRequests((command) => {
+    setActiveTab('run');
+    if (isRunning || isStarting) {
+      toast({
+        title: 'Command not started',
+        description: 'Another command is still running',
+        variant: 'destructive',
+      });
+      return;
+    }
+    handleRunCommand(command);
+  });
+
   const handleStop = () => {
     if (!runningProcess || isStopping) return;
     killMutation.mutate({ id: runningProcess.id });
@@ -342,8 +475,15 @@ export function MobileLayout() {
             </ScrollArea>
           ) : (
             <>
-              <div className="border-b p-3">
+              <div className="flex flex-col gap-2 border-b p-3">
+                <TicketProblemsBanner />
                 <TicketFilter value={statusFilter} onChange={setStatusFilter} />
+                <LabelFilter
+                  options={collectLabels(ticketsData?.tickets ?? [])}
+                  value={labelFilter}
+                  onChange={setLabelFilter}
+                />
+                <TicketSortSelect value={sort} onChange={setSort} />
               </div>
               <ScrollArea className="flex-1 min-h-0">
                 <div className="p-3">
@@ -351,6 +491,8 @@ export function MobileLayout() {
                     onTicketSelect={handleTicketSelect}
                     selectedTicketId={selectedTicketId}
                     statusFilter={statusFilter}
+                    labelFilter={labelFilter}
+                    sort={sort}
                   />
                 </div>
               </ScrollArea>
@@ -390,6 +532,8 @@ export function MobileLayout() {
               })}
             </div>
 
+            <QueuedRuns />
+
             {isRunning && (
               <Button
                 size="default"
@@ -56,8 +56,8 @@ describe('ProcessOutputViewer', () => {
 
     it('should render output lines', () => {
       const lines: ProcessOutputLine[] = [
-        { stream: 'stdout', line: 'Hello World', timestamp: 1000 },
-        { stream: 'stdout', line: 'Second line', timestamp: 2000 },
+        { stream: 'stdout', line: 'Hello World', timestamp: 1000, seq: 0 },
+        { stream: 'stdout', line: 'Second line', timestamp: 2000, seq: 1 },
       ];
 
       renderComponent({
@@ -69,9 +69,69 @@ describe('ProcessOutputViewer', () => {
       expect(screen.getByText('Second line')).toBeInTheDocument();
     });
 
+    it('should only render the lines in view of long output', () => {
+      const lines: ProcessOutputLine[] = Array.from(
+        { length: 100_000 },
+        (_, i) => ({
+          stream: 'stdout',
+          line: `line ${i}`,
+          timestamp: i,
+          seq: i,
+        }),
+      );
+
+      renderComponent({
+        lines,
+        processId: 'test-id',
+        connectionStatus: 'connected',
+        initialAutoScroll: false,
+      });
+      expect(screen.getByText('line 0')).toBeInTheDocument();
+      expect(screen.queryByText('line 99999')).not.toBeInTheDocument();
+
+      const viewport = document.querySelector(
+        '[data-radix-scroll-area-viewport]',
+      ) as HTMLElement;
+      Object.defineProperty(viewport, 'clientHeight', { value: 320 });
+      viewport.scrollTop = 16 * 50_000;
+      fireEvent.scroll(viewport);
+
+      expect(screen.getByText('line 50000')).toBeInTheDocument();
+      expect(screen.getByText('line 50019')).toBeInTheDocument();
+      expect(screen.queryByText('line 0')).not.toBeInTheDocument();
+      expect(screen.queryByText('line 99999')).not.toBeInTheDocument();
+    });
+
+    it('should scroll long lines of long output horizontally', () => {
+      const lines: ProcessOutputLine[] = Array.from(
+        { length: 2000 },
+        (_, i) => ({
+          stream: 'stdout',
+          line: `line ${i} ${'x'.repeat(500)}`,
+          timestamp: i,
+          seq: i,
+        }),
+      );
+
+      renderComponent({
+        lines,
+        processId: 'test-id',
+        connectionStatus: 'connected',
+        initialAutoScroll: false,
+      });
+
+      const line = screen.getByText(/^line 0 /);
+      expect(line).toHaveClass('whitespace-pre');
+      expect(line).not.toHaveClass('overflow-hidden');
+      const viewport = document.querySelector(
+        '[data-radix-scroll-area-viewport]',
+      ) as HTMLElement;
+      expect(viewport.style.overflowX).toBe('scroll');
+    });
+
     it('should render stderr lines in destructive color', () => {
       const lines: ProcessOutputLine[] = [
-        { stream: 'stderr', line: 'Error message', timestamp: 1000 },
+        { stream: 'stderr', line: 'Error message', timestamp: 1000, seq: 0 },
       ];
 
       renderComponent({
@@ -85,7 +145,7 @@ describe('ProcessOutputViewer', () => {
 
     it('should render stdout lines without destructive color', () => {
       const lines: ProcessOutputLine[] = [
-        { stream: 'stdout', line: 'Normal output', timestamp: 1000 },
+        { stream: 'stdout', line: 'Normal output', timestamp: 1000, seq: 0 },
       ];
 
       renderComponent({
@@ -101,7 +161,7 @@ describe('ProcessOutputViewer', () => {
   describe('exit code display', () => {
     it('should show exit code when process exits successfully', () => {
       renderComponent({
-        lines: [{ stream: 'stdout', line: 'Done', timestamp: 1000 }],
+        lines: [{ stream: 'stdout', line: 'Done', timestamp: 1000, seq: 0 }],
         exitCode: 0,
         processId: 'test-id',
         connectionStatus: 'disconnected',
@@ -113,7 +173,7 @@ describe('ProcessOutputViewer', () => {
 
     it('should show exit code when process exits with error', () => {
       renderComponent({
-        lines: [{ stream: 'stderr', line: 'Failed', timestamp: 1000 }],
+        lines: [{ stream: 'stderr', line: 'Failed', timestamp: 1000, seq: 0 }],
         exitCode: 1,
         processId: 'test-id',
         connectionStatus: 'disconnected',
@@ -125,7 +185,7 @@ describe('ProcessOutputViewer', () => {
 
     it('should apply green color for exit code 0', () => {
       renderComponent({
-        lines: [{ stream: 'stdout', line: 'Done', timestamp: 1000 }],
+        lines: [{ stream: 'stdout', line: 'Done', timestamp: 1000, seq: 0 }],
         exitCode: 0,
         processId: 'test-id',
         connectionStatus: 'disconnected',
@@ -136,7 +196,7 @@ describe('ProcessOutputViewer', () => {
 
     it('should apply destructive color for non-zero exit code', () => {
       renderComponent({
-        lines: [{ stream: 'stderr', line: 'Failed', timestamp: 1000 }],
+        lines: [{ stream: 'stderr', line: 'Failed', timestamp: 1000, seq: 0 }],
         exitCode: 1,
         processId: 'test-id',
         connectionStatus: 'disconnected',
@@ -1,7 +1,7 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
-import { ScrollArea } from '@/components/ui/scroll-area';
+import { useEffect, useRef, useState, type CSSProperties } from 'react';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -20,6 +20,90 @@ export interface ProcessOutputViewerProps {
   initialAutoScroll?: boolean;
 }
 
+/**
+ * Above this many lines only the lines in view are rendered
+ */
+export const VIRTUALIZE_THRESHOLD = 1000;
+
+/**
+ * Height of a line when virtualised (text-xs line height)
+ */
+const LINE_HEIGHT_PX = 16;
+
+/**
+ * Lines rendered above and below the ones in view
+ */
+const OVERSCAN_LINES = 50;
+
+interface ViewportWindow {
+  scrollTop: number;
+  height: number;
+}
+
+function OutputLine({
+  line,
+  style,
+  virtualized,
+}: {
+  line: ProcessOutputLine;
+  style?: CSSProperties;
+  virtualized?: boolean;
+}) {
+  return (
+    <div
+      style={style}
+      className={cn(
+        // Virtualised lines have a fixed height, so long ones don't wrap
+        // and are scrolled to horizontally instead
+        virtualized ? 'whitespace-pre' : 'whitespace-pre-wrap break-all',
+        line.stream === 'stderr' && 'text-destructive',
+      )}
+    >
+      {line.line}
+    </div>
+  );
+}
+
+/**
+ * Lines in view of the scroll area, with spacers standing in for the rest
+ */
+function VirtualizedLines({
+  lines,
+  viewport,
+}: {
+  lines: ProcessOutputLine[];
+  viewport: ViewportWindow;
+}) {
+  const first = Math.max(
+    0,
+    Math.floor(viewport.scrollTop / LINE_HEIGHT_PX) - OVERSCAN_LINES,
+  );
+  const last = Math.min(
+    lines.length,
+    Math.ceil((viewport.scrollTop + viewport.height) / LINE_HEIGHT_PX) +
+      OVERSCAN_LINES,
+  );
+  const lineStyle = {
+    height: LINE_HEIGHT_PX,
+    lineHeight: `${LINE_HEIGHT_PX}px`,
+  };
+
+  return (
+    <>
+      <div style={{ height: first * LINE_HEIGHT_PX }} />
+      {lines.slice(first, last).map((line, offset) => (
+        <OutputLine
+          key={first + offset}
+          line={line}
+          style={lineStyle}
+          virtualized
+        />
+      ))}
+      <div style={{ height: (lines.length - last) * LINE_HEIGHT_PX }} />
+    </>
+  );
+}
+
 function getStatusBadge(status: ConnectionStatus) {
   switch (status) {
     case 'connected':
@@ -43,6 +127,11 @@ export function ProcessOutputViewer({
 }: ProcessOutputViewerProps) {
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const [autoScroll, setAutoScroll] = useState(initialAutoScroll);
+  const [viewport, setViewport] = useState<ViewportWindow>({
+    scrollTop: 0,
+    height: 0,
+  });
+  const virtualized = lines.length > VIRTUALIZE_THRESHOLD;
 
   useEffect(() => {
     if (autoScroll && lines.length > 0) {
@@ -55,6 +144,29 @@ export function ProcessOutputViewer({
     }
   }, [lines, autoScroll]);
 
+  useEffect(() => {
+    if (!virtualized) return;
+    const element = scrollAreaRef.current?.querySelector(
+      '[data-radix-scroll-area-viewport]',
+    );
+    if (!element) return;
+
+    const update = () =>
+      setViewport({
+        scrollTop: element.scrollTop,
+        height: element.clientHeight,
+      });
+    update();
+    element.addEventListener('scroll', update, { passive: true });
+    const resizeObserver =
+      typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(update);
+    resizeObserver?.observe(element);
+    return () => {
+      element.removeEventListener('scroll', update);
+      resizeObserver?.disconnect();
+    };
+  }, [virtualized]);
+
   const renderContent = () => {
     if (!processId) {
       return (
@@ -76,17 +188,13 @@ export function ProcessOutputViewer({
 
     return (
       <div className="font-mono text-xs">
-        {lines.map((line, index) => (
-          <div
-            key={`${line.timestamp}-${index}`}
-            className={cn(
-              'whitespace-pre-wrap break-all',
-              line.stream === 'stderr' && 'text-destructive',
-            )}
-          >
-            {line.line}
-          </div>
-        ))}
+        {virtualized ? (
+          <VirtualizedLines lines={lines} viewport={viewport} />
+        ) : (
+          lines.map((line, index) => (
+            <OutputLine key={`${line.timestamp}-${index}`} line={line} />
+          ))
+        )}
         {exitCode !== null && (
           <div
             className={cn(
@@ -129,6 +237,7 @@ export function ProcessOutputViewer({
       style={{ height }}
     >
       {renderContent()}
+      {virtualized && <ScrollBar orientation="horizontal" />}
     </ScrollArea>
   );
 
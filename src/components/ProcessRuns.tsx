@@ -0,0 +1,252 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ProcessOutputViewer } from '@/components/ProcessOutputViewer';
+import { useNow } from '@/hooks/use-now';
+import { formatRelativeTime } from '@/lib/ticket-age';
+import type {
+  ProcessOutputLine,
+  ProcessRunSummary,
+} from '@/lib/process-runner';
+import { cn } from '@/lib/utils';
+
+const RUNS_PAGE_SIZE = 20;
+
+/**
+ * Output lines loaded at a time when viewing a run
+ */
+const OUTPUT_PAGE_LINES = 2000;
+
+/**
+ * Duration such as "45s" or "12m 5s"
+ */
+function formatRunDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function RunStatusBadge({ run }: { run: ProcessRunSummary }) {
+  if (run.status === 'running') {
+    return <Badge variant="secondary">Running</Badge>;
+  }
+  if (run.status === 'interrupted') {
+    return <Badge variant="outline">Interrupted</Badge>;
+  }
+  return (
+    <Badge variant={run.exitCode === 0 ? 'default' : 'destructive'}>
+      Exit {run.exitCode ?? '?'}
+    </Badge>
+  );
+}
+
+function RunRow({
+  run,
+  now,
+  onOpen,
+}: {
+  run: ProcessRunSummary;
+  now: number;
+  onOpen: () => void;
+}) {
+  return (
+    <li>
+      <button
+        className="w-full space-y-1 rounded-md p-2 text-left hover:bg-muted"
+        onClick={onOpen}
+        data-testid={`run-${run.id}`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <code className="truncate font-mono text-xs" title={run.command}>
+            {run.command}
+          </code>
+          <RunStatusBadge run={run} />
+        </div>
+        <div className="flex gap-2 text-xs text-muted-foreground">
+          <span title={new Date(run.startedAt).toLocaleString()}>
+            {formatRelativeTime(run.startedAt, now)}
+          </span>
+          {run.endedAt !== null && (
+            <span>{formatRunDuration(run.endedAt - run.startedAt)}</span>
+          )}
+        </div>
+      </button>
+    </li>
+  );
+}
+
+/**
+ * The stored output of one run. The last lines are loaded first and
+ * earlier ones a page at a time.
+ */
+function RunOutput({ id, onBack }: { id: string; onBack: () => void }) {
+  const utils = trpc.useUtils();
+  const runQuery = trpc.process.run.useQuery({ id });
+  const tailQuery = trpc.process.outputRange.useQuery(
+    { id, tail: OUTPUT_PAGE_LINES },
+    // A snapshot: earlier pages are loaded relative to it
+    { refetchOnWindowFocus: false, staleTime: Infinity },
+  );
+  const [earlier, setEarlier] = useState<{
+    from: number;
+    lines: ProcessOutputLine[];
+  } | null>(null);
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
+  const [earlierError, setEarlierError] = useState<string | null>(null);
+
+  const tail = tailQuery.data;
+  const first = earlier?.from ?? tail?.from ?? 0;
+  const lines = useMemo(
+    () => [...(earlier?.lines ?? []), ...(tail?.lines ?? [])],
+    [earlier, tail],
+  );
+
+  const loadEarlier = async () => {
+    setLoadingEarlier(true);
+    setEarlierError(null);
+    try {
+      const page = await utils.process.outputRange.fetch({
+        id,
+        from: Math.max(0, first - OUTPUT_PAGE_LINES),
+        to: first,
+      });
+      setEarlier((prev) => ({
+        from: page.from,
+        lines: [...page.lines, ...(prev?.lines ?? [])],
+      }));
+    } catch (error) {
+      setEarlierError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoadingEarlier(false);
+    }
+  };
+
+  const run = runQuery.data;
+  const error = runQuery.error ?? tailQuery.error;
+
+  return (
+    <div className="flex h-full flex-col gap-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 self-start px-2 text-xs"
+        onClick={onBack}
+      >
+        <ArrowLeft className="mr-1 h-3 w-3" />
+        All runs
+      </Button>
+      {(runQuery.isLoading || tailQuery.isLoading) && (
+        <p className="text-sm text-muted-foreground">Loading output...</p>
+      )}
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+      {run && tail && (
+        <>
+          <code
+            className="truncate font-mono text-xs text-muted-foreground"
+            title={run.cwd}
+          >
+            {run.command}
+          </code>
+          {first > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={loadEarlier}
+              disabled={loadingEarlier}
+            >
+              {loadingEarlier
+                ? 'Loading...'
+                : `Show earlier lines (${first} not loaded)`}
+            </Button>
+          )}
+          {earlierError && (
+            <p className="text-sm text-destructive">{earlierError}</p>
+          )}
+          <div className="min-h-0 flex-1">
+            <ProcessOutputViewer
+              lines={lines}
+              exitCode={run.exitCode}
+              connectionStatus="disconnected"
+              processId={run.id}
+              height="100%"
+              title={new Date(run.startedAt).toLocaleString()}
+              showCard={false}
+              initialAutoScroll={false}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Past and current runs of the project, newest first.
+ * Selecting a run shows its full output.
+ */
+export function ProcessRuns({ className }: { className?: string }) {
+  const now = useNow();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data, error, isLoading, fetchNextPage, hasNextPage, isFetching } =
+    trpc.process.history.useInfiniteQuery(
+      { limit: RUNS_PAGE_SIZE },
+      { getNextPageParam: (page) => page.nextCursor },
+    );
+
+  if (selectedId) {
+    return (
+      <div className={cn('h-full', className)}>
+        <RunOutput id={selectedId} onBack={() => setSelectedId(null)} />
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading runs...</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-destructive">{error.message}</p>;
+  }
+
+  const runs = data?.pages.flatMap((page) => page.runs) ?? [];
+  if (runs.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No runs yet. Runs are kept here after they finish.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn('h-full overflow-y-auto', className)}>
+      <ul className="space-y-1">
+        {runs.map((run) => (
+          <RunRow
+            key={run.id}
+            run={run}
+            now={now}
+            onOpen={() => setSelectedId(run.id)}
+          />
+        ))}
+      </ul>
+      {hasNextPage && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 w-full"
+          onClick={() => fetchNextPage()}
+          disabled={isFetching}
+        >
+          {isFetching ? 'Loading...' : 'Load more'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { X } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+/**
+ * How often the queue is checked while the panel is open
+ */
+const QUEUE_REFETCH_MS = 2000;
+
+/**
+ * Runs waiting in the project's run queue, in the order they will start,
+ * each of which can be cancelled. Renders nothing while the queue is empty.
+ */
+export function QueuedRuns({ className }: { className?: string }) {
+  const { toast } = useToast();
+  const queueQuery = trpc.process.queue.useQuery(undefined, {
+    refetchInterval: QUEUE_REFETCH_MS,
+  });
+  const cancelMutation = trpc.process.cancelQueued.useMutation({
+    onSuccess: () => {
+      void queueQuery.refetch();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to cancel run',
+        variant: 'destructive',
+      });
+      void queueQuery.refetch();
+    },
+  });
+
+  const queued = queueQuery.data ?? [];
+  if (queued.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('space-y-1', className)} data-testid="queued-runs">
+      <span className="text-xs font-medium text-muted-foreground">
+        Queued ({queued.length})
+      </span>
+      <ul className="space-y-1">
+        {queued.map((run) => (
+          <li
+            key={run.id}
+            className="flex items-center gap-2 rounded-md bg-muted/50 px-2 py-1 text-xs"
+          >
+            <span className="text-muted-foreground">#{run.position}</span>
+            <code className="flex-1 truncate font-mono" title={run.command}>
+              {run.command}
+            </code>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => cancelMutation.mutate({ id: run.id })}
+              disabled={cancelMutation.isPending}
+              aria-label={`Cancel queued ${run.command}`}
+              data-testid={`cancel-queued-${run.id}`}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { QuickAddBar } from './QuickAddBar';
 
 // Mock the hooks and modules
@@ -14,6 +14,9 @@ const mockCreateMutate = vi.fn();
 vi.mock('@/lib/trpc', () => ({
   trpc: {
     tickets: {
+      list: {
+        useQuery: vi.fn(() => ({ data: { tickets: [], revision: 'rev-1' } })),
+      },
       create: {
         useMutation: vi.fn(() => ({
           mutate: mockCreateMutate,
@@ -21,10 +24,27 @@ vi.mock('@/lib/trpc', () => ({
         })),
       },
     },
+    config: {
+      get: {
+        useQuery: vi.fn(() => ({
+          data: {
+            ticketTemplates: [
+              {
+                name: 'Bug report',
+                titlePrefix: 'Bug: ',
+                description: '## Steps to reproduce',
+                status: 'draft',
+              },
+            ],
+          },
+        })),
+      },
+    },
     useUtils: () => ({
       tickets: {
         list: {
           invalidate: vi.fn(),
+          ensureData: vi.fn(async () => ({ tickets: [], revision: 'rev-1' })),
         },
       },
     }),
@@ -44,30 +64,38 @@ describe('QuickAddBar', () => {
       ).toBeInTheDocument();
     });
 
-    it('should create draft ticket on Enter', () => {
+    it('should create draft ticket on Enter', async () => {
       render(<QuickAddBar />);
 
       const input = screen.getByPlaceholderText('Quick add (Enter = draft)');
       fireEvent.change(input, { target: { value: 'My new ticket' } });
       fireEvent.keyDown(input, { key: 'Enter' });
 
-      expect(mockCreateMutate).toHaveBeenCalledWith({
-        title: 'My new ticket',
-        status: 'draft',
-      });
+      await waitFor(() =>
+        expect(mockCreateMutate).toHaveBeenCalledWith({
+          title: 'My new ticket',
+          status: 'draft',
+          revision: 'rev-1',
+          historyId: expect.any(String),
+        }),
+      );
     });
 
-    it('should create pending ticket on Shift+Enter', () => {
+    it('should create pending ticket on Shift+Enter', async () => {
       render(<QuickAddBar />);
 
       const input = screen.getByPlaceholderText('Quick add (Enter = draft)');
       fireEvent.change(input, { target: { value: 'My pending ticket' } });
       fireEvent.keyDown(input, { key: 'Enter', shiftKey: true });
 
-      expect(mockCreateMutate).toHaveBeenCalledWith({
-        title: 'My pending ticket',
-        status: 'pending',
-      });
+      await waitFor(() =>
+        expect(mockCreateMutate).toHaveBeenCalledWith({
+          title: 'My pending ticket',
+          status: 'pending',
+          revision: 'rev-1',
+          historyId: expect.any(String),
+        }),
+      );
     });
   });
 
@@ -103,6 +131,26 @@ describe('QuickAddBar', () => {
       expect(titleInput.value).toBe('My prefilled title');
     });
 
+    it('should fill the form from a ticket template', () => {
+      render(<QuickAddBar />);
+
+      const input = screen.getByPlaceholderText('Quick add (Enter = draft)');
+      fireEvent.change(input, { target: { value: 'Crash on save' } });
+      fireEvent.click(screen.getByTitle('Expand full form'));
+
+      fireEvent.change(screen.getByLabelText('Template'), {
+        target: { value: 'Bug report' },
+      });
+
+      expect((screen.getByLabelText(/Title/) as HTMLInputElement).value).toBe(
+        'Bug: Crash on save',
+      );
+      expect(
+        (screen.getByLabelText('Description') as HTMLTextAreaElement).value,
+      ).toBe('## Steps to reproduce');
+      expect(screen.getByLabelText(/Draft/)).toBeChecked();
+    });
+
     it('should clear quick add input when expanding with prefilled title', () => {
       render(<QuickAddBar />);
 
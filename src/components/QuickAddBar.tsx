@@ -5,6 +5,9 @@ import { trpc } from '@/lib/trpc';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { useTicketsRevision } from '@/hooks/use-tickets-revision';
+import { UndoToastAction } from '@/components/UndoToastAction';
+import { createHistoryId } from '@/lib/ticket-history';
 import { Plus, ChevronDown, ChevronUp } from 'lucide-react';
 import { AddTicketForm } from '@/components/AddTicketForm';
 import { cn } from '@/lib/utils';
@@ -19,18 +22,23 @@ export function QuickAddBar({ className }: QuickAddBarProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const utils = trpc.useUtils();
+  const getRevision = useTicketsRevision();
 
   const createMutation = trpc.tickets.create.useMutation({
-    onSuccess: (ticket) => {
+    onSuccess: (ticket, { historyId }) => {
       setTitle('');
       utils.tickets.list.invalidate();
       toast({
         title: ticket.status === 'draft' ? 'Draft created' : 'Ticket created',
         description: `"${ticket.title}" added as ${ticket.status}`,
+        action: historyId ? (
+          <UndoToastAction historyId={historyId} />
+        ) : undefined,
       });
       inputRef.current?.focus();
     },
     onError: (error) => {
+      utils.tickets.list.invalidate();
       toast({
         title: 'Error',
         description: error.message || 'Failed to create ticket',
@@ -40,14 +48,19 @@ export function QuickAddBar({ className }: QuickAddBarProps) {
   });
 
   const handleKeyDown = useCallback(
-    (e: React.KeyboardEvent<HTMLInputElement>) => {
+    async (e: React.KeyboardEvent<HTMLInputElement>) => {
       if (e.key === 'Enter' && title.trim()) {
         e.preventDefault();
         const status = e.shiftKey ? 'pending' : 'draft';
-        createMutation.mutate({ title: title.trim(), status });
+        createMutation.mutate({
+          title: title.trim(),
+          status,
+          revision: await getRevision(),
+          historyId: createHistoryId(),
+        });
       }
     },
-    [title, createMutation],
+    [title, createMutation, getRevision],
   );
 
   const handleExpandedFormSuccess = useCallback(() => {
@@ -20,12 +20,17 @@ vi.mock('@/components/providers/TRPCProvider', () => ({
 
 // Mock tRPC
 const mockStartMutate = vi.fn();
+const mockEnqueueMutate = vi.fn();
 const mockKillMutate = vi.fn();
-let startMutationOptions: {
-  onSuccess?: (
-    data: { id: string; pid: number },
-    variables: { command: string },
-  ) => void;
+const mockCancelQueuedMutate = vi.fn();
+type EnqueueResult =
+  | { state: 'started'; handle: { id: string; pid: number } }
+  | {
+      state: 'queued';
+      run: { id: string; command: string; queuedAt: number; position: number };
+    };
+let enqueueMutationOptions: {
+  onSuccess?: (data: EnqueueResult, variables: { command: string }) => void;
   onError?: (error: Error) => void;
 } = {};
 // eslint-disable-next-line @typescript-eslint/no-unused-vars -- needed for type completeness
@@ -43,6 +48,13 @@ const mockConfig = {
 
 const mockRefetch = vi.fn();
 
+let mockQueuedRuns: {
+  id: string;
+  command: string;
+  queuedAt: number;
+  position: number;
+}[] = [];
+
 vi.mock('@/lib/trpc', () => ({
   trpc: {
     config: {
@@ -56,21 +68,31 @@ vi.mock('@/lib/trpc', () => ({
     },
     process: {
       start: {
-        useMutation: vi.fn(
-          (options: {
-            onSuccess?: (
-              data: { id: string; pid: number },
-              variables: { command: string },
-            ) => void;
-            onError?: (error: Error) => void;
-          }) => {
-            startMutationOptions = options;
-            return {
-              mutate: mockStartMutate,
-              isPending: false,
-            };
-          },
-        ),
+        useMutation: vi.fn(() => ({
+          mutate: mockStartMutate,
+          isPending: false,
+        })),
+      },
+      enqueue: {
+        useMutation: vi.fn((options: typeof enqueueMutationOptions) => {
+          enqueueMutationOptions = options;
+          return {
+            mutate: mockEnqueueMutate,
+            isPending: false,
+          };
+        }),
+      },
+      queue: {
+        useQuery: vi.fn(() => ({
+          data: mockQueuedRuns,
+          refetch: vi.fn(),
+        })),
+      },
+      cancelQueued: {
+        useMutation: vi.fn(() => ({
+          mutate: mockCancelQueuedMutate,
+          isPending: false,
+        })),
       },
       kill: {
         useMutation: vi.fn(
@@ -99,6 +121,35 @@ vi.mock('@/lib/trpc', () => ({
           error: null,
         })),
       },
+      history: {
+        useInfiniteQuery: vi.fn(() => ({
+          data: {
+            pages: [
+              {
+                runs: [
+                  {
+                    id: 'run-1',
+                    command: 'ralph-once',
+                    cwd: '/project',
+                    pid: 42,
+                    startedAt: Date.now() - 60_000,
+                    endedAt: Date.now() - 30_000,
+                    exitCode: 0,
+                    status: 'exited',
+                  },
+                ],
+                total: 1,
+                nextCursor: null,
+              },
+            ],
+          },
+          isLoading: false,
+          error: null,
+          hasNextPage: false,
+          isFetching: false,
+          fetchNextPage: vi.fn(),
+        })),
+      },
     },
   },
 }));
@@ -123,8 +174,9 @@ describe('RalphSidePanel', () => {
     vi.clearAllMocks();
     mockUseEventStream.mockReturnValue(createMockResult());
     mockRefetch.mockResolvedValue({ data: null });
-    startMutationOptions = {};
+    enqueueMutationOptions = {};
     killMutationOptions = {};
+    mockQueuedRuns = [];
   });
 
   describe('initial rendering', () => {
@@ -157,23 +209,72 @@ describe('RalphSidePanel', () => {
     });
   });
 
+  describe('runs view', () => {
+    it('should list past runs when the Runs tab is selected', () => {
+      render(<RalphSidePanel />);
+
+      fireEvent.click(screen.getByTestId('output-view-runs'));
+
+      expect(screen.getByTestId('run-run-1')).toHaveTextContent('ralph-once');
+      expect(screen.getByText('Exit 0')).toBeInTheDocument();
+      expect(
+        screen.queryByText('No output yet. Run a command to see output.'),
+      ).not.toBeInTheDocument();
+    });
+  });
+
   describe('starting processes', () => {
-    it('should call start mutation with ralph-once on Run Next click', () => {
+    it('should call enqueue mutation with ralph-once on Run Next click', () => {
       render(<RalphSidePanel />);
 
       const button = screen.getByRole('button', { name: /Run Next/i });
       fireEvent.click(button);
 
-      expect(mockStartMutate).toHaveBeenCalledWith({ command: 'ralph-once' });
+      expect(mockEnqueueMutate).toHaveBeenCalledWith({ command: 'ralph-once' });
     });
 
-    it('should call start mutation with ralph on Run All click', () => {
+    it('should call enqueue mutation with ralph on Run All click', () => {
       render(<RalphSidePanel />);
 
       const button = screen.getByRole('button', { name: /Run All/i });
       fireEvent.click(button);
 
-      expect(mockStartMutate).toHaveBeenCalledWith({ command: 'ralph' });
+      expect(mockEnqueueMutate).toHaveBeenCalledWith({ command: 'ralph' });
+    });
+  });
+
+  describe('run queue', () => {
+    it('should go back to idle when the command is queued', () => {
+      render(<RalphSidePanel />);
+
+      fireEvent.click(screen.getByRole('button', { name: /Run All/i }));
+      act(() => {
+        enqueueMutationOptions.onSuccess?.(
+          {
+            state: 'queued',
+            run: { id: 'q-1', command: 'ralph', queuedAt: 0, position: 1 },
+          },
+          { command: 'ralph' },
+        );
+      });
+
+      expect(screen.getByRole('button', { name: /Run All/i })).toBeEnabled();
+      expect(screen.queryByTestId('status-text')).not.toBeInTheDocument();
+    });
+
+    it('should list queued runs with their position and cancel them', () => {
+      mockQueuedRuns = [
+        { id: 'q-1', command: 'ralph', queuedAt: 0, position: 1 },
+        { id: 'q-2', command: 'ralph-once', queuedAt: 0, position: 2 },
+      ];
+      render(<RalphSidePanel />);
+
+      const queued = screen.getByTestId('queued-runs');
+      expect(queued).toHaveTextContent('Queued (2)');
+      expect(queued).toHaveTextContent('#2ralph-once');
+
+      fireEvent.click(screen.getByTestId('cancel-queued-q-2'));
+      expect(mockCancelQueuedMutate).toHaveBeenCalledWith({ id: 'q-2' });
     });
   });
 
@@ -187,8 +288,8 @@ describe('RalphSidePanel', () => {
 
       // Simulate successful start
       act(() => {
-        startMutationOptions.onSuccess?.(
-          { id: 'test-proc-id', pid: 12345 },
+        enqueueMutationOptions.onSuccess?.(
+          { state: 'started', handle: { id: 'test-proc-id', pid: 12345 } },
           { command: 'ralph-once' },
         );
       });
@@ -206,8 +307,8 @@ describe('RalphSidePanel', () => {
       fireEvent.click(button);
 
       act(() => {
-        startMutationOptions.onSuccess?.(
-          { id: 'test-proc-id', pid: 12345 },
+        enqueueMutationOptions.onSuccess?.(
+          { state: 'started', handle: { id: 'test-proc-id', pid: 12345 } },
           { command: 'ralph-once' },
         );
       });
@@ -223,8 +324,8 @@ describe('RalphSidePanel', () => {
       fireEvent.click(button);
 
       act(() => {
-        startMutationOptions.onSuccess?.(
-          { id: 'test-proc-id', pid: 12345 },
+        enqueueMutationOptions.onSuccess?.(
+          { state: 'started', handle: { id: 'test-proc-id', pid: 12345 } },
           { command: 'ralph-once' },
         );
       });
@@ -242,8 +343,8 @@ describe('RalphSidePanel', () => {
       fireEvent.click(runButton);
 
       act(() => {
-        startMutationOptions.onSuccess?.(
-          { id: 'test-proc-id', pid: 12345 },
+        enqueueMutationOptions.onSuccess?.(
+          { state: 'started', handle: { id: 'test-proc-id', pid: 12345 } },
           { command: 'ralph-once' },
         );
       });
@@ -288,8 +389,8 @@ describe('RalphSidePanel', () => {
       fireEvent.click(button);
 
       act(() => {
-        startMutationOptions.onSuccess?.(
-          { id: 'test-proc-id', pid: 12345 },
+        enqueueMutationOptions.onSuccess?.(
+          { state: 'started', handle: { id: 'test-proc-id', pid: 12345 } },
           { command: 'ralph-once' },
         );
       });
@@ -315,8 +416,8 @@ describe('RalphSidePanel', () => {
       fireEvent.click(button);
 
       act(() => {
-        startMutationOptions.onSuccess?.(
-          { id: 'test-proc-id', pid: 12345 },
+        enqueueMutationOptions.onSuccess?.(
+          { state: 'started', handle: { id: 'test-proc-id', pid: 12345 } },
           { command: 'ralph-once' },
         );
       });
@@ -340,8 +441,8 @@ describe('RalphSidePanel', () => {
       fireEvent.click(button);
 
       act(() => {
-        startMutationOptions.onSuccess?.(
-          { id: 'test-proc-id', pid: 12345 },
+        enqueueMutationOptions.onSuccess?.(
+          { state: 'started', handle: { id: 'test-proc-id', pid: 12345 } },
           { command: 'ralph-once' },
         );
       });
@@ -370,8 +471,8 @@ describe('RalphSidePanel', () => {
       fireEvent.click(button);
 
       act(() => {
-        startMutationOptions.onSuccess?.(
-          { id: 'test-proc-id', pid: 12345 },
+        enqueueMutationOptions.onSuccess?.(
+          { state: 'started', handle: { id: 'test-proc-id', pid: 12345 } },
           { command: 'ralph-once' },
         );
       });
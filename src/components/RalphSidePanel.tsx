@@ -17,7 +17,10 @@ import { trpc } from '@/lib/trpc';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { ProcessOutputViewer } from '@/components/ProcessOutputViewer';
+import { ProcessRuns } from '@/components/ProcessRuns';
+import { QueuedRuns } from '@/components/QueuedRuns';
 import { useEventStream } from '@/hooks/use-event-stream';
+import { useCommandRequests } from '@/hooks/use-command-requests';
 import { useProjectPath } from '@/components/providers/TRPCProvider';
 import { useResizablePanel } from '@/hooks/use-resizable-panel';
 import { ResizableHandle } from '@/components/ResizableHandle';
@@ -29,8 +32,9 @@ import {
   isCompleted,
   getProcessId,
   getLines,
+  getNextSeq,
 } from '@/lib/process-state';
-import type { ProcessOutputLine } from '@/lib/process-runner';
+import type { ProcessHandle, ProcessOutputLine } from '@/lib/process-runner';
 import type { CommandConfig } from '@/lib/project-config';
 import { cn } from '@/lib/utils';
 import {
@@ -51,6 +55,8 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useState } from 'react';
 
+type OutputView = 'output' | 'runs';
+
 const RALPH_PANEL_CONFIG = {
   storageKey: 'ralph-control-panel-width',
   defaultWidth: 350,
@@ -84,6 +90,7 @@ export function RalphSidePanel() {
     null,
   );
   const [commandLabel, setCommandLabel] = useState<string | null>(null);
+  const [outputView, setOutputView] = useState<OutputView>('output');
 
   const configQuery = trpc.config.get.useQuery();
   const commands = configQuery.data?.commands ?? [];
@@ -147,10 +154,22 @@ export function RalphSidePanel() {
     return t;
   }, [processId, state]);
 
-  const handleProcessReplayStart = useCallback((id: string) => {
-    dispatch({ type: 'REPLAY_START', id });
+  const getProcessResume = useCallback(
+    (id: string) => (id === processId ? getNextSeq(lines) : 0),
+    [processId, lines],
+  );
+
+  const handleProcessReplayStart = useCallback((id: string, from: number) => {
+    dispatch({ type: 'REPLAY_START', id, from });
   }, []);
 
+  const handleProcessOutputBatch = useCallback(
+    (id: string, batch: ProcessOutputLine[]) => {
+      dispatch({ type: 'OUTPUT_BATCH', id, lines: batch });
+    },
+    [],
+  );
+
   const handleProcessOutput = useCallback(
     (id: string, line: ProcessOutputLine) => {
       dispatch({ type: 'OUTPUT', id, line });
@@ -196,41 +215,65 @@ export function RalphSidePanel() {
   const { connectionStatus } = useEventStream({
     project: projectPath,
     topics,
+    getProcessResume,
     onProcessReplayStart: handleProcessReplayStart,
     onProcessOutput: handleProcessOutput,
+    onProcessOutputBatch: handleProcessOutputBatch,
     onProcessExit: handleProcessExit,
     onReconnect: handleReconnect,
   });
 
-  const startMutation = trpc.process.start.useMutation({
-    onSuccess: (handle, variables) => {
-      const label =
-        commands.find((c) => c.cmd === variables.command)?.label ?? 'Command';
-      setCommandLabel(label);
-
-      try {
-        sessionStorage.removeItem(getStorageKey(handle.id));
-      } catch {
-        // Storage unavailable
-      }
+  const getCommandLabel = (cmd: string) =>
+    commands.find((c) => c.cmd === cmd)?.label ?? 'Command';
 
-      restoreAttemptedRef.current = handle.id;
-      dispatch({ type: 'STARTED', id: handle.id, pid: handle.pid });
-      panel.setIsCollapsed(false);
+  const handleStarted = (handle: ProcessHandle, command: string) => {
+    const label = getCommandLabel(command);
+    setCommandLabel(label);
+    setOutputView('output');
 
+    try {
+      sessionStorage.removeItem(getStorageKey(handle.id));
+    } catch {
+      // Storage unavailable
+    }
+
+    restoreAttemptedRef.current = handle.id;
+    dispatch({ type: 'STARTED', id: handle.id, pid: handle.pid });
+    panel.setIsCollapsed(false);
+
+    toast({
+      title: `Running: ${label}`,
+      description: `Process started (PID: ${handle.pid})`,
+    });
+  };
+
+  const handleStartError = (error: { message: string }) => {
+    dispatch({ type: 'ERROR', message: error.message });
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to start process',
+      variant: 'destructive',
+    });
+  };
+
+  const startMutation = trpc.process.start.useMutation({
+    onSuccess: (handle, variables) => handleStarted(handle, variables.command),
+    onError: handleStartError,
+  });
+
+  const enqueueMutation = trpc.process.enqueue.useMutation({
+    onSuccess: (result, variables) => {
+      if (result.state === 'started') {
+        handleStarted(result.handle, variables.command);
+        return;
+      }
+      dispatch({ type: 'QUEUED' });
       toast({
-        title: `Running: ${label}`,
-        description: `Process started (PID: ${handle.pid})`,
-      });
-    },
-    onError: (error) => {
-      dispatch({ type: 'ERROR', message: error.message });
-      toast({
-        title: 'Error',
-        description: error.message || 'Failed to start process',
-        variant: 'destructive',
+        title: `Queued: ${getCommandLabel(variables.command)}`,
+        description: `Starts when a run finishes (#${result.run.position} in the queue)`,
       });
     },
+    onError: handleStartError,
   });
 
   const killMutation = trpc.process.kill.useMutation({
@@ -284,14 +327,35 @@ export function RalphSidePanel() {
       setConfirmCommand(command);
     } else {
       dispatch({ type: 'START', command: command.cmd });
-      startMutation.mutate({ command: command.cmd });
+      enqueueMutation.mutate({
+        command: command.cmd,
+        detached: command.detached,
+      });
     }
   };
 
+  useCommandRequests((command) => {
+    if (isRunning || starting) {
+      toast({
+        title: 'Command not started',
+        description: 'Another command is still running',
+        variant: 'destructive',
+      });
+      return;
+    }
+    panel.setIsCollapsed(false);
+    handleRunCommand(command);
+  });
+
   const handleConfirmRun = () => {
     if (confirmCommand) {
+      // Not queued: a command like Stop has to run alongside the runs it
+      // acts on
       dispatch({ type: 'START', command: confirmCommand.cmd });
-      startMutation.mutate({ command: confirmCommand.cmd });
+      startMutation.mutate({
+        command: confirmCommand.cmd,
+        detached: confirmCommand.detached,
+      });
       setConfirmCommand(null);
     }
   };
@@ -310,6 +374,7 @@ export function RalphSidePanel() {
     if (isRunning || starting) return;
     setCommandLabel('Attached Process');
     dispatch({ type: 'ATTACH', id, pid });
+    setOutputView('output');
     panel.setIsCollapsed(false);
     toast({
       title: 'Following process',
@@ -433,6 +498,8 @@ export function RalphSidePanel() {
                   )}
                 </div>
 
+                <QueuedRuns />
+
                 {isRunning && (
                   <Button
                     size="sm"
@@ -486,8 +553,33 @@ export function RalphSidePanel() {
                 )}
               </div>
 
+              <div className="flex border-b">
+                {(
+                  [
+                    ['output', 'Current'],
+                    ['runs', 'Runs'],
+                  ] as const
+                ).map(([value, label]) => (
+                  <button
+                    key={value}
+                    className={cn(
+                      'flex-1 px-3 py-1.5 text-sm font-medium transition-colors',
+                      outputView === value
+                        ? 'border-b-2 border-primary text-foreground'
+                        : 'text-muted-foreground hover:text-foreground',
+                    )}
+                    onClick={() => setOutputView(value)}
+                    data-testid={`output-view-${value}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
               <div className="flex-1 overflow-hidden p-3">
-                {hasOutput || isRunning ? (
+                {outputView === 'runs' ? (
+                  <ProcessRuns />
+                ) : hasOutput || isRunning ? (
                   <ProcessOutputViewer
                     lines={lines}
                     exitCode={exitCode}
@@ -0,0 +1,186 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import type { TicketComment } from '@/lib/schemas';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { DescriptionViewer } from '@/components/DescriptionViewer';
+import { UndoToastAction } from '@/components/UndoToastAction';
+import { useNow } from '@/hooks/use-now';
+import { useToast } from '@/hooks/use-toast';
+import { useTicketsRevision } from '@/hooks/use-tickets-revision';
+import { formatRelativeTime, parseTicketDate } from '@/lib/ticket-age';
+import { createHistoryId } from '@/lib/ticket-history';
+import { getStoredAuthor, saveAuthor } from '@/lib/ticket-author';
+
+interface CommentItemProps {
+  comment: TicketComment;
+  now: number;
+  onDelete: () => void;
+  isDeleting: boolean;
+}
+
+function CommentItem({ comment, now, onDelete, isDeleting }: CommentItemProps) {
+  const created = parseTicketDate(comment.createdAt);
+
+  return (
+    <li className="space-y-1 rounded-md border p-2 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">{comment.author}</span>
+        {created !== null && (
+          <span
+            className="text-xs text-muted-foreground"
+            title={new Date(created).toLocaleString()}
+          >
+            {formatRelativeTime(created, now)}
+          </span>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="ml-auto h-6 w-6"
+          onClick={onDelete}
+          disabled={isDeleting}
+          title="Delete comment"
+          aria-label={`Delete comment by ${comment.author}`}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      <DescriptionViewer
+        content={comment.body}
+        className="prose prose-sm dark:prose-invert max-w-none"
+      />
+    </li>
+  );
+}
+
+export interface TicketCommentsProps {
+  ticketId: number;
+  comments: TicketComment[];
+}
+
+/**
+ * A ticket's comment thread with a form for adding to it.
+ * The author name is remembered in localStorage.
+ */
+export function TicketComments({ ticketId, comments }: TicketCommentsProps) {
+  const [author, setAuthor] = useState(getStoredAuthor);
+  const [body, setBody] = useState('');
+  const now = useNow();
+  const { toast } = useToast();
+  const utils = trpc.useUtils();
+  const getRevision = useTicketsRevision();
+
+  const onError = (error: { message: string }) => {
+    utils.tickets.list.invalidate();
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to update comments',
+      variant: 'destructive',
+    });
+  };
+
+  const addMutation = trpc.tickets.addComment.useMutation({
+    onSuccess: () => {
+      utils.tickets.list.invalidate();
+      setBody('');
+    },
+    onError,
+  });
+
+  const deleteMutation = trpc.tickets.deleteComment.useMutation({
+    onSuccess: (_result, { historyId }) => {
+      utils.tickets.list.invalidate();
+      toast({
+        title: 'Comment deleted',
+        description: `Removed a comment from ticket #${ticketId}.`,
+        action: historyId ? (
+          <UndoToastAction historyId={historyId} />
+        ) : undefined,
+      });
+    },
+    onError,
+  });
+
+  const canSubmit =
+    author.trim() !== '' && body.trim() !== '' && !addMutation.isPending;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    saveAuthor(author.trim());
+    addMutation.mutate({
+      ticketId,
+      author: author.trim(),
+      body,
+      revision: await getRevision(),
+      historyId: createHistoryId(),
+    });
+  };
+
+  const handleDelete = async (commentId: string) => {
+    deleteMutation.mutate({
+      ticketId,
+      commentId,
+      revision: await getRevision(),
+      historyId: createHistoryId(),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium">
+        Comments{comments.length > 0 && ` (${comments.length})`}:
+      </span>
+      {comments.length > 0 && (
+        <ul className="space-y-2">
+          {comments.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              now={now}
+              onDelete={() => handleDelete(comment.id)}
+              isDeleting={deleteMutation.isPending}
+            />
+          ))}
+        </ul>
+      )}
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSubmit();
+        }}
+      >
+        <Textarea
+          aria-label="Comment"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          placeholder="Leave a note for teammates or ralph (Markdown)"
+          rows={3}
+        />
+        <div className="flex gap-2">
+          <Input
+            aria-label="Your name"
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            placeholder="Your name"
+            className="h-8 max-w-48"
+          />
+          <Button type="submit" size="sm" disabled={!canSubmit}>
+            {addMutation.isPending ? 'Posting...' : 'Comment'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
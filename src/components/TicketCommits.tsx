@@ -0,0 +1,93 @@
+'use client';
+
+import { GitCommitHorizontal } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { Badge } from '@/components/ui/badge';
+import { DiffPanelButton } from '@/components/DiffPanel';
+import { useNow } from '@/hooks/use-now';
+import { formatRelativeTime, parseTicketDate } from '@/lib/ticket-age';
+import type { GitCommit } from '@/lib/ticket-commits';
+
+function CommitRow({ commit, now }: { commit: GitCommit; now: number }) {
+  const date = parseTicketDate(commit.date);
+
+  return (
+    <li className="space-y-0.5 text-sm">
+      <div className="flex items-start gap-2">
+        <code
+          className="shrink-0 rounded bg-muted px-1 font-mono text-xs leading-5"
+          title={commit.sha}
+        >
+          {commit.shortSha}
+        </code>
+        <span className="min-w-0 break-words" title={commit.body || undefined}>
+          {commit.subject}
+        </span>
+      </div>
+      <div className="flex flex-wrap items-center gap-x-2 pl-1 text-xs text-muted-foreground">
+        <span>{commit.author}</span>
+        {date !== null && (
+          <span title={new Date(date).toLocaleString()}>
+            {formatRelativeTime(date, now)}
+          </span>
+        )}
+        <span>
+          {commit.filesChanged} file{commit.filesChanged === 1 ? '' : 's'}
+        </span>
+        {commit.refs.map((ref) => (
+          <Badge key={ref} variant="outline" className="px-1 py-0 text-xs">
+            {ref}
+          </Badge>
+        ))}
+      </div>
+    </li>
+  );
+}
+
+export interface TicketCommitsProps {
+  ticketId: number;
+}
+
+/**
+ * Git commits that mention the ticket, with a button to view their diff.
+ * Hidden when the project is not in a git repository.
+ */
+export function TicketCommits({ ticketId }: TicketCommitsProps) {
+  const now = useNow();
+  const { data, error } = trpc.tickets.commits.useQuery({ id: ticketId });
+
+  if (error) {
+    return (
+      <p className="text-sm text-destructive">
+        Could not read commits: {error.message}
+      </p>
+    );
+  }
+
+  if (!data?.isRepository) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1 text-sm font-medium">
+          <GitCommitHorizontal className="h-4 w-4" />
+          Commits ({data.commits.length}):
+        </span>
+        <DiffPanelButton ticketId={ticketId} />
+      </div>
+      {data.commits.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No commits mention this ticket yet
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {data.commits.map((commit) => (
+            <CommitRow key={commit.sha} commit={commit} now={now} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
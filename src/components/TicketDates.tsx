@@ -0,0 +1,136 @@
+'use client';
+
+import { CalendarClock, Clock, Hourglass } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import type { Ticket } from '@/lib/schemas';
+import {
+  formatDuration,
+  formatRelativeTime,
+  getDueState,
+  getStaleDuration,
+  parseTicketDate,
+  type DueState,
+} from '@/lib/ticket-age';
+import { findStatus } from '@/lib/ticket-workflow';
+import { useNow } from '@/hooks/use-now';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+const dueStateClasses: Record<DueState, string> = {
+  overdue: 'text-destructive',
+  soon: 'text-amber-600 dark:text-amber-400',
+  later: '',
+};
+
+/**
+ * How long an in-progress ticket has gone without an update, if past the
+ * project's staleAfterHours threshold
+ */
+export function useStaleDuration(ticket: Ticket, now: number): number | null {
+  const { data: config } = trpc.config.get.useQuery();
+  return getStaleDuration(ticket, now, config?.staleAfterHours);
+}
+
+/**
+ * Badge for a ticket stuck in progress
+ */
+export function StaleBadge({ duration }: { duration: number }) {
+  return (
+    <Badge
+      variant="outline"
+      className="shrink-0 gap-1 border-amber-500/50 text-xs text-amber-600 dark:text-amber-400"
+      title={`In progress without an update for ${formatDuration(duration)}`}
+    >
+      <Hourglass className="h-3 w-3" />
+      Stuck {formatDuration(duration)}
+    </Badge>
+  );
+}
+
+interface TicketDatesProps {
+  ticket: Ticket;
+  now: number;
+  /**
+   * Full "Created 3d ago" labels instead of just the age
+   */
+  detailed?: boolean;
+  className?: string;
+}
+
+/**
+ * Ticket age and due date as relative times
+ */
+export function TicketDates({
+  ticket,
+  now,
+  detailed = false,
+  className,
+}: TicketDatesProps) {
+  const statuses = useTicketStatuses();
+  const created = parseTicketDate(ticket.createdAt);
+  const updated = parseTicketDate(ticket.updatedAt);
+  const due = parseTicketDate(ticket.dueAt);
+  const dueState = getDueState(
+    ticket,
+    now,
+    findStatus(statuses, ticket.status)?.closed ?? false,
+  );
+
+  if (created === null && due === null && (!detailed || updated === null)) {
+    return null;
+  }
+
+  return (
+    <span className={cn('flex flex-wrap items-center gap-x-2', className)}>
+      {created !== null && (
+        <span
+          className="flex items-center gap-1"
+          title={`Created ${new Date(created).toLocaleString()}`}
+        >
+          <Clock className="h-3 w-3" />
+          {detailed && 'Created '}
+          {formatRelativeTime(created, now)}
+        </span>
+      )}
+      {detailed && updated !== null && (
+        <span title={`Updated ${new Date(updated).toLocaleString()}`}>
+          Updated {formatRelativeTime(updated, now)}
+        </span>
+      )}
+      {due !== null && (
+        <span
+          className={cn(
+            'flex items-center gap-1',
+            dueState && dueStateClasses[dueState],
+          )}
+          title={`Due ${new Date(due).toLocaleDateString()}`}
+        >
+          <CalendarClock className="h-3 w-3" />
+          {dueState === 'overdue'
+            ? `Overdue ${formatDuration(now - due)}`
+            : `Due ${formatRelativeTime(due, now)}`}
+        </span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Dates row for the ticket detail views
+ */
+export function TicketDatesDetail({ ticket }: { ticket: Ticket }) {
+  const now = useNow();
+  const staleDuration = useStaleDuration(ticket, now);
+
+  if (!ticket.createdAt && !ticket.updatedAt && !ticket.dueAt) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+      <TicketDates ticket={ticket} now={now} detailed />
+      {staleDuration !== null && <StaleBadge duration={staleDuration} />}
+    </div>
+  );
+}
@@ -1,35 +1,34 @@
 'use client';
 
+import { Tag } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-export type TicketStatus =
-  | 'all'
-  | 'incomplete'
-  | 'draft'
-  | 'pending'
-  | 'in_progress'
-  | 'completed'
-  | 'failed';
-
-const STATUS_OPTIONS: { value: TicketStatus; label: string }[] = [
-  { value: 'incomplete', label: 'Incomplete' },
-  { value: 'all', label: 'All' },
-  { value: 'draft', label: 'Draft' },
-  { value: 'pending', label: 'Pending' },
-  { value: 'in_progress', label: 'In Progress' },
-  { value: 'completed', label: 'Completed' },
-  { value: 'failed', label: 'Failed' },
-];
+import type { TicketStatus } from '@/lib/ticket-filter';
+import {
+  ticketSortOptions,
+  ticketSortLabels,
+  type TicketSort,
+} from '@/lib/ticket-order';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
 
 interface TicketFilterProps {
   value: TicketStatus;
   onChange: (status: TicketStatus) => void;
 }
 
+/**
+ * Status tabs: Incomplete, All, then each of the project's statuses
+ */
 export function TicketFilter({ value, onChange }: TicketFilterProps) {
+  const statuses = useTicketStatuses();
+  const options = [
+    { value: 'incomplete', label: 'Incomplete' },
+    { value: 'all', label: 'All' },
+    ...statuses.map((status) => ({ value: status.name, label: status.label })),
+  ];
+
   return (
     <div className="flex flex-wrap gap-1 rounded-lg bg-muted p-1">
-      {STATUS_OPTIONS.map((option) => (
+      {options.map((option) => (
         <button
           key={option.value}
           onClick={() => onChange(option.value)}
@@ -48,17 +47,89 @@ export function TicketFilter({ value, onChange }: TicketFilterProps) {
   );
 }
 
-export function isValidTicketStatus(
-  status: string | null,
-): status is TicketStatus {
-  if (!status) return false;
-  return [
-    'all',
-    'incomplete',
-    'draft',
-    'pending',
-    'in_progress',
-    'completed',
-    'failed',
-  ].includes(status);
+interface LabelFilterProps {
+  /**
+   * Labels used in the project
+   */
+  options: string[];
+  value: string[];
+  onChange: (labels: string[]) => void;
+}
+
+/**
+ * Toggleable label chips; tickets with any selected label are shown.
+ * Selected labels that no ticket uses any more stay visible so they can be
+ * cleared.
+ */
+export function LabelFilter({ options, value, onChange }: LabelFilterProps) {
+  const labels = [...new Set([...options, ...value])];
+  if (labels.length === 0) {
+    return null;
+  }
+
+  const toggle = (label: string) => {
+    onChange(
+      value.includes(label)
+        ? value.filter((v) => v !== label)
+        : [...value, label],
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <Tag className="h-3.5 w-3.5 text-muted-foreground" aria-hidden="true" />
+      {labels.map((label) => (
+        <button
+          key={label}
+          type="button"
+          onClick={() => toggle(label)}
+          aria-pressed={value.includes(label)}
+          className={cn(
+            'rounded-full border px-2.5 py-1 md:py-0.5 text-xs font-medium transition-colors',
+            value.includes(label)
+              ? 'border-primary bg-primary text-primary-foreground'
+              : 'text-muted-foreground hover:bg-muted hover:text-foreground',
+          )}
+        >
+          {label}
+        </button>
+      ))}
+      {value.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="px-1.5 text-xs text-muted-foreground underline-offset-2 hover:underline"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface TicketSortSelectProps {
+  value: TicketSort;
+  onChange: (sort: TicketSort) => void;
+}
+
+/**
+ * Sort order for the ticket list
+ */
+export function TicketSortSelect({ value, onChange }: TicketSortSelectProps) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+      Sort
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as TicketSort)}
+        className="h-8 rounded-md border border-input bg-transparent px-2 text-xs text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+      >
+        {ticketSortOptions.map((option) => (
+          <option key={option} value={option}>
+            {ticketSortLabels[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
 }
@@ -0,0 +1,137 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { ListedTicket } from '@/lib/schemas';
+import {
+  layoutDependencyGraph,
+  GRAPH_NODE_WIDTH,
+  GRAPH_NODE_HEIGHT,
+} from '@/lib/ticket-graph';
+import { getStatusBadgeClass, formatStatus } from '@/lib/ticket-ui';
+import { cn } from '@/lib/utils';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
+
+const PADDING = 24;
+
+export interface TicketGraphProps {
+  tickets: ListedTicket[];
+  nextTicketId?: number | null;
+  onTicketSelect?: (ticket: ListedTicket) => void;
+}
+
+/**
+ * Dependency graph of tickets.
+ * Nodes are coloured by status; edges run from a dependency to the tickets
+ * waiting on it. The ticket ralph would pick next is highlighted.
+ */
+export function TicketGraph({
+  tickets,
+  nextTicketId,
+  onTicketSelect,
+}: TicketGraphProps) {
+  const statuses = useTicketStatuses();
+  const layout = useMemo(() => layoutDependencyGraph(tickets), [tickets]);
+
+  const positions = useMemo(
+    () => new Map(layout.nodes.map((node) => [node.ticket.id, node])),
+    [layout],
+  );
+
+  if (tickets.length === 0) {
+    return (
+      <div className="flex items-center justify-center p-8 text-muted-foreground">
+        No tickets to display
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="relative"
+      style={{
+        width: layout.width + PADDING * 2,
+        height: layout.height + PADDING * 2,
+      }}
+    >
+      <svg
+        className="absolute inset-0 text-muted-foreground"
+        width={layout.width + PADDING * 2}
+        height={layout.height + PADDING * 2}
+        aria-hidden="true"
+      >
+        <defs>
+          <marker
+            id="ticket-graph-arrow"
+            viewBox="0 0 10 10"
+            refX="10"
+            refY="5"
+            markerWidth="6"
+            markerHeight="6"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+          </marker>
+        </defs>
+        {layout.edges.map((edge) => {
+          const from = positions.get(edge.from);
+          const to = positions.get(edge.to);
+          if (!from || !to) return null;
+
+          const x1 = PADDING + from.x + GRAPH_NODE_WIDTH;
+          const y1 = PADDING + from.y + GRAPH_NODE_HEIGHT / 2;
+          const x2 = PADDING + to.x;
+          const y2 = PADDING + to.y + GRAPH_NODE_HEIGHT / 2;
+          const midX = (x1 + x2) / 2;
+
+          return (
+            <path
+              key={`${edge.from}-${edge.to}`}
+              d={`M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={1.5}
+              strokeOpacity={0.6}
+              markerEnd="url(#ticket-graph-arrow)"
+            />
+          );
+        })}
+      </svg>
+
+      {layout.nodes.map(({ ticket, x, y }) => {
+        const isNext = ticket.id === nextTicketId;
+        return (
+          <button
+            key={ticket.id}
+            type="button"
+            onClick={() => onTicketSelect?.(ticket)}
+            className={cn(
+              'absolute flex flex-col justify-center rounded-md border px-3 text-left shadow-sm transition-shadow hover:shadow-md',
+              getStatusBadgeClass(ticket.status, statuses),
+              ticket.status === 'draft' && 'opacity-60',
+              ticket.blocked && 'border-dashed',
+              isNext && 'ring-2 ring-primary ring-offset-2',
+            )}
+            style={{
+              left: PADDING + x,
+              top: PADDING + y,
+              width: GRAPH_NODE_WIDTH,
+              height: GRAPH_NODE_HEIGHT,
+            }}
+            title={`#${ticket.id}: ${ticket.title}`}
+          >
+            <span className="truncate text-sm font-medium">
+              #{ticket.id}: {ticket.title}
+            </span>
+            <span className="flex items-center gap-2 text-xs capitalize opacity-80">
+              {formatStatus(ticket.status)}
+              {ticket.blocked && <span>· blocked</span>}
+              {isNext && (
+                <span className="font-semibold normal-case">· next up</span>
+              )}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import { useTicketUndo } from '@/hooks/use-ticket-undo';
+import { getChangedFields, type HistoryEntry } from '@/lib/ticket-history';
+import { cn } from '@/lib/utils';
+
+const ACTION_LABELS: Record<HistoryEntry['action'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  reorder: 'Reordered',
+  bulkUpdate: 'Bulk updated',
+  bulkDelete: 'Bulk deleted',
+  import: 'Imported',
+  comment: 'Commented',
+  deleteComment: 'Deleted comment',
+  repair: 'Repaired',
+  undo: 'Undo',
+  external: 'Changed on disk',
+};
+
+const MAX_VALUE_LENGTH = 80;
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(none)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH
+    ? `${text.slice(0, MAX_VALUE_LENGTH)}…`
+    : text;
+}
+
+interface HistoryEntryRowProps {
+  entry: HistoryEntry;
+  ticketId: number;
+  isUndone: boolean;
+  onUndo: (entryId: string) => void;
+  isUndoing: boolean;
+}
+
+function HistoryEntryRow({
+  entry,
+  ticketId,
+  isUndone,
+  onUndo,
+  isUndoing,
+}: HistoryEntryRowProps) {
+  const change = entry.changes.find((c) => c.ticketId === ticketId);
+  if (!change) return null;
+
+  const before: Record<string, unknown> = change.before ?? {};
+  const after: Record<string, unknown> = change.after ?? {};
+  // The timestamps follow from the other changes, so they are not worth
+  // listing
+  const fields =
+    change.before && change.after
+      ? getChangedFields(change).filter(
+          (field) => field !== 'updatedAt' && field !== 'statusChangedAt',
+        )
+      : [];
+
+  return (
+    <li className="space-y-1 border-l-2 pl-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">{ACTION_LABELS[entry.action]}</span>
+        <Badge
+          variant="outline"
+          className={cn(
+            'text-xs',
+            entry.source === 'external' &&
+              'border-amber-500/50 text-amber-600 dark:text-amber-400',
+          )}
+        >
+          {entry.source === 'ui' ? 'UI' : 'External'}
+        </Badge>
+        {entry.author && (
+          <span className="text-xs text-muted-foreground">
+            by {entry.author}
+          </span>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {new Date(entry.timestamp).toLocaleString()}
+        </span>
+        {entry.changes.length > 1 && (
+          <span className="text-xs text-muted-foreground">
+            with {entry.changes.length - 1} other
+            {entry.changes.length > 2 ? ' tickets' : ' ticket'}
+          </span>
+        )}
+        {entry.action !== 'repair' && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-6 px-2 text-xs"
+            onClick={() => onUndo(entry.id)}
+            disabled={isUndone || isUndoing}
+          >
+            {isUndone ? 'Undone' : 'Undo'}
+          </Button>
+        )}
+      </div>
+      {fields.length > 0 && (
+        <ul className="space-y-0.5 text-xs text-muted-foreground">
+          {fields.map((field) => (
+            <li key={field} className="break-words">
+              <span className="font-medium text-foreground">{field}</span>:{' '}
+              <span className="line-through">{formatValue(before[field])}</span>{' '}
+              → {formatValue(after[field])}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export interface TicketHistoryProps {
+  ticketId: number;
+}
+
+/**
+ * Collapsible list of recorded changes to a ticket, newest first
+ */
+export function TicketHistory({ ticketId }: TicketHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const { undo, isPending } = useTicketUndo();
+  const { data: listData } = trpc.tickets.list.useQuery();
+  const { data: entries, refetch } = trpc.tickets.history.useQuery(
+    { ticketId },
+    { enabled: open },
+  );
+
+  // Refetch whenever tickets.json changes
+  const revision = listData?.revision;
+  useEffect(() => {
+    if (open) {
+      refetch();
+    }
+  }, [open, revision, refetch]);
+
+  const undoneIds = new Set(
+    (entries ?? []).flatMap((e) => (e.undoOf ? [e.undoOf] : [])),
+  );
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-2">
+      <CollapsibleTrigger className="flex items-center gap-1 text-sm font-medium">
+        {open ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+        History
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        {!entries ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No changes recorded yet
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map((entry) => (
+              <HistoryEntryRow
+                key={entry.id}
+                entry={entry}
+                ticketId={ticketId}
+                isUndone={undoneIds.has(entry.id)}
+                onUndo={undo}
+                isUndoing={isPending}
+              />
+            ))}
+          </ul>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -2,36 +2,115 @@
 
 import { useState, useMemo } from 'react';
 import { trpc } from '@/lib/trpc';
-import type { Ticket } from '@/lib/schemas';
+import type { Ticket, ListedTicket } from '@/lib/schemas';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { getStatusBadgeClass, formatStatus } from '@/lib/ticket-ui';
-import type { TicketStatus } from '@/components/TicketFilter';
+import {
+  getStatusBadgeClass,
+  formatStatus,
+  getCriteriaProgress,
+} from '@/lib/ticket-ui';
+import { filterTicketsByStatus, type TicketStatus } from '@/lib/ticket-filter';
+import { getBlockingDependencies } from '@/lib/ticket-dependencies';
+import { filterTicketsByLabels } from '@/lib/ticket-labels';
+import { LabelBadges } from '@/components/LabelPicker';
+import {
+  getTicketComparator,
+  getReorderedPriorities,
+  moveItem,
+  type TicketSort,
+} from '@/lib/ticket-order';
+import { toggleSelection, selectRange } from '@/lib/ticket-selection';
+import { BulkActionBar } from '@/components/BulkActionBar';
+import { useToast } from '@/hooks/use-toast';
+import { useHighlightedTickets } from '@/hooks/use-ticket-highlight';
+import {
+  CheckSquare,
+  ChevronDown,
+  ChevronUp,
+  GripVertical,
+  ListChecks,
+  Lock,
+} from 'lucide-react';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
+import { useNow } from '@/hooks/use-now';
+import {
+  StaleBadge,
+  TicketDates,
+  useStaleDuration,
+} from '@/components/TicketDates';
+
+/**
+ * Reorder controls for a card in the pending queue
+ */
+interface TicketReorderProps {
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  disabled: boolean;
+  isDragging: boolean;
+  isDropTarget: boolean;
+  onMove: (offset: -1 | 1) => void;
+  dragHandlers: Pick<
+    React.HTMLAttributes<HTMLDivElement>,
+    'onDragStart' | 'onDragOver' | 'onDrop' | 'onDragEnd'
+  >;
+}
 
 interface TicketCardProps {
-  ticket: Ticket;
+  ticket: ListedTicket;
+  blockedBy: number[];
   isSelected: boolean;
-  onSelect: (ticket: Ticket) => void;
+  onSelect: (ticket: Ticket, e: React.MouseEvent) => void;
   onMarkReady?: (ticketId: number) => void;
   isMarkingReady?: boolean;
+  reorder?: TicketReorderProps;
+  /**
+   * Checked state in multi-select mode; undefined when not selecting
+   */
+  isChecked?: boolean;
+  onCheckedChange?: (ticketId: number) => void;
+  /**
+   * Ticket just changed on disk; flash the card
+   */
+  isHighlighted?: boolean;
+  /**
+   * Current time for relative ages
+   */
+  now: number;
 }
 
 function TicketCard({
   ticket,
+  blockedBy,
   isSelected,
   onSelect,
   onMarkReady,
   isMarkingReady,
+  reorder,
+  isChecked,
+  onCheckedChange,
+  isHighlighted,
+  now,
 }: TicketCardProps) {
+  const statuses = useTicketStatuses();
+  const staleDuration = useStaleDuration(ticket, now);
+  const hasDates = Boolean(ticket.createdAt || ticket.dueAt);
   const isDraft = ticket.status === 'draft';
+  const isBlocked = ticket.blocked && ticket.status !== 'completed';
+  const criteriaProgress = getCriteriaProgress(ticket.acceptanceCriteria);
 
   const handleMarkReady = (e: React.MouseEvent) => {
     e.stopPropagation();
     onMarkReady?.(ticket.id);
   };
 
+  const handleMove = (e: React.MouseEvent, offset: -1 | 1) => {
+    e.stopPropagation();
+    reorder?.onMove(offset);
+  };
+
   return (
     <Card
       className={cn(
@@ -39,15 +118,68 @@ function TicketCard({
         'min-h-[56px]',
         isSelected && 'ring-2 ring-inset ring-primary',
         isDraft && 'opacity-60',
+        reorder?.isDragging && 'opacity-50',
+        reorder?.isDropTarget && 'border-primary border-dashed',
+        isChecked && 'border-primary bg-primary/5',
+        isHighlighted && 'animate-ticket-flash',
+        staleDuration !== null && 'border-amber-500/60',
       )}
-      onClick={() => onSelect(ticket)}
+      onClick={(e) => onSelect(ticket, e)}
+      onMouseDown={(e) => {
+        // Keep shift-click from selecting text
+        if (e.shiftKey) e.preventDefault();
+      }}
+      draggable={reorder ? !reorder.disabled : undefined}
+      {...reorder?.dragHandlers}
     >
       <CardHeader className="p-3 md:p-4 pb-2">
         <div className="flex items-start justify-between gap-2">
-          <CardTitle className="text-sm md:text-base font-medium leading-tight">
-            #{ticket.id}: {ticket.title}
-          </CardTitle>
+          <div className="flex items-start gap-1">
+            {isChecked !== undefined && (
+              <input
+                type="checkbox"
+                checked={isChecked}
+                onChange={() => onCheckedChange?.(ticket.id)}
+                onClick={(e) => e.stopPropagation()}
+                aria-label={`Select #${ticket.id}`}
+                className="mr-1 mt-0.5 h-4 w-4 shrink-0 accent-primary"
+              />
+            )}
+            {reorder && (
+              <GripVertical
+                className="mt-0.5 h-4 w-4 shrink-0 cursor-grab text-muted-foreground"
+                aria-hidden="true"
+              />
+            )}
+            <CardTitle className="text-sm md:text-base font-medium leading-tight">
+              #{ticket.id}: {ticket.title}
+            </CardTitle>
+          </div>
           <div className="flex items-center gap-2">
+            {reorder && (
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={(e) => handleMove(e, -1)}
+                  disabled={reorder.disabled || !reorder.canMoveUp}
+                  aria-label={`Move #${ticket.id} up`}
+                >
+                  <ChevronUp />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={(e) => handleMove(e, 1)}
+                  disabled={reorder.disabled || !reorder.canMoveDown}
+                  aria-label={`Move #${ticket.id} down`}
+                >
+                  <ChevronDown />
+                </Button>
+              </div>
+            )}
             {isDraft && onMarkReady && (
               <Button
                 variant="outline"
@@ -59,11 +191,22 @@ function TicketCard({
                 {isMarkingReady ? '...' : 'Ready'}
               </Button>
             )}
+            {staleDuration !== null && <StaleBadge duration={staleDuration} />}
+            {isBlocked && (
+              <Badge
+                variant="outline"
+                className="shrink-0 gap-1 text-xs text-muted-foreground"
+                title={`Waiting on ${blockedBy.map((id) => `#${id}`).join(', ')}`}
+              >
+                <Lock className="h-3 w-3" />
+                Blocked
+              </Badge>
+            )}
             <Badge
               variant="outline"
               className={cn(
                 'shrink-0 capitalize text-xs',
-                getStatusBadgeClass(ticket.status),
+                getStatusBadgeClass(ticket.status, statuses),
               )}
             >
               {formatStatus(ticket.status)}
@@ -71,10 +214,39 @@ function TicketCard({
           </div>
         </div>
       </CardHeader>
-      {ticket.priority !== undefined && (
+      {ticket.labels && ticket.labels.length > 0 && (
+        <CardContent className="pt-0 px-3 md:px-4 pb-2">
+          <LabelBadges labels={ticket.labels} />
+        </CardContent>
+      )}
+      {(ticket.priority !== undefined ||
+        isBlocked ||
+        criteriaProgress ||
+        hasDates) && (
         <CardContent className="pt-0 px-3 md:px-4 pb-3">
-          <div className="flex items-center gap-2 text-xs text-muted-foreground">
-            <span>Priority: {ticket.priority}</span>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            {ticket.priority !== undefined && (
+              <span>Priority: {ticket.priority}</span>
+            )}
+            {criteriaProgress && (
+              <span
+                className={cn(
+                  'flex items-center gap-1',
+                  criteriaProgress.done === criteriaProgress.total &&
+                    'text-[hsl(var(--status-completed-fg))]',
+                )}
+                title="Acceptance criteria met"
+              >
+                <ListChecks className="h-3 w-3" />
+                {criteriaProgress.done}/{criteriaProgress.total}
+              </span>
+            )}
+            {isBlocked && (
+              <span>
+                Waiting on {blockedBy.map((id) => `#${id}`).join(', ')}
+              </span>
+            )}
+            <TicketDates ticket={ticket} now={now} />
           </div>
         </CardContent>
       )}
@@ -82,26 +254,45 @@ function TicketCard({
   );
 }
 
+const NO_LABELS: string[] = [];
+
 export interface TicketListProps {
   onTicketSelect?: (ticket: Ticket | null) => void;
   selectedTicketId?: number | null;
   statusFilter?: TicketStatus;
+  /**
+   * Only show tickets with any of these labels
+   */
+  labelFilter?: string[];
+  sort?: TicketSort;
 }
 
 export function TicketList({
   onTicketSelect,
   selectedTicketId,
   statusFilter = 'all',
+  labelFilter = NO_LABELS,
+  sort = 'default',
 }: TicketListProps) {
   const [internalSelectedId, setInternalSelectedId] = useState<number | null>(
     null,
   );
   const [markingReadyId, setMarkingReadyId] = useState<number | null>(null);
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+  const [checkedIds, setCheckedIds] = useState<Set<number>>(new Set());
+  const [anchorId, setAnchorId] = useState<number | null>(null);
+  const [checkboxMode, setCheckboxMode] = useState(false);
+  const statuses = useTicketStatuses();
+  const { toast } = useToast();
+  const highlightedIds = useHighlightedTickets();
+  const now = useNow();
 
   const effectiveSelectedId =
     selectedTicketId !== undefined ? selectedTicketId : internalSelectedId;
 
-  const { data: tickets, isLoading, error } = trpc.tickets.list.useQuery();
+  const { data, isLoading, error } = trpc.tickets.list.useQuery();
+  const tickets = data?.tickets;
   const utils = trpc.useUtils();
 
   const markReadyMutation = trpc.tickets.update.useMutation({
@@ -109,33 +300,155 @@ export function TicketList({
       utils.tickets.list.invalidate();
       setMarkingReadyId(null);
     },
-    onError: () => {
+    onError: (error) => {
+      // Refetch so a retry is based on the latest tickets.json revision
+      utils.tickets.list.invalidate();
       setMarkingReadyId(null);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to mark ticket as ready',
+        variant: 'destructive',
+      });
     },
   });
 
   const handleMarkReady = (ticketId: number) => {
+    if (!data) return;
     setMarkingReadyId(ticketId);
-    markReadyMutation.mutate({ id: ticketId, data: { status: 'pending' } });
+    markReadyMutation.mutate({
+      id: ticketId,
+      data: { status: 'pending' },
+      revision: data.revision,
+    });
   };
 
+  const reorderMutation = trpc.tickets.reorder.useMutation({
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to reorder tickets',
+        variant: 'destructive',
+      });
+    },
+    // Keep the mutation pending until the refetch lands so the next move
+    // is based on the new revision
+    onSettled: () => utils.tickets.list.invalidate(),
+  });
+
+  // The pending view shows the queue in the order ralph works through it.
+  // Reordering needs the whole queue in queue order, so it is off while
+  // labels are filtered or another sort is chosen.
+  const isQueueView = statusFilter === 'pending';
+  const isReorderable =
+    isQueueView && labelFilter.length === 0 && sort === 'default';
+
   const filteredTickets = useMemo(() => {
     if (!tickets) return [];
-    let result: Ticket[];
-    if (statusFilter === 'all') {
-      result = [...tickets];
-    } else if (statusFilter === 'incomplete') {
-      result = tickets.filter(
-        (t) =>
-          t.status === 'draft' ||
-          t.status === 'pending' ||
-          t.status === 'in_progress',
+    return filterTicketsByLabels(
+      filterTicketsByStatus(tickets, statusFilter, statuses),
+      labelFilter,
+    ).sort(getTicketComparator(sort, isQueueView));
+  }, [tickets, statusFilter, statuses, labelFilter, sort, isQueueView]);
+
+  const handleMove = (fromIndex: number, toIndex: number) => {
+    const currentIds = filteredTickets.map((t) => t.id);
+    const ids = moveItem(currentIds, fromIndex, toIndex);
+    if (!data || ids === currentIds) {
+      return;
+    }
+
+    // Show the new order immediately; the refetch after the write confirms it
+    const priorities = getReorderedPriorities(ids);
+    utils.tickets.list.setData(undefined, (old) =>
+      old
+        ? {
+            ...old,
+            tickets: old.tickets.map((t) => ({
+              ...t,
+              priority: priorities.get(t.id) ?? t.priority,
+            })),
+          }
+        : old,
+    );
+    reorderMutation.mutate({ ids, revision: data.revision });
+  };
+
+  const getReorderProps = (
+    ticket: ListedTicket,
+    index: number,
+  ): TicketReorderProps => ({
+    canMoveUp: index > 0,
+    canMoveDown: index < filteredTickets.length - 1,
+    disabled: reorderMutation.isPending,
+    isDragging: draggingId === ticket.id,
+    isDropTarget: dropTargetId === ticket.id && draggingId !== ticket.id,
+    onMove: (offset) => handleMove(index, index + offset),
+    dragHandlers: {
+      onDragStart: (e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', String(ticket.id));
+        setDraggingId(ticket.id);
+      },
+      onDragOver: (e) => {
+        if (draggingId === null) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setDropTargetId(ticket.id);
+      },
+      onDrop: (e) => {
+        e.preventDefault();
+        const fromIndex = filteredTickets.findIndex((t) => t.id === draggingId);
+        setDraggingId(null);
+        setDropTargetId(null);
+        if (fromIndex !== -1) {
+          handleMove(fromIndex, index);
+        }
+      },
+      onDragEnd: () => {
+        setDraggingId(null);
+        setDropTargetId(null);
+      },
+    },
+  });
+
+  // Only act on selected tickets that are still visible
+  const visibleCheckedIds = filteredTickets
+    .filter((t) => checkedIds.has(t.id))
+    .map((t) => t.id);
+  const isMultiSelecting = checkboxMode || visibleCheckedIds.length > 0;
+
+  const clearChecked = () => {
+    setCheckedIds(new Set());
+    setAnchorId(null);
+    setCheckboxMode(false);
+  };
+
+  const handleToggleChecked = (ticketId: number) => {
+    setCheckedIds((prev) => toggleSelection(prev, ticketId));
+    setAnchorId(ticketId);
+  };
+
+  const handleCardClick = (ticket: Ticket, e: React.MouseEvent) => {
+    if (e.shiftKey) {
+      setCheckedIds((prev) =>
+        selectRange(
+          prev,
+          filteredTickets.map((t) => t.id),
+          anchorId ?? effectiveSelectedId ?? null,
+          ticket.id,
+        ),
       );
-    } else {
-      result = tickets.filter((t) => t.status === statusFilter);
+      setAnchorId(ticket.id);
+      return;
+    }
+
+    if (e.metaKey || e.ctrlKey || isMultiSelecting) {
+      handleToggleChecked(ticket.id);
+      return;
     }
-    return result.sort((a, b) => b.id - a.id);
-  }, [tickets, statusFilter]);
+
+    handleSelect(ticket);
+  };
 
   const handleSelect = (ticket: Ticket) => {
     const newSelectedId = effectiveSelectedId === ticket.id ? null : ticket.id;
@@ -180,6 +493,8 @@ export function TicketList({
         <p className="text-lg font-medium">No matching tickets</p>
         <p className="text-sm">
           No tickets with status &quot;{statusFilter.replace(/_/g, ' ')}&quot;
+          {labelFilter.length > 0 &&
+            ` labelled ${labelFilter.map((l) => `"${l}"`).join(' or ')}`}
         </p>
       </div>
     );
@@ -187,14 +502,48 @@ export function TicketList({
 
   return (
     <div className="flex flex-col gap-2">
-      {filteredTickets.map((ticket) => (
+      {visibleCheckedIds.length > 0 ? (
+        <BulkActionBar selectedIds={visibleCheckedIds} onClear={clearChecked} />
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2 self-end md:hidden"
+          onClick={() =>
+            checkboxMode ? clearChecked() : setCheckboxMode(true)
+          }
+        >
+          <CheckSquare className="h-4 w-4" />
+          {checkboxMode ? 'Done' : 'Select'}
+        </Button>
+      )}
+      {isReorderable && filteredTickets.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          Drag tickets or use the arrows to set the order ralph picks them up
+        </p>
+      )}
+      {filteredTickets.map((ticket, index) => (
         <TicketCard
           key={ticket.id}
           ticket={ticket}
+          blockedBy={
+            ticket.blocked
+              ? getBlockingDependencies(ticket, tickets, statuses)
+              : []
+          }
           isSelected={effectiveSelectedId === ticket.id}
-          onSelect={handleSelect}
+          onSelect={handleCardClick}
           onMarkReady={handleMarkReady}
           isMarkingReady={markingReadyId === ticket.id}
+          reorder={
+            isReorderable && filteredTickets.length > 1
+              ? getReorderProps(ticket, index)
+              : undefined
+          }
+          isChecked={isMultiSelecting ? checkedIds.has(ticket.id) : undefined}
+          onCheckedChange={handleToggleChecked}
+          isHighlighted={highlightedIds.has(ticket.id)}
+          now={now}
         />
       ))}
     </div>
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, Wrench } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { Button } from '@/components/ui/button';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { TicketProblem } from '@/lib/ticket-validation';
+
+function formatEntry(problem: Pick<TicketProblem, 'index' | 'title'>) {
+  return problem.title
+    ? `Entry ${problem.index + 1} ("${problem.title}")`
+    : `Entry ${problem.index + 1}`;
+}
+
+function ProblemList({ problems }: { problems: TicketProblem[] }) {
+  return (
+    <ul className="space-y-1 text-xs">
+      {problems.map((problem) => (
+        <li key={`${problem.index}-${problem.message}`}>
+          <span className="font-medium">{formatEntry(problem)}:</span>{' '}
+          {problem.message}
+          {problem.excluded && (
+            <span className="text-muted-foreground"> (hidden)</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Previews the safe fixes for tickets.json and applies them on confirm
+ */
+function RepairDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const utils = trpc.useUtils();
+  const { data: preview, isLoading } = trpc.tickets.repairPreview.useQuery(
+    undefined,
+    { enabled: open },
+  );
+
+  const repairMutation = trpc.tickets.repair.useMutation({
+    onSuccess: (repairs) => {
+      utils.tickets.list.invalidate();
+      utils.tickets.repairPreview.invalidate();
+      toast({
+        title: 'tickets.json repaired',
+        description: `Fixed ${repairs.length} ${repairs.length === 1 ? 'entry' : 'entries'}`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      utils.tickets.repairPreview.invalidate();
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to repair tickets.json',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const repairs = preview?.repairs ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Repair tickets.json</DialogTitle>
+          <DialogDescription>
+            String IDs are converted to numbers and duplicate IDs get the next
+            free ID. Other problems must be fixed by hand.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Checking...</p>
+        ) : repairs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing can be repaired automatically.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <span className="text-sm font-medium">Changes</span>
+            <ul className="space-y-1 text-sm">
+              {repairs.map((repair) => (
+                <li key={repair.index}>
+                  <span className="font-medium">Entry {repair.index + 1}:</span>{' '}
+                  {repair.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {preview && preview.remaining.length > 0 && (
+          <div className="space-y-2">
+            <span className="text-sm font-medium">Left as they are</span>
+            <ProblemList problems={preview.remaining} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={() =>
+              preview && repairMutation.mutate({ revision: preview.revision })
+            }
+            disabled={repairs.length === 0 || repairMutation.isPending}
+          >
+            {repairMutation.isPending
+              ? 'Repairing...'
+              : `Apply ${repairs.length} fix${repairs.length === 1 ? '' : 'es'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Warns about tickets.json entries that failed validation, with a repair
+ * option for the safe cases
+ */
+export function TicketProblemsBanner() {
+  const [open, setOpen] = useState(false);
+  const [repairOpen, setRepairOpen] = useState(false);
+  const { data } = trpc.tickets.list.useQuery();
+  const problems = data?.problems ?? [];
+
+  if (problems.length === 0) {
+    return null;
+  }
+
+  const hiddenCount = problems.filter((p) => p.excluded).length;
+  const canRepair = problems.some((p) => p.repairable);
+
+  return (
+    <div
+      role="alert"
+      className="rounded-md border border-amber-500/50 bg-amber-500/10 p-2 text-sm text-amber-700 dark:text-amber-400"
+    >
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <CollapsibleTrigger className="flex flex-1 items-center gap-1 text-left font-medium">
+            {problems.length} problem{problems.length === 1 ? '' : 's'} in
+            tickets.json
+            {hiddenCount > 0 && `, ${hiddenCount} hidden`}
+            {open ? (
+              <ChevronDown className="h-4 w-4" />
+            ) : (
+              <ChevronRight className="h-4 w-4" />
+            )}
+          </CollapsibleTrigger>
+          {canRepair && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => setRepairOpen(true)}
+            >
+              <Wrench className="mr-1 h-3 w-3" />
+              Repair
+            </Button>
+          )}
+        </div>
+        <CollapsibleContent className="pt-2">
+          <ProblemList problems={problems} />
+        </CollapsibleContent>
+      </Collapsible>
+      <RepairDialog open={repairOpen} onOpenChange={setRepairOpen} />
+    </div>
+  );
+}
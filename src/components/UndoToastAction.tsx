@@ -0,0 +1,17 @@
+'use client';
+
+import { ToastAction } from '@/components/ui/toast';
+import { useTicketUndo } from '@/hooks/use-ticket-undo';
+
+/**
+ * "Undo" button for the toast shown after a ticket mutation
+ */
+export function UndoToastAction({ historyId }: { historyId: string }) {
+  const { undo } = useTicketUndo();
+
+  return (
+    <ToastAction altText="Undo this change" onClick={() => undo(historyId)}>
+      Undo
+    </ToastAction>
+  );
+}
@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { httpBatchLink } from '@trpc/client';
 import superjson from 'superjson';
 import { trpc } from '@/lib/trpc';
+import { AUTHOR_HEADER, getStoredAuthor } from '@/lib/ticket-author';
 
 function getBaseUrl() {
   if (typeof window !== 'undefined') {
@@ -53,9 +54,13 @@ export function TRPCProvider({ children, projectPath }: TRPCProviderProps) {
         httpBatchLink({
           url: `${getBaseUrl()}/api/trpc`,
           transformer: superjson,
-          headers: () => ({
-            'x-ralph-dir': projectPath,
-          }),
+          headers: () => {
+            const author = getStoredAuthor();
+            return {
+              'x-ralph-dir': projectPath,
+              ...(author && { [AUTHOR_HEADER]: encodeURIComponent(author) }),
+            };
+          },
         }),
       ],
     });
@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { CommandConfig } from '@/lib/project-config';
+
+type CommandHandler = (command: CommandConfig) => void;
+
+const handlers = new Set<CommandHandler>();
+
+/**
+ * Ask the mounted run controls (side panel or mobile Run tab) to run a
+ * configured command. Returns false if nothing is mounted to run it.
+ */
+export function requestCommandRun(command: CommandConfig): boolean {
+  handlers.forEach((handler) => handler(command));
+  return handlers.size > 0;
+}
+
+/**
+ * Handle commands requested from elsewhere in the UI, e.g. the command
+ * palette
+ */
+export function useCommandRequests(handler: CommandHandler): void {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    const listener: CommandHandler = (command) => handlerRef.current(command);
+    handlers.add(listener);
+    return () => {
+      handlers.delete(listener);
+    };
+  }, []);
+}
@@ -3,6 +3,7 @@
 import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import type { ProcessOutputLine } from '@/lib/process-runner';
 import type { Ticket } from '@/lib/schemas';
+import { ticketEventTypes, type TicketEvent } from '@/lib/ticket-events';
 
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
 
@@ -21,6 +22,15 @@ interface ProcessExitData {
   code: number | null;
 }
 
+interface ProcessReplayStartData {
+  from?: number;
+}
+
+/**
+ * Replayed output lines delivered to onProcessOutputBatch at a time
+ */
+const REPLAY_BATCH_LINES = 1000;
+
 type TopicHandler = (type: string, data: unknown) => void;
 
 export interface TicketStatusChange {
@@ -32,12 +42,36 @@ export interface TicketStatusChange {
 export interface UseEventStreamOptions {
   project: string;
   topics: string[];
+  /**
+   * tickets.json changed in a way the server could not diff; refetch
+   */
   onTicketsChange?: () => void;
+  /**
+   * A ticket was added, removed or changed in tickets.json
+   */
+  onTicketEvent?: (event: TicketEvent) => void;
   onProgressChange?: () => void;
   onTicketStatusChange?: (change: TicketStatusChange) => void;
-  getTickets?: () => Ticket[] | undefined;
-  onProcessReplayStart?: (processId: string) => void;
+  /**
+   * seq of the next output line of a process the client needs (see
+   * getNextSeq), read when connecting. The server's replay of its output
+   * starts there.
+   */
+  getProcessResume?: (processId: string) => number;
+  /**
+   * The server is replaying the output of a process from seq `from`;
+   * drop any lines the client has from it on
+   */
+  onProcessReplayStart?: (processId: string, from: number) => void;
   onProcessOutput?: (processId: string, line: ProcessOutputLine) => void;
+  /**
+   * Replayed output lines, delivered together rather than one at a time
+   * through onProcessOutput
+   */
+  onProcessOutputBatch?: (
+    processId: string,
+    lines: ProcessOutputLine[],
+  ) => void;
   onProcessExit?: (processId: string, code: number | null) => void;
   onReconnect?: () => void;
 }
@@ -47,6 +81,12 @@ export interface UseEventStreamResult {
   subscribe: (topic: string, handler: TopicHandler) => () => void;
 }
 
+function toTicketEvent(type: string, data: unknown): TicketEvent | null {
+  return (ticketEventTypes as string[]).includes(type)
+    ? ({ type, data } as TicketEvent)
+    : null;
+}
+
 export function useEventStream(
   options: UseEventStreamOptions,
 ): UseEventStreamResult {
@@ -55,9 +95,12 @@ export function useEventStream(
   const [reconnectTrigger, setReconnectTrigger] = useState(0);
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const previousTicketsRef = useRef<Map<number, string>>(new Map());
   const subscribersRef = useRef<Map<string, Set<TopicHandler>>>(new Map());
   const hasConnectedBeforeRef = useRef(false);
+  // Id of the last output event received. EventSource only sends it back
+  // (as Last-Event-ID) when it reconnects by itself, not on the new
+  // connections made here, so it's passed as a param instead.
+  const lastEventIdRef = useRef<string | null>(null);
 
   const optionsRef = useRef(options);
   useEffect(() => {
@@ -89,33 +132,26 @@ export function useEventStream(
     [],
   );
 
-  const checkTicketStatusChanges = useCallback(async () => {
-    await new Promise((resolve) => setTimeout(resolve, 100));
+  const handleTicketEvent = useCallback((event: TicketEvent) => {
+    optionsRef.current.onTicketEvent?.(event);
 
-    const ticketsData = optionsRef.current.getTickets?.();
-    if (!ticketsData) {
+    if (event.type !== 'ticket-field-changed') {
       return;
     }
 
-    for (const ticket of ticketsData) {
-      const previousStatus = previousTicketsRef.current.get(ticket.id);
-
-      if (
-        previousStatus &&
-        previousStatus !== ticket.status &&
-        (ticket.status === 'completed' || ticket.status === 'failed')
-      ) {
-        console.log(
-          `[useEventStream] Ticket #${ticket.id} status: ${previousStatus} -> ${ticket.status}`,
-        );
-        optionsRef.current.onTicketStatusChange?.({
-          ticket,
-          oldStatus: previousStatus,
-          newStatus: ticket.status,
-        });
-      }
-
-      previousTicketsRef.current.set(ticket.id, ticket.status);
+    const { ticket, previous, fields } = event.data;
+    if (
+      fields.includes('status') &&
+      (ticket.status === 'completed' || ticket.status === 'failed')
+    ) {
+      console.log(
+        `[useEventStream] Ticket #${ticket.id} status: ${previous.status} -> ${ticket.status}`,
+      );
+      optionsRef.current.onTicketStatusChange?.({
+        ticket,
+        oldStatus: previous.status,
+        newStatus: ticket.status,
+      });
     }
   }, []);
 
@@ -129,13 +165,26 @@ export function useEventStream(
       reconnectTimeoutRef.current = null;
     }
 
-    previousTicketsRef.current.clear();
-
     const params = new URLSearchParams();
     params.set('project', options.project);
     if (topicsKey) {
       params.set('topics', topicsKey);
     }
+    const resume: string[] = [];
+    for (const topic of topicsKey.split(',')) {
+      if (!topic.startsWith('process:')) continue;
+      const processId = topic.slice('process:'.length);
+      const line = optionsRef.current.getProcessResume?.(processId) ?? 0;
+      if (line > 0) {
+        resume.push(`${processId}:${line}`);
+      }
+    }
+    if (resume.length > 0) {
+      params.set('resume', resume.join(','));
+    }
+    if (lastEventIdRef.current) {
+      params.set('lastEventId', lastEventIdRef.current);
+    }
 
     const url = `/api/events?${params.toString()}`;
     console.log('[useEventStream] Connecting to', url);
@@ -146,7 +195,26 @@ export function useEventStream(
     const eventSource = new EventSource(url);
     eventSourceRef.current = eventSource;
 
+    // Replayed lines waiting to be delivered, by process
+    const replays = new Map<string, ProcessOutputLine[]>();
+    const flushReplay = (processId: string) => {
+      const batch = replays.get(processId);
+      if (!batch || batch.length === 0) return;
+      replays.set(processId, []);
+      const { onProcessOutputBatch, onProcessOutput } = optionsRef.current;
+      if (onProcessOutputBatch) {
+        onProcessOutputBatch(processId, batch);
+      } else {
+        for (const line of batch) {
+          onProcessOutput?.(processId, line);
+        }
+      }
+    };
+
     eventSource.onmessage = (event: MessageEvent) => {
+      if (event.lastEventId) {
+        lastEventIdRef.current = event.lastEventId;
+      }
       try {
         const message: EventMessage = JSON.parse(event.data);
         const { topic, type, data } = message;
@@ -170,20 +238,17 @@ export function useEventStream(
           if (isReconnect) {
             optionsRef.current.onReconnect?.();
           }
-
-          const initialTickets = optionsRef.current.getTickets?.();
-          if (initialTickets) {
-            for (const ticket of initialTickets) {
-              previousTicketsRef.current.set(ticket.id, ticket.status);
-            }
-          }
         } else if (topic === 'tickets' && type === 'change') {
           console.log(
             '[useEventStream] Tickets changed at',
             (data as FileChangeData).timestamp,
           );
           optionsRef.current.onTicketsChange?.();
-          void checkTicketStatusChanges();
+        } else if (topic === 'tickets') {
+          const ticketEvent = toTicketEvent(type, data);
+          if (ticketEvent) {
+            handleTicketEvent(ticketEvent);
+          }
         } else if (topic === 'progress' && type === 'change') {
           console.log(
             '[useEventStream] Progress changed at',
@@ -192,8 +257,21 @@ export function useEventStream(
           optionsRef.current.onProgressChange?.();
         } else if (topic.startsWith('process:')) {
           const processId = topic.slice('process:'.length);
+          const replay = replays.get(processId);
           if (type === 'replay-start') {
-            optionsRef.current.onProcessReplayStart?.(processId);
+            replays.set(processId, []);
+            optionsRef.current.onProcessReplayStart?.(
+              processId,
+              (data as ProcessReplayStartData | null)?.from ?? 0,
+            );
+          } else if (type === 'replay-end') {
+            flushReplay(processId);
+            replays.delete(processId);
+          } else if (type === 'output' && replay) {
+            replay.push(data as ProcessOutputLine);
+            if (replay.length >= REPLAY_BATCH_LINES) {
+              flushReplay(processId);
+            }
           } else if (type === 'output') {
             optionsRef.current.onProcessOutput?.(
               processId,
@@ -250,7 +328,7 @@ export function useEventStream(
       }
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [options.project, topicsKey, checkTicketStatusChanges, reconnectTrigger]);
+  }, [options.project, topicsKey, handleTicketEvent, reconnectTrigger]);
 
   return {
     connectionStatus,
@@ -0,0 +1,17 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Current time in ms, refreshed on an interval so relative times stay fresh
+ */
+export function useNow(intervalMs = 60_000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -15,6 +15,14 @@ interface TerminalMessage {
 interface UseTerminalOptions {
   wsUrl: string;
   cwd?: string;
+  /**
+   * Prompt to run non-interactively (`claude -p`) in a new session
+   */
+  context?: string;
+  /**
+   * Session label shown in the terminal server's session list
+   */
+  label?: string;
   autoReconnect?: boolean;
   maxReconnectAttempts?: number;
   onOutput?: (data: string) => void;
@@ -41,6 +49,8 @@ const MAX_RECONNECT_DELAY = 30000;
 export function useTerminal({
   wsUrl,
   cwd,
+  context,
+  label,
   autoReconnect = false,
   maxReconnectAttempts = 10,
   onOutput,
@@ -109,6 +119,13 @@ export function useTerminal({
       if (cwd) {
         url.searchParams.set('cwd', cwd);
       }
+      if (context) {
+        url.searchParams.set('context', context);
+        url.searchParams.set('newSession', 'true');
+      }
+      if (label) {
+        url.searchParams.set('label', label);
+      }
 
       const ws = new WebSocket(url.toString());
       wsRef.current = ws;
@@ -197,7 +214,15 @@ export function useTerminal({
         }
       };
     },
-    [wsUrl, cwd, autoReconnect, maxReconnectAttempts, clearReconnectTimeout],
+    [
+      wsUrl,
+      cwd,
+      context,
+      label,
+      autoReconnect,
+      maxReconnectAttempts,
+      clearReconnectTimeout,
+    ],
   );
 
   useEffect(() => {
@@ -1,31 +1,37 @@
 'use client';
 
 import { useSearchParams, useRouter, usePathname } from 'next/navigation';
-import { useCallback } from 'react';
-import {
-  type TicketStatus,
-  isValidTicketStatus,
-} from '@/components/TicketFilter';
+import { useCallback, useMemo } from 'react';
+import { type TicketStatus, isValidTicketStatus } from '@/lib/ticket-filter';
+import { parseLabelsParam } from '@/lib/ticket-labels';
+import { isTicketSort, type TicketSort } from '@/lib/ticket-order';
+import { useTicketStatuses } from '@/hooks/use-ticket-statuses';
 
+/**
+ * Ticket filters and sort order stored in the URL
+ * (?status=pending&labels=ui,backend&sort=age)
+ */
 export function useTicketFilter() {
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
+  const statuses = useTicketStatuses();
 
   const statusParam = searchParams.get('status');
-  const status: TicketStatus = isValidTicketStatus(statusParam)
+  const status: TicketStatus = isValidTicketStatus(statusParam, statuses)
     ? statusParam
     : 'incomplete';
 
-  const setStatus = useCallback(
-    (newStatus: TicketStatus) => {
-      const params = new URLSearchParams(searchParams.toString());
+  const labelsParam = searchParams.get('labels');
+  const labels = useMemo(() => parseLabelsParam(labelsParam), [labelsParam]);
+
+  const sortParam = searchParams.get('sort');
+  const sort: TicketSort = isTicketSort(sortParam) ? sortParam : 'default';
 
-      if (newStatus === 'incomplete') {
-        params.delete('status');
-      } else {
-        params.set('status', newStatus);
-      }
+  const updateParams = useCallback(
+    (update: (params: URLSearchParams) => void) => {
+      const params = new URLSearchParams(searchParams.toString());
+      update(params);
 
       const queryString = params.toString();
       const url = queryString ? `${pathname}?${queryString}` : pathname;
@@ -34,5 +40,44 @@ export function useTicketFilter() {
     [router, pathname, searchParams],
   );
 
-  return { status, setStatus };
+  const setStatus = useCallback(
+    (newStatus: TicketStatus) => {
+      updateParams((params) => {
+        if (newStatus === 'incomplete') {
+          params.delete('status');
+        } else {
+          params.set('status', newStatus);
+        }
+      });
+    },
+    [updateParams],
+  );
+
+  const setLabels = useCallback(
+    (newLabels: string[]) => {
+      updateParams((params) => {
+        if (newLabels.length === 0) {
+          params.delete('labels');
+        } else {
+          params.set('labels', newLabels.join(','));
+        }
+      });
+    },
+    [updateParams],
+  );
+
+  const setSort = useCallback(
+    (newSort: TicketSort) => {
+      updateParams((params) => {
+        if (newSort === 'default') {
+          params.delete('sort');
+        } else {
+          params.set('sort', newSort);
+        }
+      });
+    },
+    [updateParams],
+  );
+
+  return { status, setStatus, labels, setLabels, sort, setSort };
 }
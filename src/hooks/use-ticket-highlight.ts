@@ -0,0 +1,56 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+const HIGHLIGHT_DURATION_MS = 1500;
+
+const EMPTY: ReadonlySet<number> = new Set();
+
+let highlighted: ReadonlySet<number> = EMPTY;
+const timers = new Map<number, ReturnType<typeof setTimeout>>();
+const listeners = new Set<() => void>();
+
+function setHighlighted(next: ReadonlySet<number>) {
+  highlighted = next;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Briefly highlight a ticket card, e.g. after it changed on disk
+ */
+export function highlightTicket(ticketId: number): void {
+  const existing = timers.get(ticketId);
+  if (existing) {
+    clearTimeout(existing);
+  }
+
+  setHighlighted(new Set(highlighted).add(ticketId));
+
+  timers.set(
+    ticketId,
+    setTimeout(() => {
+      timers.delete(ticketId);
+      const next = new Set(highlighted);
+      next.delete(ticketId);
+      setHighlighted(next);
+    }, HIGHLIGHT_DURATION_MS),
+  );
+}
+
+/**
+ * IDs of tickets currently highlighted
+ */
+export function useHighlightedTickets(): ReadonlySet<number> {
+  return useSyncExternalStore(
+    subscribe,
+    () => highlighted,
+    () => EMPTY,
+  );
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useMemo } from 'react';
+import { trpc } from '@/lib/trpc';
+import {
+  defaultTicketStatuses,
+  resolveTicketStatuses,
+} from '@/lib/ticket-workflow';
+
+/**
+ * Ticket statuses for the current project, including any configured in
+ * .ralph-watch.json. The built-in statuses are used until the config loads.
+ */
+export function useTicketStatuses() {
+  const { data: config } = trpc.config.get.useQuery();
+  const ticketStatuses = config?.ticketStatuses;
+
+  return useMemo(
+    () =>
+      ticketStatuses
+        ? resolveTicketStatuses(ticketStatuses)
+        : defaultTicketStatuses,
+    [ticketStatuses],
+  );
+}
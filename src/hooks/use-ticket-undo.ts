@@ -0,0 +1,46 @@
+'use client';
+
+import { trpc } from '@/lib/trpc';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * Mutation that reverts a ticket history entry and reports the outcome
+ */
+export function useTicketUndo() {
+  const { toast } = useToast();
+  const utils = trpc.useUtils();
+
+  const showError = (message: string) => {
+    utils.tickets.invalidate();
+    toast({
+      title: 'Undo failed',
+      description: message || 'Failed to undo change',
+      variant: 'destructive',
+    });
+  };
+
+  const undoMutation = trpc.tickets.undo.useMutation({
+    onSuccess: ({ ticketIds }) => {
+      utils.tickets.invalidate();
+      toast({
+        title: 'Change undone',
+        description: `Restored ${ticketIds.map((id) => `#${id}`).join(', ')}.`,
+      });
+    },
+    onError: (error) => showError(error.message),
+  });
+
+  // Undo is usually offered right after a change, so wait for the list to
+  // refetch rather than send the revision from before it. Never rejects;
+  // a failed refetch is reported like a failed undo.
+  const undo = async (entryId: string) => {
+    try {
+      const { revision } = await utils.tickets.list.fetch();
+      undoMutation.mutate({ entryId, revision });
+    } catch (error) {
+      showError(error instanceof Error ? error.message : '');
+    }
+  };
+
+  return { undo, isPending: undoMutation.isPending };
+}
@@ -0,0 +1,17 @@
+'use client';
+
+import { useCallback } from 'react';
+import { trpc } from '@/lib/trpc';
+
+/**
+ * Get the tickets.json revision the cached ticket list was read at. Every
+ * ticket mutation passes it so the server rejects the change if the file
+ * has changed since. The list is loaded first when it isn't cached yet.
+ */
+export function useTicketsRevision(): () => Promise<string> {
+  const utils = trpc.useUtils();
+  return useCallback(
+    async () => (await utils.tickets.list.ensureData()).revision,
+    [utils],
+  );
+}
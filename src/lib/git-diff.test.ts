@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { parseUnifiedDiff } from './git-diff';
+
+const MODIFIED = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,3 +1,3 @@ export function main() {
+ const a = 1;
+--- removed line that looks like a header
++++ added line that looks like a header
+ const c = 3;
+@@ -10 +10,2 @@
+-old
++new
++extra
+\\ No newline at end of file
+`;
+
+describe('parseUnifiedDiff', () => {
+  it('numbers context, added and deleted lines', () => {
+    const [file] = parseUnifiedDiff(MODIFIED);
+
+    expect(file).toMatchObject({
+      path: 'src/app.ts',
+      oldPath: null,
+      status: 'modified',
+      binary: false,
+      additions: 3,
+      deletions: 2,
+    });
+    expect(file?.hunks).toHaveLength(2);
+    expect(file?.hunks[0]?.header).toBe(
+      '@@ -1,3 +1,3 @@ export function main() {',
+    );
+    expect(file?.hunks[0]?.lines).toEqual([
+      { kind: 'context', text: 'const a = 1;', oldLine: 1, newLine: 1 },
+      {
+        kind: 'delete',
+        text: '-- removed line that looks like a header',
+        oldLine: 2,
+        newLine: null,
+      },
+      {
+        kind: 'add',
+        text: '++ added line that looks like a header',
+        oldLine: null,
+        newLine: 2,
+      },
+      { kind: 'context', text: 'const c = 3;', oldLine: 3, newLine: 3 },
+    ]);
+    expect(
+      file?.hunks[1]?.lines.map((l) => [l.kind, l.oldLine, l.newLine]),
+    ).toEqual([
+      ['delete', 10, null],
+      ['add', null, 10],
+      ['add', null, 11],
+      ['note', null, null],
+    ]);
+  });
+
+  it('detects added, deleted, renamed and binary files', () => {
+    const files = parseUnifiedDiff(`commit header is ignored
+diff --git a/new.txt b/new.txt
+new file mode 100644
+index 0000000..3b18e51
+--- /dev/null
++++ b/new.txt
+@@ -0,0 +1 @@
++hello
+diff --git a/gone.txt b/gone.txt
+deleted file mode 100644
+index 3b18e51..0000000
+--- a/gone.txt
++++ /dev/null
+@@ -1 +0,0 @@
+-bye
+diff --git a/old name.txt b/new name.txt
+similarity index 100%
+rename from old name.txt
+rename to new name.txt
+diff --git a/logo.png b/logo.png
+index 1111111..2222222 100644
+Binary files a/logo.png and b/logo.png differ
+`);
+
+    expect(files.map((f) => [f.status, f.path, f.oldPath, f.binary])).toEqual([
+      ['added', 'new.txt', null, false],
+      ['deleted', 'gone.txt', null, false],
+      ['renamed', 'new name.txt', 'old name.txt', false],
+      ['modified', 'logo.png', null, true],
+    ]);
+    expect(files[0]?.hunks[0]?.lines[0]).toEqual({
+      kind: 'add',
+      text: 'hello',
+      oldLine: null,
+      newLine: 1,
+    });
+  });
+
+  it('returns no files for an empty diff', () => {
+    expect(parseUnifiedDiff('')).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Parse `git diff` / `git show` unified diff output into files, hunks and
+ * numbered lines for the diff viewer
+ */
+
+export type DiffLineKind = 'context' | 'add' | 'delete' | 'note';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  /**
+   * Line content without the leading +, - or space
+   */
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  /**
+   * The "@@ -1,4 +1,5 @@ context" line
+   */
+  header: string;
+  lines: DiffLine[];
+}
+
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed';
+
+export interface DiffFile {
+  /**
+   * Path after the change, or before it for deleted files
+   */
+  path: string;
+  /**
+   * Previous path of a renamed file
+   */
+  oldPath: string | null;
+  status: DiffFileStatus;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+const FILE_HEADER = /^diff --git "?a\/(.*?)"? "?b\/(.*?)"?$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function unquotePath(path: string): string {
+  return path.replace(/^"(.*)"$/, '$1');
+}
+
+/**
+ * Path from a "--- a/path" or "+++ b/path" line; null for /dev/null
+ */
+function parseMarkerPath(line: string): string | null {
+  const path = unquotePath(line.slice(4).replace(/\t.*$/, ''));
+  if (path === '/dev/null') return null;
+  return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse unified diff text. Lines before the first "diff --git" header
+ * (such as commit headers) are ignored.
+ */
+export function parseUnifiedDiff(text: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (const line of text.split('\n')) {
+    const inHunk = hunk && (oldRemaining > 0 || newRemaining > 0);
+
+    if (file && hunk && inHunk) {
+      const marker = line[0];
+      const content = line.slice(1);
+      if (marker === '+') {
+        hunk.lines.push({
+          kind: 'add',
+          text: content,
+          oldLine: null,
+          newLine: newLine++,
+        });
+        newRemaining--;
+        file.additions++;
+      } else if (marker === '-') {
+        hunk.lines.push({
+          kind: 'delete',
+          text: content,
+          oldLine: oldLine++,
+          newLine: null,
+        });
+        oldRemaining--;
+        file.deletions++;
+      } else if (marker === '\\') {
+        hunk.lines.push({
+          kind: 'note',
+          text: content.trim(),
+          oldLine: null,
+          newLine: null,
+        });
+      } else {
+        hunk.lines.push({
+          kind: 'context',
+          text: content,
+          oldLine: oldLine++,
+          newLine: newLine++,
+        });
+        oldRemaining--;
+        newRemaining--;
+      }
+      continue;
+    }
+
+    const fileHeader = FILE_HEADER.exec(line);
+    if (fileHeader) {
+      file = {
+        path: fileHeader[2]!,
+        oldPath: null,
+        status: 'modified',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      };
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+
+    if (!file) continue;
+
+    const hunkHeader = HUNK_HEADER.exec(line);
+    if (hunkHeader) {
+      hunk = { header: line, lines: [] };
+      file.hunks.push(hunk);
+      oldLine = Number(hunkHeader[1]);
+      newLine = Number(hunkHeader[3]);
+      oldRemaining = Number(hunkHeader[2] ?? 1);
+      newRemaining = Number(hunkHeader[4] ?? 1);
+    } else if (line === '\\ No newline at end of file' && hunk) {
+      hunk.lines.push({
+        kind: 'note',
+        text: line.slice(2),
+        oldLine: null,
+        newLine: null,
+      });
+    } else if (line.startsWith('new file mode')) {
+      file.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      file.status = 'renamed';
+      file.oldPath = unquotePath(line.slice('rename from '.length));
+    } else if (line.startsWith('rename to ')) {
+      file.path = unquotePath(line.slice('rename to '.length));
+    } else if (line.startsWith('Binary files ')) {
+      file.binary = true;
+    } else if (line.startsWith('--- ')) {
+      const path = parseMarkerPath(line);
+      if (path && file.status === 'deleted') file.path = path;
+    } else if (line.startsWith('+++ ')) {
+      const path = parseMarkerPath(line);
+      if (path) file.path = path;
+    }
+  }
+
+  return files;
+}
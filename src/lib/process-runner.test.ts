@@ -27,6 +27,7 @@ describe('ProcessRunner types', () => {
         stream: 'stdout',
         line: 'hello world',
         timestamp: Date.now(),
+        seq: 0,
       };
       expect(line.stream).toBe('stdout');
       expect(line.line).toBe('hello world');
@@ -38,6 +39,7 @@ describe('ProcessRunner types', () => {
         stream: 'stderr',
         line: 'error occurred',
         timestamp: Date.now(),
+        seq: 1,
       };
       expect(line.stream).toBe('stderr');
       expect(line.line).toBe('error occurred');
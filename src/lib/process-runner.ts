@@ -33,11 +33,59 @@ export interface ProcessOutputLine {
   readonly stream: 'stdout' | 'stderr';
   readonly line: string;
   readonly timestamp: number;
+  /**
+   * Position of the line in the process's output, counting from 0 (as in
+   * the run history's output log)
+   */
+  readonly seq: number;
+}
+
+/**
+ * A run of a command as kept in the project's run history
+ */
+export interface ProcessRun {
+  readonly id: string;
+  readonly command: string;
+  readonly cwd: string;
+  readonly pid: number;
+  readonly startedAt: number;
+  /**
+   * null while the run is in progress, or if the server stopped before it
+   * finished
+   */
+  readonly endedAt: number | null;
+  readonly exitCode: number | null;
+  /**
+   * Ended without an exit status, e.g. because its supervisor was killed
+   */
+  readonly interrupted?: boolean;
+  /**
+   * Ran under the run supervisor, independent of the server process
+   */
+  readonly detached?: boolean;
+}
+
+/**
+ * interrupted: the run ended without an exit status, or never finished as
+ * far as the history knows, e.g. because the server restarted while it was
+ * running
+ */
+export type ProcessRunStatus = 'running' | 'exited' | 'interrupted';
+
+/**
+ * A stored run with its status, as listed in the run history
+ */
+export interface ProcessRunSummary extends ProcessRun {
+  readonly status: ProcessRunStatus;
 }
 
 export interface ProcessStartOptions {
   readonly command: string;
   readonly cwd: string;
+  /**
+   * Run under a supervisor so the process outlives the server
+   */
+  readonly detached?: boolean;
 }
 
 export interface ProcessRunner {
@@ -62,7 +110,8 @@ export interface ProcessRunner {
   /**
    * Subscribe to output lines from a process.
    * Returns an unsubscribe function.
-   * Callback is called for each stdout/stderr line.
+   * Callback is called for each stdout/stderr line, starting with the
+   * buffered ones.
    */
   onOutput(id: string, cb: (line: ProcessOutputLine) => void): () => void;
 
@@ -75,16 +124,29 @@ export interface ProcessRunner {
   onExit(id: string, cb: (code: number | null) => void): () => void;
 
   /**
-   * Get buffered output lines for a process.
+   * Get buffered output lines for a process: the most recent lines, while
+   * the full output is in the run history.
    * Returns empty array if process not found.
-   * Used for replaying output on SSE reconnect.
    */
   getOutput(id: string): ProcessOutputLine[];
 
+  /**
+   * Get the run of a process started or adopted by this runner.
+   * Returns null if process not found.
+   */
+  getRun(id: string): ProcessRun | null;
+
   /**
    * List all currently running processes.
    */
   listRunning(): ProcessHandle[];
+
+  /**
+   * Pick up detached processes in cwd that were started by an earlier
+   * server and are still running, so they can be followed and killed.
+   * Each directory is only scanned once; returns the newly adopted handles.
+   */
+  adopt(cwd: string): Promise<ProcessHandle[]>;
 }
 
 export function isRunning(
@@ -84,6 +84,11 @@ describe('processReducer', () => {
       expect(state).toEqual({ status: 'idle' });
     });
 
+    it('transitions to idle on QUEUED action', () => {
+      const state = processReducer(startingState, { type: 'QUEUED' });
+      expect(state).toEqual({ status: 'idle' });
+    });
+
     it('ignores invalid actions', () => {
       const invalidActions: ProcessAction[] = [
         { type: 'START', command: 'another' },
@@ -140,6 +145,70 @@ describe('processReducer', () => {
       expect(state).toEqual({ ...stateWithLines, lines: [] });
     });
 
+    it('keeps lines before the replay on REPLAY_START with from', () => {
+      const [a, b, c] = [makeLine('a'), makeLine('b'), makeLine('c')];
+      const stateWithLines: ProcessState = {
+        ...runningState,
+        lines: [a, b, c],
+      };
+      const state = processReducer(stateWithLines, {
+        type: 'REPLAY_START',
+        id: 'proc-1',
+        from: c.seq,
+      });
+      expect(state).toEqual({ ...stateWithLines, lines: [a, b] });
+    });
+
+    it('ignores OUTPUT lines it already has', () => {
+      const [a, b] = [makeLine('a'), makeLine('b')];
+      const stateWithLines: ProcessState = { ...runningState, lines: [a, b] };
+      expect(
+        processReducer(stateWithLines, {
+          type: 'OUTPUT',
+          id: 'proc-1',
+          line: a,
+        }),
+      ).toBe(stateWithLines);
+    });
+
+    it('keeps distinct lines output in the same millisecond', () => {
+      const a = { stream: 'stdout' as const, line: 'a', timestamp: 5, seq: 0 };
+      const b = { ...a, line: 'b', seq: 1 };
+      let state: ProcessState = runningState;
+      state = processReducer(state, { type: 'OUTPUT', id: 'proc-1', line: a });
+      state = processReducer(state, { type: 'OUTPUT', id: 'proc-1', line: b });
+      expect(getLines(state)).toEqual([a, b]);
+    });
+
+    it('appends only new lines on OUTPUT_BATCH after a reconnect', () => {
+      const [a, b, c] = [makeLine('a'), makeLine('b'), makeLine('c')];
+      const stateWithLines: ProcessState = { ...runningState, lines: [a, b] };
+      const state = processReducer(stateWithLines, {
+        type: 'OUTPUT_BATCH',
+        id: 'proc-1',
+        lines: [a, b, c],
+      });
+      expect(state).toEqual({ ...stateWithLines, lines: [a, b, c] });
+    });
+
+    it('appends lines on OUTPUT_BATCH with matching id', () => {
+      const [a, b, c] = [makeLine('a'), makeLine('b'), makeLine('c')];
+      const stateWithLines: ProcessState = { ...runningState, lines: [a] };
+      const state = processReducer(stateWithLines, {
+        type: 'OUTPUT_BATCH',
+        id: 'proc-1',
+        lines: [b, c],
+      });
+      expect(state).toEqual({ ...stateWithLines, lines: [a, b, c] });
+      expect(
+        processReducer(stateWithLines, {
+          type: 'OUTPUT_BATCH',
+          id: 'other',
+          lines: [b],
+        }),
+      ).toBe(stateWithLines);
+    });
+
     it('ignores REPLAY_START with non-matching id', () => {
       const stateWithLines: ProcessState = {
         ...runningState,
@@ -450,9 +519,11 @@ describe('helper functions', () => {
   });
 });
 
+let nextSeq = 0;
+
 function makeLine(
   text: string,
   stream: 'stdout' | 'stderr' = 'stdout',
 ): ProcessOutputLine {
-  return { stream, line: text, timestamp: Date.now() };
+  return { stream, line: text, timestamp: Date.now(), seq: nextSeq++ };
 }
@@ -49,12 +49,25 @@ export type ProcessActionOutput = {
   readonly line: ProcessOutputLine;
 };
 
+export type ProcessActionOutputBatch = {
+  readonly type: 'OUTPUT_BATCH';
+  readonly id: string;
+  readonly lines: ProcessOutputLine[];
+};
+
 export type ProcessActionExit = {
   readonly type: 'EXIT';
   readonly id: string;
   readonly code: number | null;
 };
 
+/**
+ * The command went into the run queue instead of starting
+ */
+export type ProcessActionQueued = {
+  readonly type: 'QUEUED';
+};
+
 export type ProcessActionError = {
   readonly type: 'ERROR';
   readonly message: string;
@@ -73,6 +86,10 @@ export type ProcessActionReconcile = {
 export type ProcessActionReplayStart = {
   readonly type: 'REPLAY_START';
   readonly id: string;
+  /**
+   * seq the replay starts from; lines from it on are dropped
+   */
+  readonly from?: number;
 };
 
 export type ProcessActionSetLines = {
@@ -91,7 +108,9 @@ export type ProcessAction =
   | ProcessActionStart
   | ProcessActionStarted
   | ProcessActionOutput
+  | ProcessActionOutputBatch
   | ProcessActionExit
+  | ProcessActionQueued
   | ProcessActionError
   | ProcessActionReset
   | ProcessActionReconcile
@@ -101,6 +120,46 @@ export type ProcessAction =
 
 export const initialProcessState: ProcessStateIdle = { status: 'idle' };
 
+/**
+ * seq of the line after the last one in `lines`
+ */
+export function getNextSeq(lines: ProcessOutputLine[]): number {
+  return (lines.at(-1)?.seq ?? -1) + 1;
+}
+
+/**
+ * Append the lines that come after the last one in `lines`, so lines
+ * received twice (e.g. replayed after a reconnect) are ignored.
+ * Returns `lines` itself when nothing is new.
+ */
+export function appendNewLines(
+  lines: ProcessOutputLine[],
+  incoming: ProcessOutputLine[],
+): ProcessOutputLine[] {
+  const nextSeq = getNextSeq(lines);
+  const fresh = incoming.filter((line) => line.seq >= nextSeq);
+  return fresh.length === 0 ? lines : [...lines, ...fresh];
+}
+
+/**
+ * Drop the lines from seq `from` on.
+ * Returns `lines` itself when there are none.
+ */
+export function dropLinesFrom(
+  lines: ProcessOutputLine[],
+  from: number,
+): ProcessOutputLine[] {
+  const index = lines.findIndex((line) => line.seq >= from);
+  return index === -1 ? lines : lines.slice(0, index);
+}
+
+function withLines(
+  state: ProcessStateRunning,
+  lines: ProcessOutputLine[],
+): ProcessStateRunning {
+  return lines === state.lines ? state : { ...state, lines };
+}
+
 export function processReducer(
   state: ProcessState,
   action: ProcessAction,
@@ -129,17 +188,20 @@ export function processReducer(
           lines: [],
         };
       }
-      if (action.type === 'ERROR') {
+      if (action.type === 'ERROR' || action.type === 'QUEUED') {
         return { status: 'idle' };
       }
       break;
 
     case 'running':
       if (action.type === 'OUTPUT' && action.id === state.id) {
-        return { ...state, lines: [...state.lines, action.line] };
+        return withLines(state, appendNewLines(state.lines, [action.line]));
+      }
+      if (action.type === 'OUTPUT_BATCH' && action.id === state.id) {
+        return withLines(state, appendNewLines(state.lines, action.lines));
       }
       if (action.type === 'REPLAY_START' && action.id === state.id) {
-        return { ...state, lines: [] };
+        return withLines(state, dropLinesFrom(state.lines, action.from ?? 0));
       }
       if (action.type === 'SET_LINES' && action.id === state.id) {
         return { ...state, lines: action.lines };
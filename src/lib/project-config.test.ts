@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { ProjectConfigSchema } from './project-config';
+
+describe('ProjectConfigSchema', () => {
+  it('accepts transitions to built-in and configured statuses', () => {
+    const result = ProjectConfigSchema.safeParse({
+      ticketStatuses: [
+        { name: 'needs_review', transitions: ['completed', 'blocked'] },
+        { name: 'blocked', transitions: ['needs_review'] },
+      ],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects transitions to unknown statuses', () => {
+    const result = ProjectConfigSchema.safeParse({
+      ticketStatuses: [{ name: 'needs_review', transitions: ['complete'] }],
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({
+        message: 'Unknown status "complete"',
+        path: ['ticketStatuses', 0, 'transitions', 0],
+      }),
+    ]);
+  });
+});
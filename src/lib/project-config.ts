@@ -1,10 +1,26 @@
 import { z } from 'zod';
+import { DEFAULT_STALE_AFTER_HOURS } from './ticket-age';
+import { COMMIT_PATTERN_ID, DEFAULT_COMMIT_PATTERN } from './ticket-commits';
+import { defaultTicketStatuses } from './ticket-workflow';
+
+/**
+ * Queued runs a project runs at once unless configured otherwise
+ */
+export const DEFAULT_MAX_CONCURRENT_RUNS = 1;
 
 export const CommandConfigSchema = z.object({
   label: z.string().min(1),
   cmd: z.string().min(1),
   icon: z.string().optional(),
   destructive: z.boolean().optional(),
+  /**
+   * Keep running when the web server restarts
+   */
+  detached: z.boolean().optional(),
+  /**
+   * Most queued runs of this command at once
+   */
+  maxConcurrent: z.number().int().positive().optional(),
 });
 
 export type CommandConfig = z.infer<typeof CommandConfigSchema>;
@@ -17,9 +33,112 @@ export const TerminalButtonSchema = z.object({
 
 export type TerminalButton = z.infer<typeof TerminalButtonSchema>;
 
+/**
+ * Reusable shape for new tickets (e.g. "Bug report", "Refactor")
+ */
+export const TicketTemplateSchema = z.object({
+  name: z.string().min(1),
+  titlePrefix: z.string().optional(),
+  /**
+   * Markdown skeleton for the description
+   */
+  description: z.string().optional(),
+  priority: z.number().optional(),
+  labels: z.array(z.string()).optional(),
+  status: z.enum(['draft', 'pending']).optional(),
+});
+
+export type TicketTemplate = z.infer<typeof TicketTemplateSchema>;
+
+/**
+ * Badge colours a configured status can use
+ */
+export const statusColors = [
+  'gray',
+  'red',
+  'orange',
+  'yellow',
+  'green',
+  'teal',
+  'blue',
+  'purple',
+  'pink',
+] as const;
+
+export type StatusColor = (typeof statusColors)[number];
+
+/**
+ * A custom ticket status, or overrides for a built-in one of the same name
+ */
+export const TicketStatusConfigSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-z][a-z0-9_]*$/,
+      'Use lowercase letters, digits and underscores',
+    ),
+  label: z.string().min(1).optional(),
+  color: z.enum(statusColors).optional(),
+  /**
+   * Statuses a ticket may move to from this one (any when omitted)
+   */
+  transitions: z.array(z.string()).optional(),
+  /**
+   * Counts as finished, so the "Incomplete" filter hides it
+   */
+  closed: z.boolean().optional(),
+});
+
+export type TicketStatusConfig = z.infer<typeof TicketStatusConfigSchema>;
+
+/**
+ * Configured statuses. Transitions may only name built-in or configured
+ * statuses.
+ */
+export const TicketStatusesConfigSchema = z
+  .array(TicketStatusConfigSchema)
+  .superRefine((statuses, ctx) => {
+    const names = new Set([
+      ...defaultTicketStatuses.map((s) => s.name),
+      ...statuses.map((s) => s.name),
+    ]);
+    statuses.forEach((status, index) => {
+      status.transitions?.forEach((transition, transitionIndex) => {
+        if (!names.has(transition)) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Unknown status "${transition}"`,
+            path: [index, 'transitions', transitionIndex],
+          });
+        }
+      });
+    });
+  });
+
 export const ProjectConfigSchema = z.object({
   commands: z.array(CommandConfigSchema).optional(),
   terminalButtons: z.array(TerminalButtonSchema).optional(),
+  ticketTemplates: z.array(TicketTemplateSchema).optional(),
+  ticketStatuses: TicketStatusesConfigSchema.optional(),
+  /**
+   * Hours in progress after which a ticket is flagged as stuck
+   */
+  staleAfterHours: z.number().positive().optional(),
+  /**
+   * Most queued runs in the project at once; more wait in the run queue
+   */
+  maxConcurrentRuns: z.number().int().positive().optional(),
+  /**
+   * Regular expression matching a ticket in commit messages, with {id}
+   * standing for its ID
+   */
+  commitPattern: z
+    .string()
+    .refine(
+      (pattern) => pattern.includes(COMMIT_PATTERN_ID),
+      `Must contain ${COMMIT_PATTERN_ID}`,
+    )
+    .optional(),
 });
 
 export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
@@ -39,7 +158,12 @@ export const defaultTerminalButtons: TerminalButton[] = [
   { label: '↓', sequence: '\x1b[B', title: 'Down arrow' },
 ];
 
-export const defaultConfig: ProjectConfig = {
+export const defaultConfig: Required<ProjectConfig> = {
   commands: defaultCommands,
   terminalButtons: defaultTerminalButtons,
+  ticketTemplates: [],
+  ticketStatuses: [],
+  staleAfterHours: DEFAULT_STALE_AFTER_HOURS,
+  maxConcurrentRuns: DEFAULT_MAX_CONCURRENT_RUNS,
+  commitPattern: DEFAULT_COMMIT_PATTERN,
 };
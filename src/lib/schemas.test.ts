@@ -56,6 +56,51 @@ describe('TicketSchema', () => {
     }
   });
 
+  it('parses dependsOn', () => {
+    const result = TicketSchema.safeParse({
+      id: 3,
+      title: 'Dependent',
+      dependsOn: [1, 2],
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.dependsOn).toEqual([1, 2]);
+    }
+  });
+
+  it('rejects non-numeric dependsOn entries', () => {
+    const result = TicketSchema.safeParse({
+      id: 3,
+      title: 'Dependent',
+      dependsOn: ['1'],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('parses acceptanceCriteria, defaulting done to false', () => {
+    const result = TicketSchema.safeParse({
+      id: 4,
+      title: 'With criteria',
+      acceptanceCriteria: [{ text: 'Works', done: true }, { text: 'Tested' }],
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.acceptanceCriteria).toEqual([
+        { text: 'Works', done: true },
+        { text: 'Tested', done: false },
+      ]);
+    }
+  });
+
+  it('rejects acceptanceCriteria without text', () => {
+    const result = TicketSchema.safeParse({
+      id: 4,
+      title: 'With criteria',
+      acceptanceCriteria: [{ done: true }],
+    });
+    expect(result.success).toBe(false);
+  });
+
   it('rejects ticket without id', () => {
     const result = TicketSchema.safeParse({
       title: 'No id ticket',
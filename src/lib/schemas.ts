@@ -13,6 +13,38 @@ export const ticketStatuses = [
 
 export type TicketStatus = (typeof ticketStatuses)[number];
 
+/**
+ * A single acceptance criterion, ticked off when met
+ */
+export const AcceptanceCriterionSchema = z.object({
+  text: z.string(),
+  done: z.boolean().default(false),
+});
+
+export type AcceptanceCriterion = z.infer<typeof AcceptanceCriterionSchema>;
+
+/**
+ * ISO 8601 date ("2026-05-01") or date-time string
+ */
+export const DateStringSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+/**
+ * A note left on a ticket for teammates or for ralph
+ */
+export const TicketCommentSchema = z.object({
+  id: z.string(),
+  author: z.string(),
+  /**
+   * Markdown
+   */
+  body: z.string(),
+  createdAt: z.string(),
+});
+
+export type TicketComment = z.infer<typeof TicketCommentSchema>;
+
 /**
  * Loose Zod schema for a single ticket.
  * Uses passthrough() to allow unknown fields for forward compatibility.
@@ -24,11 +56,35 @@ export const TicketSchema = z
     description: z.string().optional(),
     status: z.string().default('pending'),
     priority: z.number().optional(),
+    dependsOn: z.array(z.number()).optional(),
+    acceptanceCriteria: z.array(AcceptanceCriterionSchema).optional(),
+    labels: z.array(z.string()).optional(),
+    /**
+     * Ticket this one was split out of
+     */
+    parentId: z.number().optional(),
+    /**
+     * Set by ralph-watch when it creates or changes the ticket
+     */
+    createdAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+    /**
+     * When the status last changed, including changes made by ralph
+     */
+    statusChangedAt: z.string().optional(),
+    dueAt: z.string().optional(),
+    comments: z.array(TicketCommentSchema).optional(),
   })
   .passthrough();
 
 export type Ticket = z.infer<typeof TicketSchema>;
 
+/**
+ * Ticket as returned by tickets.list, with computed fields.
+ * blocked is true while any ticket it depends on is not completed.
+ */
+export type ListedTicket = Ticket & { blocked: boolean };
+
 /**
  * Loose Zod schema for the tickets.json file structure.
  * Uses passthrough() to allow unknown top-level fields.
@@ -49,6 +105,11 @@ export const CreateTicketSchema = z.object({
   description: z.string().optional(),
   priority: z.number().optional(),
   status: z.enum(['draft', 'pending']).optional(),
+  dependsOn: z.array(z.number()).optional(),
+  acceptanceCriteria: z.array(AcceptanceCriterionSchema).optional(),
+  labels: z.array(z.string()).optional(),
+  parentId: z.number().optional(),
+  dueAt: DateStringSchema.optional(),
 });
 
 export type CreateTicket = z.infer<typeof CreateTicketSchema>;
@@ -61,6 +122,33 @@ export const UpdateTicketSchema = z.object({
   description: z.string().optional(),
   status: z.string().optional(),
   priority: z.number().optional(),
+  dependsOn: z.array(z.number()).optional(),
+  acceptanceCriteria: z.array(AcceptanceCriterionSchema).optional(),
+  labels: z.array(z.string()).optional(),
+  /**
+   * null removes the due date
+   */
+  dueAt: DateStringSchema.nullable().optional(),
 });
 
 export type UpdateTicket = z.infer<typeof UpdateTicketSchema>;
+
+/**
+ * Schema for fields that can be applied to many tickets at once
+ */
+export const BulkUpdateTicketSchema = UpdateTicketSchema.pick({
+  status: true,
+  priority: true,
+});
+
+export type BulkUpdateTicket = z.infer<typeof BulkUpdateTicketSchema>;
+
+/**
+ * Schema for a new comment (id and createdAt are set by the server)
+ */
+export const AddCommentSchema = z.object({
+  author: z.string().trim().min(1, 'Author is required').max(100),
+  body: z.string().trim().min(1, 'Comment is required'),
+});
+
+export type AddComment = z.infer<typeof AddCommentSchema>;
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { getLanguage, tokenizeLine } from './syntax-highlight';
+
+describe('getLanguage', () => {
+  it('maps file extensions to languages', () => {
+    expect(getLanguage('src/app/page.tsx')).toBe('javascript');
+    expect(getLanguage('scripts/setup.sh')).toBe('shell');
+    expect(getLanguage('.github/workflows/ci.YML')).toBe('yaml');
+    expect(getLanguage('README.md')).toBeNull();
+    expect(getLanguage('Makefile')).toBeNull();
+  });
+});
+
+describe('tokenizeLine', () => {
+  it('highlights keywords, strings, numbers and comments', () => {
+    expect(
+      tokenizeLine("const name = 'ralph' + 42; // note", 'javascript'),
+    ).toEqual([
+      { kind: 'keyword', text: 'const' },
+      { kind: 'plain', text: ' name = ' },
+      { kind: 'string', text: "'ralph'" },
+      { kind: 'plain', text: ' + ' },
+      { kind: 'number', text: '42' },
+      { kind: 'plain', text: '; ' },
+      { kind: 'comment', text: '// note' },
+    ]);
+  });
+
+  it('keeps comment markers inside strings', () => {
+    expect(tokenizeLine('url = "http://x" # link', 'python')).toEqual([
+      { kind: 'plain', text: 'url = ' },
+      { kind: 'string', text: '"http://x"' },
+      { kind: 'plain', text: ' ' },
+      { kind: 'comment', text: '# link' },
+    ]);
+  });
+
+  it('treats identifiers containing keywords as plain', () => {
+    expect(tokenizeLine('constant2 = iffy', 'javascript')).toEqual([
+      { kind: 'plain', text: 'constant2 = iffy' },
+    ]);
+  });
+
+  it('returns the line as plain text without a language', () => {
+    expect(tokenizeLine('const x = 1', null)).toEqual([
+      { kind: 'plain', text: 'const x = 1' },
+    ]);
+  });
+});
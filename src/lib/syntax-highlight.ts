@@ -0,0 +1,343 @@
+/**
+ * Lightweight per-line syntax highlighting for the diff viewer.
+ * Each line is tokenized on its own, so comments and strings spanning
+ * several lines are only highlighted on the line they start on.
+ */
+
+export type TokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface SyntaxToken {
+  kind: TokenKind;
+  text: string;
+}
+
+interface LanguageDefinition {
+  keywords: string[];
+  /**
+   * Regular expression sources for comments, tried before strings
+   */
+  comments: string[];
+  quotes: string[];
+}
+
+const C_COMMENTS = ['\\/\\/.*', '\\/\\*.*?(?:\\*\\/|$)'];
+const HASH_COMMENTS = ['#.*'];
+
+const JS_KEYWORDS = [
+  'as',
+  'async',
+  'await',
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'enum',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'from',
+  'function',
+  'if',
+  'implements',
+  'import',
+  'in',
+  'instanceof',
+  'interface',
+  'let',
+  'new',
+  'null',
+  'of',
+  'private',
+  'protected',
+  'public',
+  'readonly',
+  'return',
+  'static',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'type',
+  'typeof',
+  'undefined',
+  'var',
+  'void',
+  'while',
+  'yield',
+];
+
+const languages = {
+  javascript: {
+    keywords: JS_KEYWORDS,
+    comments: C_COMMENTS,
+    quotes: ['"', "'", '`'],
+  },
+  json: { keywords: ['true', 'false', 'null'], comments: [], quotes: ['"'] },
+  python: {
+    keywords: [
+      'and',
+      'as',
+      'assert',
+      'async',
+      'await',
+      'break',
+      'class',
+      'continue',
+      'def',
+      'del',
+      'elif',
+      'else',
+      'except',
+      'False',
+      'finally',
+      'for',
+      'from',
+      'global',
+      'if',
+      'import',
+      'in',
+      'is',
+      'lambda',
+      'None',
+      'nonlocal',
+      'not',
+      'or',
+      'pass',
+      'raise',
+      'return',
+      'True',
+      'try',
+      'while',
+      'with',
+      'yield',
+    ],
+    comments: HASH_COMMENTS,
+    quotes: ['"', "'"],
+  },
+  shell: {
+    keywords: [
+      'case',
+      'do',
+      'done',
+      'elif',
+      'else',
+      'esac',
+      'export',
+      'fi',
+      'for',
+      'function',
+      'if',
+      'in',
+      'local',
+      'return',
+      'then',
+      'while',
+    ],
+    comments: HASH_COMMENTS,
+    quotes: ['"', "'"],
+  },
+  go: {
+    keywords: [
+      'break',
+      'case',
+      'chan',
+      'const',
+      'continue',
+      'default',
+      'defer',
+      'else',
+      'false',
+      'for',
+      'func',
+      'go',
+      'if',
+      'import',
+      'interface',
+      'map',
+      'nil',
+      'package',
+      'range',
+      'return',
+      'select',
+      'struct',
+      'switch',
+      'true',
+      'type',
+      'var',
+    ],
+    comments: C_COMMENTS,
+    quotes: ['"', '`'],
+  },
+  rust: {
+    keywords: [
+      'as',
+      'async',
+      'await',
+      'break',
+      'const',
+      'continue',
+      'else',
+      'enum',
+      'false',
+      'fn',
+      'for',
+      'if',
+      'impl',
+      'in',
+      'let',
+      'loop',
+      'match',
+      'mod',
+      'mut',
+      'pub',
+      'ref',
+      'return',
+      'self',
+      'Self',
+      'static',
+      'struct',
+      'trait',
+      'true',
+      'type',
+      'use',
+      'where',
+      'while',
+    ],
+    comments: C_COMMENTS,
+    quotes: ['"'],
+  },
+  css: {
+    keywords: ['important', 'inherit', 'initial', 'none', 'unset'],
+    comments: ['\\/\\*.*?(?:\\*\\/|$)'],
+    quotes: ['"', "'"],
+  },
+  yaml: {
+    keywords: ['true', 'false', 'null', 'yes', 'no'],
+    comments: HASH_COMMENTS,
+    quotes: ['"', "'"],
+  },
+} satisfies Record<string, LanguageDefinition>;
+
+export type Language = keyof typeof languages;
+
+const extensionLanguages: Record<string, Language> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  mts: 'javascript',
+  cts: 'javascript',
+  json: 'json',
+  py: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  go: 'go',
+  rs: 'rust',
+  css: 'css',
+  scss: 'css',
+  yml: 'yaml',
+  yaml: 'yaml',
+};
+
+/**
+ * Language to highlight a file as, from its extension
+ */
+export function getLanguage(path: string): Language | null {
+  const extension = path.split('/').pop()?.split('.').pop()?.toLowerCase();
+  return (extension && extensionLanguages[extension]) || null;
+}
+
+interface Tokenizer {
+  pattern: RegExp;
+  keywords: Set<string>;
+}
+
+const tokenizers = new Map<Language, Tokenizer>();
+
+function getTokenizer(language: Language): Tokenizer {
+  let tokenizer = tokenizers.get(language);
+  if (!tokenizer) {
+    const definition: LanguageDefinition = languages[language];
+    const comment = definition.comments.join('|') || '(?!)';
+    const string =
+      definition.quotes
+        .map((q) => `${q}(?:[^${q}\\\\]|\\\\.)*(?:${q}|$)`)
+        .join('|') || '(?!)';
+    const number =
+      '\\b(?:0x[\\da-fA-F]+|\\d[\\d_]*(?:\\.\\d+)?(?:e[+-]?\\d+)?)\\b';
+    const word = '[A-Za-z_$][\\w$]*';
+    tokenizer = {
+      pattern: new RegExp(
+        `(${comment})|(${string})|(${number})|(${word})`,
+        'g',
+      ),
+      keywords: new Set(definition.keywords),
+    };
+    tokenizers.set(language, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Split a line of code into highlighted tokens.
+ * Without a language the whole line is one plain token.
+ */
+export function tokenizeLine(
+  line: string,
+  language: Language | null,
+): SyntaxToken[] {
+  if (!language || !line) {
+    return [{ kind: 'plain', text: line }];
+  }
+
+  const { pattern, keywords } = getTokenizer(language);
+  const tokens: SyntaxToken[] = [];
+
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      tokens.push({ kind, text });
+    }
+  };
+
+  let index = 0;
+  for (const match of line.matchAll(pattern)) {
+    if (match.index > index) {
+      push('plain', line.slice(index, match.index));
+    }
+    const [text, comment, string, number] = match;
+    push(
+      comment
+        ? 'comment'
+        : string
+          ? 'string'
+          : number
+            ? 'number'
+            : keywords.has(text)
+              ? 'keyword'
+              : 'plain',
+      text,
+    );
+    index = match.index + text.length;
+  }
+  if (index < line.length) {
+    push('plain', line.slice(index));
+  }
+
+  return tokens;
+}
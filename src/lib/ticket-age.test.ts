@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyStatusChanges,
+  formatRelativeTime,
+  getDueState,
+  getStaleDuration,
+  parseTicketDate,
+  stampStatusChanges,
+  stampTicketTimestamps,
+  trackStatusChanges,
+} from './ticket-age';
+import type { Ticket } from './schemas';
+
+const NOW = Date.parse('2026-03-10T12:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+
+function ticket(overrides: Partial<Ticket> = {}): Ticket {
+  return { id: 1, title: 'Ticket', status: 'pending', ...overrides };
+}
+
+describe('stampTicketTimestamps', () => {
+  it('stamps created and changed tickets only', () => {
+    const before = [ticket({ id: 1 }), ticket({ id: 2 })];
+    const after = [
+      ticket({ id: 1, title: 'Renamed' }),
+      ticket({ id: 2 }),
+      ticket({ id: 3 }),
+    ];
+
+    stampTicketTimestamps(before, after, new Date(NOW));
+
+    const stamp = new Date(NOW).toISOString();
+    expect(after[0]).toMatchObject({ updatedAt: stamp });
+    expect(after[0]?.createdAt).toBeUndefined();
+    expect(after[1]?.updatedAt).toBeUndefined();
+    expect(after[2]).toMatchObject({ createdAt: stamp, updatedAt: stamp });
+  });
+
+  it('keeps an existing createdAt on new tickets', () => {
+    const after = [ticket({ createdAt: '2020-01-01T00:00:00.000Z' })];
+    stampTicketTimestamps([], after, new Date(NOW));
+    expect(after[0]?.createdAt).toBe('2020-01-01T00:00:00.000Z');
+  });
+});
+
+describe('stampStatusChanges', () => {
+  it('stamps new tickets and status changes', () => {
+    const earlier = '2020-01-01T00:00:00.000Z';
+    const before = [
+      ticket({ id: 1 }),
+      ticket({ id: 2, title: 'Old title' }),
+      ticket({ id: 3, status: 'in_progress' }),
+    ];
+    const after = [
+      ticket({ id: 1, status: 'in_progress', statusChangedAt: earlier }),
+      ticket({ id: 2 }),
+      ticket({ id: 3, status: 'in_progress' }),
+      ticket({ id: 4 }),
+    ];
+
+    stampStatusChanges(before, after, new Date(NOW));
+
+    const stamp = new Date(NOW).toISOString();
+    expect(after.map((t) => t.statusChangedAt)).toEqual([
+      stamp,
+      undefined,
+      undefined,
+      stamp,
+    ]);
+  });
+});
+
+describe('trackStatusChanges', () => {
+  const seen = '2020-01-01T00:00:00.000Z';
+
+  it('records status changes and in-progress tickets first seen', () => {
+    const before = [
+      ticket({ id: 1 }),
+      ticket({ id: 2, status: 'in_progress' }),
+      ticket({ id: 3, status: 'in_progress', statusChangedAt: seen }),
+    ];
+    const after = [ticket({ id: 1, status: 'completed' }), ...before.slice(1)];
+
+    expect(trackStatusChanges({}, before, after, new Date(NOW))).toEqual({
+      1: { status: 'completed', at: new Date(NOW).toISOString() },
+      2: { status: 'in_progress', at: new Date(NOW).toISOString() },
+    });
+  });
+
+  it('keeps changes for the current status and drops the rest', () => {
+    const previous = {
+      1: { status: 'in_progress', at: seen },
+      2: { status: 'in_progress', at: seen },
+      3: { status: 'in_progress', at: seen },
+    };
+    const tickets = [
+      ticket({ id: 1, status: 'in_progress' }),
+      ticket({ id: 2, status: 'completed' }),
+    ];
+
+    expect(
+      trackStatusChanges(previous, tickets, tickets, new Date(NOW)),
+    ).toEqual({ 1: { status: 'in_progress', at: seen } });
+  });
+});
+
+describe('applyStatusChanges', () => {
+  const earlier = '2020-01-01T00:00:00.000Z';
+  const later = '2020-02-01T00:00:00.000Z';
+
+  it('uses the later of the ticket and recorded times for its status', () => {
+    const tickets = [
+      ticket({ id: 1, status: 'in_progress', statusChangedAt: earlier }),
+      ticket({ id: 2, status: 'in_progress', statusChangedAt: later }),
+      ticket({ id: 3, status: 'in_progress' }),
+      ticket({ id: 4, status: 'completed', statusChangedAt: earlier }),
+    ];
+    const changes = {
+      1: { status: 'in_progress', at: later },
+      2: { status: 'in_progress', at: earlier },
+      3: { status: 'in_progress', at: earlier },
+      4: { status: 'in_progress', at: later },
+    };
+
+    expect(
+      applyStatusChanges(tickets, changes).map((t) => t.statusChangedAt),
+    ).toEqual([later, later, earlier, earlier]);
+  });
+});
+
+describe('parseTicketDate', () => {
+  it('reads date-only values as the end of that local day', () => {
+    expect(parseTicketDate('2026-03-10')).toBe(
+      new Date(2026, 2, 10, 23, 59, 59).getTime(),
+    );
+  });
+
+  it('returns null for missing or invalid dates', () => {
+    expect(parseTicketDate(undefined)).toBeNull();
+    expect(parseTicketDate('soon')).toBeNull();
+  });
+});
+
+describe('formatRelativeTime', () => {
+  it('formats past and future times', () => {
+    expect(formatRelativeTime(NOW - 30 * 1000, NOW)).toBe('just now');
+    expect(formatRelativeTime(NOW - 5 * 60 * 1000, NOW)).toBe('5m ago');
+    expect(formatRelativeTime(NOW - 3 * HOUR, NOW)).toBe('3h ago');
+    expect(formatRelativeTime(NOW + 50 * HOUR, NOW)).toBe('in 2d');
+  });
+});
+
+describe('getStaleDuration', () => {
+  const updatedAt = new Date(NOW - 30 * HOUR).toISOString();
+
+  it('flags in-progress tickets past the threshold', () => {
+    expect(
+      getStaleDuration(ticket({ status: 'in_progress', updatedAt }), NOW),
+    ).toBe(30 * HOUR);
+  });
+
+  it('respects a custom threshold', () => {
+    expect(
+      getStaleDuration(ticket({ status: 'in_progress', updatedAt }), NOW, 48),
+    ).toBeNull();
+  });
+
+  it('measures from the last status change', () => {
+    const statusChangedAt = new Date(NOW - 2 * HOUR).toISOString();
+    expect(
+      getStaleDuration(
+        ticket({ status: 'in_progress', updatedAt, statusChangedAt }),
+        NOW,
+      ),
+    ).toBeNull();
+    expect(
+      getStaleDuration(
+        ticket({
+          status: 'in_progress',
+          updatedAt: new Date(NOW).toISOString(),
+          statusChangedAt: updatedAt,
+        }),
+        NOW,
+      ),
+    ).toBe(30 * HOUR);
+  });
+
+  it('ignores other statuses and tickets without timestamps', () => {
+    expect(getStaleDuration(ticket({ updatedAt }), NOW)).toBeNull();
+    expect(getStaleDuration(ticket({ status: 'in_progress' }), NOW)).toBeNull();
+  });
+});
+
+describe('getDueState', () => {
+  it('reports overdue, soon and later due dates', () => {
+    const due = (hours: number) =>
+      ticket({ dueAt: new Date(NOW + hours * HOUR).toISOString() });
+    expect(getDueState(due(-1), NOW, false)).toBe('overdue');
+    expect(getDueState(due(5), NOW, false)).toBe('soon');
+    expect(getDueState(due(72), NOW, false)).toBe('later');
+  });
+
+  it('ignores closed tickets and tickets without a due date', () => {
+    expect(getDueState(ticket({ dueAt: '2020-01-01' }), NOW, true)).toBeNull();
+    expect(getDueState(ticket(), NOW, false)).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Ticket timestamps: stamping createdAt/updatedAt/statusChangedAt on
+ * writes, relative ages for display and spotting tickets stuck in progress.
+ */
+
+import { z } from 'zod';
+import type { Ticket } from './schemas';
+import { diffTickets } from './ticket-history';
+
+export const DEFAULT_STALE_AFTER_HOURS = 24;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Set createdAt on added tickets, updatedAt on added or changed ones and
+ * statusChangedAt as in stampStatusChanges.
+ * Tickets are updated in place so values returned by a mutation see them.
+ */
+export function stampTicketTimestamps(
+  before: Ticket[],
+  after: Ticket[],
+  now: Date,
+): void {
+  const timestamp = now.toISOString();
+  const afterById = new Map(after.map((t) => [t.id, t]));
+
+  for (const change of diffTickets(before, after)) {
+    const ticket = afterById.get(change.ticketId);
+    if (!ticket) continue;
+    if (change.before === null) {
+      ticket.createdAt ??= timestamp;
+    }
+    ticket.updatedAt = timestamp;
+  }
+  stampStatusChanges(before, after, now);
+}
+
+/**
+ * Set statusChangedAt on tickets that are new or whose status differs from
+ * before. Tickets are updated in place.
+ */
+export function stampStatusChanges(
+  before: Ticket[],
+  after: Ticket[],
+  now: Date,
+): void {
+  const timestamp = now.toISOString();
+  const statusById = new Map(before.map((t) => [t.id, t.status]));
+
+  for (const ticket of after) {
+    if (statusById.get(ticket.id) !== ticket.status) {
+      ticket.statusChangedAt = timestamp;
+    }
+  }
+}
+
+/**
+ * When a ticket's status was last seen to change outside ralph-watch.
+ * These are kept in ralph-watch's own state rather than written to
+ * tickets.json, which ralph may be writing at the same time.
+ */
+export const StatusChangeSchema = z.object({
+  status: z.string(),
+  at: z.string(),
+});
+
+export type StatusChange = z.infer<typeof StatusChangeSchema>;
+
+/**
+ * Status changes by ticket ID
+ */
+export const StatusChangesSchema = z.record(z.string(), StatusChangeSchema);
+
+export type StatusChanges = z.infer<typeof StatusChangesSchema>;
+
+/**
+ * Update the status changes for tickets read from tickets.json.
+ * Tickets whose status differs from the last tickets seen (before) are
+ * recorded at now, as are tickets in progress without any time yet, so
+ * those are measured from when they were first seen. Entries for deleted
+ * tickets or an older status are dropped.
+ */
+export function trackStatusChanges(
+  previous: StatusChanges,
+  before: Ticket[] | null,
+  after: Ticket[],
+  now: Date,
+): StatusChanges {
+  const statusById = new Map(before?.map((t) => [t.id, t.status]));
+  const changes: StatusChanges = {};
+
+  for (const ticket of after) {
+    const entry = previous[ticket.id];
+    const changed =
+      before !== null && statusById.get(ticket.id) !== ticket.status;
+    if (changed) {
+      changes[ticket.id] = { status: ticket.status, at: now.toISOString() };
+    } else if (entry?.status === ticket.status) {
+      changes[ticket.id] = entry;
+    } else if (ticket.status === 'in_progress' && !ticket.statusChangedAt) {
+      changes[ticket.id] = { status: ticket.status, at: now.toISOString() };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Tickets with statusChangedAt moved up to the status change recorded for
+ * their current status, if that is later
+ */
+export function applyStatusChanges<T extends Ticket>(
+  tickets: T[],
+  changes: StatusChanges,
+): T[] {
+  return tickets.map((ticket) => {
+    const change = changes[ticket.id];
+    if (change?.status !== ticket.status) return ticket;
+    const since = parseTicketDate(ticket.statusChangedAt);
+    return since !== null && since >= Date.parse(change.at)
+      ? ticket
+      : { ...ticket, statusChangedAt: change.at };
+  });
+}
+
+/**
+ * Parse a ticket date. Date-only values (as set by the due date picker)
+ * mean the end of that day in local time.
+ */
+export function parseTicketDate(value: string | undefined): number | null {
+  if (!value) return null;
+  const time = DATE_ONLY.test(value)
+    ? new Date(`${value}T23:59:59`).getTime()
+    : Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Short duration such as "5m", "3h" or "2d"
+ */
+export function formatDuration(ms: number): string {
+  const abs = Math.abs(ms);
+  if (abs < HOUR_MS) return `${Math.max(1, Math.floor(abs / MINUTE_MS))}m`;
+  if (abs < DAY_MS) return `${Math.floor(abs / HOUR_MS)}h`;
+  return `${Math.floor(abs / DAY_MS)}d`;
+}
+
+/**
+ * Relative time such as "3h ago" or "in 2d"
+ */
+export function formatRelativeTime(time: number, now: number): string {
+  const diff = time - now;
+  if (Math.abs(diff) < MINUTE_MS) return 'just now';
+  return diff < 0
+    ? `${formatDuration(diff)} ago`
+    : `in ${formatDuration(diff)}`;
+}
+
+/**
+ * How long a ticket has been in progress, or null when it is not in
+ * progress, has no timestamps or is under the threshold. Measured from the
+ * last status change, or the last update for tickets stamped before
+ * statusChangedAt existed.
+ */
+export function getStaleDuration(
+  ticket: Ticket,
+  now: number,
+  staleAfterHours: number = DEFAULT_STALE_AFTER_HOURS,
+): number | null {
+  if (ticket.status !== 'in_progress') return null;
+  const since = parseTicketDate(
+    ticket.statusChangedAt ?? ticket.updatedAt ?? ticket.createdAt,
+  );
+  if (since === null) return null;
+  const duration = now - since;
+  return duration > staleAfterHours * HOUR_MS ? duration : null;
+}
+
+export type DueState = 'overdue' | 'soon' | 'later';
+
+/**
+ * Whether a ticket's due date has passed or is within a day.
+ * Finished tickets are never overdue.
+ */
+export function getDueState(
+  ticket: Ticket,
+  now: number,
+  closed: boolean,
+): DueState | null {
+  const due = parseTicketDate(ticket.dueAt);
+  if (due === null || closed) return null;
+  if (due < now) return 'overdue';
+  return due - now < DAY_MS ? 'soon' : 'later';
+}
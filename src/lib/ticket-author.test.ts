@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_AUTHOR_LENGTH, parseAuthorHeader } from './ticket-author';
+
+describe('parseAuthorHeader', () => {
+  it('decodes the author', () => {
+    expect(parseAuthorHeader(encodeURIComponent(' Zoë '))).toBe('Zoë');
+  });
+
+  it('ignores missing, blank and malformed values', () => {
+    expect(parseAuthorHeader(null)).toBeUndefined();
+    expect(parseAuthorHeader('%20')).toBeUndefined();
+    expect(parseAuthorHeader('%E0%A4%A')).toBeUndefined();
+  });
+
+  it('cuts off long names', () => {
+    expect(parseAuthorHeader('a'.repeat(200))).toHaveLength(MAX_AUTHOR_LENGTH);
+  });
+});
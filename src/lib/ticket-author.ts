@@ -0,0 +1,47 @@
+/**
+ * The name of the person using ralph-watch, remembered in the browser.
+ * It signs comments and is sent with every request so the ticket history
+ * can record who made each change.
+ */
+
+// Named for comments, which used it first
+const AUTHOR_STORAGE_KEY = 'ralph-watch-comment-author';
+
+/**
+ * Request header carrying the author, URI-encoded as headers are ASCII
+ */
+export const AUTHOR_HEADER = 'x-ralph-author';
+
+export const MAX_AUTHOR_LENGTH = 100;
+
+export function getStoredAuthor(): string {
+  if (typeof window === 'undefined') return '';
+  try {
+    return localStorage.getItem(AUTHOR_STORAGE_KEY) ?? '';
+  } catch {
+    // localStorage unavailable
+    return '';
+  }
+}
+
+export function saveAuthor(author: string): void {
+  try {
+    localStorage.setItem(AUTHOR_STORAGE_KEY, author);
+  } catch {
+    // localStorage unavailable
+  }
+}
+
+/**
+ * Read the author from the request header, or undefined when it is
+ * missing or malformed
+ */
+export function parseAuthorHeader(value: string | null): string | undefined {
+  if (!value) return undefined;
+  try {
+    const author = decodeURIComponent(value).trim();
+    return author ? author.slice(0, MAX_AUTHOR_LENGTH) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseSubtickets, stripAnsi, toCreateTicket } from './ticket-breakdown';
+import { isErr, isOk } from './result';
+
+describe('stripAnsi', () => {
+  it('removes colour codes and carriage returns', () => {
+    expect(stripAnsi('\x1b[32mdone\x1b[0m\r\n')).toBe('done\n');
+  });
+});
+
+describe('parseSubtickets', () => {
+  it('parses a JSON array wrapped in prose and code fences', () => {
+    const reply = [
+      'Here is the breakdown:',
+      '```json',
+      '[',
+      '  {"title": "Add schema", "acceptanceCriteria": ["Has tests"]},',
+      '  {"title": "Add UI", "description": "Dialog"}',
+      ']',
+      '```',
+    ].join('\r\n');
+
+    const result = parseSubtickets(reply);
+
+    expect(isOk(result) && result.value).toEqual([
+      { title: 'Add schema', acceptanceCriteria: ['Has tests'] },
+      { title: 'Add UI', description: 'Dialog' },
+    ]);
+  });
+
+  it('reports a missing array', () => {
+    const result = parseSubtickets('I could not do that');
+    expect(isErr(result) && result.error).toBe(
+      'No JSON list of subtickets found',
+    );
+  });
+
+  it('reports invalid items with their position', () => {
+    const result = parseSubtickets('[{"title": "Ok"}, {"title": ""}]');
+    expect(isErr(result) && result.error).toBe(
+      'Subticket 2: title: Title is required',
+    );
+  });
+});
+
+describe('toCreateTicket', () => {
+  it('links the subticket to its parent', () => {
+    expect(
+      toCreateTicket(
+        { title: 'Add schema', acceptanceCriteria: ['Has tests'] },
+        7,
+      ),
+    ).toEqual({
+      title: 'Add schema',
+      description: undefined,
+      priority: undefined,
+      acceptanceCriteria: [{ text: 'Has tests', done: false }],
+      status: 'pending',
+      parentId: 7,
+    });
+  });
+});
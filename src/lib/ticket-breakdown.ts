@@ -0,0 +1,93 @@
+/**
+ * Split a ticket into subtickets with Claude.
+ * The ticket is sent to a terminal session together with a prompt asking
+ * for a JSON list of subtickets, and the reply is parsed for review.
+ */
+
+import { z } from 'zod';
+import { ok, err, type Result } from './result';
+import type { CreateTicket } from './schemas';
+
+export const BREAKDOWN_PROMPT = `
+
+Break this ticket down into small, independent subtasks that can each be completed in a single focused session.
+Reply with ONLY a JSON array, no other text. Each item must look like:
+{"title": "...", "description": "...", "acceptanceCriteria": ["..."]}
+Order the items in the sequence they should be done.`;
+
+export const SubticketSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required'),
+  description: z.string().optional(),
+  priority: z.number().optional(),
+  acceptanceCriteria: z.array(z.string()).optional(),
+});
+
+export type Subticket = z.infer<typeof SubticketSchema>;
+
+// ANSI escape sequences (colours, cursor movement, OSC titles)
+const ANSI_PATTERN =
+  /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07]*\x07|\x1b[()][A-Z0-9]/g;
+
+/**
+ * Remove terminal escape sequences and carriage returns from output
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '').replace(/\r/g, '');
+}
+
+/**
+ * Parse subtickets from a reply that contains a JSON array, tolerating
+ * terminal escapes, code fences and text around the array
+ */
+export function parseSubtickets(reply: string): Result<Subticket[], string> {
+  const text = stripAnsi(reply);
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start === -1 || end < start) {
+    return err('No JSON list of subtickets found');
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch (e) {
+    return err(`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  if (!Array.isArray(json) || json.length === 0) {
+    return err('Expected a non-empty list of subtickets');
+  }
+
+  const subtickets: Subticket[] = [];
+  for (const [index, item] of json.entries()) {
+    const parsed = SubticketSchema.safeParse(item);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      const field = issue?.path.length ? `${issue.path.join('.')}: ` : '';
+      return err(
+        `Subticket ${index + 1}: ${field}${issue?.message ?? 'Invalid item'}`,
+      );
+    }
+    subtickets.push(parsed.data);
+  }
+  return ok(subtickets);
+}
+
+/**
+ * Build the create input for a subticket of the given parent
+ */
+export function toCreateTicket(
+  subticket: Subticket,
+  parentId: number,
+): CreateTicket {
+  return {
+    title: subticket.title,
+    description: subticket.description || undefined,
+    priority: subticket.priority,
+    acceptanceCriteria: subticket.acceptanceCriteria?.length
+      ? subticket.acceptanceCriteria.map((text) => ({ text, done: false }))
+      : undefined,
+    status: 'pending',
+    parentId,
+  };
+}
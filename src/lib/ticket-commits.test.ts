@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_COMMIT_PATTERN,
+  createCommitMatcher,
+  findTicketCommits,
+  parseGitLog,
+  type GitCommit,
+} from './ticket-commits';
+import { isErr, isOk } from './result';
+
+const SHA = 'a'.repeat(40);
+
+function record(fields: string[], stat = ''): string {
+  return `\x1e${fields.join('\x1f')}\x1f${stat}`;
+}
+
+function commit(subject: string, body = ''): GitCommit {
+  return {
+    sha: SHA,
+    shortSha: SHA.slice(0, 7),
+    subject,
+    body,
+    author: 'Ana',
+    date: '2026-03-10T12:00:00+00:00',
+    filesChanged: 1,
+    refs: [],
+  };
+}
+
+function matcher(pattern: string, id: number): RegExp {
+  const result = createCommitMatcher(pattern, id);
+  if (!isOk(result)) throw new Error(result.error);
+  return result.value;
+}
+
+describe('parseGitLog', () => {
+  it('parses commits with messages, refs and file counts', () => {
+    const output =
+      record(
+        [
+          SHA,
+          'Ana',
+          '2026-03-10T12:00:00+00:00',
+          'HEAD -> main, origin/main',
+          'Fix login #12\n\nLonger explanation\nover two lines\n',
+        ],
+        '\n\n 3 files changed, 10 insertions(+)\n',
+      ) +
+      record(
+        ['b'.repeat(40), 'Ben', '2026-03-09T08:00:00+00:00', '', 'Merge\n'],
+        '\n',
+      );
+
+    expect(parseGitLog(output)).toEqual([
+      {
+        sha: SHA,
+        shortSha: 'aaaaaaa',
+        subject: 'Fix login #12',
+        body: 'Longer explanation\nover two lines',
+        author: 'Ana',
+        date: '2026-03-10T12:00:00+00:00',
+        filesChanged: 3,
+        refs: ['main', 'origin/main'],
+      },
+      {
+        sha: 'b'.repeat(40),
+        shortSha: 'bbbbbbb',
+        subject: 'Merge',
+        body: '',
+        author: 'Ben',
+        date: '2026-03-09T08:00:00+00:00',
+        filesChanged: 0,
+        refs: [],
+      },
+    ]);
+  });
+
+  it('returns no commits for empty output', () => {
+    expect(parseGitLog('')).toEqual([]);
+  });
+});
+
+describe('createCommitMatcher', () => {
+  it('matches the ticket but not longer IDs', () => {
+    const regex = matcher(DEFAULT_COMMIT_PATTERN, 12);
+
+    expect(regex.test('Fix login (#12)')).toBe(true);
+    expect(regex.test('Fix login #12.')).toBe(true);
+    expect(regex.test('Fix login #123')).toBe(false);
+    expect(regex.test('Fix login #1')).toBe(false);
+  });
+
+  it('supports custom patterns', () => {
+    const regex = matcher('ticket[- ]{id}\\b', 7);
+
+    expect(regex.test('Ticket 7: done')).toBe(true);
+    expect(regex.test('ticket-7')).toBe(true);
+    expect(regex.test('ticket-17')).toBe(false);
+    expect(regex.test('#7')).toBe(false);
+  });
+
+  it('rejects patterns without {id} or with invalid syntax', () => {
+    const missing = createCommitMatcher('#', 1);
+    const invalid = createCommitMatcher('({id}', 1);
+
+    expect(isErr(missing) && missing.error).toContain('must contain {id}');
+    expect(isErr(invalid) && invalid.error).toContain('Invalid commit pattern');
+  });
+});
+
+describe('findTicketCommits', () => {
+  it('searches the subject and body', () => {
+    const commits = [
+      commit('Fix login #3'),
+      commit('Refactor', 'Part of #3'),
+      commit('Unrelated #33'),
+    ];
+
+    expect(
+      findTicketCommits(commits, matcher('#{id}', 3)).map((c) => c.subject),
+    ).toEqual(['Fix login #3', 'Refactor']);
+  });
+});
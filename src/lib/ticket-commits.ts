@@ -0,0 +1,125 @@
+/**
+ * Link tickets to the git commits that mention them.
+ * The server reads the log in GIT_LOG_FORMAT; commits are matched against
+ * the project's commitPattern with the ticket ID filled in.
+ */
+
+import { ok, err, type Result } from './result';
+
+/**
+ * Default commit pattern: "#12" in the message, but not "#123"
+ */
+export const DEFAULT_COMMIT_PATTERN = '#{id}';
+
+/**
+ * Placeholder for the ticket ID in a commit pattern
+ */
+export const COMMIT_PATTERN_ID = '{id}';
+
+export interface GitCommit {
+  sha: string;
+  shortSha: string;
+  /**
+   * First line of the message
+   */
+  subject: string;
+  /**
+   * Rest of the message, if any
+   */
+  body: string;
+  author: string;
+  /**
+   * ISO 8601 author date
+   */
+  date: string;
+  filesChanged: number;
+  /**
+   * Branches and tags pointing at the commit
+   */
+  refs: string[];
+}
+
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * `git log --format` for parseGitLog; use with --shortstat for file counts
+ */
+export const GIT_LOG_FORMAT = `${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%D${FIELD_SEPARATOR}%B${FIELD_SEPARATOR}`;
+
+const FILES_CHANGED = /(\d+) files? changed/;
+
+/**
+ * Parse `git log --format=GIT_LOG_FORMAT --shortstat` output, newest first
+ */
+export function parseGitLog(output: string): GitCommit[] {
+  const commits: GitCommit[] = [];
+
+  for (const record of output.split(RECORD_SEPARATOR)) {
+    const fields = record.split(FIELD_SEPARATOR);
+    if (fields.length < 6) continue;
+
+    const [sha, author, date, refs, message, stat] = fields as [
+      string,
+      string,
+      string,
+      string,
+      string,
+      string,
+    ];
+    const [subject = '', ...body] = message.trim().split('\n');
+
+    commits.push({
+      sha,
+      shortSha: sha.slice(0, 7),
+      subject,
+      body: body.join('\n').trim(),
+      author,
+      date,
+      filesChanged: Number(FILES_CHANGED.exec(stat)?.[1] ?? 0),
+      refs: refs
+        .split(',')
+        .map((ref) => ref.replace(/^HEAD -> /, '').trim())
+        .filter((ref) => ref && ref !== 'HEAD'),
+    });
+  }
+
+  return commits;
+}
+
+/**
+ * Build the regular expression that finds a ticket in commit messages.
+ * The pattern is a regular expression with {id} where the ticket ID goes;
+ * the ID never matches part of a longer number.
+ */
+export function createCommitMatcher(
+  pattern: string,
+  ticketId: number,
+): Result<RegExp, string> {
+  if (!pattern.includes(COMMIT_PATTERN_ID)) {
+    return err(`Commit pattern "${pattern}" must contain ${COMMIT_PATTERN_ID}`);
+  }
+
+  const source = pattern
+    .split(COMMIT_PATTERN_ID)
+    .join(`(?<!\\d)${ticketId}(?!\\d)`);
+  try {
+    return ok(new RegExp(source, 'i'));
+  } catch (e) {
+    return err(
+      `Invalid commit pattern "${pattern}": ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+}
+
+/**
+ * Commits whose message mentions the ticket
+ */
+export function findTicketCommits(
+  commits: GitCommit[],
+  matcher: RegExp,
+): GitCommit[] {
+  return commits.filter((commit) =>
+    matcher.test(`${commit.subject}\n${commit.body}`),
+  );
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findUnknownDependencies,
+  findDependencyCycle,
+  formatDependencyCycle,
+  getBlockingDependencies,
+  withBlockedState,
+  getNextTicket,
+} from './ticket-dependencies';
+import type { Ticket } from './schemas';
+import { resolveTicketStatuses } from './ticket-workflow';
+
+function ticket(
+  id: number,
+  status: string,
+  dependsOn?: number[],
+  priority?: number,
+): Ticket {
+  return { id, title: `Ticket ${id}`, status, dependsOn, priority };
+}
+
+describe('findUnknownDependencies', () => {
+  it('returns IDs that do not exist', () => {
+    const tickets = [ticket(1, 'pending'), ticket(2, 'pending')];
+    expect(findUnknownDependencies(tickets, [1, 3, 4])).toEqual([3, 4]);
+  });
+
+  it('returns empty array when all IDs exist', () => {
+    const tickets = [ticket(1, 'pending'), ticket(2, 'pending')];
+    expect(findUnknownDependencies(tickets, [1, 2])).toEqual([]);
+  });
+});
+
+describe('findDependencyCycle', () => {
+  it('returns null for an acyclic graph', () => {
+    const tickets = [
+      ticket(1, 'pending'),
+      ticket(2, 'pending', [1]),
+      ticket(3, 'pending', [1, 2]),
+    ];
+    expect(findDependencyCycle(tickets, 3)).toBeNull();
+  });
+
+  it('detects a self-dependency', () => {
+    const tickets = [ticket(1, 'pending', [1])];
+    expect(findDependencyCycle(tickets, 1)).toEqual([1, 1]);
+  });
+
+  it('detects an indirect cycle through the start ticket', () => {
+    const tickets = [
+      ticket(1, 'pending', [2]),
+      ticket(2, 'pending', [3]),
+      ticket(3, 'pending', [1]),
+    ];
+    expect(findDependencyCycle(tickets, 1)).toEqual([1, 2, 3, 1]);
+  });
+
+  it('ignores cycles that do not include the start ticket', () => {
+    const tickets = [
+      ticket(1, 'pending', [2]),
+      ticket(2, 'pending', [3]),
+      ticket(3, 'pending', [2]),
+    ];
+    expect(findDependencyCycle(tickets, 1)).toBeNull();
+  });
+});
+
+describe('formatDependencyCycle', () => {
+  it('formats IDs with arrows', () => {
+    expect(formatDependencyCycle([1, 2, 1])).toBe('#1 → #2 → #1');
+  });
+});
+
+describe('getBlockingDependencies', () => {
+  it('returns unfinished dependencies only', () => {
+    const tickets = [
+      ticket(1, 'completed'),
+      ticket(2, 'in_progress'),
+      ticket(3, 'pending', [1, 2]),
+    ];
+    expect(getBlockingDependencies(tickets[2]!, tickets)).toEqual([2]);
+  });
+
+  it('ignores dependencies on deleted tickets', () => {
+    const tickets = [ticket(3, 'pending', [99])];
+    expect(getBlockingDependencies(tickets[0]!, tickets)).toEqual([]);
+  });
+});
+
+describe('withBlockedState', () => {
+  it('flags tickets with unfinished dependencies', () => {
+    const result = withBlockedState([
+      ticket(1, 'completed'),
+      ticket(2, 'in_progress'),
+      ticket(3, 'pending', [1]),
+      ticket(4, 'pending', [2]),
+      ticket(5, 'pending'),
+    ]);
+
+    expect(result.map((t) => t.blocked)).toEqual([
+      false,
+      false,
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  it('treats every closed status as finished', () => {
+    const statuses = resolveTicketStatuses([
+      { name: 'wont_fix', closed: true },
+      { name: 'needs_review' },
+    ]);
+    const result = withBlockedState(
+      [
+        ticket(1, 'wont_fix'),
+        ticket(2, 'failed'),
+        ticket(3, 'needs_review'),
+        ticket(4, 'pending', [1, 2]),
+        ticket(5, 'pending', [3]),
+      ],
+      statuses,
+    );
+
+    expect(result.map((t) => t.blocked)).toEqual([
+      false,
+      false,
+      false,
+      false,
+      true,
+    ]);
+  });
+});
+
+describe('getNextTicket', () => {
+  it('picks the highest-priority pending ticket', () => {
+    const next = getNextTicket([
+      ticket(1, 'pending', undefined, 3),
+      ticket(2, 'pending', undefined, 1),
+      ticket(3, 'in_progress', undefined, 0),
+    ]);
+    expect(next?.id).toBe(2);
+  });
+
+  it('skips blocked tickets', () => {
+    const next = getNextTicket([
+      ticket(1, 'in_progress'),
+      ticket(2, 'pending', [1], 1),
+      ticket(3, 'pending', undefined, 2),
+    ]);
+    expect(next?.id).toBe(3);
+  });
+
+  it('puts tickets without priority last and breaks ties by ID', () => {
+    const next = getNextTicket([
+      ticket(5, 'pending'),
+      ticket(4, 'pending'),
+      ticket(6, 'pending', undefined, 9),
+    ]);
+    expect(next?.id).toBe(6);
+    expect(
+      getNextTicket([ticket(5, 'pending'), ticket(4, 'pending')])?.id,
+    ).toBe(4);
+  });
+
+  it('does not wait for dependencies in a closed custom status', () => {
+    const statuses = resolveTicketStatuses([
+      { name: 'wont_fix', closed: true },
+    ]);
+    const tickets = [
+      ticket(1, 'wont_fix'),
+      ticket(2, 'pending', [1], 1),
+      ticket(3, 'pending', undefined, 2),
+    ];
+    expect(getNextTicket(tickets, statuses)?.id).toBe(2);
+    expect(getNextTicket(tickets)?.id).toBe(3);
+  });
+
+  it('returns null when nothing is ready', () => {
+    expect(getNextTicket([ticket(1, 'completed')])).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Dependency graph helpers for tickets.
+ * A ticket's dependsOn lists the IDs that must be finished (in a status
+ * marked closed) before ralph should pick it up.
+ */
+
+import type { Ticket, ListedTicket } from './schemas';
+import { compareTicketPriority } from './ticket-order';
+import {
+  defaultTicketStatuses,
+  type StatusDefinition,
+} from './ticket-workflow';
+
+/**
+ * Return the IDs in dependsOn that do not match any existing ticket
+ */
+export function findUnknownDependencies(
+  tickets: Ticket[],
+  dependsOn: number[],
+): number[] {
+  const knownIds = new Set(tickets.map((t) => t.id));
+  return dependsOn.filter((id) => !knownIds.has(id));
+}
+
+/**
+ * Find a dependency cycle passing through the given ticket.
+ * Returns the cycle as a list of IDs starting and ending with startId
+ * (e.g. [1, 2, 1]), or null if the ticket is not part of a cycle.
+ */
+export function findDependencyCycle(
+  tickets: Ticket[],
+  startId: number,
+): number[] | null {
+  const edges = new Map(tickets.map((t) => [t.id, t.dependsOn ?? []]));
+  const visited = new Set<number>();
+
+  function visit(id: number, path: number[]): number[] | null {
+    for (const depId of edges.get(id) ?? []) {
+      if (depId === startId) {
+        return [...path, depId];
+      }
+      if (visited.has(depId)) {
+        continue;
+      }
+      visited.add(depId);
+      const cycle = visit(depId, [...path, depId]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  }
+
+  return visit(startId, [startId]);
+}
+
+/**
+ * Format a dependency cycle for error messages (e.g. "#1 → #2 → #1")
+ */
+export function formatDependencyCycle(cycle: number[]): string {
+  return cycle.map((id) => `#${id}`).join(' → ');
+}
+
+/**
+ * Build a check for whether the ticket with a given ID is not yet finished.
+ * Tickets that no longer exist do not count as unfinished.
+ */
+function createUnfinishedCheck(
+  tickets: Ticket[],
+  statuses: StatusDefinition[],
+): (id: number) => boolean {
+  const statusById = new Map(tickets.map((t) => [t.id, t.status]));
+  const closed = new Set(statuses.filter((s) => s.closed).map((s) => s.name));
+  return (id) => {
+    const status = statusById.get(id);
+    return status !== undefined && !closed.has(status);
+  };
+}
+
+/**
+ * Return the dependencies of a ticket that are not yet finished.
+ * Dependencies on tickets that no longer exist are ignored.
+ */
+export function getBlockingDependencies(
+  ticket: Ticket,
+  tickets: Ticket[],
+  statuses: StatusDefinition[] = defaultTicketStatuses,
+): number[] {
+  const isUnfinished = createUnfinishedCheck(tickets, statuses);
+  return (ticket.dependsOn ?? []).filter(isUnfinished);
+}
+
+/**
+ * Add the computed blocked flag to each ticket
+ */
+export function withBlockedState(
+  tickets: Ticket[],
+  statuses: StatusDefinition[] = defaultTicketStatuses,
+): ListedTicket[] {
+  const isUnfinished = createUnfinishedCheck(tickets, statuses);
+  return tickets.map((ticket) => ({
+    ...ticket,
+    blocked: (ticket.dependsOn ?? []).some(isUnfinished),
+  }));
+}
+
+/**
+ * Predict the ticket ralph will pick next: the highest-priority pending
+ * ticket whose dependencies are all finished, in queue order.
+ */
+export function getNextTicket<T extends Ticket>(
+  tickets: T[],
+  statuses: StatusDefinition[] = defaultTicketStatuses,
+): T | null {
+  const isUnfinished = createUnfinishedCheck(tickets, statuses);
+  const candidates = tickets.filter(
+    (t) => t.status === 'pending' && !(t.dependsOn ?? []).some(isUnfinished),
+  );
+
+  return candidates.sort(compareTicketPriority)[0] ?? null;
+}
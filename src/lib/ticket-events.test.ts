@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toTicketEvents,
+  applyTicketEvent,
+  canApplyTicketEvent,
+  type TicketEvent,
+} from './ticket-events';
+import { diffTickets } from './ticket-history';
+import type { Ticket } from './schemas';
+
+function ticket(id: number, title: string, status = 'pending'): Ticket {
+  return { id, title, status };
+}
+
+describe('toTicketEvents', () => {
+  it('emits one event per added, removed or changed ticket', () => {
+    const before = [ticket(1, 'Same'), ticket(2, 'Gone'), ticket(3, 'Old')];
+    const after = [
+      ticket(1, 'Same'),
+      ticket(3, 'New', 'completed'),
+      ticket(4, 'Added'),
+    ];
+
+    const events = toTicketEvents(diffTickets(before, after), 'rev-a', 'rev-b');
+
+    expect(events).toEqual([
+      {
+        type: 'ticket-removed',
+        data: {
+          ticketId: 2,
+          previous: ticket(2, 'Gone'),
+          previousRevision: 'rev-a',
+          revision: 'rev-b',
+        },
+      },
+      {
+        type: 'ticket-field-changed',
+        data: {
+          ticketId: 3,
+          fields: ['title', 'status'],
+          ticket: ticket(3, 'New', 'completed'),
+          previous: ticket(3, 'Old'),
+          previousRevision: 'rev-a',
+          revision: 'rev-b',
+        },
+      },
+      {
+        type: 'ticket-added',
+        data: {
+          ticket: ticket(4, 'Added'),
+          previousRevision: 'rev-a',
+          revision: 'rev-b',
+        },
+      },
+    ]);
+  });
+});
+
+describe('applyTicketEvent', () => {
+  const base = { previousRevision: 'rev-a', revision: 'rev-b' };
+  const tickets = [ticket(1, 'One'), ticket(2, 'Two')];
+
+  it('adds a ticket once', () => {
+    const event: TicketEvent = {
+      type: 'ticket-added',
+      data: { ...base, ticket: ticket(3, 'Three') },
+    };
+    const once = applyTicketEvent(tickets, event);
+    expect(applyTicketEvent(once, event)).toEqual([
+      ...tickets,
+      ticket(3, 'Three'),
+    ]);
+  });
+
+  it('removes a ticket', () => {
+    const event: TicketEvent = {
+      type: 'ticket-removed',
+      data: { ...base, ticketId: 1, previous: ticket(1, 'One') },
+    };
+    expect(applyTicketEvent(tickets, event)).toEqual([ticket(2, 'Two')]);
+  });
+
+  it('replaces a changed ticket', () => {
+    const event: TicketEvent = {
+      type: 'ticket-field-changed',
+      data: {
+        ...base,
+        ticketId: 2,
+        fields: ['status'],
+        ticket: ticket(2, 'Two', 'completed'),
+        previous: ticket(2, 'Two'),
+      },
+    };
+    expect(applyTicketEvent(tickets, event)).toEqual([
+      ticket(1, 'One'),
+      ticket(2, 'Two', 'completed'),
+    ]);
+  });
+});
+
+describe('canApplyTicketEvent', () => {
+  const event: TicketEvent = {
+    type: 'ticket-removed',
+    data: {
+      previousRevision: 'rev-a',
+      revision: 'rev-b',
+      ticketId: 1,
+      previous: ticket(1, 'One'),
+    },
+  };
+
+  it('accepts the previous or new revision', () => {
+    expect(canApplyTicketEvent('rev-a', event)).toBe(true);
+    expect(canApplyTicketEvent('rev-b', event)).toBe(true);
+  });
+
+  it('rejects any other revision', () => {
+    expect(canApplyTicketEvent('rev-z', event)).toBe(false);
+    expect(canApplyTicketEvent(undefined, event)).toBe(false);
+  });
+});
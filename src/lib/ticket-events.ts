@@ -0,0 +1,116 @@
+/**
+ * Structured tickets.json change events sent over /api/events.
+ * The server diffs each new version of the file against the previous one
+ * so clients can patch their cached list instead of refetching it.
+ */
+
+import type { Ticket } from './schemas';
+import { getChangedFields, type TicketChange } from './ticket-history';
+
+interface TicketEventBase {
+  /**
+   * Revision of tickets.json after the change
+   */
+  revision: string;
+  /**
+   * Revision the change was computed against
+   */
+  previousRevision: string;
+}
+
+export interface TicketAddedEvent extends TicketEventBase {
+  ticket: Ticket;
+}
+
+export interface TicketRemovedEvent extends TicketEventBase {
+  ticketId: number;
+  previous: Ticket;
+}
+
+export interface TicketFieldChangedEvent extends TicketEventBase {
+  ticketId: number;
+  fields: string[];
+  ticket: Ticket;
+  previous: Ticket;
+}
+
+export type TicketEvent =
+  | { type: 'ticket-added'; data: TicketAddedEvent }
+  | { type: 'ticket-removed'; data: TicketRemovedEvent }
+  | { type: 'ticket-field-changed'; data: TicketFieldChangedEvent };
+
+export const ticketEventTypes: TicketEvent['type'][] = [
+  'ticket-added',
+  'ticket-removed',
+  'ticket-field-changed',
+];
+
+/**
+ * Convert a ticket diff into events, one per affected ticket
+ */
+export function toTicketEvents(
+  changes: TicketChange[],
+  previousRevision: string,
+  revision: string,
+): TicketEvent[] {
+  const base = { revision, previousRevision };
+
+  return changes.map((change): TicketEvent => {
+    if (change.before === null && change.after !== null) {
+      return { type: 'ticket-added', data: { ...base, ticket: change.after } };
+    }
+    if (change.after === null && change.before !== null) {
+      return {
+        type: 'ticket-removed',
+        data: { ...base, ticketId: change.ticketId, previous: change.before },
+      };
+    }
+    return {
+      type: 'ticket-field-changed',
+      data: {
+        ...base,
+        ticketId: change.ticketId,
+        fields: getChangedFields(change),
+        ticket: change.after as Ticket,
+        previous: change.before as Ticket,
+      },
+    };
+  });
+}
+
+/**
+ * Apply an event to a ticket list, returning a new list.
+ * Applying the same event twice has no further effect.
+ */
+export function applyTicketEvent<T extends Ticket>(
+  tickets: T[],
+  event: TicketEvent,
+): Ticket[] {
+  switch (event.type) {
+    case 'ticket-added': {
+      const { ticket } = event.data;
+      return [...tickets.filter((t) => t.id !== ticket.id), ticket];
+    }
+    case 'ticket-removed':
+      return tickets.filter((t) => t.id !== event.data.ticketId);
+    case 'ticket-field-changed': {
+      const { ticket } = event.data;
+      return tickets.map((t) => (t.id === ticket.id ? ticket : t));
+    }
+  }
+}
+
+/**
+ * Whether an event can be applied to a list cached at the given revision.
+ * Events from one diff share a revision pair, so after the first is applied
+ * the cache is already at the new revision.
+ */
+export function canApplyTicketEvent(
+  cachedRevision: string | undefined,
+  event: TicketEvent,
+): boolean {
+  return (
+    cachedRevision === event.data.previousRevision ||
+    cachedRevision === event.data.revision
+  );
+}
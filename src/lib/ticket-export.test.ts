@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { exportTickets, parseProgressSections } from './ticket-export';
+import { parseCsvRecords } from './ticket-import';
+import type { Ticket } from './schemas';
+
+const NOW = new Date('2026-03-04T05:06:07.000Z');
+
+const tickets: Ticket[] = [
+  {
+    id: 1,
+    title: 'Add login',
+    status: 'completed',
+    priority: 1,
+    labels: ['auth', 'ui'],
+    description: 'Use the session cookie, not "tokens"',
+    acceptanceCriteria: [
+      { text: 'Form validates', done: true },
+      { text: 'Errors shown', done: false },
+    ],
+  },
+  { id: 2, title: 'Write docs', status: 'pending', dependsOn: [1] },
+];
+
+describe('parseProgressSections', () => {
+  it('maps each ticket heading to its notes', () => {
+    const sections = parseProgressSections(
+      [
+        '# Ralph Progress Log',
+        '',
+        '## Ticket #1: Add login',
+        '- Added the form',
+        '',
+        '## Ticket #2: Write docs',
+        '- Wrote the README',
+        '### Notes',
+        '- Still needs screenshots',
+      ].join('\n'),
+    );
+
+    expect(sections.get(1)).toBe('- Added the form');
+    expect(sections.get(2)).toBe(
+      '- Wrote the README\n### Notes\n- Still needs screenshots',
+    );
+  });
+
+  it('joins repeated sections for the same ticket', () => {
+    const sections = parseProgressSections(
+      '## Ticket #3: Retry\n- First try\n## Ticket #3: Retry\n- Second try\n',
+    );
+    expect(sections.get(3)).toBe('- First try\n\n- Second try');
+  });
+
+  it('ignores text outside ticket sections', () => {
+    const sections = parseProgressSections(
+      '# Ralph Progress Log\nPreamble\n## Summary\n- Not a ticket\n',
+    );
+    expect(sections.size).toBe(0);
+  });
+});
+
+describe('exportTickets', () => {
+  const progress = new Map([[1, '- Added the form']]);
+
+  it('renders Markdown with details and progress', () => {
+    const result = exportTickets(tickets, {
+      format: 'markdown',
+      status: 'all',
+      progress,
+      now: NOW,
+    });
+
+    expect(result.filename).toBe('tickets-all-2026-03-04.md');
+    expect(result.mimeType).toBe('text/markdown');
+    expect(result.content).toContain('## #1: Add login');
+    expect(result.content).toContain('- Labels: auth, ui');
+    expect(result.content).toContain('- [x] Form validates');
+    expect(result.content).toContain('### Progress\n\n- Added the form');
+    expect(result.content).toContain('- Depends on: #1');
+  });
+
+  it('renders CSV that round-trips through the import parser', () => {
+    const result = exportTickets(tickets, {
+      format: 'csv',
+      status: 'all',
+      progress,
+      now: NOW,
+    });
+
+    const [header, first, second] = parseCsvRecords(result.content);
+    expect(header).toContain('progress');
+    expect(first?.[header!.indexOf('description')]).toBe(
+      'Use the session cookie, not "tokens"',
+    );
+    expect(first?.[header!.indexOf('acceptanceCriteria')]).toBe(
+      '[x] Form validates\n[ ] Errors shown',
+    );
+    expect(first?.[header!.indexOf('progress')]).toBe('- Added the form');
+    expect(second?.[header!.indexOf('dependsOn')]).toBe('1');
+  });
+
+  it('leaves out progress when not requested', () => {
+    const csv = exportTickets(tickets, {
+      format: 'csv',
+      status: 'all',
+      progress: null,
+      now: NOW,
+    });
+    expect(csv.content.split('\n')[0]).not.toContain('progress');
+
+    const json = JSON.parse(
+      exportTickets(tickets, {
+        format: 'json',
+        status: 'pending',
+        progress: null,
+        now: NOW,
+      }).content,
+    );
+    expect(json.tickets[0]).not.toHaveProperty('progress');
+  });
+
+  it('renders JSON with export metadata', () => {
+    const result = exportTickets(tickets, {
+      format: 'json',
+      status: 'incomplete',
+      progress,
+      now: NOW,
+    });
+
+    expect(result.filename).toBe('tickets-incomplete-2026-03-04.json');
+    expect(JSON.parse(result.content)).toMatchObject({
+      exportedAt: '2026-03-04T05:06:07.000Z',
+      status: 'incomplete',
+      tickets: [
+        { id: 1, progress: '- Added the form' },
+        { id: 2, progress: null },
+      ],
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Snapshot tickets as Markdown, CSV or JSON reports, together with the
+ * progress.txt sections ralph wrote for them.
+ */
+
+import type { Ticket } from './schemas';
+import type { TicketStatus } from './ticket-filter';
+
+export const exportFormats = ['markdown', 'csv', 'json'] as const;
+
+export type ExportFormat = (typeof exportFormats)[number];
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  csv: 'CSV',
+  json: 'JSON',
+};
+
+const exportFileTypes: Record<
+  ExportFormat,
+  { extension: string; mimeType: string }
+> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  json: { extension: 'json', mimeType: 'application/json' },
+};
+
+export interface TicketExport {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+interface ExportOptions {
+  format: ExportFormat;
+  status: TicketStatus;
+  /**
+   * Progress notes by ticket ID, or null to leave them out
+   */
+  progress: Map<number, string> | null;
+  now?: Date;
+}
+
+const PROGRESS_HEADING = /^##\s+Ticket\s+#(\d+)\b/;
+
+/**
+ * Split progress.txt into the notes under each "## Ticket #N: title"
+ * heading. A ticket worked on more than once gets its sections joined.
+ */
+export function parseProgressSections(content: string): Map<number, string> {
+  const sections = new Map<number, string>();
+  let currentId: number | null = null;
+  let lines: string[] = [];
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (currentId !== null && text) {
+      const previous = sections.get(currentId);
+      sections.set(currentId, previous ? `${previous}\n\n${text}` : text);
+    }
+    currentId = null;
+    lines = [];
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = PROGRESS_HEADING.exec(line);
+    if (match) {
+      flush();
+      currentId = Number(match[1]);
+    } else if (/^#{1,2}\s/.test(line)) {
+      flush();
+    } else if (currentId !== null) {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Quote a CSV field when it contains a comma, quote or line break
+ */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'title',
+  'status',
+  'priority',
+  'labels',
+  'dependsOn',
+  'parentId',
+  'createdAt',
+  'updatedAt',
+  'dueAt',
+  'acceptanceCriteria',
+  'description',
+] as const;
+
+function formatCsv(
+  tickets: Ticket[],
+  progress: Map<number, string> | null,
+): string {
+  const header: string[] = [...CSV_COLUMNS];
+  if (progress) header.push('progress');
+
+  const rows = tickets.map((ticket) => {
+    const row = [
+      String(ticket.id),
+      ticket.title,
+      ticket.status,
+      ticket.priority?.toString() ?? '',
+      (ticket.labels ?? []).join('; '),
+      (ticket.dependsOn ?? []).join('; '),
+      ticket.parentId?.toString() ?? '',
+      ticket.createdAt ?? '',
+      ticket.updatedAt ?? '',
+      ticket.dueAt ?? '',
+      (ticket.acceptanceCriteria ?? [])
+        .map((c) => `[${c.done ? 'x' : ' '}] ${c.text}`)
+        .join('\n'),
+      ticket.description ?? '',
+    ];
+    if (progress) row.push(progress.get(ticket.id) ?? '');
+    return row.map(escapeCsvField).join(',');
+  });
+
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+function formatMarkdown(
+  tickets: Ticket[],
+  progress: Map<number, string> | null,
+  status: TicketStatus,
+  now: Date,
+): string {
+  const lines = [
+    '# Tickets',
+    '',
+    `Exported ${now.toISOString()} · status: ${status} · ${tickets.length} ticket${tickets.length === 1 ? '' : 's'}`,
+  ];
+
+  for (const ticket of tickets) {
+    lines.push('', `## #${ticket.id}: ${ticket.title}`, '');
+    lines.push(`- Status: ${ticket.status}`);
+    if (ticket.priority !== undefined) {
+      lines.push(`- Priority: ${ticket.priority}`);
+    }
+    if (ticket.labels?.length) {
+      lines.push(`- Labels: ${ticket.labels.join(', ')}`);
+    }
+    if (ticket.dependsOn?.length) {
+      lines.push(
+        `- Depends on: ${ticket.dependsOn.map((id) => `#${id}`).join(', ')}`,
+      );
+    }
+    if (ticket.parentId !== undefined) {
+      lines.push(`- Split from: #${ticket.parentId}`);
+    }
+    if (ticket.dueAt) {
+      lines.push(`- Due: ${ticket.dueAt}`);
+    }
+    if (ticket.description?.trim()) {
+      lines.push('', ticket.description.trim());
+    }
+    if (ticket.acceptanceCriteria?.length) {
+      lines.push('', '### Acceptance criteria', '');
+      for (const criterion of ticket.acceptanceCriteria) {
+        lines.push(`- [${criterion.done ? 'x' : ' '}] ${criterion.text}`);
+      }
+    }
+    const notes = progress?.get(ticket.id);
+    if (notes) {
+      lines.push('', '### Progress', '', notes);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatJson(
+  tickets: Ticket[],
+  progress: Map<number, string> | null,
+  status: TicketStatus,
+  now: Date,
+): string {
+  return (
+    JSON.stringify(
+      {
+        exportedAt: now.toISOString(),
+        status,
+        tickets: tickets.map((ticket) =>
+          progress
+            ? { ...ticket, progress: progress.get(ticket.id) ?? null }
+            : ticket,
+        ),
+      },
+      null,
+      2,
+    ) + '\n'
+  );
+}
+
+/**
+ * Render already-filtered tickets in the given format, with a dated
+ * filename for downloading
+ */
+export function exportTickets(
+  tickets: Ticket[],
+  { format, status, progress, now = new Date() }: ExportOptions,
+): TicketExport {
+  const { extension, mimeType } = exportFileTypes[format];
+  const date = now.toISOString().slice(0, 10);
+
+  let content: string;
+  switch (format) {
+    case 'markdown':
+      content = formatMarkdown(tickets, progress, status, now);
+      break;
+    case 'csv':
+      content = formatCsv(tickets, progress);
+      break;
+    case 'json':
+      content = formatJson(tickets, progress, status, now);
+      break;
+  }
+
+  return {
+    filename: `tickets-${status}-${date}.${extension}`,
+    mimeType,
+    content,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Status filter values shared by the ticket list, graph and export.
+ * A filter is 'all', 'incomplete' (every status not marked closed) or the
+ * name of a single status.
+ */
+
+import type { Ticket } from './schemas';
+import {
+  defaultTicketStatuses,
+  findStatus,
+  type StatusDefinition,
+} from './ticket-workflow';
+
+export type TicketStatus = string;
+
+export function isValidTicketStatus(
+  status: string | null,
+  statuses: StatusDefinition[] = defaultTicketStatuses,
+): status is TicketStatus {
+  if (!status) return false;
+  return (
+    status === 'all' ||
+    status === 'incomplete' ||
+    findStatus(statuses, status) !== undefined
+  );
+}
+
+/**
+ * Filter tickets by a status filter value
+ */
+export function filterTicketsByStatus<T extends Ticket>(
+  tickets: T[],
+  statusFilter: TicketStatus,
+  statuses: StatusDefinition[] = defaultTicketStatuses,
+): T[] {
+  if (statusFilter === 'all') {
+    return [...tickets];
+  }
+  if (statusFilter === 'incomplete') {
+    return tickets.filter((t) => {
+      const status = findStatus(statuses, t.status);
+      return status !== undefined && !status.closed;
+    });
+  }
+  return tickets.filter((t) => t.status === statusFilter);
+}
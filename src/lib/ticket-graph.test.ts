@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  layoutDependencyGraph,
+  GRAPH_NODE_WIDTH,
+  GRAPH_NODE_HEIGHT,
+} from './ticket-graph';
+import type { Ticket } from './schemas';
+
+function ticket(id: number, dependsOn?: number[], priority?: number): Ticket {
+  return { id, title: `Ticket ${id}`, status: 'pending', dependsOn, priority };
+}
+
+function layerOf(
+  layout: ReturnType<typeof layoutDependencyGraph>,
+  id: number,
+): number | undefined {
+  return layout.nodes.find((n) => n.ticket.id === id)?.layer;
+}
+
+describe('layoutDependencyGraph', () => {
+  it('places tickets by longest dependency depth', () => {
+    const layout = layoutDependencyGraph([
+      ticket(1),
+      ticket(2, [1]),
+      ticket(3, [1, 2]),
+      ticket(4),
+    ]);
+
+    expect(layerOf(layout, 1)).toBe(0);
+    expect(layerOf(layout, 2)).toBe(1);
+    expect(layerOf(layout, 3)).toBe(2);
+    expect(layerOf(layout, 4)).toBe(0);
+  });
+
+  it('creates edges from dependency to dependent', () => {
+    const layout = layoutDependencyGraph([ticket(1), ticket(2, [1])]);
+    expect(layout.edges).toEqual([{ from: 1, to: 2 }]);
+  });
+
+  it('ignores dependencies outside the list', () => {
+    const layout = layoutDependencyGraph([ticket(2, [1])]);
+    expect(layout.edges).toEqual([]);
+    expect(layerOf(layout, 2)).toBe(0);
+  });
+
+  it('orders each column by priority then ID', () => {
+    const layout = layoutDependencyGraph([
+      ticket(3),
+      ticket(2, undefined, 5),
+      ticket(1),
+      ticket(4, undefined, 1),
+    ]);
+
+    expect(layout.nodes.map((n) => n.ticket.id)).toEqual([4, 2, 1, 3]);
+    expect(layout.nodes.map((n) => n.y)).toEqual([
+      0,
+      expect.any(Number),
+      expect.any(Number),
+      expect.any(Number),
+    ]);
+    expect(layout.nodes[1]!.y).toBeGreaterThanOrEqual(GRAPH_NODE_HEIGHT);
+  });
+
+  it('computes the overall size', () => {
+    const layout = layoutDependencyGraph([
+      ticket(1),
+      ticket(2),
+      ticket(3, [1]),
+    ]);
+
+    expect(layout.width).toBeGreaterThan(GRAPH_NODE_WIDTH * 2);
+    expect(layout.height).toBeGreaterThan(GRAPH_NODE_HEIGHT * 2);
+  });
+
+  it('tolerates dependency cycles', () => {
+    const layout = layoutDependencyGraph([ticket(1, [2]), ticket(2, [1])]);
+    expect(layout.nodes).toHaveLength(2);
+    expect(layout.edges).toHaveLength(2);
+  });
+
+  it('returns an empty layout for no tickets', () => {
+    expect(layoutDependencyGraph([])).toEqual({
+      nodes: [],
+      edges: [],
+      width: 0,
+      height: 0,
+    });
+  });
+});
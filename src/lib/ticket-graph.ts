@@ -0,0 +1,110 @@
+/**
+ * Layered layout for the ticket dependency graph.
+ * Tickets are placed in columns by dependency depth, so every edge points
+ * from a dependency on the left to its dependent on the right.
+ */
+
+import type { Ticket } from './schemas';
+import { compareTicketPriority } from './ticket-order';
+
+export const GRAPH_NODE_WIDTH = 220;
+export const GRAPH_NODE_HEIGHT = 60;
+const COLUMN_GAP = 80;
+const ROW_GAP = 16;
+
+export interface GraphNode<T extends Ticket = Ticket> {
+  ticket: T;
+  layer: number;
+  x: number;
+  y: number;
+}
+
+export interface GraphEdge {
+  /**
+   * ID of the ticket that must finish first
+   */
+  from: number;
+  /**
+   * ID of the dependent ticket
+   */
+  to: number;
+}
+
+export interface GraphLayout<T extends Ticket = Ticket> {
+  nodes: GraphNode<T>[];
+  edges: GraphEdge[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Compute node positions and edges for the given tickets.
+ * Dependencies on tickets outside the list are ignored. Cycles (which the
+ * router rejects but external edits can introduce) are broken arbitrarily.
+ */
+export function layoutDependencyGraph<T extends Ticket>(
+  tickets: T[],
+): GraphLayout<T> {
+  const byId = new Map(tickets.map((t) => [t.id, t]));
+  const layers = new Map<number, number>();
+  const inProgress = new Set<number>();
+
+  function getLayer(ticket: T): number {
+    const cached = layers.get(ticket.id);
+    if (cached !== undefined) {
+      return cached;
+    }
+    inProgress.add(ticket.id);
+
+    let layer = 0;
+    for (const depId of ticket.dependsOn ?? []) {
+      const dep = byId.get(depId);
+      if (dep && !inProgress.has(depId)) {
+        layer = Math.max(layer, getLayer(dep) + 1);
+      }
+    }
+
+    inProgress.delete(ticket.id);
+    layers.set(ticket.id, layer);
+    return layer;
+  }
+
+  const columns: T[][] = [];
+  for (const ticket of tickets) {
+    const layer = getLayer(ticket);
+    (columns[layer] ??= []).push(ticket);
+  }
+
+  const nodes: GraphNode<T>[] = [];
+  let maxRows = 0;
+  columns.forEach((column, layer) => {
+    column.sort(compareTicketPriority);
+    maxRows = Math.max(maxRows, column.length);
+    column.forEach((ticket, row) => {
+      nodes.push({
+        ticket,
+        layer,
+        x: layer * (GRAPH_NODE_WIDTH + COLUMN_GAP),
+        y: row * (GRAPH_NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+
+  const edges: GraphEdge[] = [];
+  for (const ticket of tickets) {
+    for (const depId of ticket.dependsOn ?? []) {
+      if (byId.has(depId)) {
+        edges.push({ from: depId, to: ticket.id });
+      }
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    width:
+      columns.length * GRAPH_NODE_WIDTH +
+      Math.max(columns.length - 1, 0) * COLUMN_GAP,
+    height: maxRows * GRAPH_NODE_HEIGHT + Math.max(maxRows - 1, 0) * ROW_GAP,
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHistoryId,
+  diffTickets,
+  getChangedFields,
+  revertChanges,
+} from './ticket-history';
+import { isErr, isOk } from './result';
+import type { Ticket } from './schemas';
+
+function ticket(id: number, title: string, status = 'pending'): Ticket {
+  return { id, title, status };
+}
+
+describe('createHistoryId', () => {
+  it('returns distinct IDs', () => {
+    expect(createHistoryId()).not.toBe(createHistoryId());
+  });
+});
+
+describe('diffTickets', () => {
+  it('detects added, removed and modified tickets', () => {
+    const changes = diffTickets(
+      [ticket(1, 'Keep'), ticket(2, 'Remove'), ticket(3, 'Before')],
+      [ticket(1, 'Keep'), ticket(3, 'After'), ticket(4, 'Add')],
+    );
+
+    expect(changes).toEqual([
+      { ticketId: 2, before: ticket(2, 'Remove'), after: null },
+      { ticketId: 3, before: ticket(3, 'Before'), after: ticket(3, 'After') },
+      { ticketId: 4, before: null, after: ticket(4, 'Add') },
+    ]);
+  });
+
+  it('ignores ticket order', () => {
+    expect(
+      diffTickets(
+        [ticket(1, 'A'), ticket(2, 'B')],
+        [ticket(2, 'B'), ticket(1, 'A')],
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe('getChangedFields', () => {
+  it('lists fields that differ', () => {
+    expect(
+      getChangedFields({
+        ticketId: 1,
+        before: ticket(1, 'Old'),
+        after: { ...ticket(1, 'New', 'completed'), priority: 2 },
+      }),
+    ).toEqual(['title', 'status', 'priority']);
+  });
+});
+
+describe('revertChanges', () => {
+  it('restores the before values', () => {
+    const result = revertChanges(
+      [ticket(1, 'After'), ticket(3, 'New')],
+      [
+        { ticketId: 1, before: ticket(1, 'Before'), after: ticket(1, 'After') },
+        { ticketId: 2, before: ticket(2, 'Deleted'), after: null },
+        { ticketId: 3, before: null, after: ticket(3, 'New') },
+      ],
+    );
+
+    expect(isOk(result) && result.value).toEqual([
+      ticket(1, 'Before'),
+      ticket(2, 'Deleted'),
+    ]);
+  });
+
+  it('fails when a ticket no longer matches its after value', () => {
+    const result = revertChanges(
+      [ticket(1, 'Changed again')],
+      [{ ticketId: 1, before: ticket(1, 'Before'), after: ticket(1, 'After') }],
+    );
+
+    expect(isErr(result)).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Ticket change history.
+ * Every write to tickets.json is recorded as an entry listing the tickets it
+ * touched with their before and after values, so changes can be inspected
+ * and undone.
+ */
+
+import { z } from 'zod';
+import isEqual from 'lodash/isEqual';
+import { TicketSchema, type Ticket } from './schemas';
+import { ok, err, type Result } from './result';
+
+/**
+ * Where a change came from: a ralph-watch mutation, or an edit to
+ * tickets.json made by ralph, an editor or a teammate
+ */
+export const historySources = ['ui', 'external'] as const;
+
+export type HistorySource = (typeof historySources)[number];
+
+export const historyActions = [
+  'create',
+  'update',
+  'delete',
+  'reorder',
+  'bulkUpdate',
+  'bulkDelete',
+  'import',
+  'comment',
+  'deleteComment',
+  'repair',
+  'undo',
+  'external',
+] as const;
+
+export type HistoryAction = (typeof historyActions)[number];
+
+export const TicketChangeSchema = z.object({
+  ticketId: z.number(),
+  /**
+   * Ticket before the change; null when it was created
+   */
+  before: TicketSchema.nullable(),
+  /**
+   * Ticket after the change; null when it was deleted
+   */
+  after: TicketSchema.nullable(),
+});
+
+export type TicketChange = z.infer<typeof TicketChangeSchema>;
+
+export const HistoryEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  source: z.enum(historySources),
+  /**
+   * Who made a change in ralph-watch, if they have set their name
+   */
+  author: z.string().optional(),
+  action: z.enum(historyActions),
+  changes: z.array(TicketChangeSchema),
+  /**
+   * ID of the entry this one reverted
+   */
+  undoOf: z.string().optional(),
+});
+
+export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
+
+/**
+ * Generate a history entry ID.
+ * Clients pass one with a mutation so they can offer to undo it; this does
+ * not rely on crypto.randomUUID, which is unavailable over plain HTTP.
+ */
+export function createHistoryId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Compare two versions of the ticket list by ID.
+ * Returns one change per ticket that was added, removed or modified.
+ */
+export function diffTickets(before: Ticket[], after: Ticket[]): TicketChange[] {
+  const beforeById = new Map(before.map((t) => [t.id, t]));
+  const afterById = new Map(after.map((t) => [t.id, t]));
+  const changes: TicketChange[] = [];
+
+  for (const ticket of before) {
+    const next = afterById.get(ticket.id);
+    if (!next) {
+      changes.push({ ticketId: ticket.id, before: ticket, after: null });
+    } else if (!isEqual(ticket, next)) {
+      changes.push({ ticketId: ticket.id, before: ticket, after: next });
+    }
+  }
+
+  for (const ticket of after) {
+    if (!beforeById.has(ticket.id)) {
+      changes.push({ ticketId: ticket.id, before: null, after: ticket });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Names of the fields that differ between the before and after values
+ */
+export function getChangedFields(change: TicketChange): string[] {
+  const before: Record<string, unknown> = change.before ?? {};
+  const after: Record<string, unknown> = change.after ?? {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter((key) => !isEqual(before[key], after[key]));
+}
+
+/**
+ * Revert a set of changes against the current tickets.
+ * Fails if any ticket no longer matches its recorded after value, so an
+ * undo never silently discards a newer edit.
+ */
+export function revertChanges(
+  tickets: Ticket[],
+  changes: TicketChange[],
+): Result<Ticket[], string> {
+  let result = [...tickets];
+
+  for (const change of changes) {
+    const index = result.findIndex((t) => t.id === change.ticketId);
+    const current = index === -1 ? null : result[index];
+
+    if (!isEqual(current ?? null, change.after)) {
+      return err(
+        `Ticket #${change.ticketId} has changed since, so this cannot be undone`,
+      );
+    }
+
+    if (change.before === null) {
+      result = result.filter((t) => t.id !== change.ticketId);
+    } else if (index === -1) {
+      // Restore a deleted ticket next to its neighbours by ID
+      const insertAt = result.findIndex((t) => t.id > change.ticketId);
+      result.splice(
+        insertAt === -1 ? result.length : insertAt,
+        0,
+        change.before,
+      );
+    } else {
+      result[index] = change.before;
+    }
+  }
+
+  return ok(result);
+}
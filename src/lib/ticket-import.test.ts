@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseImport,
+  parseCsvRecords,
+  detectImportFormat,
+  type ImportRow,
+} from './ticket-import';
+import { isErr, isOk, type Result } from './result';
+
+function rows(result: Result<ImportRow[], string>): ImportRow[] {
+  if (!isOk(result)) {
+    throw new Error(result.error);
+  }
+  return result.value;
+}
+
+describe('parseImport markdown', () => {
+  it('imports unchecked items with indented descriptions', () => {
+    const result = rows(
+      parseImport(
+        'markdown',
+        [
+          '# Backlog',
+          '- [ ] Add login',
+          '  Use the existing session cookie',
+          '- [x] Set up CI',
+          '* [ ] Write docs',
+        ].join('\n'),
+      ),
+    );
+
+    expect(result.map((r) => r.ticket)).toEqual([
+      { title: 'Add login', description: 'Use the existing session cookie' },
+      null,
+      { title: 'Write docs' },
+    ]);
+    expect(result[1]).toMatchObject({
+      source: 'Line 4',
+      title: 'Set up CI',
+      errors: ['Already checked off'],
+    });
+  });
+
+  it('reports text without checklist items', () => {
+    const result = parseImport('markdown', 'Just some notes');
+    expect(isErr(result) && result.error).toBe(
+      'No checklist items ("- [ ] Title") found',
+    );
+  });
+});
+
+describe('parseImport csv', () => {
+  it('maps columns by header name', () => {
+    const result = rows(
+      parseImport(
+        'csv',
+        'Priority,Title,Description\n2,"Fix parser","Handles ""quotes"", commas"\n,Refactor,\n',
+      ),
+    );
+
+    expect(result.map((r) => r.ticket)).toEqual([
+      {
+        title: 'Fix parser',
+        description: 'Handles "quotes", commas',
+        priority: 2,
+      },
+      { title: 'Refactor' },
+    ]);
+  });
+
+  it('reports validation errors per row', () => {
+    const result = rows(parseImport('csv', 'title,priority\n,1\nOk,high'));
+
+    expect(result[0]).toMatchObject({ source: 'Row 2', ticket: null });
+    expect(result[0]?.errors[0]).toMatch(/^title: /);
+    expect(result[1]?.errors[0]).toMatch(/^priority: /);
+  });
+
+  it('requires a title column', () => {
+    const result = parseImport('csv', 'name,priority\nA,1');
+    expect(isErr(result) && result.error).toBe(
+      'The CSV needs a "title" column',
+    );
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('keeps line breaks inside quoted fields', () => {
+    expect(parseCsvRecords('a,"b\r\nc"\r\nd,e')).toEqual([
+      ['a', 'b\r\nc'],
+      ['d', 'e'],
+    ]);
+  });
+});
+
+describe('parseImport github', () => {
+  it('imports open issues with their labels', () => {
+    const result = rows(
+      parseImport(
+        'github',
+        JSON.stringify([
+          {
+            number: 12,
+            title: 'Crash on save',
+            body: 'Steps...',
+            state: 'OPEN',
+            labels: [{ name: 'bug' }],
+          },
+          { number: 13, title: 'Old bug', state: 'closed' },
+          { number: 14, title: 'Add feature', pull_request: {} },
+        ]),
+      ),
+    );
+
+    expect(result[0]).toEqual({
+      source: 'Issue #12',
+      title: 'Crash on save',
+      ticket: {
+        title: 'Crash on save',
+        description: 'Steps...',
+        labels: ['bug'],
+      },
+      errors: [],
+    });
+    expect(result[1]?.errors).toEqual(['Issue is closed']);
+    expect(result[2]?.errors).toEqual(['Pull request']);
+  });
+
+  it('reports invalid JSON', () => {
+    expect(isErr(parseImport('github', '[{'))).toBe(true);
+  });
+});
+
+describe('detectImportFormat', () => {
+  it('uses the file extension when available', () => {
+    expect(detectImportFormat('', 'backlog.csv')).toBe('csv');
+    expect(detectImportFormat('', 'issues.json')).toBe('github');
+  });
+
+  it('falls back to the content', () => {
+    expect(detectImportFormat('[{"title": "a"}]')).toBe('github');
+    expect(detectImportFormat('- [ ] Task')).toBe('markdown');
+    expect(detectImportFormat('title,priority\nA,1')).toBe('csv');
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Parse existing backlogs into tickets for import.
+ * Every source row becomes an ImportRow carrying either a valid
+ * CreateTicket or the reasons it cannot be imported, so the UI can preview
+ * both.
+ */
+
+import { CreateTicketSchema, type CreateTicket } from './schemas';
+import { ok, err, type Result } from './result';
+
+export const importFormats = ['markdown', 'csv', 'github'] as const;
+
+export type ImportFormat = (typeof importFormats)[number];
+
+export const importFormatLabels: Record<ImportFormat, string> = {
+  markdown: 'Markdown checklist',
+  csv: 'CSV',
+  github: 'GitHub issues (JSON)',
+};
+
+export interface ImportRow {
+  /**
+   * Where the row came from, e.g. "Line 3" or "Issue #12"
+   */
+  source: string;
+  /**
+   * Title as found in the source, for display even when invalid
+   */
+  title: string;
+  ticket: CreateTicket | null;
+  errors: string[];
+}
+
+const CHECKLIST_ITEM = /^\s*[-*+]\s+\[([ xX])\]\s*(.*)$/;
+
+function toRow(
+  source: string,
+  candidate: Record<string, unknown>,
+  extraErrors: string[] = [],
+): ImportRow {
+  const parsed = CreateTicketSchema.safeParse(candidate);
+  const errors = parsed.success
+    ? []
+    : parsed.error.issues.map((issue) =>
+        issue.path.length
+          ? `${issue.path.join('.')}: ${issue.message}`
+          : issue.message,
+      );
+  errors.push(...extraErrors);
+
+  return {
+    source,
+    title: typeof candidate.title === 'string' ? candidate.title : '',
+    ticket: parsed.success && errors.length === 0 ? parsed.data : null,
+    errors,
+  };
+}
+
+/**
+ * Parse "- [ ] Title" items. Indented lines below an item become its
+ * description; checked items are listed but not imported.
+ */
+function parseMarkdown(text: string): Result<ImportRow[], string> {
+  const rows: ImportRow[] = [];
+  let current: {
+    line: number;
+    title: string;
+    checked: boolean;
+    description: string[];
+  } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const description = current.description.join('\n').trim();
+    rows.push(
+      toRow(
+        `Line ${current.line}`,
+        {
+          title: current.title,
+          description: description || undefined,
+        },
+        current.checked ? ['Already checked off'] : [],
+      ),
+    );
+    current = null;
+  };
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const match = CHECKLIST_ITEM.exec(line);
+    if (match) {
+      flush();
+      current = {
+        line: index + 1,
+        title: match[2]!.trim(),
+        checked: match[1] !== ' ',
+        description: [],
+      };
+      return;
+    }
+
+    if (current && line.trim() && /^\s/.test(line)) {
+      current.description.push(line.trim());
+    } else if (!line.trim()) {
+      current?.description.push('');
+    } else {
+      flush();
+    }
+  });
+  flush();
+
+  if (rows.length === 0) {
+    return err('No checklist items ("- [ ] Title") found');
+  }
+  return ok(rows);
+}
+
+/**
+ * Split CSV text into records, handling quoted fields with commas,
+ * doubled quotes and line breaks
+ */
+export function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Parse a CSV with a header row naming title, description and priority
+ * columns (in any order, case-insensitive)
+ */
+function parseCsv(text: string): Result<ImportRow[], string> {
+  const [header, ...records] = parseCsvRecords(text);
+  if (!header) {
+    return err('The CSV is empty');
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const titleIndex = columns.indexOf('title');
+  if (titleIndex === -1) {
+    return err('The CSV needs a "title" column');
+  }
+  const descriptionIndex = columns.indexOf('description');
+  const priorityIndex = columns.indexOf('priority');
+
+  return ok(
+    records.map((record, index) => {
+      const description = record[descriptionIndex]?.trim();
+      const priority = record[priorityIndex]?.trim();
+      return toRow(`Row ${index + 2}`, {
+        title: record[titleIndex]?.trim() ?? '',
+        description: description || undefined,
+        // Left as a string when not numeric so validation reports it
+        priority: priority
+          ? Number.isNaN(Number(priority))
+            ? priority
+            : Number(priority)
+          : undefined,
+      });
+    }),
+  );
+}
+
+interface GitHubIssue {
+  number?: number;
+  title?: unknown;
+  body?: unknown;
+  state?: unknown;
+  labels?: unknown;
+  pull_request?: unknown;
+}
+
+function getIssueLabels(labels: unknown): string[] | undefined {
+  if (!Array.isArray(labels)) return undefined;
+  const names = labels
+    .map((label) =>
+      typeof label === 'string'
+        ? label
+        : typeof label?.name === 'string'
+          ? (label.name as string)
+          : null,
+    )
+    .filter((name): name is string => Boolean(name));
+  return names.length > 0 ? names : undefined;
+}
+
+/**
+ * Parse a GitHub issues export (the REST API or `gh issue list --json`
+ * output). Pull requests and closed issues are listed but not imported.
+ */
+function parseGitHubIssues(text: string): Result<ImportRow[], string> {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return err(`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  if (!Array.isArray(json)) {
+    return err('Expected a JSON array of issues');
+  }
+
+  return ok(
+    json.map((item: unknown, index) => {
+      const issue = (item ?? {}) as GitHubIssue;
+      const extraErrors: string[] = [];
+      if (issue.pull_request) {
+        extraErrors.push('Pull request');
+      }
+      if (typeof issue.state === 'string' && /closed/i.test(issue.state)) {
+        extraErrors.push('Issue is closed');
+      }
+
+      return toRow(
+        issue.number !== undefined
+          ? `Issue #${issue.number}`
+          : `Item ${index + 1}`,
+        {
+          title: typeof issue.title === 'string' ? issue.title.trim() : '',
+          description:
+            typeof issue.body === 'string' && issue.body.trim()
+              ? issue.body.trim()
+              : undefined,
+          labels: getIssueLabels(issue.labels),
+        },
+        extraErrors,
+      );
+    }),
+  );
+}
+
+/**
+ * Parse import text in the given format
+ */
+export function parseImport(
+  format: ImportFormat,
+  text: string,
+): Result<ImportRow[], string> {
+  if (!text.trim()) {
+    return err('Nothing to import');
+  }
+  switch (format) {
+    case 'markdown':
+      return parseMarkdown(text);
+    case 'csv':
+      return parseCsv(text);
+    case 'github':
+      return parseGitHubIssues(text);
+  }
+}
+
+/**
+ * Guess the format of import text from its content or file name
+ */
+export function detectImportFormat(
+  text: string,
+  fileName?: string,
+): ImportFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'json') return 'github';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'github';
+  if (CHECKLIST_ITEM.test(trimmed.split(/\r?\n/)[0] ?? '')) return 'markdown';
+  return text.includes(',') ? 'csv' : 'markdown';
+}
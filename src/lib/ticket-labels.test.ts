@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeLabels,
+  collectLabels,
+  filterTicketsByLabels,
+  parseLabelsParam,
+} from './ticket-labels';
+import type { Ticket } from './schemas';
+
+function ticket(id: number, labels?: string[]): Ticket {
+  return { id, title: `Ticket ${id}`, status: 'pending', labels };
+}
+
+describe('normalizeLabels', () => {
+  it('trims and drops blanks and duplicates', () => {
+    expect(normalizeLabels([' ui', 'backend', '', 'ui ', '  '])).toEqual([
+      'ui',
+      'backend',
+    ]);
+  });
+
+  it('strips commas so labels survive the labels query parameter', () => {
+    const labels = normalizeLabels(['bug, urgent', ',', 'ui']);
+    expect(labels).toEqual(['bug urgent', 'ui']);
+    expect(parseLabelsParam(labels.join(','))).toEqual(labels);
+  });
+});
+
+describe('collectLabels', () => {
+  it('returns unique labels sorted alphabetically', () => {
+    expect(
+      collectLabels([
+        ticket(1, ['ui', 'infra']),
+        ticket(2),
+        ticket(3, ['backend', 'ui']),
+      ]),
+    ).toEqual(['backend', 'infra', 'ui']);
+  });
+
+  it('normalizes labels stored with commas or spaces', () => {
+    expect(
+      collectLabels([ticket(1, ['front,end', ' ui']), ticket(2, ['frontend'])]),
+    ).toEqual(['frontend', 'ui']);
+  });
+});
+
+describe('filterTicketsByLabels', () => {
+  const tickets = [
+    ticket(1, ['ui']),
+    ticket(2, ['backend']),
+    ticket(3, ['infra']),
+    ticket(4),
+  ];
+
+  it('keeps tickets with any of the labels', () => {
+    expect(
+      filterTicketsByLabels(tickets, ['ui', 'backend']).map((t) => t.id),
+    ).toEqual([1, 2]);
+  });
+
+  it('matches labels stored with commas', () => {
+    const stored = [ticket(1, ['front,end']), ticket(2, ['backend'])];
+    expect(
+      filterTicketsByLabels(stored, parseLabelsParam('frontend')).map(
+        (t) => t.id,
+      ),
+    ).toEqual([1]);
+  });
+
+  it('keeps every ticket when no labels are selected', () => {
+    expect(filterTicketsByLabels(tickets, [])).toHaveLength(4);
+  });
+});
+
+describe('parseLabelsParam', () => {
+  it('splits a comma-separated list', () => {
+    expect(parseLabelsParam('ui,backend')).toEqual(['ui', 'backend']);
+  });
+
+  it('returns an empty list for a missing or empty param', () => {
+    expect(parseLabelsParam(null)).toEqual([]);
+    expect(parseLabelsParam('')).toEqual([]);
+  });
+});
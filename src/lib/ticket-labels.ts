@@ -0,0 +1,64 @@
+/**
+ * Ticket label helpers.
+ * Labels are free-form strings used to slice the board (e.g. "ui",
+ * "backend", "infra").
+ */
+
+import type { Ticket } from './schemas';
+
+/**
+ * Trim a label and strip commas, which separate labels in the labels
+ * query parameter
+ */
+export function normalizeLabel(label: string): string {
+  return label.replace(/,/g, '').trim();
+}
+
+/**
+ * Normalize labels (see normalizeLabel) and drop blanks and duplicates,
+ * keeping the first spelling
+ */
+export function normalizeLabels(labels: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const label of labels) {
+    const trimmed = normalizeLabel(label);
+    if (trimmed && !seen.has(trimmed)) {
+      seen.add(trimmed);
+      result.push(trimmed);
+    }
+  }
+  return result;
+}
+
+/**
+ * All labels used in the project, normalized and sorted alphabetically.
+ * tickets.json may hold labels written before normalization or by hand.
+ */
+export function collectLabels(tickets: Ticket[]): string[] {
+  const labels = normalizeLabels(tickets.flatMap((t) => t.labels ?? []));
+  return labels.sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Keep tickets that have any of the given (normalized) labels.
+ * An empty label list matches every ticket.
+ */
+export function filterTicketsByLabels<T extends Ticket>(
+  tickets: T[],
+  labels: string[],
+): T[] {
+  if (labels.length === 0) {
+    return tickets;
+  }
+  return tickets.filter((t) =>
+    t.labels?.some((l) => labels.includes(normalizeLabel(l))),
+  );
+}
+
+/**
+ * Parse a comma-separated labels query parameter (e.g. "ui,backend")
+ */
+export function parseLabelsParam(param: string | null): string[] {
+  return param ? normalizeLabels(param.split(',')) : [];
+}
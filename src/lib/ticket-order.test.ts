@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareTicketPriority,
+  moveItem,
+  getReorderedPriorities,
+  getTicketComparator,
+} from './ticket-order';
+import type { Ticket } from './schemas';
+
+function ticket(id: number, priority?: number): Ticket {
+  return { id, title: `Ticket ${id}`, status: 'pending', priority };
+}
+
+describe('compareTicketPriority', () => {
+  it('sorts by priority, then no priority, then ID', () => {
+    const sorted = [
+      ticket(4),
+      ticket(3, 2),
+      ticket(1),
+      ticket(5, 1),
+      ticket(2, 2),
+    ].sort(compareTicketPriority);
+
+    expect(sorted.map((t) => t.id)).toEqual([5, 2, 3, 1, 4]);
+  });
+});
+
+describe('moveItem', () => {
+  it('moves an item down', () => {
+    expect(moveItem([1, 2, 3, 4], 0, 2)).toEqual([2, 3, 1, 4]);
+  });
+
+  it('moves an item up', () => {
+    expect(moveItem([1, 2, 3, 4], 3, 1)).toEqual([1, 4, 2, 3]);
+  });
+
+  it('does not mutate the input', () => {
+    const items = [1, 2, 3];
+    moveItem(items, 0, 2);
+    expect(items).toEqual([1, 2, 3]);
+  });
+
+  it('ignores out-of-range indexes', () => {
+    expect(moveItem([1, 2, 3], 0, 3)).toEqual([1, 2, 3]);
+    expect(moveItem([1, 2, 3], -1, 0)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('getReorderedPriorities', () => {
+  it('assigns consecutive priorities starting at 1', () => {
+    expect(getReorderedPriorities([7, 3, 5])).toEqual(
+      new Map([
+        [7, 1],
+        [3, 2],
+        [5, 3],
+      ]),
+    );
+  });
+});
+
+describe('getTicketComparator', () => {
+  const tickets: Ticket[] = [
+    { ...ticket(1, 2), createdAt: '2026-02-01T00:00:00.000Z' },
+    { ...ticket(2, 1), createdAt: '2026-01-01T00:00:00.000Z' },
+    ticket(3),
+  ];
+  const sortIds = (comparator: (a: Ticket, b: Ticket) => number) =>
+    [...tickets].sort(comparator).map((t) => t.id);
+
+  it('sorts oldest first, treating missing createdAt as oldest', () => {
+    expect(sortIds(getTicketComparator('age', false))).toEqual([3, 2, 1]);
+  });
+
+  it('sorts by priority or ID', () => {
+    expect(sortIds(getTicketComparator('priority', false))).toEqual([2, 1, 3]);
+    expect(sortIds(getTicketComparator('id', false))).toEqual([1, 2, 3]);
+  });
+
+  it('defaults to queue order for the queue and newest first otherwise', () => {
+    expect(sortIds(getTicketComparator('default', true))).toEqual([2, 1, 3]);
+    expect(sortIds(getTicketComparator('default', false))).toEqual([3, 2, 1]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Queue ordering for tickets.
+ * Lower priority numbers run first; tickets without a priority go last and
+ * ties are broken by lowest ID.
+ */
+
+import type { Ticket } from './schemas';
+
+/**
+ * Comparator for queue order
+ */
+export function compareTicketPriority(a: Ticket, b: Ticket): number {
+  const priorityA = a.priority ?? Number.POSITIVE_INFINITY;
+  const priorityB = b.priority ?? Number.POSITIVE_INFINITY;
+  if (priorityA !== priorityB) {
+    return priorityA - priorityB;
+  }
+  return a.id - b.id;
+}
+
+/**
+ * Return a copy of the list with one item moved to a new index.
+ * Indexes outside the list leave it unchanged.
+ */
+export function moveItem<T>(
+  items: T[],
+  fromIndex: number,
+  toIndex: number,
+): T[] {
+  if (
+    fromIndex === toIndex ||
+    fromIndex < 0 ||
+    toIndex < 0 ||
+    fromIndex >= items.length ||
+    toIndex >= items.length
+  ) {
+    return items;
+  }
+  const result = [...items];
+  const [item] = result.splice(fromIndex, 1);
+  result.splice(toIndex, 0, item as T);
+  return result;
+}
+
+/**
+ * Assign priorities 1..n to the given ticket IDs in order
+ */
+export function getReorderedPriorities(ids: number[]): Map<number, number> {
+  return new Map(ids.map((id, index) => [id, index + 1]));
+}
+
+export const ticketSortOptions = ['default', 'age', 'priority', 'id'] as const;
+
+export type TicketSort = (typeof ticketSortOptions)[number];
+
+export const ticketSortLabels: Record<TicketSort, string> = {
+  default: 'Default',
+  age: 'Oldest first',
+  priority: 'Priority',
+  id: 'ID',
+};
+
+export function isTicketSort(value: string | null): value is TicketSort {
+  return (ticketSortOptions as readonly (string | null)[]).includes(value);
+}
+
+/**
+ * Comparator for oldest first. Tickets created before createdAt was
+ * recorded count as the oldest, in ID order.
+ */
+export function compareTicketAge(a: Ticket, b: Ticket): number {
+  const createdA = a.createdAt ? Date.parse(a.createdAt) : -Infinity;
+  const createdB = b.createdAt ? Date.parse(b.createdAt) : -Infinity;
+  if (createdA !== createdB) {
+    return createdA < createdB ? -1 : 1;
+  }
+  return a.id - b.id;
+}
+
+/**
+ * Comparator for a sort option. The default is queue order for the queue
+ * view and newest first otherwise.
+ */
+export function getTicketComparator(
+  sort: TicketSort,
+  isQueueView: boolean,
+): (a: Ticket, b: Ticket) => number {
+  switch (sort) {
+    case 'age':
+      return compareTicketAge;
+    case 'priority':
+      return compareTicketPriority;
+    case 'id':
+      return (a, b) => a.id - b.id;
+    case 'default':
+      return isQueueView ? compareTicketPriority : (a, b) => b.id - a.id;
+  }
+}
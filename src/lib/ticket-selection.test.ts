@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { toggleSelection, selectRange } from './ticket-selection';
+
+describe('toggleSelection', () => {
+  it('adds and removes IDs without mutating the input', () => {
+    const selection = new Set([1]);
+    expect(toggleSelection(selection, 2)).toEqual(new Set([1, 2]));
+    expect(toggleSelection(selection, 1)).toEqual(new Set());
+    expect(selection).toEqual(new Set([1]));
+  });
+});
+
+describe('selectRange', () => {
+  const orderedIds = [9, 7, 5, 3, 1];
+
+  it('selects from the anchor down to the target', () => {
+    expect(selectRange(new Set(), orderedIds, 7, 3)).toEqual(
+      new Set([7, 5, 3]),
+    );
+  });
+
+  it('selects from the anchor up to the target', () => {
+    expect(selectRange(new Set(), orderedIds, 1, 5)).toEqual(
+      new Set([5, 3, 1]),
+    );
+  });
+
+  it('keeps the existing selection', () => {
+    expect(selectRange(new Set([9]), orderedIds, 3, 1)).toEqual(
+      new Set([9, 3, 1]),
+    );
+  });
+
+  it('selects only the target without a visible anchor', () => {
+    expect(selectRange(new Set(), orderedIds, null, 5)).toEqual(new Set([5]));
+    expect(selectRange(new Set(), orderedIds, 42, 5)).toEqual(new Set([5]));
+  });
+});
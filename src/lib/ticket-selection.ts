@@ -0,0 +1,47 @@
+/**
+ * Multi-select helpers for the ticket list.
+ */
+
+/**
+ * Add or remove a single ID
+ */
+export function toggleSelection(
+  selection: ReadonlySet<number>,
+  id: number,
+): Set<number> {
+  const next = new Set(selection);
+  if (next.has(id)) {
+    next.delete(id);
+  } else {
+    next.add(id);
+  }
+  return next;
+}
+
+/**
+ * Add every ID between the anchor and the target (inclusive) in display
+ * order, as with shift-click. Falls back to selecting just the target when
+ * the anchor is not visible.
+ */
+export function selectRange(
+  selection: ReadonlySet<number>,
+  orderedIds: number[],
+  anchorId: number | null,
+  targetId: number,
+): Set<number> {
+  const next = new Set(selection);
+  const anchorIndex = anchorId === null ? -1 : orderedIds.indexOf(anchorId);
+  const targetIndex = orderedIds.indexOf(targetId);
+
+  if (anchorIndex === -1 || targetIndex === -1) {
+    next.add(targetId);
+    return next;
+  }
+
+  const start = Math.min(anchorIndex, targetIndex);
+  const end = Math.max(anchorIndex, targetIndex);
+  for (const id of orderedIds.slice(start, end + 1)) {
+    next.add(id);
+  }
+  return next;
+}
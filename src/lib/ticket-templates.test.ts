@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { applyTicketTemplate, type TicketDraft } from './ticket-templates';
+import type { TicketTemplate } from './project-config';
+
+const emptyDraft: TicketDraft = {
+  title: '',
+  description: '',
+  priority: 1,
+  labels: [],
+  status: 'pending',
+};
+
+const bugReport: TicketTemplate = {
+  name: 'Bug report',
+  titlePrefix: 'Bug: ',
+  description: '## Steps to reproduce\n\n## Expected\n',
+  priority: 2,
+  labels: ['bug'],
+  status: 'draft',
+};
+
+const refactor: TicketTemplate = {
+  name: 'Refactor',
+  titlePrefix: 'Refactor: ',
+  description: '## Motivation\n',
+  labels: ['refactor'],
+};
+
+describe('applyTicketTemplate', () => {
+  it('fills an empty draft from the template', () => {
+    expect(
+      applyTicketTemplate({ ...emptyDraft, title: 'Crash on save' }, bugReport),
+    ).toEqual({
+      title: 'Bug: Crash on save',
+      description: '## Steps to reproduce\n\n## Expected\n',
+      priority: 2,
+      labels: ['bug'],
+      status: 'draft',
+    });
+  });
+
+  it('replaces what the previous template added when switching', () => {
+    const withBug = applyTicketTemplate(
+      { ...emptyDraft, title: 'Parser', labels: ['backend'] },
+      bugReport,
+    );
+    const switched = applyTicketTemplate(withBug, refactor, bugReport);
+
+    expect(switched.title).toBe('Refactor: Parser');
+    expect(switched.description).toBe('## Motivation\n');
+    expect(switched.labels).toEqual(['backend', 'refactor']);
+    // Fields the new template leaves unset keep their current value
+    expect(switched.priority).toBe(2);
+    expect(switched.status).toBe('draft');
+  });
+
+  it('keeps a description the user has edited', () => {
+    const draft = applyTicketTemplate(emptyDraft, bugReport);
+    const edited = { ...draft, description: 'Steps: click save' };
+
+    expect(applyTicketTemplate(edited, refactor, bugReport).description).toBe(
+      'Steps: click save',
+    );
+  });
+
+  it('clears template additions when the template is removed', () => {
+    const draft = applyTicketTemplate(
+      { ...emptyDraft, title: 'Crash' },
+      bugReport,
+    );
+    const cleared = applyTicketTemplate(draft, null, bugReport);
+
+    expect(cleared.title).toBe('Crash');
+    expect(cleared.description).toBe('');
+    expect(cleared.labels).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Apply ticket templates from .ralph-watch.json to the new ticket form.
+ */
+
+import type { TicketTemplate } from './project-config';
+import { normalizeLabels } from './ticket-labels';
+
+/**
+ * Fields of the new ticket form that a template fills in
+ */
+export interface TicketDraft {
+  title: string;
+  description: string;
+  priority: number;
+  labels: string[];
+  status: 'draft' | 'pending';
+}
+
+/**
+ * Fill a draft from a template.
+ * When switching templates, whatever the previous template added (title
+ * prefix, untouched description skeleton, labels) is replaced rather than
+ * stacked; anything the user typed is kept.
+ */
+export function applyTicketTemplate(
+  draft: TicketDraft,
+  template: TicketTemplate | null,
+  previous: TicketTemplate | null = null,
+): TicketDraft {
+  let title = draft.title;
+  if (previous?.titlePrefix && title.startsWith(previous.titlePrefix)) {
+    title = title.slice(previous.titlePrefix.length);
+  }
+  if (template?.titlePrefix && !title.startsWith(template.titlePrefix)) {
+    title = template.titlePrefix + title;
+  }
+
+  const isDescriptionUntouched =
+    draft.description.trim() === '' ||
+    draft.description === (previous?.description ?? '');
+  const description = isDescriptionUntouched
+    ? (template?.description ?? '')
+    : draft.description;
+
+  const previousLabels = previous?.labels ?? [];
+  const labels = normalizeLabels([
+    ...draft.labels.filter((l) => !previousLabels.includes(l)),
+    ...(template?.labels ?? []),
+  ]);
+
+  return {
+    title,
+    description,
+    priority: template?.priority ?? draft.priority,
+    labels,
+    status: template?.status ?? draft.status,
+  };
+}
@@ -2,12 +2,45 @@
  * Shared UI utilities for ticket display
  */
 
+import type { AcceptanceCriterion, TicketComment } from './schemas';
+import type { StatusColor } from './project-config';
+import {
+  defaultTicketStatuses,
+  findStatus,
+  type StatusDefinition,
+} from './ticket-workflow';
+
+const statusColorClasses: Record<StatusColor, string> = {
+  gray: 'bg-slate-500/20 text-slate-700 border-slate-500/20 dark:text-slate-300',
+  red: 'bg-red-500/20 text-red-700 border-red-500/20 dark:text-red-300',
+  orange:
+    'bg-orange-500/20 text-orange-700 border-orange-500/20 dark:text-orange-300',
+  yellow:
+    'bg-yellow-500/20 text-yellow-700 border-yellow-500/20 dark:text-yellow-300',
+  green:
+    'bg-green-500/20 text-green-700 border-green-500/20 dark:text-green-300',
+  teal: 'bg-teal-500/20 text-teal-700 border-teal-500/20 dark:text-teal-300',
+  blue: 'bg-blue-500/20 text-blue-700 border-blue-500/20 dark:text-blue-300',
+  purple:
+    'bg-purple-500/20 text-purple-700 border-purple-500/20 dark:text-purple-300',
+  pink: 'bg-pink-500/20 text-pink-700 border-pink-500/20 dark:text-pink-300',
+};
+
 /**
  * Get badge styling classes based on ticket status.
- * Uses semantic CSS variables defined in globals.css (Catppuccin theme).
+ * Built-in statuses use semantic CSS variables defined in globals.css
+ * (Catppuccin theme) unless the project config gives them a colour.
  * Background is the semantic color, foreground is readable text.
  */
-export function getStatusBadgeClass(status: string): string {
+export function getStatusBadgeClass(
+  status: string,
+  statuses: StatusDefinition[] = defaultTicketStatuses,
+): string {
+  const color = findStatus(statuses, status)?.color;
+  if (color) {
+    return statusColorClasses[color];
+  }
+
   switch (status) {
     case 'draft':
       return 'bg-[hsl(var(--status-draft-bg))] text-[hsl(var(--status-draft-fg))] border-[hsl(var(--status-draft-bg))]';
@@ -31,24 +64,63 @@ export function formatStatus(status: string): string {
   return status.replace(/_/g, ' ');
 }
 
+/**
+ * Count met acceptance criteria, or null if the ticket has none
+ */
+export function getCriteriaProgress(
+  criteria: AcceptanceCriterion[] | undefined,
+): { done: number; total: number } | null {
+  if (!criteria || criteria.length === 0) {
+    return null;
+  }
+  return {
+    done: criteria.filter((c) => c.done).length,
+    total: criteria.length,
+  };
+}
+
 export interface TicketContext {
   id: number;
   title: string;
   status: string;
   priority?: number;
   description?: string;
+  acceptanceCriteria?: AcceptanceCriterion[];
+  comments?: TicketComment[];
 }
 
 /**
  * Format ticket for clipboard copy.
  */
 export function formatTicketForClipboard(ticket: TicketContext): string {
-  return `Ticket #${ticket.id}: ${ticket.title}
+  let text = `Ticket #${ticket.id}: ${ticket.title}
 Status: ${ticket.status}
 Priority: ${ticket.priority ?? 'none'}
 
 Description:
 ${ticket.description ?? '(no description)'}`;
+
+  if (ticket.acceptanceCriteria?.length) {
+    const criteria = ticket.acceptanceCriteria
+      .map((c) => `- [${c.done ? 'x' : ' '}] ${c.text}`)
+      .join('\n');
+    text += `
+
+Acceptance criteria:
+${criteria}`;
+  }
+
+  if (ticket.comments?.length) {
+    const comments = ticket.comments
+      .map((c) => `${c.author} (${c.createdAt}):\n${c.body}`)
+      .join('\n\n');
+    text += `
+
+Comments:
+${comments}`;
+  }
+
+  return text;
 }
 
 export const REFINE_PROMPT = `
@@ -57,3 +129,13 @@ Help me refine this ticket:
 - Is the scope clear?
 - Are there edge cases?
 - What acceptance criteria should we add?`;
+
+/**
+ * Check whether a tRPC error is a tickets.json revision conflict
+ * (the file changed on disk after the client last read it).
+ */
+export function isConflictError(error: {
+  data?: { code?: string } | null;
+}): boolean {
+  return error.data?.code === 'CONFLICT';
+}
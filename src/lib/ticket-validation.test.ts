@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { repairTickets, validateTicketsFile } from './ticket-validation';
+
+describe('validateTicketsFile', () => {
+  it('reports each kind of problem against its entry', () => {
+    const { data, problems } = validateTicketsFile({
+      tickets: [
+        { id: 1, title: 'First', status: 'pending' },
+        { id: '2', title: 'String ID' },
+        { id: 'abc', title: 'Bad ID' },
+        { id: 1, title: 'Duplicate' },
+        { id: 3, title: 'Odd status', status: 'blocked' },
+        { id: 4 },
+        'not a ticket',
+      ],
+    });
+
+    expect(data.tickets.map((t) => t.id)).toEqual([1, 3]);
+    expect(problems).toEqual([
+      {
+        index: 1,
+        id: '2',
+        title: 'String ID',
+        message: 'ID "2" is a string, not a number',
+        repairable: true,
+        excluded: true,
+      },
+      {
+        index: 2,
+        id: 'abc',
+        title: 'Bad ID',
+        message: 'ID "abc" is not a number',
+        repairable: false,
+        excluded: true,
+      },
+      {
+        index: 3,
+        id: 1,
+        title: 'Duplicate',
+        message: 'Duplicate ID #1 (also used by entry 1)',
+        repairable: true,
+        excluded: true,
+      },
+      {
+        index: 4,
+        id: 3,
+        title: 'Odd status',
+        message: 'Unknown status "blocked"',
+        repairable: false,
+        excluded: false,
+      },
+      expect.objectContaining({
+        index: 5,
+        id: 4,
+        message: expect.stringContaining('title'),
+        repairable: false,
+      }),
+      expect.objectContaining({
+        index: 6,
+        message: 'Entry is not an object',
+      }),
+    ]);
+  });
+
+  it('keeps other top-level fields', () => {
+    const { data, problems } = validateTicketsFile({
+      project: 'demo',
+      tickets: [{ id: 1, title: 'A' }],
+    });
+    expect(data).toMatchObject({ project: 'demo' });
+    expect(problems).toEqual([]);
+  });
+});
+
+describe('repairTickets', () => {
+  it('converts string IDs and renumbers duplicates', () => {
+    const { file, repairs } = repairTickets({
+      tickets: [
+        { id: 1, title: 'First' },
+        { id: '5', title: 'String ID' },
+        { id: 1, title: 'Duplicate' },
+        { id: 'abc', title: 'Bad ID' },
+      ],
+    });
+
+    expect(file.tickets).toEqual([
+      { id: 1, title: 'First' },
+      { id: 5, title: 'String ID' },
+      { id: 6, title: 'Duplicate' },
+      { id: 'abc', title: 'Bad ID' },
+    ]);
+    expect(repairs).toEqual([
+      { index: 1, from: '5', to: 5, message: 'ID "5" converted to 5' },
+      {
+        index: 2,
+        from: 1,
+        to: 6,
+        message: 'Duplicate ID #1 renumbered to #6',
+      },
+    ]);
+    expect(validateTicketsFile(file).problems).toHaveLength(1);
+  });
+
+  it('renumbers a string ID that duplicates another ticket', () => {
+    const { file, repairs } = repairTickets({
+      tickets: [
+        { id: 2, title: 'First' },
+        { id: '2', title: 'Second' },
+      ],
+    });
+
+    expect(file.tickets).toEqual([
+      { id: 2, title: 'First' },
+      { id: 3, title: 'Second' },
+    ]);
+    expect(repairs).toEqual([
+      {
+        index: 1,
+        from: '2',
+        to: 3,
+        message: 'ID "2" duplicates #2; renumbered to #3',
+      },
+    ]);
+  });
+
+  it('changes nothing in a valid file', () => {
+    const raw = { tickets: [{ id: 1, title: 'A' }] };
+    expect(repairTickets(raw)).toEqual({ file: raw, repairs: [] });
+  });
+});
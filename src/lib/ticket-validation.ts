@@ -0,0 +1,211 @@
+/**
+ * Tolerant validation and repair of tickets.json.
+ * One bad entry should not hide every other ticket, so entries are checked
+ * one by one and each problem is reported against its position in the file.
+ */
+
+import {
+  TicketSchema,
+  ticketStatuses,
+  type Ticket,
+  type TicketsFile,
+} from './schemas';
+import { ok, err, type Result } from './result';
+
+/**
+ * tickets.json as parsed from JSON, before the entries are validated
+ */
+export type RawTicketsFile = { tickets: unknown[] } & Record<string, unknown>;
+
+export interface TicketProblem {
+  /**
+   * Position of the entry in the tickets array
+   */
+  index: number;
+  /**
+   * The entry's ID as found in the file
+   */
+  id: unknown;
+  title?: string;
+  message: string;
+  /**
+   * Whether repairTickets can fix it
+   */
+  repairable: boolean;
+  /**
+   * Whether the entry is left out of the ticket list until fixed
+   */
+  excluded: boolean;
+}
+
+export interface TicketRepair {
+  index: number;
+  from: unknown;
+  to: number;
+  message: string;
+}
+
+export interface TicketsReport {
+  data: TicketsFile;
+  problems: TicketProblem[];
+}
+
+const NUMERIC_STRING = /^\s*\d+\s*$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the top-level shape of parsed tickets.json
+ */
+export function toRawTicketsFile(
+  json: unknown,
+): Result<RawTicketsFile, string> {
+  if (!isRecord(json) || !Array.isArray(json.tickets)) {
+    return err('tickets.json must be an object with a "tickets" array');
+  }
+  return ok(json as RawTicketsFile);
+}
+
+/**
+ * Validate every entry, keeping the valid tickets and listing problems with
+ * the rest. Later entries reusing an ID are left out in favour of the first.
+ * Tickets with a status not in statusNames are kept but reported.
+ */
+export function validateTicketsFile(
+  raw: RawTicketsFile,
+  statusNames: readonly string[] = ticketStatuses,
+): TicketsReport {
+  const tickets: Ticket[] = [];
+  const problems: TicketProblem[] = [];
+  const firstIndexById = new Map<number, number>();
+
+  raw.tickets.forEach((entry, index) => {
+    if (!isRecord(entry)) {
+      problems.push({
+        index,
+        id: undefined,
+        message: 'Entry is not an object',
+        repairable: false,
+        excluded: true,
+      });
+      return;
+    }
+
+    const { id } = entry;
+    const title = typeof entry.title === 'string' ? entry.title : undefined;
+    const report = (message: string, repairable: boolean, excluded = true) =>
+      problems.push({ index, id, title, message, repairable, excluded });
+
+    if (typeof id === 'string' && NUMERIC_STRING.test(id)) {
+      report(`ID "${id}" is a string, not a number`, true);
+      return;
+    }
+    if (typeof id !== 'number' || !Number.isFinite(id)) {
+      report(
+        id === undefined
+          ? 'Missing ID'
+          : `ID ${JSON.stringify(id)} is not a number`,
+        false,
+      );
+      return;
+    }
+
+    const parsed = TicketSchema.safeParse(entry);
+    if (!parsed.success) {
+      report(
+        parsed.error.issues
+          .map((issue) =>
+            issue.path.length
+              ? `${issue.path.join('.')}: ${issue.message}`
+              : issue.message,
+          )
+          .join('; '),
+        false,
+      );
+      return;
+    }
+
+    const firstIndex = firstIndexById.get(id);
+    if (firstIndex !== undefined) {
+      report(
+        `Duplicate ID #${id} (also used by entry ${firstIndex + 1})`,
+        true,
+      );
+      return;
+    }
+    firstIndexById.set(id, index);
+
+    if (!statusNames.includes(parsed.data.status)) {
+      report(`Unknown status "${parsed.data.status}"`, false, false);
+    }
+    tickets.push(parsed.data);
+  });
+
+  return { data: { ...raw, tickets }, problems };
+}
+
+/**
+ * Fix the safe cases: numeric string IDs become numbers, and entries reusing
+ * an ID get the next free one. Everything else is left untouched.
+ */
+export function repairTickets(raw: RawTicketsFile): {
+  file: RawTicketsFile;
+  repairs: TicketRepair[];
+} {
+  const repairs: TicketRepair[] = [];
+
+  const entries = raw.tickets.map((entry, index) => {
+    if (
+      isRecord(entry) &&
+      typeof entry.id === 'string' &&
+      NUMERIC_STRING.test(entry.id)
+    ) {
+      const to = Number(entry.id);
+      repairs.push({
+        index,
+        from: entry.id,
+        to,
+        message: `ID "${entry.id}" converted to ${to}`,
+      });
+      return { ...entry, id: to };
+    }
+    return entry;
+  });
+
+  const ids = entries
+    .map((entry) => (isRecord(entry) ? entry.id : undefined))
+    .filter((id): id is number => typeof id === 'number');
+  let nextId = Math.max(0, ...ids.filter(Number.isFinite)) + 1;
+  const seen = new Set<number>();
+
+  const tickets = entries.map((entry, index) => {
+    if (!isRecord(entry) || typeof entry.id !== 'number') {
+      return entry;
+    }
+    if (!seen.has(entry.id)) {
+      seen.add(entry.id);
+      return entry;
+    }
+
+    const to = nextId++;
+    // Keep any earlier conversion of this entry as a single repair
+    const converted = repairs.find((r) => r.index === index);
+    if (converted) {
+      converted.to = to;
+      converted.message = `ID "${converted.from}" duplicates #${entry.id}; renumbered to #${to}`;
+    } else {
+      repairs.push({
+        index,
+        from: entry.id,
+        to,
+        message: `Duplicate ID #${entry.id} renumbered to #${to}`,
+      });
+    }
+    return { ...entry, id: to };
+  });
+
+  repairs.sort((a, b) => a.index - b.index);
+  return { file: { ...raw, tickets }, repairs };
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkTransition,
+  defaultTicketStatuses,
+  getAvailableStatuses,
+  resolveTicketStatuses,
+} from './ticket-workflow';
+import { isErr, isOk } from './result';
+
+const statuses = resolveTicketStatuses([
+  {
+    name: 'needs_review',
+    label: 'Needs review',
+    color: 'purple',
+    transitions: ['completed', 'in_progress'],
+  },
+  { name: 'wont_fix', closed: true },
+  { name: 'completed', transitions: [] },
+]);
+
+describe('resolveTicketStatuses', () => {
+  it('returns the built-in statuses without config', () => {
+    expect(resolveTicketStatuses()).toEqual(defaultTicketStatuses);
+  });
+
+  it('appends custom statuses and merges overrides', () => {
+    expect(statuses.map((s) => s.name)).toEqual([
+      'draft',
+      'pending',
+      'in_progress',
+      'completed',
+      'failed',
+      'needs_review',
+      'wont_fix',
+    ]);
+    expect(statuses.find((s) => s.name === 'wont_fix')).toEqual({
+      name: 'wont_fix',
+      label: 'wont fix',
+      closed: true,
+    });
+    expect(statuses.find((s) => s.name === 'completed')).toMatchObject({
+      label: 'Completed',
+      closed: true,
+      transitions: [],
+    });
+  });
+
+  it('does not modify the defaults', () => {
+    resolveTicketStatuses([{ name: 'draft', label: 'Idea' }]);
+    expect(defaultTicketStatuses[0]?.label).toBe('Draft');
+  });
+});
+
+describe('checkTransition', () => {
+  it('allows any move from a status without transitions', () => {
+    expect(isOk(checkTransition(statuses, 'pending', 'needs_review'))).toBe(
+      true,
+    );
+  });
+
+  it('enforces configured transitions', () => {
+    expect(isOk(checkTransition(statuses, 'needs_review', 'completed'))).toBe(
+      true,
+    );
+    const result = checkTransition(statuses, 'needs_review', 'draft');
+    expect(isErr(result) && result.error).toBe(
+      'Cannot move a ticket from "needs_review" to "draft"',
+    );
+  });
+
+  it('always allows keeping the same status', () => {
+    expect(isOk(checkTransition(statuses, 'completed', 'completed'))).toBe(
+      true,
+    );
+  });
+
+  it('rejects unknown target statuses', () => {
+    const result = checkTransition(statuses, 'pending', 'blocked');
+    expect(isErr(result) && result.error).toBe('Unknown status "blocked"');
+  });
+
+  it('lets tickets with an unknown status move anywhere', () => {
+    expect(isOk(checkTransition(statuses, 'blocked', 'pending'))).toBe(true);
+  });
+});
+
+describe('getAvailableStatuses', () => {
+  it('lists the current status and its allowed moves', () => {
+    expect(
+      getAvailableStatuses(statuses, 'needs_review').map((s) => s.name),
+    ).toEqual(['in_progress', 'completed', 'needs_review']);
+  });
+
+  it('keeps an unknown current status selectable', () => {
+    expect(getAvailableStatuses(statuses, 'blocked')[0]).toMatchObject({
+      name: 'blocked',
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Ticket statuses and the moves allowed between them.
+ * The built-in statuses are always present; .ralph-watch.json can relabel,
+ * recolour or restrict them and add its own (see TicketStatusConfigSchema).
+ */
+
+import type { StatusColor, TicketStatusConfig } from './project-config';
+import { ok, err, isOk, type Result } from './result';
+
+export interface StatusDefinition {
+  name: string;
+  label: string;
+  color?: StatusColor;
+  /**
+   * Statuses a ticket may move to from this one; any when undefined
+   */
+  transitions?: string[];
+  /**
+   * Counts as finished, so the "Incomplete" filter hides it
+   */
+  closed: boolean;
+}
+
+export const defaultTicketStatuses: StatusDefinition[] = [
+  { name: 'draft', label: 'Draft', closed: false },
+  { name: 'pending', label: 'Pending', closed: false },
+  { name: 'in_progress', label: 'In Progress', closed: false },
+  { name: 'completed', label: 'Completed', closed: true },
+  { name: 'failed', label: 'Failed', closed: true },
+];
+
+/**
+ * Merge configured statuses into the built-in ones, keeping the built-in
+ * order and appending custom statuses in config order
+ */
+export function resolveTicketStatuses(
+  config: TicketStatusConfig[] = [],
+): StatusDefinition[] {
+  const statuses = defaultTicketStatuses.map((status) => ({ ...status }));
+
+  for (const entry of config) {
+    const existing = statuses.find((s) => s.name === entry.name);
+    const status: StatusDefinition = existing ?? {
+      name: entry.name,
+      label: entry.name.replace(/_/g, ' '),
+      closed: false,
+    };
+
+    if (entry.label !== undefined) status.label = entry.label;
+    if (entry.color !== undefined) status.color = entry.color;
+    if (entry.transitions !== undefined) {
+      status.transitions = entry.transitions;
+    }
+    if (entry.closed !== undefined) status.closed = entry.closed;
+
+    if (!existing) statuses.push(status);
+  }
+
+  return statuses;
+}
+
+export function findStatus(
+  statuses: StatusDefinition[],
+  name: string,
+): StatusDefinition | undefined {
+  return statuses.find((s) => s.name === name);
+}
+
+/**
+ * Check that a ticket may move from one status to another.
+ * Tickets with a status that is not configured may move anywhere, so they
+ * can always be brought back into the workflow.
+ */
+export function checkTransition(
+  statuses: StatusDefinition[],
+  from: string,
+  to: string,
+): Result<void, string> {
+  if (!findStatus(statuses, to)) {
+    return err(`Unknown status "${to}"`);
+  }
+  const transitions = findStatus(statuses, from)?.transitions;
+  if (from === to || !transitions || transitions.includes(to)) {
+    return ok(undefined);
+  }
+  return err(`Cannot move a ticket from "${from}" to "${to}"`);
+}
+
+/**
+ * Statuses a ticket in the given status can be set to, itself included
+ */
+export function getAvailableStatuses(
+  statuses: StatusDefinition[],
+  from: string,
+): StatusDefinition[] {
+  const available = statuses.filter(
+    (status) =>
+      status.name === from ||
+      isOk(checkTransition(statuses, from, status.name)),
+  );
+  // Keep an unconfigured current status selectable
+  return findStatus(statuses, from)
+    ? available
+    : [
+        { name: from, label: from.replace(/_/g, ' '), closed: false },
+        ...available,
+      ];
+}
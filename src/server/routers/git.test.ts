@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gitRouter } from './git';
+import { readCommitDiff } from '../services/git';
+import type { Context } from '../trpc';
+import { err } from '@/lib/result';
+
+vi.mock('../services/git', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../services/git')>();
+  return { ...actual, readCommitDiff: vi.fn(actual.readCommitDiff) };
+});
+
+const TEST_DIR = join(process.cwd(), '.test-git');
+
+/**
+ * Create a test caller with context pointing to a directory
+ */
+function createTestCaller(ralphDir = TEST_DIR) {
+  const ctx: Context = {
+    ralphDir,
+  };
+  return gitRouter.createCaller(ctx);
+}
+
+function git(...args: string[]): string {
+  return execFileSync(
+    'git',
+    ['-c', 'user.name=Ana', '-c', 'user.email=ana@example.com', ...args],
+    { cwd: TEST_DIR, encoding: 'utf-8' },
+  ).trim();
+}
+
+/**
+ * Write a file and commit it
+ */
+async function commitFile(name: string, content: string, message: string) {
+  await writeFile(join(TEST_DIR, name), content);
+  git('add', name);
+  git('commit', '-q', '-m', message);
+}
+
+describe('git router', () => {
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    git('init', '-q', '-b', 'main');
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe('refs', () => {
+    it('lists branches and tags with the current branch', async () => {
+      await commitFile('a.ts', 'const a = 1;\n', 'Initial');
+      git('tag', 'v1');
+      git('branch', 'feature');
+
+      const { refs } = await createTestCaller().refs();
+
+      expect(refs?.head).toBe('main');
+      expect(refs?.branches.sort()).toEqual(['feature', 'main']);
+      expect(refs?.tags).toEqual(['v1']);
+    });
+
+    it('returns null outside a git repository', async () => {
+      const dir = join(tmpdir(), `ralph-watch-no-git-${process.pid}`);
+      await mkdir(dir, { recursive: true });
+      try {
+        expect(await createTestCaller(dir).refs()).toEqual({ refs: null });
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('ticketDiff', () => {
+    it('returns the diff of each commit that mentions the ticket', async () => {
+      await commitFile('a.ts', 'const a = 1;\n', 'Start #4');
+      await commitFile('b.ts', 'const b = 2;\n', 'Unrelated #40');
+      await commitFile('a.ts', 'const a = 2;\n', 'Finish #4');
+
+      const { commits, omitted } = await createTestCaller().ticketDiff({
+        ticketId: 4,
+      });
+
+      expect(omitted).toBe(0);
+      expect(commits.map((c) => c.commit.subject)).toEqual([
+        'Finish #4',
+        'Start #4',
+      ]);
+      expect(commits[0]?.files).toHaveLength(1);
+      expect(commits[0]?.files[0]).toMatchObject({
+        path: 'a.ts',
+        status: 'modified',
+        additions: 1,
+        deletions: 1,
+      });
+      expect(commits[1]?.files[0]).toMatchObject({
+        path: 'a.ts',
+        status: 'added',
+      });
+    });
+
+    it('skips commits whose diff cannot be read', async () => {
+      await commitFile('a.ts', 'const a = 1;\n', 'Start #4');
+      await commitFile('b.ts', 'const b = 2;\n', 'Finish #4');
+      vi.mocked(readCommitDiff).mockResolvedValueOnce(err('git show failed'));
+
+      const { commits, failed } = await createTestCaller().ticketDiff({
+        ticketId: 4,
+      });
+
+      expect(failed).toBe(1);
+      expect(commits.map((c) => c.commit.subject)).toEqual(['Start #4']);
+    });
+  });
+
+  describe('diff', () => {
+    it('compares two refs', async () => {
+      await commitFile('a.ts', 'const a = 1;\n', 'Initial');
+      git('tag', 'v1');
+      await commitFile('b.ts', 'const b = 2;\n', 'Add b');
+
+      const diff = await createTestCaller().diff({ from: 'v1', to: 'main' });
+
+      expect(diff.from).toBe(git('rev-parse', 'v1'));
+      expect(diff.to).toBe(git('rev-parse', 'main'));
+      expect(diff.truncated).toBe(false);
+      expect(diff.files.map((f) => [f.path, f.status])).toEqual([
+        ['b.ts', 'added'],
+      ]);
+    });
+
+    it('rejects unknown refs and options', async () => {
+      await commitFile('a.ts', 'const a = 1;\n', 'Initial');
+      const caller = createTestCaller();
+
+      await expect(caller.diff({ from: 'nope', to: 'main' })).rejects.toThrow(
+        'Unknown revision "nope"',
+      );
+      await expect(
+        caller.diff({ from: '--output=/tmp/x', to: 'main' }),
+      ).rejects.toThrow('Unknown revision');
+    });
+  });
+});
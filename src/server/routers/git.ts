@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import { router, publicProcedure } from '../trpc';
+import { isErr } from '@/lib/result';
+import {
+  isGitRepository,
+  readCommitDiff,
+  readDiff,
+  readRefs,
+  readTicketCommits,
+  resolveCommit,
+  type Diff,
+} from '../services/git';
+import type { GitCommit } from '@/lib/ticket-commits';
+
+/**
+ * Most commits of a ticket whose diffs are returned at once
+ */
+export const MAX_TICKET_DIFF_COMMITS = 20;
+
+/**
+ * Most git show processes a ticket diff runs at once
+ */
+const TICKET_DIFF_CONCURRENCY = 4;
+
+/**
+ * Branch, tag or commit SHA
+ */
+const RefSchema = z.string().trim().min(1).max(256);
+
+/**
+ * Throw unless the project is inside a git repository
+ */
+async function assertRepository(ralphDir: string): Promise<void> {
+  if (!(await isGitRepository(ralphDir))) {
+    throw new Error('The project is not in a git repository');
+  }
+}
+
+/**
+ * tRPC router for reading the project's git repository
+ */
+export const gitRouter = router({
+  /**
+   * Branches and tags to offer when comparing refs.
+   * refs is null when the project is not in a git repository.
+   */
+  refs: publicProcedure.query(async ({ ctx }) => {
+    if (!(await isGitRepository(ctx.ralphDir))) {
+      return { refs: null };
+    }
+
+    const result = await readRefs(ctx.ralphDir);
+    if (isErr(result)) {
+      throw new Error(result.error);
+    }
+    return { refs: result.value };
+  }),
+
+  /**
+   * The diff of each commit that mentions a ticket, newest first.
+   * omitted counts older commits left out past MAX_TICKET_DIFF_COMMITS;
+   * failed counts commits whose diff could not be read, which are skipped.
+   */
+  ticketDiff: publicProcedure
+    .input(z.object({ ticketId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await assertRepository(ctx.ralphDir);
+
+      const commits = await readTicketCommits(ctx.ralphDir, input.ticketId);
+      if (isErr(commits)) {
+        throw new Error(commits.error);
+      }
+
+      const shown = commits.value.slice(0, MAX_TICKET_DIFF_COMMITS);
+      const diffs: ({ commit: GitCommit } & Diff)[] = [];
+      let failed = 0;
+      for (let i = 0; i < shown.length; i += TICKET_DIFF_CONCURRENCY) {
+        const batch = shown.slice(i, i + TICKET_DIFF_CONCURRENCY);
+        const results = await Promise.allSettled(
+          batch.map((commit) => readCommitDiff(ctx.ralphDir, commit.sha)),
+        );
+        results.forEach((result, index) => {
+          if (result.status === 'rejected' || isErr(result.value)) {
+            failed++;
+          } else {
+            diffs.push({ commit: batch[index]!, ...result.value.value });
+          }
+        });
+      }
+
+      return {
+        commits: diffs,
+        omitted: commits.value.length - shown.length,
+        failed,
+      };
+    }),
+
+  /**
+   * The diff between two refs, with the SHAs they resolved to
+   */
+  diff: publicProcedure
+    .input(z.object({ from: RefSchema, to: RefSchema }))
+    .query(async ({ ctx, input }) => {
+      await assertRepository(ctx.ralphDir);
+
+      const [from, to] = await Promise.all([
+        resolveCommit(ctx.ralphDir, input.from),
+        resolveCommit(ctx.ralphDir, input.to),
+      ]);
+      if (isErr(from)) {
+        throw new Error(from.error);
+      }
+      if (isErr(to)) {
+        throw new Error(to.error);
+      }
+
+      const diff = await readDiff(ctx.ralphDir, from.value, to.value);
+      if (isErr(diff)) {
+        throw new Error(diff.error);
+      }
+      return { from: from.value, to: to.value, ...diff.value };
+    }),
+});
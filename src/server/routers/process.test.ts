@@ -1,4 +1,6 @@
 import { describe, it, expect, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
 import { processRouter, setRunner } from './process';
 import type { Context } from '../trpc';
 import type {
@@ -6,6 +8,7 @@ import type {
   ProcessHandle,
   ProcessStatus,
   ProcessOutputLine,
+  ProcessStartOptions,
 } from '@/lib/process-runner';
 import { ok, err } from '@/lib/result';
 import { ProcessStatusFactory } from '@/lib/process-runner';
@@ -15,9 +18,9 @@ const TEST_DIR = '/test/ralph/dir';
 /**
  * Create a test caller with mock context
  */
-function createTestCaller() {
+function createTestCaller(ralphDir = TEST_DIR) {
   const ctx: Context = {
-    ralphDir: TEST_DIR,
+    ralphDir,
   };
   return processRouter.createCaller(ctx);
 }
@@ -27,16 +30,15 @@ function createTestCaller() {
  * Each method can be configured via the mocks object.
  */
 function createMockRunner(mocks: {
-  start?: (opts: {
-    command: string;
-    cwd: string;
-  }) => ReturnType<ProcessRunner['start']>;
+  start?: ProcessRunner['start'];
   getStatus?: (id: string) => ProcessStatus;
   kill?: (id: string) => ReturnType<ProcessRunner['kill']>;
   listRunning?: () => ProcessHandle[];
   onOutput?: ProcessRunner['onOutput'];
   onExit?: ProcessRunner['onExit'];
   getOutput?: (id: string) => ProcessOutputLine[];
+  adopt?: ProcessRunner['adopt'];
+  getRun?: ProcessRunner['getRun'];
 }): ProcessRunner {
   return {
     start: mocks.start ?? (async () => ok({ id: 'mock-id', pid: 12345 })),
@@ -46,9 +48,30 @@ function createMockRunner(mocks: {
     onOutput: mocks.onOutput ?? (() => () => {}),
     onExit: mocks.onExit ?? (() => () => {}),
     getOutput: mocks.getOutput ?? (() => []),
+    adopt: mocks.adopt ?? (async () => []),
+    getRun: mocks.getRun ?? (() => null),
   };
 }
 
+/**
+ * A mock ProcessRunner with a ralph run going in TEST_DIR
+ */
+function busyRunner(mocks: Parameters<typeof createMockRunner>[0]) {
+  return createMockRunner({
+    listRunning: () => [{ id: 'busy', pid: 1 }],
+    getRun: (id) => ({
+      id,
+      command: 'ralph',
+      cwd: TEST_DIR,
+      pid: 1,
+      startedAt: 1000,
+      endedAt: null,
+      exitCode: null,
+    }),
+    ...mocks,
+  });
+}
+
 describe('process router', () => {
   afterEach(() => {
     // Reset the runner after each test
@@ -75,6 +98,24 @@ describe('process router', () => {
       });
     });
 
+    it('passes detached on to the runner', async () => {
+      const captured: ProcessStartOptions[] = [];
+      setRunner(
+        createMockRunner({
+          start: async (opts) => {
+            captured.push(opts);
+            return ok({ id: 'test-123', pid: 9876 });
+          },
+        }),
+      );
+
+      await createTestCaller().start({ command: 'ralph', detached: true });
+
+      expect(captured).toEqual([
+        { command: 'ralph', cwd: TEST_DIR, detached: true },
+      ]);
+    });
+
     it('returns process handle on success', async () => {
       const expectedHandle: ProcessHandle = { id: 'proc-abc', pid: 54321 };
       const mockRunner = createMockRunner({
@@ -107,6 +148,99 @@ describe('process router', () => {
       const caller = createTestCaller();
       await expect(caller.start({ command: '' })).rejects.toThrow();
     });
+
+    it('refuses to go over the run limits', async () => {
+      const captured: ProcessStartOptions[] = [];
+      setRunner(
+        busyRunner({
+          start: async (opts) => {
+            captured.push(opts);
+            return ok({ id: 'test-123', pid: 9876 });
+          },
+        }),
+      );
+
+      await expect(
+        createTestCaller().start({ command: 'ralph-once' }),
+      ).rejects.toThrow('Failed to start process: Run limit reached');
+      expect(captured).toEqual([]);
+    });
+
+    it('starts destructive commands over the run limits', async () => {
+      setRunner(busyRunner({}));
+
+      expect(await createTestCaller().start({ command: 'ralph-stop' })).toEqual(
+        { id: 'mock-id', pid: 12345 },
+      );
+    });
+  });
+
+  describe('enqueue', () => {
+    it('starts the command when nothing else is running', async () => {
+      const captured: ProcessStartOptions[] = [];
+      setRunner(
+        createMockRunner({
+          start: async (opts) => {
+            captured.push(opts);
+            return ok({ id: 'test-123', pid: 9876 });
+          },
+        }),
+      );
+
+      const result = await createTestCaller().enqueue({
+        command: 'ralph',
+        detached: true,
+      });
+
+      expect(result).toEqual({
+        state: 'started',
+        handle: { id: 'test-123', pid: 9876 },
+      });
+      expect(captured).toEqual([
+        { command: 'ralph', cwd: TEST_DIR, detached: true },
+      ]);
+    });
+
+    it('queues the command while the project has a run going', async () => {
+      setRunner(busyRunner({}));
+      const caller = createTestCaller();
+
+      const result = await caller.enqueue({ command: 'ralph-once' });
+
+      expect(result).toMatchObject({
+        state: 'queued',
+        run: { command: 'ralph-once', position: 1 },
+      });
+      if (result.state !== 'queued') return;
+      expect(await caller.queue()).toEqual([result.run]);
+    });
+
+    it('cancels a queued run', async () => {
+      setRunner(busyRunner({}));
+      const caller = createTestCaller();
+      const result = await caller.enqueue({ command: 'ralph-once' });
+      if (result.state !== 'queued') throw new Error('Expected a queued run');
+
+      expect(await caller.cancelQueued({ id: result.run.id })).toEqual({
+        success: true,
+      });
+      expect(await caller.queue()).toEqual([]);
+      await expect(caller.cancelQueued({ id: result.run.id })).rejects.toThrow(
+        'Failed to cancel run: Queued run not found',
+      );
+    });
+
+    it('throws error when start fails', async () => {
+      setRunner(
+        createMockRunner({
+          start: async () => err(new Error('Spawn failed')),
+        }),
+      );
+
+      await expect(
+        createTestCaller().enqueue({ command: 'bad-command' }),
+      ).rejects.toThrow('Failed to start process: Spawn failed');
+    });
   });
 
   describe('status', () => {
@@ -222,6 +356,26 @@ describe('process router', () => {
   });
 
   describe('list', () => {
+    it('adopts detached processes of the project first', async () => {
+      const calls: string[] = [];
+      setRunner(
+        createMockRunner({
+          adopt: async (cwd) => {
+            calls.push(`adopt ${cwd}`);
+            return [];
+          },
+          listRunning: () => {
+            calls.push('listRunning');
+            return [];
+          },
+        }),
+      );
+
+      await createTestCaller().list();
+
+      expect(calls).toEqual([`adopt ${TEST_DIR}`, 'listRunning']);
+    });
+
     it('calls runner.listRunning', async () => {
       let listCalled = false;
       const mockRunner = createMockRunner({
@@ -268,4 +422,114 @@ describe('process router', () => {
       expect(handles).toHaveLength(3);
     });
   });
+
+  describe('history', () => {
+    const HISTORY_DIR = join(process.cwd(), '.test-process-history');
+    const RUNS_DIR = join(HISTORY_DIR, '.ralph-watch', 'runs');
+
+    /**
+     * Write stored runs started at the given times, with the last one
+     * unfinished
+     */
+    async function writeRuns(startTimes: number[]) {
+      await mkdir(RUNS_DIR, { recursive: true });
+      for (const [index, startedAt] of startTimes.entries()) {
+        const finished = index < startTimes.length - 1;
+        const run = {
+          id: `run-${startedAt}`,
+          command: 'ralph-once',
+          cwd: HISTORY_DIR,
+          pid: 100 + index,
+          startedAt,
+          endedAt: finished ? startedAt + 10 : null,
+          exitCode: finished ? 0 : null,
+        };
+        await writeFile(join(RUNS_DIR, `${run.id}.json`), JSON.stringify(run));
+      }
+    }
+
+    afterEach(async () => {
+      await rm(HISTORY_DIR, { recursive: true, force: true });
+    });
+
+    it('pages through runs newest first', async () => {
+      await writeRuns([1000, 2000, 3000]);
+      setRunner(createMockRunner({}));
+      const caller = createTestCaller(HISTORY_DIR);
+
+      const first = await caller.history({ limit: 2 });
+      expect(first.runs.map((run) => run.id)).toEqual(['run-3000', 'run-2000']);
+      expect(first.total).toBe(3);
+      expect(first.nextCursor).toBe(2);
+
+      const second = await caller.history({
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.runs.map((run) => run.id)).toEqual(['run-1000']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('marks unfinished runs as running or interrupted', async () => {
+      await writeRuns([1000, 2000]);
+      const caller = createTestCaller(HISTORY_DIR);
+
+      setRunner(createMockRunner({}));
+      const interrupted = await caller.history();
+      expect(interrupted.runs.map((run) => run.status)).toEqual([
+        'interrupted',
+        'exited',
+      ]);
+
+      setRunner(
+        createMockRunner({
+          getStatus: () => ProcessStatusFactory.running(101),
+        }),
+      );
+      const running = await caller.history();
+      expect(running.runs[0]?.status).toBe('running');
+    });
+
+    it('returns a run with its status', async () => {
+      await writeRuns([1000, 2000]);
+      setRunner(createMockRunner({}));
+
+      const run = await createTestCaller(HISTORY_DIR).run({ id: 'run-1000' });
+
+      expect(run).toMatchObject({ id: 'run-1000', status: 'exited' });
+    });
+
+    it("reads ranges of a run's output", async () => {
+      await writeRuns([1000]);
+      const log = ['a', 'b', 'c', 'd']
+        .map((line, i) =>
+          JSON.stringify({ stream: 'stdout', line, timestamp: 1000 + i }),
+        )
+        .join('\n');
+      await writeFile(join(RUNS_DIR, 'run-1000.log'), `${log}\n`);
+      const caller = createTestCaller(HISTORY_DIR);
+
+      const middle = await caller.outputRange({
+        id: 'run-1000',
+        from: 1,
+        to: 3,
+      });
+      expect(middle).toMatchObject({ from: 1, to: 3, total: 4 });
+      expect(middle.lines.map((l) => l.line)).toEqual(['b', 'c']);
+
+      const tail = await caller.outputRange({ id: 'run-1000', tail: 3 });
+      expect(tail).toMatchObject({ from: 1, to: 4, total: 4 });
+      expect(tail.lines.map((l) => l.line)).toEqual(['b', 'c', 'd']);
+
+      await expect(
+        caller.outputRange({ id: 'missing', from: 0 }),
+      ).rejects.toThrow('Run not found: missing');
+    });
+
+    it('throws for unknown runs', async () => {
+      await expect(
+        createTestCaller(HISTORY_DIR).run({ id: 'missing' }),
+      ).rejects.toThrow('Run not found: missing');
+    });
+  });
 });
@@ -1,13 +1,31 @@
 import { z } from 'zod';
 import { router, publicProcedure } from '../trpc';
 import { getProcessRunner } from '../services/process-runner';
+import { readRun, readRuns } from '../services/run-history';
+import { readOutputRange, type OutputPage } from '../services/output-spool';
+import {
+  createRunQueue,
+  type EnqueueResult,
+  type QueuedRun,
+  type RunLimits,
+  type RunQueue,
+} from '../services/run-queue';
+import { loadProjectConfig } from '../services/project-config';
 import { isErr } from '@/lib/result';
-import type {
-  ProcessRunner,
-  ProcessHandle,
-  ProcessStatus,
+import {
+  isRunning,
+  type ProcessRunner,
+  type ProcessHandle,
+  type ProcessStatus,
+  type ProcessRun,
+  type ProcessRunSummary,
 } from '@/lib/process-runner';
 
+/**
+ * Most lines returned by one outputRange query
+ */
+export const MAX_OUTPUT_RANGE_LINES = 5000;
+
 /**
  * Default ProcessRunner instance (singleton).
  * Can be overridden for testing.
@@ -27,9 +45,75 @@ export function getRunner(): ProcessRunner {
 
 /**
  * Set a custom ProcessRunner (for testing).
+ * The run queue is replaced along with it.
  */
 export function setRunner(runner: ProcessRunner | null): void {
   _processRunner = runner;
+  _runQueue = null;
+}
+
+let _runQueue: RunQueue | null = null;
+
+/**
+ * Get the run queue, which starts runs with the ProcessRunner
+ */
+export function getRunQueue(): RunQueue {
+  if (!_runQueue) {
+    _runQueue = createRunQueue(getRunner());
+  }
+  return _runQueue;
+}
+
+/**
+ * Limits on the runs of a command in ralphDir, from the project config
+ */
+async function getRunLimits(
+  ralphDir: string,
+  command: string,
+): Promise<RunLimits> {
+  const config = await loadProjectConfig(ralphDir);
+  const commandLimit = config.commands.find(
+    (c) => c.cmd === command,
+  )?.maxConcurrent;
+  return {
+    project: config.maxConcurrentRuns,
+    ...(commandLimit !== undefined && { command: commandLimit }),
+  };
+}
+
+/**
+ * Whether the project config marks command as destructive (e.g. Stop),
+ * which must never wait behind the runs it is meant to stop
+ */
+async function isDestructive(
+  ralphDir: string,
+  command: string,
+): Promise<boolean> {
+  const config = await loadProjectConfig(ralphDir);
+  return config.commands.some((c) => c.cmd === command && c.destructive);
+}
+
+/**
+ * Get the ProcessRunner after it has picked up the detached processes of
+ * ralphDir that outlived an earlier server
+ */
+async function getAdoptingRunner(ralphDir: string): Promise<ProcessRunner> {
+  const runner = getRunner();
+  await runner.adopt(ralphDir);
+  return runner;
+}
+
+/**
+ * Add the status of a stored run.
+ * A run without an end time that this server isn't running was cut short,
+ * e.g. by a server restart.
+ */
+function summarizeRun(run: ProcessRun): ProcessRunSummary {
+  if (run.endedAt !== null) {
+    return { ...run, status: run.interrupted ? 'interrupted' : 'exited' };
+  }
+  const status = getRunner().getStatus(run.id);
+  return { ...run, status: isRunning(status) ? 'running' : 'interrupted' };
 }
 
 /**
@@ -39,21 +123,63 @@ export function setRunner(runner: ProcessRunner | null): void {
 export const processRouter = router({
   /**
    * Start a new process with the given command.
-   * Runs in ctx.ralphDir as working directory.
+   * Runs in ctx.ralphDir as working directory; detached processes keep
+   * running when the server stops. Commands other than the destructive
+   * ones of the project config only start within the run limits, and
+   * never ahead of queued runs; use enqueue to wait for a slot.
    * Returns the process handle (id + pid) or throws on error.
    */
   start: publicProcedure
     .input(
       z.object({
         command: z.string().min(1, 'Command is required'),
+        detached: z.boolean().optional(),
       }),
     )
     .mutation(async ({ ctx, input }): Promise<ProcessHandle> => {
-      const runner = getRunner();
-      const result = await runner.start({
+      const runner = await getAdoptingRunner(ctx.ralphDir);
+      const opts = {
         command: input.command,
         cwd: ctx.ralphDir,
-      });
+        ...(input.detached && { detached: true }),
+      };
+      const result = (await isDestructive(ctx.ralphDir, input.command))
+        ? await runner.start(opts)
+        : await getRunQueue().startNow(
+            opts,
+            await getRunLimits(ctx.ralphDir, input.command),
+          );
+
+      if (isErr(result)) {
+        throw new Error(`Failed to start process: ${result.error.message}`);
+      }
+
+      return result.value;
+    }),
+
+  /**
+   * Start a command once the project's run limits allow it: right away if
+   * they do, otherwise after the runs queued before it.
+   * Returns the process handle of a started run or the queued run.
+   */
+  enqueue: publicProcedure
+    .input(
+      z.object({
+        command: z.string().min(1, 'Command is required'),
+        detached: z.boolean().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }): Promise<EnqueueResult> => {
+      await getAdoptingRunner(ctx.ralphDir);
+      const limits = await getRunLimits(ctx.ralphDir, input.command);
+      const result = await getRunQueue().enqueue(
+        {
+          command: input.command,
+          cwd: ctx.ralphDir,
+          ...(input.detached && { detached: true }),
+        },
+        limits,
+      );
 
       if (isErr(result)) {
         throw new Error(`Failed to start process: ${result.error.message}`);
@@ -62,6 +188,32 @@ export const processRouter = router({
       return result.value;
     }),
 
+  /**
+   * List the runs waiting in ctx.ralphDir's queue, first to start first
+   */
+  queue: publicProcedure.query(({ ctx }): QueuedRun[] => {
+    return getRunQueue().list(ctx.ralphDir);
+  }),
+
+  /**
+   * Remove a run from the queue before it starts
+   */
+  cancelQueued: publicProcedure
+    .input(
+      z.object({
+        id: z.string().min(1, 'Queued run ID is required'),
+      }),
+    )
+    .mutation(({ input }): { success: true } => {
+      const result = getRunQueue().cancel(input.id);
+
+      if (isErr(result)) {
+        throw new Error(`Failed to cancel run: ${result.error.message}`);
+      }
+
+      return { success: true };
+    }),
+
   /**
    * Get the current status of a process by id.
    * Returns ProcessStatus (running/exited/not_found).
@@ -72,8 +224,8 @@ export const processRouter = router({
         id: z.string().min(1, 'Process ID is required'),
       }),
     )
-    .query(({ input }): ProcessStatus => {
-      const runner = getRunner();
+    .query(async ({ ctx, input }): Promise<ProcessStatus> => {
+      const runner = await getAdoptingRunner(ctx.ralphDir);
       return runner.getStatus(input.id);
     }),
 
@@ -102,8 +254,106 @@ export const processRouter = router({
    * List all currently running processes.
    * Returns array of ProcessHandle objects.
    */
-  list: publicProcedure.query((): ProcessHandle[] => {
-    const runner = getRunner();
+  list: publicProcedure.query(async ({ ctx }): Promise<ProcessHandle[]> => {
+    const runner = await getAdoptingRunner(ctx.ralphDir);
     return runner.listRunning();
   }),
+
+  /**
+   * List past and current runs in ctx.ralphDir, newest first.
+   * The cursor is the offset of the first run to return.
+   */
+  history: publicProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().int().min(1).max(100).default(20),
+          cursor: z.number().int().min(0).nullish(),
+        })
+        .default({ limit: 20 }),
+    )
+    .query(
+      async ({
+        ctx,
+        input,
+      }): Promise<{
+        runs: ProcessRunSummary[];
+        total: number;
+        nextCursor: number | null;
+      }> => {
+        await getAdoptingRunner(ctx.ralphDir);
+        const result = await readRuns(ctx.ralphDir);
+        if (isErr(result)) {
+          throw new Error(result.error);
+        }
+
+        const offset = input.cursor ?? 0;
+        const end = offset + input.limit;
+        return {
+          runs: result.value.slice(offset, end).map(summarizeRun),
+          total: result.value.length,
+          nextCursor: end < result.value.length ? end : null,
+        };
+      },
+    ),
+
+  /**
+   * Get a run from the history
+   */
+  run: publicProcedure
+    .input(
+      z.object({
+        id: z.string().min(1, 'Run ID is required'),
+      }),
+    )
+    .query(async ({ ctx, input }): Promise<ProcessRunSummary> => {
+      await getAdoptingRunner(ctx.ralphDir);
+      const run = await readRun(ctx.ralphDir, input.id);
+      if (isErr(run)) {
+        throw new Error(run.error);
+      }
+      return summarizeRun(run.value);
+    }),
+
+  /**
+   * Read part of the output of a run from the history: lines from..to
+   * (counting from 0, to exclusive) or the last `tail` lines, at most
+   * MAX_OUTPUT_RANGE_LINES at a time
+   */
+  outputRange: publicProcedure
+    .input(
+      z.union([
+        z.object({
+          id: z.string().min(1, 'Run ID is required'),
+          from: z.number().int().min(0),
+          to: z.number().int().min(0).optional(),
+        }),
+        z.object({
+          id: z.string().min(1, 'Run ID is required'),
+          tail: z.number().int().min(1).max(MAX_OUTPUT_RANGE_LINES),
+        }),
+      ]),
+    )
+    .query(async ({ ctx, input }): Promise<OutputPage> => {
+      const run = await readRun(ctx.ralphDir, input.id);
+      if (isErr(run)) {
+        throw new Error(run.error);
+      }
+
+      const range =
+        'tail' in input
+          ? { tail: input.tail }
+          : {
+              from: input.from,
+              to: Math.min(
+                input.to ?? Infinity,
+                input.from + MAX_OUTPUT_RANGE_LINES,
+              ),
+            };
+      const page = await readOutputRange(ctx.ralphDir, input.id, range);
+      if (isErr(page)) {
+        throw new Error(page.error);
+      }
+      return page.value;
+    }),
 });
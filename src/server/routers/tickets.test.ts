@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdir, rm, writeFile, readFile } from 'fs/promises';
+import { execFileSync } from 'child_process';
+import { mkdir, rm, writeFile, readFile, readdir } from 'fs/promises';
 import { join } from 'path';
 import { ticketsRouter } from './tickets';
-import type { Context } from '../trpc';
+import { STATE_DIRNAME, type Context } from '../trpc';
 import type { TicketsFile } from '@/lib/schemas';
 
 const TEST_DIR = join(process.cwd(), '.test-tickets');
@@ -11,13 +12,22 @@ const TICKETS_FILE = join(TEST_DIR, 'tickets.json');
 /**
  * Create a test caller with context pointing to test directory
  */
-function createTestCaller() {
+function createTestCaller(author?: string) {
   const ctx: Context = {
     ralphDir: TEST_DIR,
+    ...(author !== undefined && { author }),
   };
   return ticketsRouter.createCaller(ctx);
 }
 
+/**
+ * Current revision of the test tickets file, which mutations require
+ */
+async function currentRevision(): Promise<string> {
+  const { revision } = await createTestCaller().list();
+  return revision;
+}
+
 /**
  * Write test tickets file
  */
@@ -33,6 +43,27 @@ async function readTestTickets(): Promise<TicketsFile> {
   return JSON.parse(content) as TicketsFile;
 }
 
+/**
+ * Commit a file in the test directory's git repository
+ */
+function commitFile(name: string, message: string) {
+  execFileSync('git', ['add', name], { cwd: TEST_DIR });
+  execFileSync(
+    'git',
+    [
+      '-c',
+      'user.name=Ana',
+      '-c',
+      'user.email=ana@example.com',
+      'commit',
+      '-q',
+      '-m',
+      message,
+    ],
+    { cwd: TEST_DIR },
+  );
+}
+
 describe('tickets router', () => {
   beforeEach(async () => {
     // Create test directory
@@ -49,7 +80,7 @@ describe('tickets router', () => {
   describe('list', () => {
     it('returns empty array when no tickets', async () => {
       const caller = createTestCaller();
-      const tickets = await caller.list();
+      const { tickets } = await caller.list();
       expect(tickets).toEqual([]);
     });
 
@@ -62,12 +93,25 @@ describe('tickets router', () => {
       });
 
       const caller = createTestCaller();
-      const tickets = await caller.list();
+      const { tickets } = await caller.list();
 
       expect(tickets).toHaveLength(2);
       expect(tickets[0]?.title).toBe('First');
       expect(tickets[1]?.title).toBe('Second');
     });
+
+    it('returns a revision that changes when the file changes', async () => {
+      const caller = createTestCaller();
+      const before = await caller.list();
+
+      await writeTestTickets({
+        tickets: [{ id: 1, title: 'First', status: 'pending' }],
+      });
+      const after = await caller.list();
+
+      expect(before.revision).toEqual(expect.any(String));
+      expect(after.revision).not.toBe(before.revision);
+    });
   });
 
   describe('get', () => {
@@ -103,7 +147,10 @@ describe('tickets router', () => {
   describe('create', () => {
     it('creates a ticket with minimal fields', async () => {
       const caller = createTestCaller();
-      const ticket = await caller.create({ title: 'New ticket' });
+      const ticket = await caller.create({
+        title: 'New ticket',
+        revision: await currentRevision(),
+      });
 
       expect(ticket.id).toBe(1);
       expect(ticket.title).toBe('New ticket');
@@ -123,6 +170,7 @@ describe('tickets router', () => {
         title: 'Full ticket',
         description: 'A detailed description',
         priority: 3,
+        revision: await currentRevision(),
       });
 
       expect(ticket.id).toBe(1);
@@ -141,10 +189,40 @@ describe('tickets router', () => {
       });
 
       const caller = createTestCaller();
-      const ticket = await caller.create({ title: 'New ticket' });
+      const ticket = await caller.create({
+        title: 'New ticket',
+        revision: await currentRevision(),
+      });
 
       expect(ticket.id).toBe(11);
     });
+
+    it('applies only one of several creates based on the same revision', async () => {
+      const caller = createTestCaller();
+      const revision = await currentRevision();
+      const results = await Promise.allSettled(
+        Array.from({ length: 5 }, (_, i) =>
+          caller.create({ title: `Ticket ${i}`, revision }),
+        ),
+      );
+
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+      const data = await readTestTickets();
+      expect(data.tickets.map((t) => t.id)).toEqual([1]);
+    });
+
+    it('leaves no temp or lock files behind', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'New ticket',
+        revision: await currentRevision(),
+      });
+
+      const files = await readdir(TEST_DIR);
+      expect(files.filter((f) => f !== STATE_DIRNAME)).toEqual([
+        'tickets.json',
+      ]);
+    });
   });
 
   describe('update', () => {
@@ -157,6 +235,7 @@ describe('tickets router', () => {
       const ticket = await caller.update({
         id: 1,
         data: { status: 'in_progress' },
+        revision: await currentRevision(),
       });
 
       expect(ticket.title).toBe('Original'); // unchanged
@@ -182,6 +261,7 @@ describe('tickets router', () => {
           status: 'completed',
           priority: 5,
         },
+        revision: await currentRevision(),
       });
 
       expect(ticket.title).toBe('Updated');
@@ -197,9 +277,51 @@ describe('tickets router', () => {
 
       const caller = createTestCaller();
       await expect(
-        caller.update({ id: 999, data: { title: 'Updated' } }),
+        caller.update({
+          id: 999,
+          data: { title: 'Updated' },
+          revision: await currentRevision(),
+        }),
       ).rejects.toThrow('Ticket with id 999 not found');
     });
+
+    it('applies the update when the revision matches', async () => {
+      await writeTestTickets({
+        tickets: [{ id: 1, title: 'Original', status: 'pending' }],
+      });
+
+      const caller = createTestCaller();
+      const { revision } = await caller.list();
+      const ticket = await caller.update({
+        id: 1,
+        data: { title: 'Updated' },
+        revision,
+      });
+
+      expect(ticket.title).toBe('Updated');
+    });
+
+    it('rejects the update when tickets.json changed since the revision', async () => {
+      await writeTestTickets({
+        tickets: [{ id: 1, title: 'Original', status: 'pending' }],
+      });
+
+      const caller = createTestCaller();
+      const { revision } = await caller.list();
+
+      // Simulate ralph rewriting the file
+      await writeTestTickets({
+        tickets: [{ id: 1, title: 'Original', status: 'in_progress' }],
+      });
+
+      await expect(
+        caller.update({ id: 1, data: { title: 'Updated' }, revision }),
+      ).rejects.toMatchObject({ code: 'CONFLICT' });
+
+      const data = await readTestTickets();
+      expect(data.tickets[0]?.title).toBe('Original');
+      expect(data.tickets[0]?.status).toBe('in_progress');
+    });
   });
 
   describe('delete', () => {
@@ -212,7 +334,10 @@ describe('tickets router', () => {
       });
 
       const caller = createTestCaller();
-      const result = await caller.delete({ id: 1 });
+      const result = await caller.delete({
+        id: 1,
+        revision: await currentRevision(),
+      });
 
       expect(result.success).toBe(true);
       expect(result.id).toBe(1);
@@ -229,9 +354,1114 @@ describe('tickets router', () => {
       });
 
       const caller = createTestCaller();
-      await expect(caller.delete({ id: 999 })).rejects.toThrow(
-        'Ticket with id 999 not found',
+      await expect(
+        caller.delete({ id: 999, revision: await currentRevision() }),
+      ).rejects.toThrow('Ticket with id 999 not found');
+    });
+
+    it('rejects the delete when tickets.json changed since the revision', async () => {
+      await writeTestTickets({
+        tickets: [{ id: 1, title: 'First', status: 'pending' }],
+      });
+
+      const caller = createTestCaller();
+      const { revision } = await caller.list();
+
+      await writeTestTickets({
+        tickets: [
+          { id: 1, title: 'First', status: 'pending' },
+          { id: 2, title: 'Second', status: 'pending' },
+        ],
+      });
+
+      await expect(caller.delete({ id: 1, revision })).rejects.toMatchObject({
+        code: 'CONFLICT',
+      });
+
+      const data = await readTestTickets();
+      expect(data.tickets).toHaveLength(2);
+    });
+  });
+
+  describe('acceptance criteria', () => {
+    it('creates and updates a ticket with acceptance criteria', async () => {
+      const caller = createTestCaller();
+      const ticket = await caller.create({
+        title: 'With criteria',
+        acceptanceCriteria: [{ text: 'Renders', done: false }],
+        revision: await currentRevision(),
+      });
+
+      expect(ticket.acceptanceCriteria).toEqual([
+        { text: 'Renders', done: false },
+      ]);
+
+      await caller.update({
+        id: ticket.id,
+        data: {
+          acceptanceCriteria: [
+            { text: 'Renders', done: true },
+            { text: 'Has tests', done: false },
+          ],
+        },
+        revision: await currentRevision(),
+      });
+
+      const data = await readTestTickets();
+      expect(data.tickets[0]?.acceptanceCriteria).toEqual([
+        { text: 'Renders', done: true },
+        { text: 'Has tests', done: false },
+      ]);
+    });
+  });
+
+  describe('labels', () => {
+    it('normalizes labels on create and update', async () => {
+      const caller = createTestCaller();
+      const ticket = await caller.create({
+        title: 'Labelled',
+        labels: [' ui', 'ui', 'backend', ''],
+        revision: await currentRevision(),
+      });
+
+      expect(ticket.labels).toEqual(['ui', 'backend']);
+
+      await caller.update({
+        id: ticket.id,
+        data: { labels: ['infra '] },
+        revision: await currentRevision(),
+      });
+
+      const data = await readTestTickets();
+      expect(data.tickets[0]?.labels).toEqual(['infra']);
+    });
+  });
+
+  describe('comments', () => {
+    it('adds comments in order', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'Discussed',
+        revision: await currentRevision(),
+      });
+
+      const first = await caller.addComment({
+        ticketId: 1,
+        author: 'ana',
+        body: 'Tried X, do not do that again',
+        revision: await currentRevision(),
+      });
+      await caller.addComment({
+        ticketId: 1,
+        author: 'ben',
+        body: ' Agreed ',
+        revision: await currentRevision(),
+      });
+
+      expect(first).toMatchObject({
+        author: 'ana',
+        body: 'Tried X, do not do that again',
+      });
+      expect(first.id).toBeTruthy();
+      expect(Date.parse(first.createdAt)).not.toBeNaN();
+
+      const data = await readTestTickets();
+      expect(data.tickets[0]?.comments?.map((c) => [c.author, c.body])).toEqual(
+        [
+          ['ana', 'Tried X, do not do that again'],
+          ['ben', 'Agreed'],
+        ],
+      );
+    });
+
+    it('rejects empty comments and unknown tickets', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'Discussed',
+        revision: await currentRevision(),
+      });
+
+      await expect(
+        caller.addComment({
+          ticketId: 1,
+          author: 'ana',
+          body: '  ',
+          revision: await currentRevision(),
+        }),
+      ).rejects.toThrow('Comment is required');
+      await expect(
+        caller.addComment({
+          ticketId: 2,
+          author: 'ana',
+          body: 'Hi',
+          revision: await currentRevision(),
+        }),
+      ).rejects.toThrow('Ticket with id 2 not found');
+    });
+
+    it('deletes a comment and can undo it', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'Discussed',
+        revision: await currentRevision(),
+      });
+      const comment = await caller.addComment({
+        ticketId: 1,
+        author: 'ana',
+        body: 'Note',
+        revision: await currentRevision(),
+      });
+
+      await caller.deleteComment({
+        ticketId: 1,
+        commentId: comment.id,
+        historyId: 'delete-comment',
+        revision: await currentRevision(),
+      });
+      expect((await readTestTickets()).tickets[0]?.comments).toBeUndefined();
+
+      await caller.undo({
+        entryId: 'delete-comment',
+        revision: await currentRevision(),
+      });
+      expect((await readTestTickets()).tickets[0]?.comments).toEqual([comment]);
+    });
+
+    it('throws for an unknown comment', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'Discussed',
+        revision: await currentRevision(),
+      });
+
+      await expect(
+        caller.deleteComment({
+          ticketId: 1,
+          commentId: 'missing',
+          revision: await currentRevision(),
+        }),
+      ).rejects.toThrow('Comment missing not found on ticket #1');
+    });
+  });
+
+  describe('commits', () => {
+    beforeEach(() => {
+      execFileSync('git', ['init', '-q'], { cwd: TEST_DIR });
+    });
+
+    it('lists commits that mention the ticket, newest first', async () => {
+      commitFile('tickets.json', 'Add tickets');
+      await writeFile(join(TEST_DIR, 'a.txt'), 'a');
+      commitFile('a.txt', 'Start login (#2)');
+      await writeFile(join(TEST_DIR, 'b.txt'), 'b');
+      commitFile('b.txt', 'Unrelated #21');
+      await writeFile(join(TEST_DIR, 'a.txt'), 'a2');
+      commitFile('a.txt', 'Finish login\n\nCloses #2');
+
+      const caller = createTestCaller();
+      const { isRepository, commits } = await caller.commits({ id: 2 });
+
+      expect(isRepository).toBe(true);
+      expect(commits.map((c) => c.subject)).toEqual([
+        'Finish login',
+        'Start login (#2)',
+      ]);
+      expect(commits[0]).toMatchObject({
+        author: 'Ana',
+        body: 'Closes #2',
+        filesChanged: 1,
+      });
+      expect(commits[0]?.shortSha).toHaveLength(7);
+    });
+
+    it('uses the configured commit pattern', async () => {
+      await writeFile(
+        join(TEST_DIR, '.ralph-watch.json'),
+        JSON.stringify({ commitPattern: 'RW-{id}\\b' }),
+      );
+      commitFile('tickets.json', 'RW-5: add tickets (#9)');
+
+      const caller = createTestCaller();
+
+      expect((await caller.commits({ id: 5 })).commits).toHaveLength(1);
+      expect((await caller.commits({ id: 9 })).commits).toHaveLength(0);
+    });
+  });
+
+  describe('import', () => {
+    it('appends tickets with fresh IDs', async () => {
+      await writeTestTickets({
+        tickets: [{ id: 4, title: 'Existing', status: 'pending' }],
+      });
+
+      const caller = createTestCaller();
+      const imported = await caller.import({
+        tickets: [
+          { title: 'First import', status: 'draft' },
+          { title: 'Second import', priority: 2, labels: ['backend'] },
+        ],
+        revision: await currentRevision(),
+      });
+
+      expect(imported.map((t) => t.id)).toEqual([5, 6]);
+      const data = await readTestTickets();
+      expect(data.tickets.map((t) => t.title)).toEqual([
+        'Existing',
+        'First import',
+        'Second import',
+      ]);
+      expect(data.tickets[1]?.status).toBe('draft');
+      expect(data.tickets[2]?.labels).toEqual(['backend']);
+    });
+
+    it('records the import as one undoable history entry', async () => {
+      const caller = createTestCaller();
+      await caller.import({
+        tickets: [{ title: 'A' }, { title: 'B' }],
+        historyId: 'import-1',
+        revision: await currentRevision(),
+      });
+
+      await caller.undo({
+        entryId: 'import-1',
+        revision: await currentRevision(),
+      });
+
+      const data = await readTestTickets();
+      expect(data.tickets).toEqual([]);
+    });
+  });
+
+  describe('export', () => {
+    beforeEach(async () => {
+      await writeTestTickets({
+        tickets: [
+          { id: 1, title: 'Done', status: 'completed' },
+          { id: 2, title: 'Next', status: 'pending' },
+        ],
+      });
+      await writeFile(
+        join(TEST_DIR, 'progress.txt'),
+        '# Ralph Progress Log\n\n## Ticket #1: Done\n- Shipped it\n',
+      );
+    });
+
+    it('exports tickets matching the status filter', async () => {
+      const caller = createTestCaller();
+      const result = await caller.export({
+        format: 'json',
+        status: 'incomplete',
+      });
+
+      expect(result.filename).toMatch(/^tickets-incomplete-.*\.json$/);
+      expect(result.mimeType).toBe('application/json');
+      const json = JSON.parse(result.content);
+      expect(json.tickets.map((t: { id: number }) => t.id)).toEqual([2]);
+    });
+
+    it('includes progress sections unless disabled', async () => {
+      const caller = createTestCaller();
+      const withProgress = await caller.export({ format: 'markdown' });
+      expect(withProgress.content).toContain('- Shipped it');
+
+      const withoutProgress = await caller.export({
+        format: 'markdown',
+        includeProgress: false,
+      });
+      expect(withoutProgress.content).not.toContain('- Shipped it');
+    });
+
+    it('exports without a progress.txt', async () => {
+      await rm(join(TEST_DIR, 'progress.txt'));
+      const caller = createTestCaller();
+      const result = await caller.export({ format: 'csv' });
+      expect(result.content.split('\n')[0]).toContain(',progress');
+      expect(result.content).toContain('1,Done,completed');
+    });
+  });
+
+  describe('timestamps', () => {
+    it('lists status changes made outside ralph-watch without writing them', async () => {
+      await writeTestTickets({
+        tickets: [{ id: 1, title: 'First', status: 'pending' }],
+      });
+      const caller = createTestCaller();
+      await caller.history();
+
+      await writeTestTickets({
+        tickets: [{ id: 1, title: 'First', status: 'in_progress' }],
+      });
+      const { revision } = await caller.list();
+      await caller.history();
+
+      const { tickets, revision: after } = await caller.list();
+      expect(tickets[0]?.statusChangedAt).toEqual(expect.any(String));
+      expect(after).toBe(revision);
+      expect((await readTestTickets()).tickets[0]?.statusChangedAt).toBe(
+        undefined,
+      );
+    });
+
+    it('sets createdAt and updatedAt on create', async () => {
+      const caller = createTestCaller();
+      const ticket = await caller.create({
+        title: 'New',
+        revision: await currentRevision(),
+      });
+
+      expect(ticket.createdAt).toBeDefined();
+      expect(ticket.updatedAt).toBe(ticket.createdAt);
+      const data = await readTestTickets();
+      expect(data.tickets[0]?.createdAt).toBe(ticket.createdAt);
+    });
+
+    it('updates updatedAt only on changed tickets', async () => {
+      await writeTestTickets({
+        tickets: [
+          { id: 1, title: 'First', status: 'pending' },
+          { id: 2, title: 'Second', status: 'pending' },
+        ],
+      });
+      const caller = createTestCaller();
+      const ticket = await caller.update({
+        id: 1,
+        data: { status: 'in_progress' },
+        revision: await currentRevision(),
+      });
+
+      expect(ticket.updatedAt).toBeDefined();
+      const data = await readTestTickets();
+      expect(data.tickets[1]?.updatedAt).toBeUndefined();
+    });
+
+    it('sets and clears dueAt', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'Due',
+        dueAt: '2026-05-01',
+        revision: await currentRevision(),
+      });
+
+      await expect(
+        caller.update({
+          id: 1,
+          data: { dueAt: 'someday' },
+          revision: await currentRevision(),
+        }),
+      ).rejects.toThrow();
+      const cleared = await caller.update({
+        id: 1,
+        data: { dueAt: null },
+        revision: await currentRevision(),
+      });
+
+      expect(cleared.dueAt).toBeUndefined();
+      const data = await readTestTickets();
+      expect(data.tickets[0]).not.toHaveProperty('dueAt');
+    });
+  });
+
+  describe('custom statuses', () => {
+    beforeEach(async () => {
+      await writeFile(
+        join(TEST_DIR, '.ralph-watch.json'),
+        JSON.stringify({
+          ticketStatuses: [
+            {
+              name: 'needs_review',
+              color: 'purple',
+              transitions: ['completed', 'in_progress'],
+            },
+          ],
+        }),
       );
+      await writeTestTickets({
+        tickets: [
+          { id: 1, title: 'Review me', status: 'needs_review' },
+          { id: 2, title: 'Queued', status: 'pending' },
+        ],
+      });
+    });
+
+    it('lists tickets with a configured status without problems', async () => {
+      const caller = createTestCaller();
+      const { problems } = await caller.list();
+      expect(problems).toEqual([]);
+    });
+
+    it('allows configured transitions', async () => {
+      const caller = createTestCaller();
+      const ticket = await caller.update({
+        id: 1,
+        data: { status: 'completed' },
+        revision: await currentRevision(),
+      });
+      expect(ticket.status).toBe('completed');
+    });
+
+    it('rejects transitions the workflow does not allow', async () => {
+      const caller = createTestCaller();
+      await expect(
+        caller.update({
+          id: 1,
+          data: { status: 'draft' },
+          revision: await currentRevision(),
+        }),
+      ).rejects.toThrow(
+        'Ticket #1: Cannot move a ticket from "needs_review" to "draft"',
+      );
+      await expect(
+        caller.bulkUpdate({
+          ids: [1, 2],
+          data: { status: 'pending' },
+          revision: await currentRevision(),
+        }),
+      ).rejects.toThrow('Ticket #1');
+
+      const data = await readTestTickets();
+      expect(data.tickets.map((t) => t.status)).toEqual([
+        'needs_review',
+        'pending',
+      ]);
+    });
+
+    it('rejects statuses that are not configured', async () => {
+      const caller = createTestCaller();
+      await expect(
+        caller.update({
+          id: 2,
+          data: { status: 'blocked' },
+          revision: await currentRevision(),
+        }),
+      ).rejects.toThrow('Unknown status "blocked"');
+    });
+
+    it('exports a configured status filter', async () => {
+      const caller = createTestCaller();
+      const result = await caller.export({
+        format: 'json',
+        status: 'needs_review',
+      });
+      expect(JSON.parse(result.content).tickets).toHaveLength(1);
+
+      await expect(
+        caller.export({ format: 'json', status: 'blocked' }),
+      ).rejects.toThrow('Unknown status filter "blocked"');
+    });
+  });
+
+  describe('invalid entries', () => {
+    beforeEach(async () => {
+      await writeFile(
+        TICKETS_FILE,
+        JSON.stringify({
+          tickets: [
+            { id: 1, title: 'First', status: 'pending' },
+            { id: '2', title: 'String ID', status: 'pending' },
+            { id: 1, title: 'Duplicate', status: 'pending' },
+          ],
+        }),
+      );
+    });
+
+    it('lists valid tickets with the problems', async () => {
+      const caller = createTestCaller();
+      const { tickets, problems } = await caller.list();
+
+      expect(tickets.map((t) => t.title)).toEqual(['First']);
+      expect(problems.map((p) => p.index)).toEqual([1, 2]);
+    });
+
+    it('exports the valid tickets', async () => {
+      const caller = createTestCaller();
+      const result = await caller.export({ format: 'json' });
+
+      const json = JSON.parse(result.content);
+      expect(json.tickets.map((t: { title: string }) => t.title)).toEqual([
+        'First',
+      ]);
+    });
+
+    it('previews repairs without writing', async () => {
+      const caller = createTestCaller();
+      const preview = await caller.repairPreview();
+
+      expect(preview.repairs.map((r) => r.to)).toEqual([2, 3]);
+      expect(preview.remaining).toEqual([]);
+      const data = await readTestTickets();
+      expect(data.tickets[1]?.id).toBe('2');
+    });
+
+    it('repairs string and duplicate IDs', async () => {
+      const caller = createTestCaller();
+      const { revision } = await caller.list();
+      const repairs = await caller.repair({ revision });
+
+      expect(repairs).toHaveLength(2);
+      const { tickets, problems } = await caller.list();
+      expect(tickets.map((t) => t.id)).toEqual([1, 2, 3]);
+      expect(problems).toEqual([]);
+
+      const [entry] = await caller.history();
+      expect(entry?.action).toBe('repair');
+      await expect(
+        caller.undo({ entryId: entry!.id, revision: await currentRevision() }),
+      ).rejects.toThrow('cannot be undone');
+    });
+
+    it('rejects a repair based on an old revision', async () => {
+      const caller = createTestCaller();
+      await expect(caller.repair({ revision: 'stale' })).rejects.toThrow(
+        'changed by another process',
+      );
+    });
+  });
+
+  describe('parentId', () => {
+    it('links a subticket to its parent', async () => {
+      const caller = createTestCaller();
+      const parent = await caller.create({
+        title: 'Big ticket',
+        revision: await currentRevision(),
+      });
+      const child = await caller.create({
+        title: 'Small part',
+        parentId: parent.id,
+        revision: await currentRevision(),
+      });
+
+      expect(child.parentId).toBe(parent.id);
+    });
+
+    it('rejects an unknown parent', async () => {
+      const caller = createTestCaller();
+
+      await expect(
+        caller.create({
+          title: 'Orphan',
+          parentId: 99,
+          revision: await currentRevision(),
+        }),
+      ).rejects.toThrow('Parent ticket #99 not found');
+    });
+
+    it('unlinks subtickets when the parent is deleted', async () => {
+      const caller = createTestCaller();
+      const parent = await caller.create({
+        title: 'Big ticket',
+        revision: await currentRevision(),
+      });
+      const child = await caller.create({
+        title: 'Small part',
+        parentId: parent.id,
+        revision: await currentRevision(),
+      });
+
+      await caller.delete({ id: parent.id, revision: await currentRevision() });
+
+      const data = await readTestTickets();
+      expect(data.tickets).toHaveLength(1);
+      expect(data.tickets[0]?.id).toBe(child.id);
+      expect(data.tickets[0]).not.toHaveProperty('parentId');
+    });
+  });
+
+  describe('reorder', () => {
+    beforeEach(async () => {
+      await writeTestTickets({
+        tickets: [
+          { id: 1, title: 'First', status: 'pending', priority: 1 },
+          { id: 2, title: 'Second', status: 'pending', priority: 2 },
+          { id: 3, title: 'Third', status: 'pending' },
+          { id: 4, title: 'Done', status: 'completed', priority: 1 },
+        ],
+      });
+    });
+
+    it('rewrites priorities in the given order', async () => {
+      const caller = createTestCaller();
+      const result = await caller.reorder({
+        ids: [3, 1, 2],
+        revision: await currentRevision(),
+      });
+
+      expect(result).toEqual([
+        { id: 3, priority: 1 },
+        { id: 1, priority: 2 },
+        { id: 2, priority: 3 },
+      ]);
+
+      const data = await readTestTickets();
+      expect(data.tickets.map((t) => [t.id, t.priority])).toEqual([
+        [1, 2],
+        [2, 3],
+        [3, 1],
+        [4, 1],
+      ]);
+    });
+
+    it('rejects unknown ticket IDs without writing', async () => {
+      const caller = createTestCaller();
+      await expect(
+        caller.reorder({ ids: [2, 99], revision: await currentRevision() }),
+      ).rejects.toThrow('Unknown ticket IDs: #99');
+
+      const data = await readTestTickets();
+      expect(data.tickets[1]?.priority).toBe(2);
+    });
+
+    it('rejects duplicate IDs', async () => {
+      const caller = createTestCaller();
+      await expect(
+        caller.reorder({ ids: [1, 1], revision: await currentRevision() }),
+      ).rejects.toThrow('duplicates');
+    });
+
+    it('rejects a stale revision', async () => {
+      const caller = createTestCaller();
+      const { revision } = await caller.list();
+      await caller.update({
+        id: 1,
+        data: { title: 'Changed' },
+        revision: await currentRevision(),
+      });
+
+      await expect(
+        caller.reorder({ ids: [2, 1], revision }),
+      ).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+  });
+
+  describe('bulk operations', () => {
+    beforeEach(async () => {
+      await writeTestTickets({
+        tickets: [
+          { id: 1, title: 'First', status: 'draft' },
+          { id: 2, title: 'Second', status: 'draft', priority: 4 },
+          { id: 3, title: 'Third', status: 'pending', dependsOn: [1, 2] },
+        ],
+      });
+    });
+
+    it('bulkUpdate applies status and priority to every ID', async () => {
+      const caller = createTestCaller();
+      const updated = await caller.bulkUpdate({
+        ids: [1, 2],
+        data: { status: 'pending', priority: 2 },
+        revision: await currentRevision(),
+      });
+
+      expect(updated.map((t) => t.id)).toEqual([1, 2]);
+
+      const data = await readTestTickets();
+      expect(data.tickets.map((t) => [t.status, t.priority])).toEqual([
+        ['pending', 2],
+        ['pending', 2],
+        ['pending', undefined],
+      ]);
+    });
+
+    it('bulkUpdate leaves omitted fields alone', async () => {
+      const caller = createTestCaller();
+      await caller.bulkUpdate({
+        ids: [2],
+        data: { status: 'completed' },
+        revision: await currentRevision(),
+      });
+
+      const data = await readTestTickets();
+      expect(data.tickets[1]).toMatchObject({
+        status: 'completed',
+        priority: 4,
+      });
+    });
+
+    it('bulkUpdate rejects unknown IDs without writing', async () => {
+      const caller = createTestCaller();
+      await expect(
+        caller.bulkUpdate({
+          ids: [1, 42],
+          data: { status: 'pending' },
+          revision: await currentRevision(),
+        }),
+      ).rejects.toThrow('Unknown ticket IDs: #42');
+
+      const data = await readTestTickets();
+      expect(data.tickets[0]?.status).toBe('draft');
+    });
+
+    it('bulkDelete removes tickets and references to them', async () => {
+      const caller = createTestCaller();
+      const result = await caller.bulkDelete({
+        ids: [1, 2],
+        revision: await currentRevision(),
+      });
+
+      expect(result).toEqual({ success: true, ids: [1, 2] });
+
+      const data = await readTestTickets();
+      expect(data.tickets).toHaveLength(1);
+      expect(data.tickets[0]?.dependsOn).toEqual([]);
+    });
+
+    it('bulkDelete rejects a stale revision', async () => {
+      const caller = createTestCaller();
+      const { revision } = await caller.list();
+      await caller.update({
+        id: 3,
+        data: { title: 'Changed' },
+        revision: await currentRevision(),
+      });
+
+      await expect(
+        caller.bulkDelete({ ids: [1], revision }),
+      ).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+  });
+
+  describe('history', () => {
+    it('records UI mutations with before and after values', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'Original',
+        historyId: 'create-1',
+        revision: await currentRevision(),
+      });
+      await caller.update({
+        id: 1,
+        data: { title: 'Renamed' },
+        revision: await currentRevision(),
+      });
+
+      const history = await caller.history();
+
+      expect(history.map((e) => [e.source, e.action])).toEqual([
+        ['ui', 'update'],
+        ['ui', 'create'],
+      ]);
+      expect(history[1]?.id).toBe('create-1');
+      expect(history[0]?.changes).toEqual([
+        {
+          ticketId: 1,
+          before: expect.objectContaining({ title: 'Original' }),
+          after: expect.objectContaining({ title: 'Renamed' }),
+        },
+      ]);
+    });
+
+    it('records who made a change', async () => {
+      await createTestCaller('Ada').create({
+        title: 'Original',
+        revision: await currentRevision(),
+      });
+      await createTestCaller().update({
+        id: 1,
+        data: { title: 'Renamed' },
+        revision: await currentRevision(),
+      });
+
+      const history = await createTestCaller().history();
+
+      expect(history.map((e) => e.author)).toEqual([undefined, 'Ada']);
+    });
+
+    it('records edits made outside ralph-watch as external', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'Original',
+        revision: await currentRevision(),
+      });
+      await writeTestTickets({
+        tickets: [{ id: 1, title: 'Edited by ralph', status: 'completed' }],
+      });
+
+      const history = await caller.history();
+
+      expect(history[0]).toMatchObject({
+        source: 'external',
+        action: 'external',
+        changes: [
+          {
+            ticketId: 1,
+            before: expect.objectContaining({ title: 'Original' }),
+            after: expect.objectContaining({ title: 'Edited by ralph' }),
+          },
+        ],
+      });
+    });
+
+    it('does not record the initial file contents as a change', async () => {
+      await writeTestTickets({
+        tickets: [{ id: 1, title: 'Existing', status: 'pending' }],
+      });
+      const caller = createTestCaller();
+
+      expect(await caller.history()).toEqual([]);
+    });
+
+    it('filters by ticket and limits results', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'First',
+        revision: await currentRevision(),
+      });
+      await caller.create({
+        title: 'Second',
+        revision: await currentRevision(),
+      });
+      await caller.update({
+        id: 1,
+        data: { status: 'completed' },
+        revision: await currentRevision(),
+      });
+
+      const forFirst = await caller.history({ ticketId: 1 });
+      expect(forFirst.map((e) => e.action)).toEqual(['update', 'create']);
+
+      const latest = await caller.history({ limit: 1 });
+      expect(latest).toHaveLength(1);
+      expect(latest[0]?.action).toBe('update');
+    });
+  });
+
+  describe('undo', () => {
+    it('reverts an update', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'Original',
+        revision: await currentRevision(),
+      });
+      await caller.update({
+        id: 1,
+        data: { title: 'Renamed' },
+        historyId: 'rename',
+        revision: await currentRevision(),
+      });
+
+      await caller.undo({
+        entryId: 'rename',
+        revision: await currentRevision(),
+      });
+
+      const data = await readTestTickets();
+      expect(data.tickets[0]?.title).toBe('Original');
+
+      const history = await caller.history();
+      expect(history[0]).toMatchObject({ action: 'undo', undoOf: 'rename' });
+    });
+
+    it('restores a deleted ticket in ID order', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'First',
+        revision: await currentRevision(),
+      });
+      await caller.create({
+        title: 'Second',
+        revision: await currentRevision(),
+      });
+      await caller.create({
+        title: 'Third',
+        revision: await currentRevision(),
+      });
+      await caller.delete({
+        id: 2,
+        historyId: 'delete-2',
+        revision: await currentRevision(),
+      });
+
+      await caller.undo({
+        entryId: 'delete-2',
+        revision: await currentRevision(),
+      });
+
+      const data = await readTestTickets();
+      expect(data.tickets.map((t) => t.title)).toEqual([
+        'First',
+        'Second',
+        'Third',
+      ]);
+    });
+
+    it('removes a created ticket', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'Oops',
+        historyId: 'create',
+        revision: await currentRevision(),
+      });
+
+      await caller.undo({
+        entryId: 'create',
+        revision: await currentRevision(),
+      });
+
+      const data = await readTestTickets();
+      expect(data.tickets).toEqual([]);
+    });
+
+    it('refuses to undo when the ticket changed since', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'Original',
+        revision: await currentRevision(),
+      });
+      await caller.update({
+        id: 1,
+        data: { title: 'Renamed' },
+        historyId: 'rename',
+        revision: await currentRevision(),
+      });
+      await caller.update({
+        id: 1,
+        data: { status: 'completed' },
+        revision: await currentRevision(),
+      });
+
+      await expect(
+        caller.undo({ entryId: 'rename', revision: await currentRevision() }),
+      ).rejects.toThrow('Ticket #1 has changed since');
+    });
+
+    it('refuses to undo twice', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'Original',
+        historyId: 'create',
+        revision: await currentRevision(),
+      });
+      await caller.undo({
+        entryId: 'create',
+        revision: await currentRevision(),
+      });
+
+      await expect(
+        caller.undo({ entryId: 'create', revision: await currentRevision() }),
+      ).rejects.toThrow('already been undone');
+    });
+
+    it('applies only one of two concurrent undos', async () => {
+      const caller = createTestCaller();
+      await caller.create({
+        title: 'First',
+        revision: await currentRevision(),
+      });
+      await caller.update({
+        id: 1,
+        data: { priority: 5 },
+        historyId: 'priority',
+        revision: await currentRevision(),
+      });
+
+      const revision = await currentRevision();
+      const results = await Promise.allSettled([
+        caller.undo({ entryId: 'priority', revision }),
+        caller.undo({ entryId: 'priority', revision }),
+      ]);
+
+      expect(results.map((r) => r.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      const rejected = results.find((r) => r.status === 'rejected');
+      expect(rejected?.reason).toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('throws for an unknown entry', async () => {
+      const caller = createTestCaller();
+      await expect(
+        caller.undo({ entryId: 'missing', revision: await currentRevision() }),
+      ).rejects.toThrow('History entry missing not found');
+    });
+  });
+
+  describe('dependencies', () => {
+    it('creates a ticket with dependencies', async () => {
+      await writeTestTickets({
+        tickets: [{ id: 1, title: 'First', status: 'pending' }],
+      });
+
+      const caller = createTestCaller();
+      const ticket = await caller.create({
+        title: 'Second',
+        dependsOn: [1],
+        revision: await currentRevision(),
+      });
+
+      expect(ticket.dependsOn).toEqual([1]);
+      const data = await readTestTickets();
+      expect(data.tickets[1]?.dependsOn).toEqual([1]);
+    });
+
+    it('rejects unknown dependency IDs on create', async () => {
+      const caller = createTestCaller();
+      await expect(
+        caller.create({
+          title: 'New',
+          dependsOn: [42],
+          revision: await currentRevision(),
+        }),
+      ).rejects.toThrow('Unknown dependency ticket IDs: #42');
+
+      const data = await readTestTickets();
+      expect(data.tickets).toHaveLength(0);
+    });
+
+    it('rejects updates that introduce a cycle', async () => {
+      await writeTestTickets({
+        tickets: [
+          { id: 1, title: 'First', status: 'pending' },
+          { id: 2, title: 'Second', status: 'pending', dependsOn: [1] },
+        ],
+      });
+
+      const caller = createTestCaller();
+      await expect(
+        caller.update({
+          id: 1,
+          data: { dependsOn: [2] },
+          revision: await currentRevision(),
+        }),
+      ).rejects.toThrow('Dependency cycle detected: #1 → #2 → #1');
+
+      const data = await readTestTickets();
+      expect(data.tickets[0]?.dependsOn).toBeUndefined();
+    });
+
+    it('computes the blocked flag in list', async () => {
+      await writeTestTickets({
+        tickets: [
+          { id: 1, title: 'First', status: 'pending' },
+          { id: 2, title: 'Second', status: 'pending', dependsOn: [1] },
+          { id: 3, title: 'Third', status: 'completed' },
+          { id: 4, title: 'Fourth', status: 'pending', dependsOn: [3] },
+        ],
+      });
+
+      const caller = createTestCaller();
+      const { tickets } = await caller.list();
+
+      expect(tickets.map((t) => t.blocked)).toEqual([
+        false,
+        true,
+        false,
+        false,
+      ]);
+    });
+
+    it('removes references to a deleted ticket', async () => {
+      await writeTestTickets({
+        tickets: [
+          { id: 1, title: 'First', status: 'pending' },
+          { id: 2, title: 'Second', status: 'pending', dependsOn: [1] },
+        ],
+      });
+
+      const caller = createTestCaller();
+      await caller.delete({ id: 1, revision: await currentRevision() });
+
+      const data = await readTestTickets();
+      expect(data.tickets[0]?.dependsOn).toEqual([]);
     });
   });
 });
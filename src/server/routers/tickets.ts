@@ -1,59 +1,215 @@
+import { randomUUID } from 'crypto';
+import { readFile } from 'fs/promises';
 import { z } from 'zod';
-import { readFile, writeFile } from 'fs/promises';
-import { router, publicProcedure, getRalphFilePath } from '../trpc';
+import { TRPCError } from '@trpc/server';
 import {
-  TicketsFileSchema,
+  router,
+  publicProcedure,
+  getRalphFilePath,
+  type Context,
+} from '../trpc';
+import {
+  readRawTicketsFile,
+  readTicketsFile,
+  readTicketsReport,
+  writeTicketsFile,
+  withTicketsLock,
+} from '../services/tickets-file';
+import {
+  AddCommentSchema,
   CreateTicketSchema,
   UpdateTicketSchema,
+  BulkUpdateTicketSchema,
+  type CreateTicket,
   type TicketsFile,
   type Ticket,
+  type TicketComment,
 } from '@/lib/schemas';
-import { ok, err, isErr, tryCatchAsync, type Result } from '@/lib/result';
+import { isErr, tryCatchAsync, type Result } from '@/lib/result';
+import {
+  findUnknownDependencies,
+  findDependencyCycle,
+  formatDependencyCycle,
+  withBlockedState,
+} from '@/lib/ticket-dependencies';
+import { getReorderedPriorities } from '@/lib/ticket-order';
+import { normalizeLabels } from '@/lib/ticket-labels';
+import { applyStatusChanges, stampTicketTimestamps } from '@/lib/ticket-age';
+import {
+  filterTicketsByStatus,
+  isValidTicketStatus,
+} from '@/lib/ticket-filter';
+import {
+  checkTransition,
+  resolveTicketStatuses,
+  type StatusDefinition,
+} from '@/lib/ticket-workflow';
+import {
+  exportFormats,
+  exportTickets,
+  parseProgressSections,
+} from '@/lib/ticket-export';
+import { revertChanges, type HistoryAction } from '@/lib/ticket-history';
+import { repairTickets, validateTicketsFile } from '@/lib/ticket-validation';
+import {
+  readHistory,
+  readStatusChanges,
+  recordChanges,
+  recordExternalChanges,
+  syncExternalChanges,
+} from '../services/ticket-history';
+import { loadProjectConfig } from '../services/project-config';
+import { isGitRepository, readTicketCommits } from '../services/git';
 
 /**
- * Read and parse tickets.json
+ * Revision of tickets.json the caller's view was based on.
+ * The mutation is rejected if the file has changed since.
  */
-async function readTicketsFile(
-  ralphDir: string,
-): Promise<Result<TicketsFile, string>> {
-  const filePath = getRalphFilePath('tickets.json', ralphDir);
+const RevisionSchema = z.string();
 
-  const readResult = await tryCatchAsync(async () => {
-    const content = await readFile(filePath, 'utf-8');
-    return content;
-  });
+/**
+ * Client-chosen ID for the history entry a mutation records, so the client
+ * can offer to undo it
+ */
+const HistoryIdSchema = z.string().min(1).max(100).optional();
+
+interface MutationOptions {
+  action: HistoryAction;
+  revision: string;
+  historyId?: string;
+  undoOf?: string;
+}
 
-  if (isErr(readResult)) {
-    return err(`Failed to read tickets.json: ${readResult.error}`);
+/**
+ * Log a failure to update the history; the tickets.json write itself
+ * has already succeeded
+ */
+function reportHistoryError(result: Result<unknown, string>): void {
+  if (isErr(result)) {
+    console.error(`[history] ${result.error}`);
   }
+}
+
+/**
+ * Read tickets.json or throw
+ */
+async function loadTickets(ralphDir: string) {
+  const result = await readTicketsFile(ralphDir);
+  if (isErr(result)) {
+    throw new Error(result.error);
+  }
+  return result.value;
+}
+
+/**
+ * Ticket statuses for the project, including those from .ralph-watch.json
+ */
+async function loadTicketStatuses(ralphDir: string) {
+  const config = await loadProjectConfig(ralphDir);
+  return resolveTicketStatuses(config.ticketStatuses);
+}
+
+/**
+ * Read tickets.json, leaving out invalid entries, or throw
+ */
+async function loadTicketsReport(ralphDir: string) {
+  const statuses = await loadTicketStatuses(ralphDir);
+  const result = await readTicketsReport(
+    ralphDir,
+    statuses.map((s) => s.name),
+  );
+  if (isErr(result)) {
+    throw new Error(result.error);
+  }
+  return result.value;
+}
 
-  try {
-    const parsed = JSON.parse(readResult.value) as unknown;
-    const validated = TicketsFileSchema.parse(parsed);
-    return ok(validated);
-  } catch (e) {
-    return err(`Failed to parse tickets.json: ${e}`);
+/**
+ * Reject a mutation based on a revision of tickets.json that is out of date
+ */
+function assertRevision(expected: string, actual: string): void {
+  if (expected !== actual) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message:
+        'tickets.json was changed by another process since you loaded it. Reload and try again.',
+    });
   }
 }
 
 /**
- * Write tickets data back to tickets.json
+ * Apply a mutation to tickets.json under the advisory lock.
+ * Re-reads the file inside the lock, checks the expected revision,
+ * runs the mutation, stamps createdAt/updatedAt on the tickets it touched,
+ * writes the result atomically and records it in the ticket history.
  */
-async function writeTicketsFile(
-  data: TicketsFile,
-  ralphDir: string,
-): Promise<Result<void, string>> {
-  const filePath = getRalphFilePath('tickets.json', ralphDir);
+async function mutateTickets<T>(
+  { ralphDir, author }: Context,
+  options: MutationOptions,
+  mutate: (data: TicketsFile) => T | Promise<T>,
+): Promise<T> {
+  const result = await withTicketsLock(ralphDir, async () => {
+    const { data, revision } = await loadTickets(ralphDir);
+
+    // Attribute edits made since our last write before applying this one
+    reportHistoryError(await recordExternalChanges(ralphDir, data.tickets));
+
+    assertRevision(options.revision, revision);
 
-  const writeResult = await tryCatchAsync(async () => {
-    await writeFile(filePath, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+    const before = structuredClone(data.tickets);
+    const value = await mutate(data);
+    stampTicketTimestamps(before, data.tickets, new Date());
+
+    const writeResult = await writeTicketsFile(data, ralphDir);
+    if (isErr(writeResult)) {
+      throw new Error(writeResult.error);
+    }
+
+    reportHistoryError(
+      await recordChanges(ralphDir, {
+        id: options.historyId,
+        source: 'ui',
+        author,
+        action: options.action,
+        before,
+        after: data.tickets,
+        undoOf: options.undoOf,
+      }),
+    );
+
+    return value;
   });
 
-  if (isErr(writeResult)) {
-    return err(`Failed to write tickets.json: ${writeResult.error}`);
+  if (isErr(result)) {
+    throw new Error(result.error);
   }
 
-  return ok(undefined);
+  return result.value;
+}
+
+/**
+ * Ensure the project's workflow allows moving a ticket to a status
+ */
+function assertTransition(
+  statuses: StatusDefinition[],
+  ticket: Ticket,
+  status: string,
+): void {
+  const result = checkTransition(statuses, ticket.status, status);
+  if (isErr(result)) {
+    throw new Error(`Ticket #${ticket.id}: ${result.error}`);
+  }
+}
+
+/**
+ * Find a ticket by ID or throw
+ */
+function findTicket(tickets: Ticket[], id: number): Ticket {
+  const ticket = tickets.find((t) => t.id === id);
+  if (!ticket) {
+    throw new Error(`Ticket with id ${id} not found`);
+  }
+  return ticket;
 }
 
 /**
@@ -67,33 +223,234 @@ function getNextId(tickets: Ticket[]): number {
   return maxId + 1;
 }
 
+/**
+ * Ensure a ticket's dependencies exist and do not form a cycle
+ */
+function assertValidDependencies(tickets: Ticket[], ticket: Ticket): void {
+  const unknownIds = findUnknownDependencies(tickets, ticket.dependsOn ?? []);
+  if (unknownIds.length > 0) {
+    throw new Error(
+      `Unknown dependency ticket IDs: ${unknownIds.map((id) => `#${id}`).join(', ')}`,
+    );
+  }
+
+  const cycle = findDependencyCycle(tickets, ticket.id);
+  if (cycle) {
+    throw new Error(
+      `Dependency cycle detected: ${formatDependencyCycle(cycle)}`,
+    );
+  }
+}
+
+/**
+ * Remove duplicate IDs from a dependsOn list
+ */
+function normalizeDependsOn(dependsOn: number[] | undefined) {
+  return dependsOn ? [...new Set(dependsOn)] : undefined;
+}
+
+/**
+ * Ensure every ID matches an existing ticket
+ */
+function assertTicketsExist(tickets: Ticket[], ids: number[]): void {
+  const unknownIds = findUnknownDependencies(tickets, ids);
+  if (unknownIds.length > 0) {
+    throw new Error(
+      `Unknown ticket IDs: ${unknownIds.map((id) => `#${id}`).join(', ')}`,
+    );
+  }
+}
+
+/**
+ * Remove tickets and drop references to them so dependents are unblocked
+ */
+function removeTickets(data: TicketsFile, ids: number[]): void {
+  const removed = new Set(ids);
+  data.tickets = data.tickets.filter((t) => !removed.has(t.id));
+
+  for (const ticket of data.tickets) {
+    if (ticket.dependsOn?.some((id) => removed.has(id))) {
+      ticket.dependsOn = ticket.dependsOn.filter((id) => !removed.has(id));
+    }
+    if (ticket.parentId !== undefined && removed.has(ticket.parentId)) {
+      delete ticket.parentId;
+    }
+  }
+}
+
+/**
+ * Add a new ticket with the next free ID
+ */
+function appendTicket(data: TicketsFile, input: CreateTicket): Ticket {
+  if (
+    input.parentId !== undefined &&
+    !data.tickets.some((t) => t.id === input.parentId)
+  ) {
+    throw new Error(`Parent ticket #${input.parentId} not found`);
+  }
+
+  const newTicket: Ticket = {
+    id: getNextId(data.tickets),
+    title: input.title,
+    description: input.description,
+    status: input.status ?? 'pending',
+    priority: input.priority,
+    dependsOn: normalizeDependsOn(input.dependsOn),
+    acceptanceCriteria: input.acceptanceCriteria,
+    labels: input.labels && normalizeLabels(input.labels),
+    parentId: input.parentId,
+  };
+
+  data.tickets.push(newTicket);
+  assertValidDependencies(data.tickets, newTicket);
+  return newTicket;
+}
+
+/**
+ * Reject lists that name the same ticket twice
+ */
+const TicketIdsSchema = z
+  .array(z.number())
+  .min(1)
+  .refine((ids) => new Set(ids).size === ids.length, {
+    message: 'Ticket ID list contains duplicates',
+  });
+
 /**
  * tRPC router for tickets CRUD operations
  */
 export const ticketsRouter = router({
   /**
-   * List all tickets
+   * List all tickets along with the current file revision.
+   * Each ticket includes a computed blocked flag, and statusChangedAt
+   * includes status changes made outside ralph-watch. Invalid entries are
+   * left out and reported in problems instead of failing the whole list.
    */
   list: publicProcedure.query(async ({ ctx }) => {
-    const result = await readTicketsFile(ctx.ralphDir);
-    if (isErr(result)) {
-      throw new Error(result.error);
+    const { data, revision, problems } = await loadTicketsReport(ctx.ralphDir);
+    const statusChanges = await readStatusChanges(ctx.ralphDir);
+    const statuses = await loadTicketStatuses(ctx.ralphDir);
+    const tickets = applyStatusChanges(data.tickets, statusChanges);
+    return {
+      tickets: withBlockedState(tickets, statuses),
+      revision,
+      problems,
+    };
+  }),
+
+  /**
+   * Preview what repair would change, and the problems it would leave
+   */
+  repairPreview: publicProcedure.query(async ({ ctx }) => {
+    const statuses = await loadTicketStatuses(ctx.ralphDir);
+    const rawResult = await readRawTicketsFile(ctx.ralphDir);
+    if (isErr(rawResult)) {
+      throw new Error(rawResult.error);
     }
-    return result.value.tickets;
+
+    const { file, repairs } = repairTickets(rawResult.value.raw);
+    return {
+      repairs,
+      remaining: validateTicketsFile(
+        file,
+        statuses.map((s) => s.name),
+      ).problems,
+      revision: rawResult.value.revision,
+    };
   }),
 
+  /**
+   * Fix the safe problems in tickets.json: numeric string IDs are converted
+   * and duplicate IDs renumbered. Returns the repairs made.
+   */
+  repair: publicProcedure
+    .input(z.object({ revision: RevisionSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await withTicketsLock(ctx.ralphDir, async () => {
+        const rawResult = await readRawTicketsFile(ctx.ralphDir);
+        if (isErr(rawResult)) {
+          throw new Error(rawResult.error);
+        }
+        const { raw, revision } = rawResult.value;
+        assertRevision(input.revision, revision);
+
+        const { file, repairs } = repairTickets(raw);
+        if (repairs.length === 0) {
+          return repairs;
+        }
+
+        const before = validateTicketsFile(raw).data.tickets;
+        reportHistoryError(await recordExternalChanges(ctx.ralphDir, before));
+
+        const writeResult = await writeTicketsFile(file, ctx.ralphDir);
+        if (isErr(writeResult)) {
+          throw new Error(writeResult.error);
+        }
+
+        reportHistoryError(
+          await recordChanges(ctx.ralphDir, {
+            source: 'ui',
+            author: ctx.author,
+            action: 'repair',
+            before,
+            after: validateTicketsFile(file).data.tickets,
+          }),
+        );
+
+        return repairs;
+      });
+
+      if (isErr(result)) {
+        throw new Error(result.error);
+      }
+
+      return result.value;
+    }),
+
+  /**
+   * List history entries, newest first.
+   * External edits to tickets.json are recorded before reading.
+   */
+  history: publicProcedure
+    .input(
+      z
+        .object({
+          ticketId: z.number().optional(),
+          limit: z.number().int().min(1).max(500).optional(),
+        })
+        .optional(),
+    )
+    .query(async ({ ctx, input }) => {
+      const syncResult = await syncExternalChanges(ctx.ralphDir);
+      if (isErr(syncResult)) {
+        throw new Error(syncResult.error);
+      }
+
+      const historyResult = await readHistory(ctx.ralphDir);
+      if (isErr(historyResult)) {
+        throw new Error(historyResult.error);
+      }
+
+      const ticketId = input?.ticketId;
+      return historyResult.value
+        .filter(
+          (entry) =>
+            ticketId === undefined ||
+            entry.changes.some((c) => c.ticketId === ticketId),
+        )
+        .reverse()
+        .slice(0, input?.limit ?? 100);
+    }),
+
   /**
    * Get a single ticket by ID
    */
   get: publicProcedure
     .input(z.object({ id: z.number() }))
     .query(async ({ ctx, input }) => {
-      const result = await readTicketsFile(ctx.ralphDir);
-      if (isErr(result)) {
-        throw new Error(result.error);
-      }
+      const { data } = await loadTicketsReport(ctx.ralphDir);
 
-      const ticket = result.value.tickets.find((t) => t.id === input.id);
+      const ticket = data.tickets.find((t) => t.id === input.id);
       if (!ticket) {
         throw new Error(`Ticket with id ${input.id} not found`);
       }
@@ -102,33 +459,111 @@ export const ticketsRouter = router({
     }),
 
   /**
-   * Create a new ticket
+   * Commits on any branch whose message mentions the ticket, newest first.
+   * isRepository is false when the project is not in a git repository.
    */
-  create: publicProcedure
-    .input(CreateTicketSchema)
-    .mutation(async ({ ctx, input }) => {
-      const result = await readTicketsFile(ctx.ralphDir);
-      if (isErr(result)) {
-        throw new Error(result.error);
+  commits: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      if (!(await isGitRepository(ctx.ralphDir))) {
+        return { isRepository: false, commits: [] };
       }
 
-      const data = result.value;
-      const newTicket: Ticket = {
-        id: getNextId(data.tickets),
-        title: input.title,
-        description: input.description,
-        status: input.status ?? 'pending',
-        priority: input.priority,
-      };
+      const commits = await readTicketCommits(ctx.ralphDir, input.id);
+      if (isErr(commits)) {
+        throw new Error(commits.error);
+      }
 
-      data.tickets.push(newTicket);
+      return { isRepository: true, commits: commits.value };
+    }),
 
-      const writeResult = await writeTicketsFile(data, ctx.ralphDir);
-      if (isErr(writeResult)) {
-        throw new Error(writeResult.error);
+  /**
+   * Export a snapshot of the tickets matching a status filter, with their
+   * progress.txt sections unless includeProgress is false
+   */
+  export: publicProcedure
+    .input(
+      z.object({
+        format: z.enum(exportFormats),
+        status: z.string().default('all'),
+        includeProgress: z.boolean().default(true),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const statuses = await loadTicketStatuses(ctx.ralphDir);
+      if (!isValidTicketStatus(input.status, statuses)) {
+        throw new Error(`Unknown status filter "${input.status}"`);
+      }
+      // Export what the list shows, even while some entries are invalid
+      const { data } = await loadTicketsReport(ctx.ralphDir);
+
+      let progress: Map<number, string> | null = null;
+      if (input.includeProgress) {
+        const progressResult = await tryCatchAsync(() =>
+          readFile(getRalphFilePath('progress.txt', ctx.ralphDir), 'utf-8'),
+        );
+        // A missing progress.txt just means there are no notes yet
+        progress = parseProgressSections(
+          isErr(progressResult) ? '' : progressResult.value,
+        );
       }
 
-      return newTicket;
+      const tickets = filterTicketsByStatus(
+        data.tickets,
+        input.status,
+        statuses,
+      );
+      return exportTickets(tickets, {
+        format: input.format,
+        status: input.status,
+        progress,
+      });
+    }),
+
+  /**
+   * Create a new ticket
+   */
+  create: publicProcedure
+    .input(
+      CreateTicketSchema.extend({
+        revision: RevisionSchema,
+        historyId: HistoryIdSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return mutateTickets(
+        ctx,
+        {
+          action: 'create',
+          revision: input.revision,
+          historyId: input.historyId,
+        },
+        (data) => appendTicket(data, input),
+      );
+    }),
+
+  /**
+   * Append many tickets at once (e.g. a backlog imported from Markdown,
+   * CSV or GitHub issues), each with a fresh ID
+   */
+  import: publicProcedure
+    .input(
+      z.object({
+        tickets: z.array(CreateTicketSchema).min(1),
+        revision: RevisionSchema,
+        historyId: HistoryIdSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return mutateTickets(
+        ctx,
+        {
+          action: 'import',
+          revision: input.revision,
+          historyId: input.historyId,
+        },
+        (data) => input.tickets.map((ticket) => appendTicket(data, ticket)),
+      );
     }),
 
   /**
@@ -139,65 +574,317 @@ export const ticketsRouter = router({
       z.object({
         id: z.number(),
         data: UpdateTicketSchema,
+        revision: RevisionSchema,
+        historyId: HistoryIdSchema,
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const result = await readTicketsFile(ctx.ralphDir);
-      if (isErr(result)) {
-        throw new Error(result.error);
-      }
+      const statuses = await loadTicketStatuses(ctx.ralphDir);
 
-      const data = result.value;
-      const ticketIndex = data.tickets.findIndex((t) => t.id === input.id);
-      if (ticketIndex === -1) {
-        throw new Error(`Ticket with id ${input.id} not found`);
-      }
+      return mutateTickets(
+        ctx,
+        {
+          action: 'update',
+          revision: input.revision,
+          historyId: input.historyId,
+        },
+        (data) => {
+          const ticketIndex = data.tickets.findIndex((t) => t.id === input.id);
+          const existingTicket = data.tickets[ticketIndex];
+          if (!existingTicket) {
+            throw new Error(`Ticket with id ${input.id} not found`);
+          }
+          if (input.data.status !== undefined) {
+            assertTransition(statuses, existingTicket, input.data.status);
+          }
 
-      const existingTicket = data.tickets[ticketIndex];
-      if (!existingTicket) {
-        throw new Error(`Ticket with id ${input.id} not found`);
-      }
+          // Merge updates with existing ticket
+          const { dueAt, ...changes } = input.data;
+          const updatedTicket: Ticket = {
+            ...existingTicket,
+            ...changes,
+          };
+          if (dueAt === null) {
+            delete updatedTicket.dueAt;
+          } else if (dueAt !== undefined) {
+            updatedTicket.dueAt = dueAt;
+          }
 
-      // Merge updates with existing ticket
-      const updatedTicket: Ticket = {
-        ...existingTicket,
-        ...input.data,
-      };
+          if (input.data.dependsOn !== undefined) {
+            updatedTicket.dependsOn = normalizeDependsOn(input.data.dependsOn);
+          }
+          if (input.data.labels !== undefined) {
+            updatedTicket.labels = normalizeLabels(input.data.labels);
+          }
 
-      data.tickets[ticketIndex] = updatedTicket;
+          data.tickets[ticketIndex] = updatedTicket;
 
-      const writeResult = await writeTicketsFile(data, ctx.ralphDir);
-      if (isErr(writeResult)) {
-        throw new Error(writeResult.error);
-      }
+          if (input.data.dependsOn !== undefined) {
+            assertValidDependencies(data.tickets, updatedTicket);
+          }
+          return updatedTicket;
+        },
+      );
+    }),
 
-      return updatedTicket;
+  /**
+   * Add a comment to the end of a ticket's thread
+   */
+  addComment: publicProcedure
+    .input(
+      AddCommentSchema.extend({
+        ticketId: z.number(),
+        revision: RevisionSchema,
+        historyId: HistoryIdSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return mutateTickets(
+        ctx,
+        {
+          action: 'comment',
+          revision: input.revision,
+          historyId: input.historyId,
+        },
+        (data) => {
+          const ticket = findTicket(data.tickets, input.ticketId);
+          const comment: TicketComment = {
+            id: randomUUID(),
+            author: input.author,
+            body: input.body,
+            createdAt: new Date().toISOString(),
+          };
+          ticket.comments = [...(ticket.comments ?? []), comment];
+          return comment;
+        },
+      );
+    }),
+
+  /**
+   * Remove a comment from a ticket's thread
+   */
+  deleteComment: publicProcedure
+    .input(
+      z.object({
+        ticketId: z.number(),
+        commentId: z.string(),
+        revision: RevisionSchema,
+        historyId: HistoryIdSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return mutateTickets(
+        ctx,
+        {
+          action: 'deleteComment',
+          revision: input.revision,
+          historyId: input.historyId,
+        },
+        (data) => {
+          const ticket = findTicket(data.tickets, input.ticketId);
+          const comments = ticket.comments ?? [];
+          if (!comments.some((c) => c.id === input.commentId)) {
+            throw new Error(
+              `Comment ${input.commentId} not found on ticket #${input.ticketId}`,
+            );
+          }
+
+          const remaining = comments.filter((c) => c.id !== input.commentId);
+          if (remaining.length > 0) {
+            ticket.comments = remaining;
+          } else {
+            delete ticket.comments;
+          }
+          return { success: true, id: input.commentId };
+        },
+      );
+    }),
+
+  /**
+   * Reorder tickets by rewriting their priorities.
+   * The given IDs receive priorities 1..n in order; other tickets keep theirs.
+   */
+  reorder: publicProcedure
+    .input(
+      z.object({
+        ids: TicketIdsSchema,
+        revision: RevisionSchema,
+        historyId: HistoryIdSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return mutateTickets(
+        ctx,
+        {
+          action: 'reorder',
+          revision: input.revision,
+          historyId: input.historyId,
+        },
+        (data) => {
+          assertTicketsExist(data.tickets, input.ids);
+
+          const priorities = getReorderedPriorities(input.ids);
+          for (const ticket of data.tickets) {
+            const priority = priorities.get(ticket.id);
+            if (priority !== undefined) {
+              ticket.priority = priority;
+            }
+          }
+
+          return [...priorities].map(([id, priority]) => ({ id, priority }));
+        },
+      );
     }),
 
   /**
    * Delete a ticket
    */
   delete: publicProcedure
-    .input(z.object({ id: z.number() }))
+    .input(
+      z.object({
+        id: z.number(),
+        revision: RevisionSchema,
+        historyId: HistoryIdSchema,
+      }),
+    )
     .mutation(async ({ ctx, input }) => {
-      const result = await readTicketsFile(ctx.ralphDir);
-      if (isErr(result)) {
-        throw new Error(result.error);
-      }
+      return mutateTickets(
+        ctx,
+        {
+          action: 'delete',
+          revision: input.revision,
+          historyId: input.historyId,
+        },
+        (data) => {
+          if (!data.tickets.some((t) => t.id === input.id)) {
+            throw new Error(`Ticket with id ${input.id} not found`);
+          }
 
-      const data = result.value;
-      const ticketIndex = data.tickets.findIndex((t) => t.id === input.id);
-      if (ticketIndex === -1) {
-        throw new Error(`Ticket with id ${input.id} not found`);
-      }
+          removeTickets(data, [input.id]);
+          return { success: true, id: input.id };
+        },
+      );
+    }),
 
-      data.tickets.splice(ticketIndex, 1);
+  /**
+   * Revert the changes recorded in a history entry.
+   * Fails if any affected ticket has changed since.
+   */
+  undo: publicProcedure
+    .input(
+      z.object({
+        entryId: z.string(),
+        revision: RevisionSchema,
+        historyId: HistoryIdSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return mutateTickets(
+        ctx,
+        {
+          action: 'undo',
+          revision: input.revision,
+          historyId: input.historyId,
+          undoOf: input.entryId,
+        },
+        // Looked up under the lock so two undos of an entry can't both pass
+        async (data) => {
+          const historyResult = await readHistory(ctx.ralphDir);
+          if (isErr(historyResult)) {
+            throw new Error(historyResult.error);
+          }
 
-      const writeResult = await writeTicketsFile(data, ctx.ralphDir);
-      if (isErr(writeResult)) {
-        throw new Error(writeResult.error);
-      }
+          const entry = historyResult.value.find((e) => e.id === input.entryId);
+          if (!entry) {
+            throw new Error(`History entry ${input.entryId} not found`);
+          }
+          if (historyResult.value.some((e) => e.undoOf === entry.id)) {
+            throw new Error('This change has already been undone');
+          }
+          if (entry.action === 'repair') {
+            // Undoing would drop the renumbered duplicates rather than
+            // restore them
+            throw new Error('Repairs of tickets.json cannot be undone');
+          }
+
+          const reverted = revertChanges(data.tickets, entry.changes);
+          if (isErr(reverted)) {
+            throw new Error(reverted.error);
+          }
+          data.tickets = reverted.value;
+          return {
+            success: true,
+            ticketIds: entry.changes.map((c) => c.ticketId),
+          };
+        },
+      );
+    }),
+
+  /**
+   * Apply the same status and/or priority to many tickets in one write
+   */
+  bulkUpdate: publicProcedure
+    .input(
+      z.object({
+        ids: TicketIdsSchema,
+        data: BulkUpdateTicketSchema,
+        revision: RevisionSchema,
+        historyId: HistoryIdSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const statuses = await loadTicketStatuses(ctx.ralphDir);
+
+      return mutateTickets(
+        ctx,
+        {
+          action: 'bulkUpdate',
+          revision: input.revision,
+          historyId: input.historyId,
+        },
+        (data) => {
+          assertTicketsExist(data.tickets, input.ids);
+
+          const ids = new Set(input.ids);
+          const status = input.data.status;
+          if (status !== undefined) {
+            data.tickets
+              .filter((t) => ids.has(t.id))
+              .forEach((t) => assertTransition(statuses, t, status));
+          }
+          data.tickets = data.tickets.map((ticket) =>
+            ids.has(ticket.id) ? { ...ticket, ...input.data } : ticket,
+          );
+
+          return data.tickets.filter((t) => ids.has(t.id));
+        },
+      );
+    }),
 
-      return { success: true, id: input.id };
+  /**
+   * Delete many tickets in one write
+   */
+  bulkDelete: publicProcedure
+    .input(
+      z.object({
+        ids: TicketIdsSchema,
+        revision: RevisionSchema,
+        historyId: HistoryIdSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return mutateTickets(
+        ctx,
+        {
+          action: 'bulkDelete',
+          revision: input.revision,
+          historyId: input.historyId,
+        },
+        (data) => {
+          assertTicketsExist(data.tickets, input.ids);
+          removeTickets(data, input.ids);
+          return { success: true, ids: input.ids };
+        },
+      );
     }),
 });
@@ -0,0 +1,234 @@
+/**
+ * Read-only access to the git repository a Ralph directory belongs to.
+ * Runs the git CLI with execFile, so arguments are never parsed by a shell.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ok, err, isErr, type Result } from '@/lib/result';
+import { parseUnifiedDiff, type DiffFile } from '@/lib/git-diff';
+import {
+  GIT_LOG_FORMAT,
+  createCommitMatcher,
+  findTicketCommits,
+  parseGitLog,
+  type GitCommit,
+} from '@/lib/ticket-commits';
+import { loadProjectConfig } from './project-config';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * How many recent commits containing a ticket's ID are searched for it
+ */
+export const COMMIT_SCAN_LIMIT = 5000;
+
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Diffs longer than this are cut off so the browser stays responsive
+ */
+export const MAX_DIFF_CHARS = 1024 * 1024;
+
+/**
+ * Files of a diff; truncated when it was cut at MAX_DIFF_CHARS
+ */
+export interface Diff {
+  files: DiffFile[];
+  truncated: boolean;
+}
+
+export interface GitRefs {
+  /**
+   * Current branch, or null when HEAD is detached
+   */
+  head: string | null;
+  branches: string[];
+  tags: string[];
+}
+
+/**
+ * Run a git command in a directory and return its stdout
+ */
+export async function runGit(
+  cwd: string,
+  args: string[],
+): Promise<Result<string, string>> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      maxBuffer: MAX_OUTPUT_BYTES,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    });
+    return ok(stdout);
+  } catch (e) {
+    const stderr = (e as { stderr?: string }).stderr?.trim();
+    return err(
+      `git ${args[0]} failed: ${stderr || (e instanceof Error ? e.message : String(e))}`,
+    );
+  }
+}
+
+/**
+ * Whether the directory is inside a git work tree
+ */
+export async function isGitRepository(cwd: string): Promise<boolean> {
+  const result = await runGit(cwd, ['rev-parse', '--is-inside-work-tree']);
+  return !isErr(result) && result.value.trim() === 'true';
+}
+
+/**
+ * Run git log with args and parse the commits, newest first
+ */
+export async function readCommits(
+  cwd: string,
+  args: string[],
+): Promise<Result<GitCommit[], string>> {
+  const result = await runGit(cwd, [
+    'log',
+    `--format=${GIT_LOG_FORMAT}`,
+    ...args,
+  ]);
+  if (isErr(result)) {
+    return result;
+  }
+  return ok(parseGitLog(result.value));
+}
+
+/**
+ * Commits whose message mentions a ticket, using the project's
+ * commitPattern
+ */
+export async function readTicketCommits(
+  cwd: string,
+  ticketId: number,
+): Promise<Result<GitCommit[], string>> {
+  const config = await loadProjectConfig(cwd);
+  const matcher = createCommitMatcher(config.commitPattern, ticketId);
+  if (isErr(matcher)) {
+    return matcher;
+  }
+
+  // Any match contains the ID, so git can narrow the search down first
+  const candidates = await readCommits(cwd, [
+    '--all',
+    '--fixed-strings',
+    `--grep=${ticketId}`,
+    `--max-count=${COMMIT_SCAN_LIMIT}`,
+  ]);
+  if (isErr(candidates)) {
+    return candidates;
+  }
+
+  const commits = findTicketCommits(candidates.value, matcher.value);
+  if (commits.length === 0) {
+    return ok([]);
+  }
+  // Count changed files only for the commits that matched
+  return readCommits(cwd, [
+    '--no-walk=unsorted',
+    '--shortstat',
+    ...commits.map((commit) => commit.sha),
+  ]);
+}
+
+/**
+ * Branches and tags, for choosing what to compare
+ */
+export async function readRefs(cwd: string): Promise<Result<GitRefs, string>> {
+  const [head, refs] = await Promise.all([
+    runGit(cwd, ['symbolic-ref', '--quiet', '--short', 'HEAD']),
+    runGit(cwd, [
+      'for-each-ref',
+      '--sort=-committerdate',
+      '--format=%(refname)',
+      'refs/heads',
+      'refs/tags',
+    ]),
+  ]);
+  if (isErr(refs)) {
+    return refs;
+  }
+
+  const names = refs.value.split('\n').filter(Boolean);
+  return ok({
+    head: isErr(head) ? null : head.value.trim() || null,
+    branches: names
+      .filter((name) => name.startsWith('refs/heads/'))
+      .map((name) => name.slice('refs/heads/'.length)),
+    tags: names
+      .filter((name) => name.startsWith('refs/tags/'))
+      .map((name) => name.slice('refs/tags/'.length)),
+  });
+}
+
+/**
+ * Resolve a branch, tag or SHA to a full commit SHA
+ */
+export async function resolveCommit(
+  cwd: string,
+  ref: string,
+): Promise<Result<string, string>> {
+  if (ref.startsWith('-')) {
+    return err(`Unknown revision "${ref}"`);
+  }
+  const result = await runGit(cwd, [
+    'rev-parse',
+    '--verify',
+    '--quiet',
+    `${ref}^{commit}`,
+  ]);
+  if (isErr(result)) {
+    return err(`Unknown revision "${ref}"`);
+  }
+  return ok(result.value.trim());
+}
+
+function toDiff(output: string): Diff {
+  if (output.length <= MAX_DIFF_CHARS) {
+    return { files: parseUnifiedDiff(output), truncated: false };
+  }
+  const cut = output.lastIndexOf('\n', MAX_DIFF_CHARS);
+  return {
+    files: parseUnifiedDiff(output.slice(0, cut)),
+    truncated: true,
+  };
+}
+
+const DIFF_OPTIONS = ['--no-color', '--no-ext-diff', '--find-renames'];
+
+/**
+ * Changes made by a single commit; merges are compared with their first
+ * parent
+ */
+export async function readCommitDiff(
+  cwd: string,
+  sha: string,
+): Promise<Result<Diff, string>> {
+  const result = await runGit(cwd, [
+    'show',
+    '--format=',
+    '--diff-merges=first-parent',
+    ...DIFF_OPTIONS,
+    sha,
+  ]);
+  if (isErr(result)) {
+    return result;
+  }
+  return ok(toDiff(result.value));
+}
+
+/**
+ * Changes between two commits
+ */
+export async function readDiff(
+  cwd: string,
+  from: string,
+  to: string,
+): Promise<Result<Diff, string>> {
+  const result = await runGit(cwd, ['diff', ...DIFF_OPTIONS, from, to, '--']);
+  if (isErr(result)) {
+    return result;
+  }
+  return ok(toDiff(result.value));
+}
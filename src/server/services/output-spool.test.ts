@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { readOutputRange, type OutputRange } from './output-spool';
+import type { ProcessOutputLine } from '@/lib/process-runner';
+import { ok, unwrapOr } from '@/lib/result';
+
+const TEST_DIR = join(process.cwd(), '.test-output-spool');
+const RUNS_DIR = join(TEST_DIR, '.ralph-watch', 'runs');
+
+function createLine(i: number): ProcessOutputLine {
+  return { stream: 'stdout', line: `line ${i}`, timestamp: 1000 + i, seq: i };
+}
+
+function toLog(from: number, to: number): string {
+  let log = '';
+  for (let i = from; i < to; i++) {
+    log += `${JSON.stringify(createLine(i))}\n`;
+  }
+  return log;
+}
+
+async function readLines(id: string, range: OutputRange) {
+  const page = unwrapOr(await readOutputRange(TEST_DIR, id, range), null);
+  return page?.lines.map((line) => line.line);
+}
+
+describe('output spool', () => {
+  beforeEach(async () => {
+    await mkdir(RUNS_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('reads ranges and tails of a log', async () => {
+    await writeFile(join(RUNS_DIR, 'run-1.log'), toLog(0, 10));
+
+    expect(
+      await readOutputRange(TEST_DIR, 'run-1', { from: 2, to: 4 }),
+    ).toEqual(
+      ok({ lines: [createLine(2), createLine(3)], from: 2, to: 4, total: 10 }),
+    );
+    expect(await readLines('run-1', { tail: 3 })).toEqual([
+      'line 7',
+      'line 8',
+      'line 9',
+    ]);
+    expect(await readLines('run-1', { from: 8 })).toEqual(['line 8', 'line 9']);
+  });
+
+  it('clamps ranges to the lines in the log', async () => {
+    await writeFile(join(RUNS_DIR, 'run-1.log'), toLog(0, 3));
+
+    expect(await readOutputRange(TEST_DIR, 'run-1', { from: 5 })).toEqual(
+      ok({ lines: [], from: 3, to: 3, total: 3 }),
+    );
+    expect(await readLines('run-1', { tail: 100 })).toEqual([
+      'line 0',
+      'line 1',
+      'line 2',
+    ]);
+  });
+
+  it('picks up lines written after an earlier read', async () => {
+    const path = join(RUNS_DIR, 'run-1.log');
+    await writeFile(path, toLog(0, 2));
+    expect(await readLines('run-1', { from: 0 })).toEqual(['line 0', 'line 1']);
+
+    await appendFile(path, toLog(2, 4));
+    expect(await readLines('run-1', { from: 1 })).toEqual([
+      'line 1',
+      'line 2',
+      'line 3',
+    ]);
+  });
+
+  it('leaves out a line that is still being written', async () => {
+    const path = join(RUNS_DIR, 'run-1.log');
+    const next = JSON.stringify(createLine(2));
+    await writeFile(path, toLog(0, 2) + next.slice(0, 10));
+    expect(await readLines('run-1', { from: 0 })).toEqual(['line 0', 'line 1']);
+
+    await appendFile(path, `${next.slice(10)}\n`);
+    expect(await readLines('run-1', { tail: 1 })).toEqual(['line 2']);
+  });
+
+  it('indexes logs longer than one read', async () => {
+    await writeFile(join(RUNS_DIR, 'run-1.log'), toLog(0, 30_000));
+
+    const page = unwrapOr(
+      await readOutputRange(TEST_DIR, 'run-1', { from: 20_000, to: 20_002 }),
+      null,
+    );
+    expect(page?.total).toBe(30_000);
+    expect(page?.lines).toEqual([createLine(20_000), createLine(20_001)]);
+  });
+
+  it('returns an empty page for a run without output', async () => {
+    expect(await readOutputRange(TEST_DIR, 'run-1', { tail: 10 })).toEqual(
+      ok({ lines: [], from: 0, to: 0, total: 0 }),
+    );
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Ranged reads of a run's output log (<id>.log in the run history).
+ * The byte offset of each line is indexed once and the index is extended
+ * as the log grows, so any range of a long run can be read without
+ * parsing the whole file.
+ */
+
+import { open } from 'fs/promises';
+import type { ProcessOutputLine } from '@/lib/process-runner';
+import { ok, err, type Result } from '@/lib/result';
+import { getRunPaths, isValidRunId, parseOutputLine } from './run-history';
+
+/**
+ * Lines [from, to), or the last `tail` lines
+ */
+export type OutputRange = { from: number; to?: number } | { tail: number };
+
+export interface OutputPage {
+  lines: ProcessOutputLine[];
+  /**
+   * Line number of the first line returned
+   */
+  from: number;
+  /**
+   * Line number after the last line returned
+   */
+  to: number;
+  /**
+   * Lines in the log when it was read
+   */
+  total: number;
+}
+
+/**
+ * Indexes of recently read logs kept in memory
+ */
+const MAX_CACHED_INDEXES = 20;
+
+const SCAN_CHUNK_BYTES = 1024 * 1024;
+
+interface LineIndex {
+  /**
+   * Byte offset where each complete line starts
+   */
+  starts: number[];
+  /**
+   * Bytes covered by complete lines
+   */
+  end: number;
+  /**
+   * Updates of the index, chained so they don't overlap
+   */
+  queue: Promise<void>;
+}
+
+const indexes = new Map<string, LineIndex>();
+
+function getCachedIndex(path: string): LineIndex {
+  let index = indexes.get(path);
+  if (index) {
+    // Most recently used last
+    indexes.delete(path);
+  } else {
+    index = { starts: [], end: 0, queue: Promise.resolve() };
+  }
+  indexes.set(path, index);
+
+  for (const oldest of indexes.keys()) {
+    if (indexes.size <= MAX_CACHED_INDEXES) break;
+    indexes.delete(oldest);
+  }
+  return index;
+}
+
+/**
+ * Index the lines written since the last update
+ */
+async function scanNewLines(path: string, index: LineIndex): Promise<void> {
+  const file = await open(path, 'r');
+  try {
+    const { size } = await file.stat();
+    if (size < index.end) {
+      // The log was replaced; start over
+      index.starts = [];
+      index.end = 0;
+    }
+
+    const buffer = Buffer.alloc(SCAN_CHUNK_BYTES);
+    let position = index.end;
+    let lineStart = index.end;
+    while (position < size) {
+      const { bytesRead } = await file.read(buffer, 0, buffer.length, position);
+      if (bytesRead === 0) break;
+      for (let i = 0; i < bytesRead; i++) {
+        if (buffer[i] === 0x0a) {
+          index.starts.push(lineStart);
+          lineStart = position + i + 1;
+        }
+      }
+      position += bytesRead;
+    }
+    index.end = lineStart;
+  } finally {
+    await file.close();
+  }
+}
+
+function updateIndex(path: string): Promise<LineIndex> {
+  const index = getCachedIndex(path);
+  const update = index.queue.then(() => scanNewLines(path, index));
+  index.queue = update.catch(() => {});
+  return update.then(() => index);
+}
+
+function resolveRange(
+  range: OutputRange,
+  total: number,
+): { from: number; to: number } {
+  if ('tail' in range) {
+    return { from: Math.max(0, total - range.tail), to: total };
+  }
+  const from = Math.min(Math.max(0, range.from), total);
+  const to = Math.min(Math.max(from, range.to ?? total), total);
+  return { from, to };
+}
+
+/**
+ * Read a range of lines from the output log of a run.
+ * A run that hasn't written any output has an empty log.
+ */
+export async function readOutputRange(
+  ralphDir: string,
+  id: string,
+  range: OutputRange,
+): Promise<Result<OutputPage, string>> {
+  if (!isValidRunId(id)) {
+    return err(`Run not found: ${id}`);
+  }
+
+  const path = getRunPaths(ralphDir, id).log;
+  let index: LineIndex;
+  try {
+    index = await updateIndex(path);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return ok({ lines: [], from: 0, to: 0, total: 0 });
+    }
+    return err(`Failed to read output of run ${id}: ${e}`);
+  }
+
+  const total = index.starts.length;
+  const { from, to } = resolveRange(range, total);
+  if (from === to) {
+    return ok({ lines: [], from, to, total });
+  }
+
+  const start = index.starts[from] ?? index.end;
+  const end = index.starts[to] ?? index.end;
+  try {
+    const file = await open(path, 'r');
+    try {
+      const buffer = Buffer.alloc(end - start);
+      await file.read(buffer, 0, buffer.length, start);
+      const lines = buffer
+        .toString('utf-8')
+        .split('\n')
+        .slice(0, to - from)
+        .map((text, i) => parseOutputLine(text, from + i));
+      return ok({ lines, from, to, total });
+    } finally {
+      await file.close();
+    }
+  } catch (e) {
+    return err(`Failed to read output of run ${id}: ${e}`);
+  }
+}
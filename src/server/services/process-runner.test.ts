@@ -4,9 +4,19 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
 import { createProcessRunner, resolveCommand } from './process-runner';
-import { isOk, isErr } from '@/lib/result';
+import { isOk, isErr, unwrapOr } from '@/lib/result';
 import { isRunning, isExited, isNotFound } from '@/lib/process-runner';
+import type { ProcessOutputLine, ProcessRun } from '@/lib/process-runner';
+import {
+  createRunStore,
+  getRunPaths,
+  getRunsDir,
+  readRun,
+  type RunStore,
+} from './run-history';
 
 describe('ProcessRunner', () => {
   let runner: ReturnType<typeof createProcessRunner>;
@@ -237,6 +247,26 @@ describe('ProcessRunner', () => {
       }
     });
 
+    it('should number lines in order with seq', async () => {
+      const result = await runner.start({
+        command: 'echo a; echo b >&2; echo c',
+        cwd: process.cwd(),
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        const seqs: number[] = [];
+        runner.onOutput(result.value.id, (line) => {
+          seqs.push(line.seq);
+        });
+
+        // Wait for output
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect(seqs).toEqual([0, 1, 2]);
+      }
+    });
+
     it('should return unsubscribe function', async () => {
       const result = await runner.start({
         command: 'echo first; sleep 0.1; echo second',
@@ -580,6 +610,224 @@ describe('ProcessRunner', () => {
   });
 });
 
+describe('ProcessRunner with a run store', () => {
+  it('records the start, output and exit of a run', async () => {
+    const started: ProcessRun[] = [];
+    const output: ProcessOutputLine[] = [];
+    const exited: ProcessRun[] = [];
+    let resolveExit: () => void = () => {};
+    const exitRecorded = new Promise<void>((resolve) => {
+      resolveExit = resolve;
+    });
+    const store: RunStore = {
+      recordStart: (run) => started.push(run),
+      appendOutput: (_id, line) => output.push(line),
+      recordExit: (run) => {
+        exited.push(run);
+        resolveExit();
+      },
+      flush: async () => {},
+    };
+    const runner = createProcessRunner({ store });
+
+    const result = await runner.start({
+      command: 'echo hello; exit 3',
+      cwd: process.cwd(),
+    });
+    await exitRecorded;
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(started).toEqual([
+        expect.objectContaining({
+          id: result.value.id,
+          command: 'echo hello; exit 3',
+          cwd: process.cwd(),
+          pid: result.value.pid,
+          endedAt: null,
+          exitCode: null,
+        }),
+      ]);
+      expect(output.map((line) => line.line)).toEqual(['hello']);
+      expect(exited).toEqual([
+        expect.objectContaining({
+          id: result.value.id,
+          endedAt: expect.any(Number),
+          exitCode: 3,
+        }),
+      ]);
+    }
+  });
+});
+
+describe('ProcessRunner detached mode', () => {
+  const DETACHED_DIR = join(process.cwd(), '.test-detached-runs');
+  const runners: ReturnType<typeof createProcessRunner>[] = [];
+
+  function createRunner() {
+    const runner = createProcessRunner({ store: createRunStore() });
+    runners.push(runner);
+    return runner;
+  }
+
+  function waitForExit(
+    runner: ReturnType<typeof createProcessRunner>,
+    id: string,
+  ): Promise<number | null> {
+    return new Promise((resolve) => runner.onExit(id, resolve));
+  }
+
+  /**
+   * Poll until a JSON file the supervisor writes can be read
+   */
+  async function waitForJson(path: string): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return JSON.parse(await readFile(path, 'utf-8'));
+      } catch (error) {
+        if (attempt >= 100) throw error;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+    }
+  }
+
+  beforeEach(async () => {
+    await mkdir(DETACHED_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    for (const runner of runners.splice(0)) {
+      for (const handle of runner.listRunning()) {
+        await runner.kill(handle.id);
+        await waitForExit(runner, handle.id);
+      }
+    }
+    await rm(DETACHED_DIR, { recursive: true, force: true });
+  });
+
+  it('runs the command under the supervisor and follows its output', async () => {
+    const runner = createRunner();
+    const result = await runner.start({
+      command: 'echo hello; echo oops >&2; exit 4',
+      cwd: DETACHED_DIR,
+      detached: true,
+    });
+    expect(isOk(result)).toBe(true);
+    if (!isOk(result)) return;
+
+    expect(await waitForExit(runner, result.value.id)).toBe(4);
+    expect(
+      runner.getOutput(result.value.id).map((l) => [l.stream, l.line]),
+    ).toEqual([
+      ['stdout', 'hello'],
+      ['stderr', 'oops'],
+    ]);
+
+    const paths = getRunPaths(DETACHED_DIR, result.value.id);
+    const exit = JSON.parse(await readFile(paths.exit, 'utf-8'));
+    expect(exit.code).toBe(4);
+    const pid = JSON.parse(await readFile(paths.pid, 'utf-8'));
+    expect(pid.supervisorPid).toBe(result.value.pid);
+  });
+
+  it('adopts detached runs started by another runner', async () => {
+    const first = createRunner();
+    const result = await first.start({
+      command: 'echo before; sleep 1; echo after',
+      cwd: DETACHED_DIR,
+      detached: true,
+    });
+    expect(isOk(result)).toBe(true);
+    if (!isOk(result)) return;
+    // Let the run be saved before another runner looks for it
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const second = createRunner();
+    const adopted = await second.adopt(DETACHED_DIR);
+
+    expect(adopted).toEqual([result.value]);
+    expect(second.listRunning()).toEqual([result.value]);
+    expect(await waitForExit(second, result.value.id)).toBe(0);
+    expect(
+      second.getOutput(result.value.id).map((l) => [l.line, l.seq]),
+    ).toEqual([
+      ['before', 0],
+      ['after', 1],
+    ]);
+    expect(await second.adopt(DETACHED_DIR)).toEqual([result.value]);
+  });
+
+  it('does not adopt a run whose PID now belongs to another process', async () => {
+    const run: ProcessRun = {
+      id: 'reused-pid',
+      command: 'ralph',
+      cwd: DETACHED_DIR,
+      // Alive, but not a supervisor
+      pid: process.pid,
+      startedAt: 1000,
+      endedAt: null,
+      exitCode: null,
+      detached: true,
+    };
+    await mkdir(getRunsDir(DETACHED_DIR), { recursive: true });
+    await writeFile(
+      getRunPaths(DETACHED_DIR, run.id).meta,
+      JSON.stringify(run),
+    );
+    const store = createRunStore();
+    const runner = createProcessRunner({ store });
+
+    expect(await runner.adopt(DETACHED_DIR)).toEqual([]);
+    await store.flush();
+    expect(unwrapOr(await readRun(DETACHED_DIR, run.id), null)).toMatchObject({
+      endedAt: expect.any(Number),
+      exitCode: null,
+      interrupted: true,
+    });
+  });
+
+  it('records a run whose supervisor died as interrupted', async () => {
+    const store = createRunStore();
+    const runner = createProcessRunner({ store });
+    runners.push(runner);
+    const result = await runner.start({
+      command: 'sleep 30',
+      cwd: DETACHED_DIR,
+      detached: true,
+    });
+    expect(isOk(result)).toBe(true);
+    if (!isOk(result)) return;
+
+    // Wait for the supervisor to start the command
+    const paths = getRunPaths(DETACHED_DIR, result.value.id);
+    const pids = (await waitForJson(paths.pid)) as { pid: number };
+    process.kill(result.value.pid, 'SIGKILL');
+    process.kill(-pids.pid, 'SIGKILL');
+
+    expect(await waitForExit(runner, result.value.id)).toBeNull();
+    await store.flush();
+    expect(
+      unwrapOr(await readRun(DETACHED_DIR, result.value.id), null),
+    ).toMatchObject({ endedAt: expect.any(Number), interrupted: true });
+  });
+
+  it('kills a detached process', async () => {
+    const runner = createRunner();
+    const result = await runner.start({
+      command: 'sleep 30',
+      cwd: DETACHED_DIR,
+      detached: true,
+    });
+    expect(isOk(result)).toBe(true);
+    if (!isOk(result)) return;
+
+    // Wait for the supervisor to start the command
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(isOk(await runner.kill(result.value.id))).toBe(true);
+    expect(await waitForExit(runner, result.value.id)).toBeNull();
+  });
+});
+
 describe('resolveCommand', () => {
   const originalEnv = process.env.RALPH_BIN;
 
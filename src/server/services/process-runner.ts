@@ -1,40 +1,77 @@
 /**
  * ProcessRunner implementation using child_process.spawn.
  * Manages spawned processes, captures output, and tracks lifecycle.
+ * Detached processes run under the run supervisor and are followed through
+ * its files instead (see run-supervisor.ts).
  */
 
-import { spawn, type ChildProcess } from 'child_process';
+import { spawn } from 'child_process';
 import { createInterface } from 'readline';
-import { ok, err, type Result } from '@/lib/result';
+import { ok, err, isErr, type Result } from '@/lib/result';
 import {
   type ProcessRunner,
   type ProcessHandle,
+  type ProcessRun,
   type ProcessStatus,
   type ProcessOutputLine,
   type ProcessStartOptions,
   ProcessStatusFactory,
 } from '@/lib/process-runner';
+import { getRalphDir } from '../trpc';
+import {
+  createRunStore,
+  getRunPaths,
+  readRuns,
+  type RunStore,
+} from './run-history';
+import {
+  createLogReader,
+  isProcessAlive,
+  isRunSupervisor,
+  readSupervisorExit,
+  spawnSupervisor,
+} from './run-supervisor';
 
+/**
+ * Output lines kept in memory per process; the run store keeps all of them
+ */
 const MAX_OUTPUT_LINES = 5000;
 
+/**
+ * How often the output log and exit file of a detached process are checked
+ */
+const DETACHED_POLL_INTERVAL_MS = 250;
+
 interface ProcessRecord {
-  child: ChildProcess;
+  run: ProcessRun;
   handle: ProcessHandle;
+  /**
+   * Ask the process to stop
+   */
+  terminate: () => void | Promise<void>;
   output: ProcessOutputLine[];
+  /**
+   * Lines output so far, including those no longer buffered
+   */
+  lineCount: number;
   exitCode: number | null;
   exited: boolean;
   outputCallbacks: Set<(line: ProcessOutputLine) => void>;
   exitCallbacks: Set<(code: number | null) => void>;
 }
 
-function pushOutputLine(record: ProcessRecord, line: ProcessOutputLine): void {
-  if (record.output.length >= MAX_OUTPUT_LINES) {
-    record.output.shift();
-  }
-  record.output.push(line);
+export interface ProcessRunnerOptions {
+  /**
+   * Where runs and their output are saved; runs are only kept in memory
+   * without one
+   */
+  store?: RunStore;
 }
 
-function generateId(): string {
+/**
+ * Unique id for a run. Exported for the run queue.
+ */
+export function generateId(): string {
   const timestamp = Date.now().toString(36);
   const random = Math.random().toString(36).substring(2, 8);
   return `${timestamp}-${random}`;
@@ -75,12 +112,151 @@ export function resolveCommand(command: string): string {
  * Creates a new ProcessRunner instance.
  * Each instance maintains its own map of running processes.
  */
-export function createProcessRunner(): ProcessRunner {
+export function createProcessRunner(
+  options: ProcessRunnerOptions = {},
+): ProcessRunner {
+  const { store } = options;
   const processes = new Map<string, ProcessRecord>();
+  const adoptions = new Map<string, Promise<ProcessHandle[]>>();
+
+  function addRecord(
+    run: ProcessRun,
+    terminate: ProcessRecord['terminate'],
+  ): ProcessRecord {
+    const record: ProcessRecord = {
+      run,
+      handle: { id: run.id, pid: run.pid },
+      terminate,
+      output: [],
+      lineCount: 0,
+      exitCode: null,
+      exited: false,
+      outputCallbacks: new Set(),
+      exitCallbacks: new Set(),
+    };
+    processes.set(run.id, record);
+    return record;
+  }
+
+  function pushOutputLine(
+    record: ProcessRecord,
+    output: Omit<ProcessOutputLine, 'seq'>,
+  ) {
+    const line: ProcessOutputLine = { ...output, seq: record.lineCount++ };
+    if (record.output.length >= MAX_OUTPUT_LINES) {
+      record.output.shift();
+    }
+    record.output.push(line);
+    // The supervisor saves the output of detached runs itself
+    if (!record.run.detached) {
+      store?.appendOutput(record.handle.id, line);
+    }
+    record.outputCallbacks.forEach((cb) => cb(line));
+  }
+
+  function markExited(record: ProcessRecord, code: number | null): void {
+    record.exited = true;
+    record.exitCode = code;
+    record.exitCallbacks.forEach((cb) => cb(code));
+  }
+
+  /**
+   * Stop a detached run through its supervisor, which passes the signal on
+   * to the command
+   */
+  async function terminateDetached(run: ProcessRun): Promise<void> {
+    if (!(await isRunSupervisor(run.cwd, run.id, run.pid))) {
+      throw new Error(`Process ${run.pid} is not the supervisor of ${run.id}`);
+    }
+    process.kill(run.pid, 'SIGTERM');
+  }
+
+  /**
+   * Poll a detached run's output log and exit file until it finishes
+   */
+  function followDetached(record: ProcessRecord): void {
+    const { id, cwd, pid } = record.run;
+    const log = createLogReader(getRunPaths(cwd, id).log);
+    let polling = false;
+
+    async function poll() {
+      if (polling || record.exited) return;
+      polling = true;
+      try {
+        // Checked before the exit file, which is written just before the
+        // supervisor exits
+        const alive = isProcessAlive(pid);
+        const exit = await readSupervisorExit(cwd, id);
+        for (const line of await log.read()) {
+          pushOutputLine(record, line);
+        }
+
+        if (exit) {
+          clearInterval(timer);
+          markExited(record, exit.code);
+          store?.recordExit({
+            ...record.run,
+            endedAt: exit.endedAt,
+            exitCode: exit.code,
+          });
+        } else if (!alive) {
+          // Killed without recording an exit status
+          clearInterval(timer);
+          markExited(record, null);
+          store?.recordExit({
+            ...record.run,
+            endedAt: Date.now(),
+            exitCode: null,
+            interrupted: true,
+          });
+        }
+      } finally {
+        polling = false;
+      }
+    }
+
+    const timer = setInterval(() => void poll(), DETACHED_POLL_INTERVAL_MS);
+    timer.unref();
+    void poll();
+  }
+
+  async function startDetached(
+    opts: ProcessStartOptions,
+  ): Promise<Result<ProcessHandle, Error>> {
+    const id = generateId();
+    const supervisor = await spawnSupervisor({
+      id,
+      command: resolveCommand(opts.command),
+      cwd: opts.cwd,
+    });
+    if (isErr(supervisor)) {
+      return supervisor;
+    }
+
+    const pid = supervisor.value;
+    const run: ProcessRun = {
+      id,
+      command: opts.command,
+      cwd: opts.cwd,
+      pid,
+      startedAt: Date.now(),
+      endedAt: null,
+      exitCode: null,
+      detached: true,
+    };
+    const record = addRecord(run, () => terminateDetached(run));
+    store?.recordStart(run);
+    followDetached(record);
+    return ok(record.handle);
+  }
 
   function start(
     opts: ProcessStartOptions,
   ): Promise<Result<ProcessHandle, Error>> {
+    if (opts.detached) {
+      return startDetached(opts);
+    }
+
     return new Promise((resolve) => {
       const id = generateId();
 
@@ -106,49 +282,56 @@ export function createProcessRunner(): ProcessRunner {
           return;
         }
 
-        const handle: ProcessHandle = { id, pid: child.pid };
-        const record: ProcessRecord = {
-          child,
-          handle,
-          output: [],
-          exitCode: null,
-          exited: false,
-          outputCallbacks: new Set(),
-          exitCallbacks: new Set(),
-        };
-
-        processes.set(id, record);
+        const record = addRecord(
+          {
+            id,
+            command: opts.command,
+            cwd: opts.cwd,
+            pid: child.pid,
+            startedAt: Date.now(),
+            endedAt: null,
+            exitCode: null,
+          },
+          () => {
+            const killed = child.kill('SIGTERM');
+            if (!killed) {
+              child.kill('SIGKILL');
+            }
+          },
+        );
+        store?.recordStart(record.run);
 
         if (child.stdout) {
           const stdoutReader = createInterface({ input: child.stdout });
           stdoutReader.on('line', (line) => {
-            const outputLine: ProcessOutputLine = {
+            pushOutputLine(record, {
               stream: 'stdout',
               line,
               timestamp: Date.now(),
-            };
-            pushOutputLine(record, outputLine);
-            record.outputCallbacks.forEach((cb) => cb(outputLine));
+            });
           });
         }
 
         if (child.stderr) {
           const stderrReader = createInterface({ input: child.stderr });
           stderrReader.on('line', (line) => {
-            const outputLine: ProcessOutputLine = {
+            pushOutputLine(record, {
               stream: 'stderr',
               line,
               timestamp: Date.now(),
-            };
-            pushOutputLine(record, outputLine);
-            record.outputCallbacks.forEach((cb) => cb(outputLine));
+            });
           });
         }
 
-        child.on('exit', (code) => {
-          record.exited = true;
-          record.exitCode = code;
-          record.exitCallbacks.forEach((cb) => cb(code));
+        child.on('exit', (code) => markExited(record, code));
+
+        // Saved on close rather than exit so the output is complete
+        child.on('close', () => {
+          store?.recordExit({
+            ...record.run,
+            endedAt: Date.now(),
+            exitCode: record.exitCode,
+          });
         });
 
         child.on('error', (error) => {
@@ -156,16 +339,14 @@ export function createProcessRunner(): ProcessRunner {
           if (record.exitCode === null) {
             record.exitCode = -1;
           }
-          const outputLine: ProcessOutputLine = {
+          pushOutputLine(record, {
             stream: 'stderr',
             line: `Process error: ${error.message}`,
             timestamp: Date.now(),
-          };
-          pushOutputLine(record, outputLine);
-          record.outputCallbacks.forEach((cb) => cb(outputLine));
+          });
         });
 
-        resolve(ok(handle));
+        resolve(ok(record.handle));
       } catch (error) {
         resolve(err(error instanceof Error ? error : new Error(String(error))));
       }
@@ -185,29 +366,22 @@ export function createProcessRunner(): ProcessRunner {
     return ProcessStatusFactory.running(record.handle.pid);
   }
 
-  function kill(id: string): Promise<Result<void, Error>> {
-    return new Promise((resolve) => {
-      const record = processes.get(id);
-      if (!record) {
-        resolve(err(new Error(`Process not found: ${id}`)));
-        return;
-      }
+  async function kill(id: string): Promise<Result<void, Error>> {
+    const record = processes.get(id);
+    if (!record) {
+      return err(new Error(`Process not found: ${id}`));
+    }
 
-      if (record.exited) {
-        resolve(err(new Error(`Process already exited: ${id}`)));
-        return;
-      }
+    if (record.exited) {
+      return err(new Error(`Process already exited: ${id}`));
+    }
 
-      try {
-        const killed = record.child.kill('SIGTERM');
-        if (!killed) {
-          record.child.kill('SIGKILL');
-        }
-        resolve(ok(undefined));
-      } catch (error) {
-        resolve(err(error instanceof Error ? error : new Error(String(error))));
-      }
-    });
+    try {
+      await record.terminate();
+      return ok(undefined);
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
   }
 
   function onOutput(
@@ -253,6 +427,10 @@ export function createProcessRunner(): ProcessRunner {
     return [...record.output];
   }
 
+  function getRun(id: string): ProcessRun | null {
+    return processes.get(id)?.run ?? null;
+  }
+
   function listRunning(): ProcessHandle[] {
     const running: ProcessHandle[] = [];
     processes.forEach((record) => {
@@ -263,6 +441,57 @@ export function createProcessRunner(): ProcessRunner {
     return running;
   }
 
+  async function adoptFrom(cwd: string): Promise<ProcessHandle[]> {
+    const runs = await readRuns(cwd);
+    if (isErr(runs)) {
+      console.error(`[process] Failed to adopt runs in ${cwd}: ${runs.error}`);
+      return [];
+    }
+
+    const adopted: ProcessHandle[] = [];
+    for (const run of runs.value) {
+      if (!run.detached || run.endedAt !== null || processes.has(run.id)) {
+        continue;
+      }
+
+      // Finished while no server was following it
+      const exit = await readSupervisorExit(cwd, run.id);
+      if (exit) {
+        store?.recordExit({
+          ...run,
+          endedAt: exit.endedAt,
+          exitCode: exit.code,
+        });
+        continue;
+      }
+
+      // Gone, or its PID now belongs to another process
+      if (!(await isRunSupervisor(cwd, run.id, run.pid))) {
+        store?.recordExit({
+          ...run,
+          endedAt: Date.now(),
+          exitCode: null,
+          interrupted: true,
+        });
+        continue;
+      }
+
+      const record = addRecord(run, () => terminateDetached(run));
+      followDetached(record);
+      adopted.push(record.handle);
+    }
+    return adopted;
+  }
+
+  function adopt(cwd: string): Promise<ProcessHandle[]> {
+    let adoption = adoptions.get(cwd);
+    if (!adoption) {
+      adoption = adoptFrom(cwd);
+      adoptions.set(cwd, adoption);
+    }
+    return adoption;
+  }
+
   return {
     start,
     getStatus,
@@ -270,7 +499,9 @@ export function createProcessRunner(): ProcessRunner {
     onOutput,
     onExit,
     getOutput,
+    getRun,
     listRunning,
+    adopt,
   };
 }
 
@@ -278,7 +509,8 @@ let _instance: ProcessRunner | null = null;
 
 export function getProcessRunner(): ProcessRunner {
   if (!_instance) {
-    _instance = createProcessRunner();
+    _instance = createProcessRunner({ store: createRunStore() });
+    void _instance.adopt(getRalphDir());
   }
   return _instance;
 }
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { CONFIG_FILENAME, loadProjectConfig } from './project-config';
+import { defaultConfig } from '@/lib/project-config';
+
+const TEST_DIR = join(process.cwd(), '.test-project-config');
+
+async function writeConfig(config: unknown) {
+  await writeFile(join(TEST_DIR, CONFIG_FILENAME), JSON.stringify(config));
+}
+
+describe('loadProjectConfig', () => {
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('returns the defaults without a config file', async () => {
+    expect(await loadProjectConfig(TEST_DIR)).toEqual(defaultConfig);
+  });
+
+  it('returns the defaults for an invalid file', async () => {
+    await writeConfig({ maxConcurrentRuns: 0 });
+    expect(await loadProjectConfig(TEST_DIR)).toEqual(defaultConfig);
+  });
+
+  it('keeps the rest of the file when the statuses are invalid', async () => {
+    await writeConfig({
+      commands: [{ label: 'Test', cmd: 'pnpm test' }],
+      ticketStatuses: [{ name: 'needs_review', transitions: ['complete'] }],
+      maxConcurrentRuns: 2,
+    });
+
+    const config = await loadProjectConfig(TEST_DIR);
+
+    expect(config.ticketStatuses).toEqual([]);
+    expect(config.commands).toEqual([{ label: 'Test', cmd: 'pnpm test' }]);
+    expect(config.maxConcurrentRuns).toBe(2);
+  });
+
+  it('reads valid statuses', async () => {
+    await writeConfig({
+      ticketStatuses: [{ name: 'wont_fix', closed: true }],
+    });
+
+    const config = await loadProjectConfig(TEST_DIR);
+
+    expect(config.ticketStatuses).toEqual([{ name: 'wont_fix', closed: true }]);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Reads the per-project .ralph-watch.json, falling back to defaults when it
+ * is missing or invalid. Invalid ticketStatuses only drop the statuses.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  ProjectConfigSchema,
+  TicketStatusesConfigSchema,
+  defaultConfig,
+  type ProjectConfig,
+} from '@/lib/project-config';
+import { tryCatchAsync, isErr } from '@/lib/result';
+
+export const CONFIG_FILENAME = '.ralph-watch.json';
+
+export async function loadProjectConfig(
+  ralphDir: string,
+): Promise<Required<ProjectConfig>> {
+  const configPath = path.join(ralphDir, CONFIG_FILENAME);
+
+  const result = await tryCatchAsync(() =>
+    fs.readFile(configPath, 'utf-8').then((content) => JSON.parse(content)),
+  );
+
+  if (isErr(result)) {
+    return defaultConfig;
+  }
+
+  const parsed = ProjectConfigSchema.omit({ ticketStatuses: true }).safeParse(
+    result.value,
+  );
+  if (!parsed.success) {
+    return defaultConfig;
+  }
+
+  // Checked on their own so a mistake there keeps the rest of the file
+  const statuses = TicketStatusesConfigSchema.safeParse(
+    result.value.ticketStatuses ?? [],
+  );
+
+  return {
+    commands: parsed.data.commands ?? defaultConfig.commands,
+    terminalButtons:
+      parsed.data.terminalButtons ?? defaultConfig.terminalButtons,
+    ticketTemplates:
+      parsed.data.ticketTemplates ?? defaultConfig.ticketTemplates,
+    ticketStatuses: statuses.success
+      ? statuses.data
+      : defaultConfig.ticketStatuses,
+    staleAfterHours:
+      parsed.data.staleAfterHours ?? defaultConfig.staleAfterHours,
+    maxConcurrentRuns:
+      parsed.data.maxConcurrentRuns ?? defaultConfig.maxConcurrentRuns,
+    commitPattern: parsed.data.commitPattern ?? defaultConfig.commitPattern,
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  createRunStore,
+  readRun,
+  readRuns,
+  MAX_STORED_RUNS,
+} from './run-history';
+import { readOutputRange } from './output-spool';
+import type { ProcessRun } from '@/lib/process-runner';
+import { ok, err, isErr, unwrapOr } from '@/lib/result';
+
+const TEST_DIR = join(process.cwd(), '.test-run-history');
+const RUNS_DIR = join(TEST_DIR, '.ralph-watch', 'runs');
+
+function createRun(overrides: Partial<ProcessRun> = {}): ProcessRun {
+  return {
+    id: 'run-1',
+    command: 'ralph-once',
+    cwd: TEST_DIR,
+    pid: 100,
+    startedAt: 1000,
+    endedAt: null,
+    exitCode: null,
+    ...overrides,
+  };
+}
+
+describe('run history', () => {
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('saves a run with its output and exit code', async () => {
+    const store = createRunStore();
+    store.recordStart(createRun());
+    store.appendOutput('run-1', {
+      stream: 'stdout',
+      line: 'hello',
+      timestamp: 1100,
+      seq: 0,
+    });
+    store.appendOutput('run-1', {
+      stream: 'stderr',
+      line: 'oops',
+      timestamp: 1200,
+      seq: 1,
+    });
+    store.recordExit(createRun({ endedAt: 1300, exitCode: 1 }));
+    await store.flush();
+
+    const run = await readRun(TEST_DIR, 'run-1');
+    expect(run).toEqual(ok(createRun({ endedAt: 1300, exitCode: 1 })));
+    expect(await readOutputRange(TEST_DIR, 'run-1', { from: 0 })).toEqual(
+      ok({
+        lines: [
+          { stream: 'stdout', line: 'hello', timestamp: 1100, seq: 0 },
+          { stream: 'stderr', line: 'oops', timestamp: 1200, seq: 1 },
+        ],
+        from: 0,
+        to: 2,
+        total: 2,
+      }),
+    );
+  });
+
+  it('keeps unfinished runs without an end time', async () => {
+    const store = createRunStore();
+    store.recordStart(createRun());
+    await store.flush();
+
+    const runs = await readRuns(TEST_DIR);
+    expect(runs).toEqual(ok([createRun()]));
+  });
+
+  it('lists runs newest first and skips invalid files', async () => {
+    const store = createRunStore();
+    store.recordStart(createRun({ id: 'old', startedAt: 1000 }));
+    store.recordStart(createRun({ id: 'new', startedAt: 2000 }));
+    await store.flush();
+    await writeFile(join(RUNS_DIR, 'broken.json'), '{not json');
+
+    const runs = await readRuns(TEST_DIR);
+    expect(unwrapOr(runs, []).map((run) => run.id)).toEqual(['new', 'old']);
+  });
+
+  it('returns no runs when nothing has run', async () => {
+    expect(await readRuns(TEST_DIR)).toEqual(ok([]));
+  });
+
+  it('rejects run IDs outside the runs directory', async () => {
+    expect(await readRun(TEST_DIR, '../tickets')).toEqual(
+      err('Run not found: ../tickets'),
+    );
+    expect(
+      isErr(await readOutputRange(TEST_DIR, '../../etc/passwd', { tail: 1 })),
+    ).toBe(true);
+  });
+
+  it('deletes the oldest finished runs beyond the limit', async () => {
+    await mkdir(RUNS_DIR, { recursive: true });
+    for (let i = 0; i < MAX_STORED_RUNS; i++) {
+      const run = createRun({ id: `run-${i}`, startedAt: i, endedAt: i });
+      await writeFile(join(RUNS_DIR, `${run.id}.json`), JSON.stringify(run));
+    }
+
+    const store = createRunStore();
+    store.recordStart(createRun({ id: 'latest', startedAt: 10_000 }));
+    await store.flush();
+
+    const runs = await readRuns(TEST_DIR);
+    const ids = unwrapOr(runs, []).map((run) => run.id);
+    expect(ids).toHaveLength(MAX_STORED_RUNS);
+    expect(ids[0]).toBe('latest');
+    expect(ids).not.toContain('run-0');
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Persistent history of process runs for a Ralph directory.
+ * Each run is kept in .ralph-watch/runs as <id>.json (command, times and
+ * exit code) and <id>.log (one JSON output line per line), so runs and
+ * their output survive server restarts.
+ */
+
+import { createWriteStream, type WriteStream } from 'fs';
+import { mkdir, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { z } from 'zod';
+import { getRalphStatePath } from '../trpc';
+import type { ProcessOutputLine, ProcessRun } from '@/lib/process-runner';
+import { ok, err, isErr, type Result } from '@/lib/result';
+
+export const RUNS_DIRNAME = 'runs';
+
+/**
+ * Finished runs beyond this many are deleted, oldest first
+ */
+export const MAX_STORED_RUNS = 200;
+
+const ProcessRunSchema = z.object({
+  id: z.string(),
+  command: z.string(),
+  cwd: z.string(),
+  pid: z.number(),
+  startedAt: z.number(),
+  endedAt: z.number().nullable(),
+  exitCode: z.number().nullable(),
+  interrupted: z.boolean().optional(),
+  detached: z.boolean().optional(),
+});
+
+const ProcessOutputLineSchema = z.object({
+  stream: z.enum(['stdout', 'stderr']),
+  line: z.string(),
+  timestamp: z.number(),
+});
+
+/**
+ * Receives a runner's lifecycle events and writes them to disk.
+ * Write failures are logged rather than failing the run.
+ */
+export interface RunStore {
+  recordStart(run: ProcessRun): void;
+  /**
+   * Append a line to a run's output log. Lines are saved without their
+   * seq, which is their position in the log.
+   */
+  appendOutput(id: string, line: ProcessOutputLine): void;
+  /**
+   * Save the end time and exit code of a run, including runs started by an
+   * earlier server
+   */
+  recordExit(run: ProcessRun): void;
+  /**
+   * Resolves once everything recorded so far has been written
+   */
+  flush(): Promise<void>;
+}
+
+/**
+ * Run IDs are generated by the runner; anything else could escape the
+ * runs directory
+ */
+export function isValidRunId(id: string): boolean {
+  return /^[a-z0-9-]+$/i.test(id);
+}
+
+export function getRunsDir(ralphDir: string): string {
+  return getRalphStatePath(RUNS_DIRNAME, ralphDir);
+}
+
+/**
+ * Files of a run. pid and exit are only written for detached runs, by the
+ * run supervisor.
+ */
+export function getRunPaths(ralphDir: string, id: string) {
+  const dir = getRunsDir(ralphDir);
+  return {
+    meta: join(dir, `${id}.json`),
+    log: join(dir, `${id}.log`),
+    pid: join(dir, `${id}.pid`),
+    exit: join(dir, `${id}.exit`),
+  };
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Parse one line of an output log. Text that isn't a saved line (such as a
+ * line written by hand) is kept as stdout so line numbers stay in step.
+ * seq is the line's position in the log.
+ */
+export function parseOutputLine(text: string, seq: number): ProcessOutputLine {
+  try {
+    const parsed = ProcessOutputLineSchema.safeParse(JSON.parse(text));
+    if (parsed.success) {
+      return { ...parsed.data, seq };
+    }
+  } catch {
+    // Not JSON
+  }
+  return { stream: 'stdout', line: text, timestamp: 0, seq };
+}
+
+function reportStoreError(error: unknown): void {
+  console.error(`[runs] Failed to save run history: ${error}`);
+}
+
+/**
+ * Read all stored runs, newest first.
+ * Files that fail to parse are skipped.
+ */
+export async function readRuns(
+  ralphDir: string,
+): Promise<Result<ProcessRun[], string>> {
+  const dir = getRunsDir(ralphDir);
+
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch (e) {
+    if (isNotFound(e)) {
+      return ok([]);
+    }
+    return err(`Failed to read run history: ${e}`);
+  }
+
+  const runs = await Promise.all(
+    names
+      .filter((name) => name.endsWith('.json'))
+      .map(async (name) => {
+        try {
+          const content = await readFile(join(dir, name), 'utf-8');
+          const parsed = ProcessRunSchema.safeParse(JSON.parse(content));
+          return parsed.success ? parsed.data : null;
+        } catch {
+          // Deleted while reading, or partially written
+          return null;
+        }
+      }),
+  );
+
+  return ok(
+    runs
+      .filter((run): run is ProcessRun => run !== null)
+      .sort((a, b) => b.startedAt - a.startedAt),
+  );
+}
+
+/**
+ * Read one stored run
+ */
+export async function readRun(
+  ralphDir: string,
+  id: string,
+): Promise<Result<ProcessRun, string>> {
+  if (!isValidRunId(id)) {
+    return err(`Run not found: ${id}`);
+  }
+
+  try {
+    const content = await readFile(getRunPaths(ralphDir, id).meta, 'utf-8');
+    const parsed = ProcessRunSchema.safeParse(JSON.parse(content));
+    if (!parsed.success) {
+      return err(`Run ${id} is not valid`);
+    }
+    return ok(parsed.data);
+  } catch (e) {
+    if (isNotFound(e)) {
+      return err(`Run not found: ${id}`);
+    }
+    return err(`Failed to read run ${id}: ${e}`);
+  }
+}
+
+/**
+ * Delete the oldest finished runs beyond MAX_STORED_RUNS
+ */
+async function pruneRuns(ralphDir: string): Promise<void> {
+  const runs = await readRuns(ralphDir);
+  if (isErr(runs)) {
+    throw new Error(runs.error);
+  }
+
+  const finished = runs.value.filter((run) => run.endedAt !== null);
+  const excess = runs.value.length - MAX_STORED_RUNS;
+  if (excess <= 0) return;
+
+  for (const run of finished.slice(-excess)) {
+    for (const path of Object.values(getRunPaths(ralphDir, run.id))) {
+      await rm(path, { force: true });
+    }
+  }
+}
+
+interface OpenRun {
+  run: ProcessRun;
+  log: WriteStream | null;
+  /**
+   * Writes for the run, chained so they happen in order
+   */
+  queue: Promise<void>;
+}
+
+/**
+ * Create a RunStore that writes each run to the runs directory of the
+ * run's working directory
+ */
+export function createRunStore(): RunStore {
+  const openRuns = new Map<string, OpenRun>();
+
+  function enqueue(entry: OpenRun, task: () => Promise<void> | void): void {
+    entry.queue = entry.queue.then(task).catch(reportStoreError);
+  }
+
+  function recordStart(run: ProcessRun): void {
+    const entry: OpenRun = { run, log: null, queue: Promise.resolve() };
+    openRuns.set(run.id, entry);
+
+    const paths = getRunPaths(run.cwd, run.id);
+    enqueue(entry, async () => {
+      await mkdir(getRunsDir(run.cwd), { recursive: true });
+      await writeFile(paths.meta, JSON.stringify(run, null, 2));
+      // The supervisor writes the output of detached runs
+      if (!run.detached) {
+        entry.log = createWriteStream(paths.log, { flags: 'a' });
+        entry.log.on('error', reportStoreError);
+      }
+      await pruneRuns(run.cwd);
+    });
+  }
+
+  function appendOutput(id: string, line: ProcessOutputLine): void {
+    const entry = openRuns.get(id);
+    if (!entry) return;
+    enqueue(entry, () => {
+      const { stream, line: text, timestamp } = line;
+      entry.log?.write(
+        `${JSON.stringify({ stream, line: text, timestamp })}\n`,
+      );
+    });
+  }
+
+  function recordExit(run: ProcessRun): void {
+    let entry = openRuns.get(run.id);
+    if (!entry) {
+      entry = { run, log: null, queue: Promise.resolve() };
+      openRuns.set(run.id, entry);
+    }
+
+    const current = entry;
+    current.run = run;
+    const paths = getRunPaths(run.cwd, run.id);
+    enqueue(current, async () => {
+      const log = current.log;
+      if (log) {
+        await new Promise<void>((resolve) => log.end(resolve));
+      }
+      await writeFile(paths.meta, JSON.stringify(current.run, null, 2));
+      openRuns.delete(run.id);
+    });
+  }
+
+  async function flush(): Promise<void> {
+    await Promise.all([...openRuns.values()].map((entry) => entry.queue));
+  }
+
+  return { recordStart, appendOutput, recordExit, flush };
+}
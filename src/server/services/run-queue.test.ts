@@ -0,0 +1,309 @@
+import { describe, it, expect } from 'vitest';
+import { createRunQueue } from './run-queue';
+import {
+  ProcessStatusFactory,
+  type ProcessRun,
+  type ProcessRunner,
+} from '@/lib/process-runner';
+import { ok, err, isOk, unwrapOr } from '@/lib/result';
+
+const PROJECT = '/projects/a';
+const OTHER_PROJECT = '/projects/b';
+
+/**
+ * A runner whose processes run until exit() is called
+ */
+function createFakeRunner() {
+  const runs = new Map<string, ProcessRun>();
+  const exitCallbacks = new Map<string, Array<(code: number | null) => void>>();
+  let nextPid = 100;
+  let failStarts = false;
+  let held: Promise<void> | null = null;
+  let release = () => {};
+
+  const runner: ProcessRunner = {
+    start: async (opts) => {
+      if (held) await held;
+      if (failStarts) return err(new Error('spawn failed'));
+      const pid = nextPid++;
+      const id = `run-${pid}`;
+      runs.set(id, {
+        id,
+        command: opts.command,
+        cwd: opts.cwd,
+        pid,
+        startedAt: 0,
+        endedAt: null,
+        exitCode: null,
+      });
+      return ok({ id, pid });
+    },
+    getStatus: (id) => {
+      const run = runs.get(id);
+      return run
+        ? ProcessStatusFactory.running(run.pid)
+        : ProcessStatusFactory.notFound();
+    },
+    kill: async () => ok(undefined),
+    listRunning: () => [...runs.values()].map(({ id, pid }) => ({ id, pid })),
+    onOutput: () => () => {},
+    onExit: (id, cb) => {
+      exitCallbacks.set(id, [...(exitCallbacks.get(id) ?? []), cb]);
+      return () => {};
+    },
+    getOutput: () => [],
+    getRun: (id) => runs.get(id) ?? null,
+    adopt: async () => [],
+  };
+
+  return {
+    runner,
+    commands: () => [...runs.values()].map((run) => run.command),
+    exit(id: string) {
+      runs.delete(id);
+      for (const cb of exitCallbacks.get(id) ?? []) cb(0);
+    },
+    failStarts(fail: boolean) {
+      failStarts = fail;
+    },
+    /**
+     * Keep starts pending, like a detached run waiting for its supervisor,
+     * until releaseStarts() is called
+     */
+    holdStarts() {
+      held = new Promise((resolve) => {
+        release = () => {
+          held = null;
+          resolve();
+        };
+      });
+    },
+    releaseStarts() {
+      release();
+    },
+  };
+}
+
+/**
+ * Let queued runs start after an exit
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('run queue', () => {
+  it('starts runs right away while under the project limit', async () => {
+    const fake = createFakeRunner();
+    const queue = createRunQueue(fake.runner);
+
+    const first = await queue.enqueue(
+      { command: 'ralph', cwd: PROJECT },
+      { project: 2 },
+    );
+    const second = await queue.enqueue(
+      { command: 'ralph-once', cwd: PROJECT },
+      { project: 2 },
+    );
+
+    expect(first).toEqual(
+      ok({ state: 'started', handle: { id: 'run-100', pid: 100 } }),
+    );
+    expect(unwrapOr(second, null)?.state).toBe('started');
+    expect(fake.commands()).toEqual(['ralph', 'ralph-once']);
+  });
+
+  it('queues runs over the limit and starts them in order as runs exit', async () => {
+    const fake = createFakeRunner();
+    const queue = createRunQueue(fake.runner);
+    const limits = { project: 1 };
+
+    await queue.enqueue({ command: 'ralph', cwd: PROJECT }, limits);
+    const second = await queue.enqueue(
+      { command: 'ralph-once', cwd: PROJECT },
+      limits,
+    );
+    await queue.enqueue({ command: 'ralph-fix', cwd: PROJECT }, limits);
+
+    expect(unwrapOr(second, null)).toMatchObject({
+      state: 'queued',
+      run: { command: 'ralph-once', position: 1 },
+    });
+    expect(
+      queue.list(PROJECT).map((run) => [run.command, run.position]),
+    ).toEqual([
+      ['ralph-once', 1],
+      ['ralph-fix', 2],
+    ]);
+
+    fake.exit('run-100');
+    await settle();
+
+    expect(fake.commands()).toEqual(['ralph-once']);
+    expect(
+      queue.list(PROJECT).map((run) => [run.command, run.position]),
+    ).toEqual([['ralph-fix', 1]]);
+  });
+
+  it('counts runs started outside the queue', async () => {
+    const fake = createFakeRunner();
+    const queue = createRunQueue(fake.runner);
+    await fake.runner.start({ command: 'ralph', cwd: PROJECT });
+
+    const result = await queue.enqueue(
+      { command: 'ralph', cwd: PROJECT },
+      { project: 1 },
+    );
+    expect(unwrapOr(result, null)?.state).toBe('queued');
+
+    fake.exit('run-100');
+    await settle();
+    expect(fake.commands()).toEqual(['ralph']);
+    expect(queue.list(PROJECT)).toEqual([]);
+  });
+
+  it('limits runs of the same command', async () => {
+    const fake = createFakeRunner();
+    const queue = createRunQueue(fake.runner);
+    const limits = { project: 3, command: 1 };
+
+    await queue.enqueue({ command: 'ralph', cwd: PROJECT }, limits);
+    const again = await queue.enqueue(
+      { command: 'ralph', cwd: PROJECT },
+      limits,
+    );
+    const other = await queue.enqueue(
+      { command: 'ralph-once', cwd: PROJECT },
+      limits,
+    );
+
+    expect(unwrapOr(again, null)?.state).toBe('queued');
+    expect(unwrapOr(other, null)?.state).toBe('started');
+  });
+
+  it('keeps the limits of each project apart', async () => {
+    const fake = createFakeRunner();
+    const queue = createRunQueue(fake.runner);
+
+    await queue.enqueue({ command: 'ralph', cwd: PROJECT }, { project: 1 });
+    const result = await queue.enqueue(
+      { command: 'ralph', cwd: OTHER_PROJECT },
+      { project: 1 },
+    );
+
+    expect(unwrapOr(result, null)?.state).toBe('started');
+  });
+
+  it('cancels a queued run', async () => {
+    const fake = createFakeRunner();
+    const queue = createRunQueue(fake.runner);
+    await queue.enqueue({ command: 'ralph', cwd: PROJECT }, { project: 1 });
+    const queued = unwrapOr(
+      await queue.enqueue(
+        { command: 'ralph-once', cwd: PROJECT },
+        { project: 1 },
+      ),
+      null,
+    );
+    if (queued?.state !== 'queued') throw new Error('Expected a queued run');
+
+    expect(isOk(queue.cancel(queued.run.id))).toBe(true);
+    expect(queue.list(PROJECT)).toEqual([]);
+    expect(queue.cancel(queued.run.id)).toEqual(
+      err(new Error(`Queued run not found: ${queued.run.id}`)),
+    );
+
+    fake.exit('run-100');
+    await settle();
+    expect(fake.commands()).toEqual([]);
+  });
+
+  it('queues again after the last queued run is cancelled', async () => {
+    const fake = createFakeRunner();
+    const queue = createRunQueue(fake.runner);
+    await queue.enqueue({ command: 'ralph', cwd: PROJECT }, { project: 1 });
+    const queued = unwrapOr(
+      await queue.enqueue(
+        { command: 'ralph-once', cwd: PROJECT },
+        { project: 1 },
+      ),
+      null,
+    );
+    if (queued?.state !== 'queued') throw new Error('Expected a queued run');
+    queue.cancel(queued.run.id);
+
+    await queue.enqueue({ command: 'ralph-fix', cwd: PROJECT }, { project: 1 });
+    expect(queue.list(PROJECT).map((run) => run.command)).toEqual([
+      'ralph-fix',
+    ]);
+
+    fake.exit('run-100');
+    await settle();
+    expect(fake.commands()).toEqual(['ralph-fix']);
+  });
+
+  it('does not start a run cancelled while another run is starting', async () => {
+    const fake = createFakeRunner();
+    const queue = createRunQueue(fake.runner);
+    const limits = { project: 2 };
+    await queue.enqueue({ command: 'ralph', cwd: PROJECT }, limits);
+    await queue.enqueue({ command: 'ralph-once', cwd: PROJECT }, limits);
+    for (const command of ['ralph-b', 'ralph-c', 'ralph-d']) {
+      await queue.enqueue({ command, cwd: PROJECT }, limits);
+    }
+    const cancelled = queue.list(PROJECT)[1]!;
+
+    fake.holdStarts();
+    fake.exit('run-100');
+    fake.exit('run-101');
+    await settle();
+    expect(isOk(queue.cancel(cancelled.id))).toBe(true);
+    fake.releaseStarts();
+    await settle();
+
+    expect(fake.commands()).toEqual(['ralph-b', 'ralph-d']);
+    expect(queue.list(PROJECT)).toEqual([]);
+  });
+
+  it('starts a run now only while under the limits', async () => {
+    const fake = createFakeRunner();
+    const queue = createRunQueue(fake.runner);
+
+    expect(
+      await queue.startNow({ command: 'ralph', cwd: PROJECT }, { project: 1 }),
+    ).toEqual(ok({ id: 'run-100', pid: 100 }));
+    expect(
+      await queue.startNow({ command: 'ralph', cwd: PROJECT }, { project: 1 }),
+    ).toEqual(err(new Error('Run limit reached, queue ralph instead')));
+    expect(fake.commands()).toEqual(['ralph']);
+  });
+
+  it('does not start a run now ahead of queued runs', async () => {
+    const fake = createFakeRunner();
+    const queue = createRunQueue(fake.runner);
+    await queue.enqueue({ command: 'ralph', cwd: PROJECT }, { project: 1 });
+    await queue.enqueue(
+      { command: 'ralph-once', cwd: PROJECT },
+      { project: 1 },
+    );
+
+    expect(
+      isOk(
+        await queue.startNow(
+          { command: 'ralph-fix', cwd: PROJECT },
+          { project: 2 },
+        ),
+      ),
+    ).toBe(false);
+  });
+
+  it('returns the error when a run fails to start', async () => {
+    const fake = createFakeRunner();
+    fake.failStarts(true);
+    const queue = createRunQueue(fake.runner);
+
+    expect(
+      await queue.enqueue({ command: 'ralph', cwd: PROJECT }, { project: 1 }),
+    ).toEqual(err(new Error('spawn failed')));
+    expect(queue.list(PROJECT)).toEqual([]);
+  });
+});
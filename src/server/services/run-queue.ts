@@ -0,0 +1,252 @@
+/**
+ * Per-project queue of runs waiting for a free slot.
+ * A project runs at most `limits.project` runs at once, and at most
+ * `limits.command` runs of the same command; a run that would go over
+ * waits here and starts, in order, once others exit. Runs started
+ * directly through the runner count towards the limits but never wait;
+ * startNow() starts a run only if it would not have to wait.
+ */
+
+import { ok, err, isErr, type Result } from '@/lib/result';
+import type {
+  ProcessHandle,
+  ProcessRunner,
+  ProcessStartOptions,
+} from '@/lib/process-runner';
+import { generateId } from './process-runner';
+
+export interface RunLimits {
+  /**
+   * Most runs in the project at once
+   */
+  project: number;
+  /**
+   * Most runs of the command at once; only the project limit applies
+   * when omitted
+   */
+  command?: number;
+}
+
+export interface QueuedRun {
+  readonly id: string;
+  readonly command: string;
+  readonly queuedAt: number;
+  /**
+   * Place in the project's queue, from 1
+   */
+  readonly position: number;
+}
+
+export type EnqueueResult =
+  | { readonly state: 'started'; readonly handle: ProcessHandle }
+  | { readonly state: 'queued'; readonly run: QueuedRun };
+
+export interface RunQueue {
+  /**
+   * Start a run now if the limits allow it, or queue it otherwise
+   */
+  enqueue(
+    opts: ProcessStartOptions,
+    limits: RunLimits,
+  ): Promise<Result<EnqueueResult, Error>>;
+  /**
+   * Start a run now, or fail if the limits don't allow it or runs are
+   * waiting in the project's queue
+   */
+  startNow(
+    opts: ProcessStartOptions,
+    limits: RunLimits,
+  ): Promise<Result<ProcessHandle, Error>>;
+  /**
+   * Runs waiting in the queue of a project, first to start first
+   */
+  list(cwd: string): QueuedRun[];
+  /**
+   * Remove a run from the queue before it starts
+   */
+  cancel(id: string): Result<void, Error>;
+}
+
+interface QueueEntry {
+  id: string;
+  opts: ProcessStartOptions;
+  limits: RunLimits;
+  queuedAt: number;
+  /**
+   * Outcome of starting the run, once it has left the queue
+   */
+  started: Result<ProcessHandle, Error> | null;
+}
+
+export function createRunQueue(runner: ProcessRunner): RunQueue {
+  const queues = new Map<string, QueueEntry[]>();
+  // Runs of each project are started one at a time
+  const pumps = new Map<string, Promise<void>>();
+  // Running processes whose exit starts the next queued run
+  const watched = new Set<string>();
+
+  /**
+   * Commands of the processes running in a project
+   */
+  function getActiveCommands(cwd: string): string[] {
+    const commands: string[] = [];
+    for (const handle of runner.listRunning()) {
+      const run = runner.getRun(handle.id);
+      if (run?.cwd === cwd) {
+        commands.push(run.command);
+      }
+    }
+    return commands;
+  }
+
+  function hasSlot(
+    command: string,
+    limits: RunLimits,
+    active: string[],
+  ): boolean {
+    if (active.length >= limits.project) {
+      return false;
+    }
+    return (
+      limits.command === undefined ||
+      active.filter((cmd) => cmd === command).length < limits.command
+    );
+  }
+
+  function watchActiveRuns(cwd: string): void {
+    for (const handle of runner.listRunning()) {
+      if (watched.has(handle.id) || runner.getRun(handle.id)?.cwd !== cwd) {
+        continue;
+      }
+      watched.add(handle.id);
+      runner.onExit(handle.id, () => {
+        watched.delete(handle.id);
+        void pump(cwd);
+      });
+    }
+  }
+
+  async function startWaiting(cwd: string): Promise<void> {
+    const queue = queues.get(cwd) ?? [];
+    for (const entry of [...queue]) {
+      // Skip runs cancelled while an earlier one was starting
+      const index = queue.indexOf(entry);
+      if (
+        index === -1 ||
+        !hasSlot(entry.opts.command, entry.limits, getActiveCommands(cwd))
+      ) {
+        continue;
+      }
+
+      queue.splice(index, 1);
+      entry.started = await runner.start(entry.opts);
+      if (isErr(entry.started)) {
+        console.error(
+          `[queue] Failed to start ${entry.opts.command}: ${entry.started.error.message}`,
+        );
+      }
+    }
+
+    if (queue.length > 0) {
+      watchActiveRuns(cwd);
+    } else if (queues.get(cwd) === queue) {
+      queues.delete(cwd);
+    }
+  }
+
+  /**
+   * Run task after the project's earlier starts have finished
+   */
+  function serialize<T>(cwd: string, task: () => Promise<T>): Promise<T> {
+    const next = (pumps.get(cwd) ?? Promise.resolve()).then(task);
+    pumps.set(
+      cwd,
+      next.then(
+        () => undefined,
+        () => undefined,
+      ),
+    );
+    return next;
+  }
+
+  function pump(cwd: string): Promise<void> {
+    return serialize(cwd, () => startWaiting(cwd)).catch((error) =>
+      console.error(`[queue] ${error}`),
+    );
+  }
+
+  function toQueuedRun(entry: QueueEntry, index: number): QueuedRun {
+    return {
+      id: entry.id,
+      command: entry.opts.command,
+      queuedAt: entry.queuedAt,
+      position: index + 1,
+    };
+  }
+
+  async function enqueue(
+    opts: ProcessStartOptions,
+    limits: RunLimits,
+  ): Promise<Result<EnqueueResult, Error>> {
+    const entry: QueueEntry = {
+      id: generateId(),
+      opts,
+      limits,
+      queuedAt: Date.now(),
+      started: null,
+    };
+    const queue = queues.get(opts.cwd) ?? [];
+    queue.push(entry);
+    queues.set(opts.cwd, queue);
+
+    await pump(opts.cwd);
+
+    if (entry.started) {
+      return isErr(entry.started)
+        ? entry.started
+        : ok({ state: 'started', handle: entry.started.value });
+    }
+    return ok({
+      state: 'queued',
+      run: toQueuedRun(entry, queue.indexOf(entry)),
+    });
+  }
+
+  function startNow(
+    opts: ProcessStartOptions,
+    limits: RunLimits,
+  ): Promise<Result<ProcessHandle, Error>> {
+    return serialize(opts.cwd, async () => {
+      const waiting = queues.get(opts.cwd)?.length ?? 0;
+      if (
+        waiting > 0 ||
+        !hasSlot(opts.command, limits, getActiveCommands(opts.cwd))
+      ) {
+        return err(
+          new Error(`Run limit reached, queue ${opts.command} instead`),
+        );
+      }
+      return runner.start(opts);
+    });
+  }
+
+  function list(cwd: string): QueuedRun[] {
+    return (queues.get(cwd) ?? []).map(toQueuedRun);
+  }
+
+  function cancel(id: string): Result<void, Error> {
+    for (const [cwd, queue] of queues) {
+      const index = queue.findIndex((entry) => entry.id === id);
+      if (index !== -1) {
+        queue.splice(index, 1);
+        if (queue.length === 0) {
+          queues.delete(cwd);
+        }
+        return ok(undefined);
+      }
+    }
+    return err(new Error(`Queued run not found: ${id}`));
+  }
+
+  return { enqueue, startNow, list, cancel };
+}
@@ -0,0 +1,202 @@
+/**
+ * Detached runs: the command runs under scripts/run-supervisor.mjs instead
+ * of as a child of the server, and is followed through the files the
+ * supervisor writes next to the run history (see run-history.ts).
+ */
+
+import { execFile, spawn } from 'child_process';
+import { mkdir, open, readFile } from 'fs/promises';
+import { basename, resolve } from 'path';
+import { z } from 'zod';
+import type { ProcessOutputLine } from '@/lib/process-runner';
+import { ok, err, type Result } from '@/lib/result';
+import { getRunPaths, getRunsDir, parseOutputLine } from './run-history';
+
+/**
+ * The supervisor is plain JavaScript so it runs without the app's build
+ */
+export const RUN_SUPERVISOR_PATH = resolve(
+  process.cwd(),
+  'scripts',
+  'run-supervisor.mjs',
+);
+
+const SupervisorPidSchema = z.object({
+  supervisorPid: z.number(),
+  pid: z.number().nullable(),
+});
+
+const SupervisorExitSchema = z.object({
+  code: z.number().nullable(),
+  endedAt: z.number(),
+});
+
+export type SupervisorPid = z.infer<typeof SupervisorPidSchema>;
+export type SupervisorExit = z.infer<typeof SupervisorExitSchema>;
+
+/**
+ * Start the supervisor for a run. Resolves with the supervisor's PID once
+ * it has been spawned; it keeps running if the server exits.
+ */
+export async function spawnSupervisor(opts: {
+  id: string;
+  command: string;
+  cwd: string;
+}): Promise<Result<number, Error>> {
+  try {
+    await mkdir(getRunsDir(opts.cwd), { recursive: true });
+  } catch (error) {
+    return err(error instanceof Error ? error : new Error(String(error)));
+  }
+
+  return new Promise((resolve) => {
+    const supervisor = spawn(
+      process.execPath,
+      [RUN_SUPERVISOR_PATH, getRunsDir(opts.cwd), opts.id, opts.command],
+      { cwd: opts.cwd, detached: true, stdio: 'ignore' },
+    );
+
+    supervisor.once('error', (error) => resolve(err(error)));
+    supervisor.once('spawn', () => {
+      supervisor.unref();
+      if (supervisor.pid) {
+        resolve(ok(supervisor.pid));
+      } else {
+        resolve(err(new Error('Failed to spawn process: no PID assigned')));
+      }
+    });
+  });
+}
+
+async function readJsonFile<T>(
+  path: string,
+  schema: z.ZodType<T>,
+): Promise<T | null> {
+  try {
+    const parsed = schema.safeParse(JSON.parse(await readFile(path, 'utf-8')));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    // Not written (yet)
+    return null;
+  }
+}
+
+/**
+ * The PIDs written by the supervisor once the command has started
+ */
+export function readSupervisorPid(
+  cwd: string,
+  id: string,
+): Promise<SupervisorPid | null> {
+  return readJsonFile(getRunPaths(cwd, id).pid, SupervisorPidSchema);
+}
+
+/**
+ * The exit status written by the supervisor, or null while it runs
+ */
+export function readSupervisorExit(
+  cwd: string,
+  id: string,
+): Promise<SupervisorExit | null> {
+  return readJsonFile(getRunPaths(cwd, id).exit, SupervisorExitSchema);
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: alive, but owned by someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * The command line of a running process, or null if there is none.
+ * Read from /proc where there is one, otherwise from ps (e.g. macOS).
+ */
+async function readCommandLine(pid: number): Promise<string | null> {
+  try {
+    const cmdline = await readFile(`/proc/${pid}/cmdline`, 'utf-8');
+    return cmdline.split('\0').join(' ');
+  } catch {
+    // No such process, or no procfs
+  }
+  return new Promise((resolve) => {
+    execFile('ps', ['-p', String(pid), '-o', 'command='], (error, stdout) =>
+      resolve(error ? null : stdout.trim()),
+    );
+  });
+}
+
+/**
+ * Whether pid is still the supervisor of run id. After a reboot or once
+ * the supervisor has exited, its PID may belong to an unrelated process,
+ * which must never be adopted or signalled: the PID has to match the
+ * supervisor's .pid file (once written) and the process has to be running
+ * the supervisor for this run.
+ */
+export async function isRunSupervisor(
+  cwd: string,
+  id: string,
+  pid: number,
+): Promise<boolean> {
+  const pids = await readSupervisorPid(cwd, id);
+  if (pids && pids.supervisorPid !== pid) {
+    return false;
+  }
+  const commandLine = await readCommandLine(pid);
+  return (
+    commandLine !== null &&
+    commandLine.includes(basename(RUN_SUPERVISOR_PATH)) &&
+    commandLine.includes(id)
+  );
+}
+
+/**
+ * Reads the lines appended to an output log since the previous call.
+ * An incomplete last line is kept until the rest of it is written.
+ */
+export function createLogReader(path: string): {
+  read(): Promise<ProcessOutputLine[]>;
+} {
+  let offset = 0;
+  let partial: Buffer = Buffer.alloc(0);
+  let lineCount = 0;
+
+  async function read(): Promise<ProcessOutputLine[]> {
+    let chunk: Buffer;
+    try {
+      const file = await open(path, 'r');
+      try {
+        const { size } = await file.stat();
+        if (size <= offset) return [];
+        chunk = Buffer.alloc(size - offset);
+        const { bytesRead } = await file.read(chunk, 0, chunk.length, offset);
+        chunk = chunk.subarray(0, bytesRead);
+        offset += bytesRead;
+      } finally {
+        await file.close();
+      }
+    } catch {
+      // Not created yet
+      return [];
+    }
+
+    const data = Buffer.concat([partial, chunk]);
+    const end = data.lastIndexOf('\n');
+    if (end === -1) {
+      partial = data;
+      return [];
+    }
+    partial = data.subarray(end + 1);
+
+    return data
+      .subarray(0, end)
+      .toString('utf-8')
+      .split('\n')
+      .map((text) => parseOutputLine(text, lineCount++));
+  }
+
+  return { read };
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  HISTORY_FILENAME,
+  appendHistoryEntry,
+  readHistory,
+  readStatusChanges,
+  recordChanges,
+  recordExternalChanges,
+  syncExternalChanges,
+} from './ticket-history';
+import { STATE_DIRNAME } from '../trpc';
+import { isOk } from '@/lib/result';
+import type { HistoryEntry } from '@/lib/ticket-history';
+
+const TEST_DIR = join(process.cwd(), '.test-ticket-history');
+
+const entry: HistoryEntry = {
+  id: 'entry-1',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  source: 'ui',
+  action: 'create',
+  changes: [
+    {
+      ticketId: 1,
+      before: null,
+      after: { id: 1, title: 'New', status: 'pending' },
+    },
+  ],
+};
+
+describe('ticket history', () => {
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('returns no entries when the log does not exist', async () => {
+    const result = await readHistory(TEST_DIR);
+    expect(isOk(result) && result.value).toEqual([]);
+  });
+
+  it('appends and reads entries', async () => {
+    await appendHistoryEntry(TEST_DIR, entry);
+    await appendHistoryEntry(TEST_DIR, { ...entry, id: 'entry-2' });
+
+    const result = await readHistory(TEST_DIR);
+    expect(isOk(result) && result.value.map((e) => e.id)).toEqual([
+      'entry-1',
+      'entry-2',
+    ]);
+  });
+
+  it('drops the oldest entries once the log is too large', async () => {
+    const size = Buffer.byteLength(JSON.stringify(entry)) + 1;
+    for (const id of ['entry-1', 'entry-2', 'entry-3', 'entry-4']) {
+      await appendHistoryEntry(TEST_DIR, { ...entry, id }, size * 3.5);
+    }
+
+    const result = await readHistory(TEST_DIR);
+    expect(isOk(result) && result.value.map((e) => e.id)).toEqual(['entry-4']);
+  });
+
+  it('skips malformed lines', async () => {
+    await mkdir(join(TEST_DIR, STATE_DIRNAME), { recursive: true });
+    await writeFile(
+      join(TEST_DIR, STATE_DIRNAME, HISTORY_FILENAME),
+      `${JSON.stringify(entry)}\nnot json\n{"id":"x"}\n{"id":`,
+    );
+
+    const result = await readHistory(TEST_DIR);
+    expect(isOk(result) && result.value).toEqual([entry]);
+  });
+
+  it('does not record an entry when nothing changed', async () => {
+    const tickets = [{ id: 1, title: 'Same', status: 'pending' }];
+    const result = await recordChanges(TEST_DIR, {
+      source: 'ui',
+      action: 'update',
+      before: tickets,
+      after: tickets,
+    });
+
+    expect(isOk(result) && result.value).toBeNull();
+  });
+
+  it('records external changes against the last snapshot', async () => {
+    await recordExternalChanges(TEST_DIR, [
+      { id: 1, title: 'Before', status: 'pending' },
+    ]);
+    const result = await recordExternalChanges(TEST_DIR, [
+      { id: 1, title: 'After', status: 'pending' },
+    ]);
+
+    expect(isOk(result) && result.value).toMatchObject({
+      source: 'external',
+      changes: [{ ticketId: 1 }],
+    });
+  });
+
+  it('records status changes made outside ralph-watch without writing tickets.json', async () => {
+    const ticketsPath = join(TEST_DIR, 'tickets.json');
+    await writeFile(
+      ticketsPath,
+      JSON.stringify({ tickets: [{ id: 1, title: 'A', status: 'pending' }] }),
+    );
+    expect(isOk(await syncExternalChanges(TEST_DIR))).toBe(true);
+
+    await writeFile(
+      ticketsPath,
+      JSON.stringify({
+        tickets: [{ id: 1, title: 'A', status: 'in_progress' }],
+      }),
+    );
+    const written = await readFile(ticketsPath, 'utf-8');
+    expect(isOk(await syncExternalChanges(TEST_DIR))).toBe(true);
+
+    expect(await readFile(ticketsPath, 'utf-8')).toBe(written);
+    expect(await readStatusChanges(TEST_DIR)).toEqual({
+      1: { status: 'in_progress', at: expect.any(String) },
+    });
+    const history = await readHistory(TEST_DIR);
+    expect(isOk(history) && history.value).toMatchObject([
+      {
+        source: 'external',
+        changes: [{ ticketId: 1, after: { status: 'in_progress' } }],
+      },
+    ]);
+  });
+});
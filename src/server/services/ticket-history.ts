@@ -0,0 +1,333 @@
+/**
+ * Persistent ticket history for a Ralph directory.
+ * Entries are appended to .ralph-watch/ticket-history.jsonl. A snapshot of
+ * the last tickets seen by ralph-watch is kept alongside so edits made
+ * outside ralph-watch can be detected and recorded as external changes,
+ * along with when those edits changed a ticket's status.
+ *
+ * Callers must hold the tickets.json lock so the snapshot stays in step
+ * with the file; syncExternalChanges takes it itself.
+ */
+
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  rename,
+  stat,
+  writeFile,
+} from 'fs/promises';
+import { dirname } from 'path';
+import isEqual from 'lodash/isEqual';
+import { getRalphFilePath, getRalphStatePath } from '../trpc';
+import { TicketSchema, type Ticket } from '@/lib/schemas';
+import {
+  HistoryEntrySchema,
+  createHistoryId,
+  diffTickets,
+  type HistoryAction,
+  type HistoryEntry,
+  type HistorySource,
+} from '@/lib/ticket-history';
+import {
+  StatusChangesSchema,
+  trackStatusChanges,
+  type StatusChanges,
+} from '@/lib/ticket-age';
+import { ok, err, isErr, tryCatchAsync, type Result } from '@/lib/result';
+import {
+  TICKETS_FILENAME,
+  readTicketsFile,
+  withTicketsLock,
+} from './tickets-file';
+
+export const HISTORY_FILENAME = 'ticket-history.jsonl';
+export const SNAPSHOT_FILENAME = 'tickets-snapshot.json';
+export const STATUS_CHANGES_FILENAME = 'ticket-status-changes.json';
+
+/**
+ * Once the history log grows past this size, its oldest entries are
+ * dropped until it is at most half as big
+ */
+export const MAX_HISTORY_BYTES = 5 * 1024 * 1024;
+
+export interface RecordChangesOptions {
+  id?: string;
+  source: HistorySource;
+  author?: string;
+  action: HistoryAction;
+  before: Ticket[];
+  after: Ticket[];
+  undoOf?: string;
+  timestamp?: Date;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Read all history entries, oldest first.
+ * Lines that fail to parse are skipped.
+ */
+export async function readHistory(
+  ralphDir: string,
+): Promise<Result<HistoryEntry[], string>> {
+  const filePath = getRalphStatePath(HISTORY_FILENAME, ralphDir);
+
+  try {
+    const content = await readFile(filePath, 'utf-8');
+    const entries: HistoryEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const parsed = HistoryEntrySchema.safeParse(JSON.parse(line));
+        if (parsed.success) {
+          entries.push(parsed.data);
+        }
+      } catch {
+        // Ignore a partially written line
+      }
+    }
+    return ok(entries);
+  } catch (e) {
+    if (isNotFound(e)) {
+      return ok([]);
+    }
+    return err(`Failed to read ticket history: ${e}`);
+  }
+}
+
+/**
+ * Drop the oldest entries of a history log larger than maxBytes, keeping
+ * the newest that fit in half of it
+ */
+async function pruneHistory(filePath: string, maxBytes: number) {
+  const { size } = await stat(filePath);
+  if (size <= maxBytes) return;
+
+  const lines = (await readFile(filePath, 'utf-8'))
+    .split('\n')
+    .filter((line) => line.trim());
+  const kept: string[] = [];
+  let bytes = 0;
+  for (const line of lines.reverse()) {
+    bytes += Buffer.byteLength(line) + 1;
+    if (bytes > maxBytes / 2) break;
+    kept.push(line);
+  }
+
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(
+    tempPath,
+    kept
+      .reverse()
+      .map((line) => line + '\n')
+      .join(''),
+    'utf-8',
+  );
+  await rename(tempPath, filePath);
+}
+
+/**
+ * Append an entry to the history log, pruning it past maxBytes
+ */
+export async function appendHistoryEntry(
+  ralphDir: string,
+  entry: HistoryEntry,
+  maxBytes: number = MAX_HISTORY_BYTES,
+): Promise<Result<void, string>> {
+  const filePath = getRalphStatePath(HISTORY_FILENAME, ralphDir);
+
+  const result = await tryCatchAsync(async () => {
+    await mkdir(dirname(filePath), { recursive: true });
+    await appendFile(filePath, JSON.stringify(entry) + '\n', 'utf-8');
+    await pruneHistory(filePath, maxBytes);
+  });
+
+  if (isErr(result)) {
+    return err(`Failed to write ticket history: ${result.error}`);
+  }
+  return ok(undefined);
+}
+
+/**
+ * Read the tickets last seen by ralph-watch, or null if none were recorded
+ */
+async function readSnapshot(ralphDir: string): Promise<Ticket[] | null> {
+  const result = await tryCatchAsync(() =>
+    readFile(getRalphStatePath(SNAPSHOT_FILENAME, ralphDir), 'utf-8'),
+  );
+  if (isErr(result)) {
+    return null;
+  }
+
+  try {
+    const parsed = TicketSchema.array().safeParse(JSON.parse(result.value));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeSnapshot(
+  ralphDir: string,
+  tickets: Ticket[],
+): Promise<Result<void, string>> {
+  const filePath = getRalphStatePath(SNAPSHOT_FILENAME, ralphDir);
+
+  const result = await tryCatchAsync(async () => {
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(tickets), 'utf-8');
+  });
+
+  if (isErr(result)) {
+    return err(`Failed to write ticket snapshot: ${result.error}`);
+  }
+  return ok(undefined);
+}
+
+/**
+ * Read when tickets' statuses were last changed outside ralph-watch (see
+ * trackStatusChanges), or none if they were never recorded
+ */
+export async function readStatusChanges(
+  ralphDir: string,
+): Promise<StatusChanges> {
+  const result = await tryCatchAsync(() =>
+    readFile(getRalphStatePath(STATUS_CHANGES_FILENAME, ralphDir), 'utf-8'),
+  );
+  if (isErr(result)) {
+    return {};
+  }
+
+  try {
+    const parsed = StatusChangesSchema.safeParse(JSON.parse(result.value));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+async function writeStatusChanges(
+  ralphDir: string,
+  changes: StatusChanges,
+): Promise<Result<void, string>> {
+  const filePath = getRalphStatePath(STATUS_CHANGES_FILENAME, ralphDir);
+
+  const result = await tryCatchAsync(async () => {
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(changes), 'utf-8');
+  });
+
+  if (isErr(result)) {
+    return err(`Failed to write ticket status changes: ${result.error}`);
+  }
+  return ok(undefined);
+}
+
+/**
+ * Record a change to the tickets and update the snapshot.
+ * Returns the new entry, or null if nothing changed.
+ */
+export async function recordChanges(
+  ralphDir: string,
+  options: RecordChangesOptions,
+): Promise<Result<HistoryEntry | null, string>> {
+  const changes = diffTickets(options.before, options.after);
+  if (changes.length === 0) {
+    return ok(null);
+  }
+
+  const entry: HistoryEntry = {
+    id: options.id ?? createHistoryId(),
+    timestamp: (options.timestamp ?? new Date()).toISOString(),
+    source: options.source,
+    ...(options.author !== undefined && { author: options.author }),
+    action: options.action,
+    changes,
+    ...(options.undoOf !== undefined && { undoOf: options.undoOf }),
+  };
+
+  const appendResult = await appendHistoryEntry(ralphDir, entry);
+  if (isErr(appendResult)) {
+    return appendResult;
+  }
+
+  const snapshotResult = await writeSnapshot(ralphDir, options.after);
+  if (isErr(snapshotResult)) {
+    return snapshotResult;
+  }
+
+  return ok(entry);
+}
+
+/**
+ * Compare the current tickets with the snapshot and record any difference
+ * as an external change, timestamped with the file's modification time.
+ * Status changes are tracked too (see trackStatusChanges), in
+ * ralph-watch's state rather than in tickets.json.
+ * The first call for a directory only records the snapshot.
+ */
+export async function recordExternalChanges(
+  ralphDir: string,
+  tickets: Ticket[],
+): Promise<Result<HistoryEntry | null, string>> {
+  const snapshot = await readSnapshot(ralphDir);
+  const statResult = await tryCatchAsync(() =>
+    stat(getRalphFilePath(TICKETS_FILENAME, ralphDir)),
+  );
+  const timestamp = isErr(statResult) ? new Date() : statResult.value.mtime;
+
+  const previous = await readStatusChanges(ralphDir);
+  const statusChanges = trackStatusChanges(
+    previous,
+    snapshot,
+    tickets,
+    timestamp,
+  );
+  if (!isEqual(statusChanges, previous)) {
+    const statusResult = await writeStatusChanges(ralphDir, statusChanges);
+    if (isErr(statusResult)) {
+      return statusResult;
+    }
+  }
+
+  if (snapshot === null) {
+    const snapshotResult = await writeSnapshot(ralphDir, tickets);
+    return isErr(snapshotResult) ? snapshotResult : ok(null);
+  }
+
+  return recordChanges(ralphDir, {
+    source: 'external',
+    action: 'external',
+    before: snapshot,
+    after: tickets,
+    timestamp,
+  });
+}
+
+/**
+ * Record edits made to tickets.json outside ralph-watch (see
+ * recordExternalChanges). Takes the tickets.json lock but never writes
+ * tickets.json. Does nothing while tickets.json has invalid entries, which
+ * would look like deletions.
+ */
+export async function syncExternalChanges(
+  ralphDir: string,
+): Promise<Result<void, string>> {
+  const lockResult = await withTicketsLock(
+    ralphDir,
+    async (): Promise<Result<void, string>> => {
+      const readResult = await readTicketsFile(ralphDir);
+      if (isErr(readResult)) return ok(undefined);
+
+      const result = await recordExternalChanges(
+        ralphDir,
+        readResult.value.data.tickets,
+      );
+      return isErr(result) ? result : ok(undefined);
+    },
+  );
+  return isErr(lockResult) ? lockResult : lockResult.value;
+}
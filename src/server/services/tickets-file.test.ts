@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile, readFile, utimes } from 'fs/promises';
+import { join } from 'path';
+import {
+  computeRevision,
+  readTicketsFile,
+  readTicketsReport,
+  writeTicketsFile,
+  withTicketsLock,
+} from './tickets-file';
+import { isOk, isErr } from '@/lib/result';
+
+const TEST_DIR = join(process.cwd(), '.test-tickets-file');
+const TICKETS_FILE = join(TEST_DIR, 'tickets.json');
+const LOCK_FILE = join(TEST_DIR, 'tickets.json.lock');
+
+describe('tickets-file', () => {
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe('readTicketsFile', () => {
+    it('returns data with the revision of the raw content', async () => {
+      const content = JSON.stringify({ tickets: [{ id: 1, title: 'A' }] });
+      await writeFile(TICKETS_FILE, content);
+
+      const result = await readTicketsFile(TEST_DIR);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.data.tickets).toHaveLength(1);
+        expect(result.value.revision).toBe(computeRevision(content));
+      }
+    });
+
+    it('returns an error when the file is missing', async () => {
+      const result = await readTicketsFile(TEST_DIR);
+      expect(isErr(result)).toBe(true);
+    });
+  });
+
+  describe('readTicketsReport', () => {
+    it('keeps valid tickets and reports invalid entries', async () => {
+      await writeFile(
+        TICKETS_FILE,
+        JSON.stringify({
+          tickets: [
+            { id: 1, title: 'A' },
+            { id: 'abc', title: 'B' },
+          ],
+        }),
+      );
+
+      expect(isErr(await readTicketsFile(TEST_DIR))).toBe(true);
+
+      const result = await readTicketsReport(TEST_DIR);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.data.tickets.map((t) => t.id)).toEqual([1]);
+        expect(result.value.problems).toMatchObject([
+          { index: 1, id: 'abc', excluded: true },
+        ]);
+      }
+    });
+
+    it('returns an error when tickets is not an array', async () => {
+      await writeFile(TICKETS_FILE, JSON.stringify({ tickets: {} }));
+      const result = await readTicketsReport(TEST_DIR);
+      expect(isErr(result)).toBe(true);
+    });
+  });
+
+  describe('writeTicketsFile', () => {
+    it('writes the file and returns the new revision', async () => {
+      const result = await writeTicketsFile(
+        { tickets: [{ id: 1, title: 'A', status: 'pending' }] },
+        TEST_DIR,
+      );
+
+      expect(isOk(result)).toBe(true);
+      const content = await readFile(TICKETS_FILE, 'utf-8');
+      if (isOk(result)) {
+        expect(result.value).toBe(computeRevision(content));
+      }
+    });
+  });
+
+  describe('withTicketsLock', () => {
+    it('holds the lock file while running and removes it afterwards', async () => {
+      let lockContent = '';
+      const result = await withTicketsLock(TEST_DIR, async () => {
+        lockContent = await readFile(LOCK_FILE, 'utf-8');
+        return 42;
+      });
+
+      expect(isOk(result) && result.value).toBe(42);
+      expect(JSON.parse(lockContent)).toMatchObject({ pid: process.pid });
+      await expect(readFile(LOCK_FILE)).rejects.toThrow();
+    });
+
+    it('releases the lock when the callback throws', async () => {
+      await expect(
+        withTicketsLock(TEST_DIR, async () => {
+          throw new Error('boom');
+        }),
+      ).rejects.toThrow('boom');
+
+      await expect(readFile(LOCK_FILE)).rejects.toThrow();
+    });
+
+    it('times out when another process holds the lock', async () => {
+      await writeFile(LOCK_FILE, '{"owner":"ralph"}');
+
+      const result = await withTicketsLock(TEST_DIR, async () => 1, {
+        timeoutMs: 100,
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toContain('Timed out');
+      }
+    });
+
+    it('takes over a stale lock', async () => {
+      await writeFile(LOCK_FILE, '{"owner":"ralph"}');
+      const past = new Date(Date.now() - 60_000);
+      await utimes(LOCK_FILE, past, past);
+
+      const result = await withTicketsLock(TEST_DIR, async () => 'ok', {
+        timeoutMs: 100,
+        staleMs: 1000,
+      });
+
+      expect(isOk(result)).toBe(true);
+    });
+
+    it('lets only one of several waiters take over a stale lock', async () => {
+      await writeFile(LOCK_FILE, '{"owner":"ralph"}');
+      const past = new Date(Date.now() - 60_000);
+      await utimes(LOCK_FILE, past, past);
+
+      let holders = 0;
+      let maxHolders = 0;
+      const run = () =>
+        withTicketsLock(
+          TEST_DIR,
+          async () => {
+            maxHolders = Math.max(maxHolders, ++holders);
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            holders--;
+          },
+          { staleMs: 1000 },
+        );
+
+      const results = await Promise.all(Array.from({ length: 10 }, run));
+
+      expect(results.every(isOk)).toBe(true);
+      expect(maxHolders).toBe(1);
+    });
+
+    it('serialises concurrent holders', async () => {
+      const events: string[] = [];
+      const run = (name: string) =>
+        withTicketsLock(TEST_DIR, async () => {
+          events.push(`${name}:start`);
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          events.push(`${name}:end`);
+        });
+
+      await Promise.all([run('a'), run('b')]);
+
+      expect(events[1]).toBe(`${events[0]?.split(':')[0]}:end`);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Safe access to tickets.json.
+ * Ralph rewrites tickets.json while it runs, so every write goes through a
+ * temp file + rename and is serialised by an advisory lock file
+ * (tickets.json.lock) that ralph can also honor.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { link, open, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import { dirname, basename, join } from 'path';
+import { getRalphFilePath } from '../trpc';
+import { TicketsFileSchema, type TicketsFile } from '@/lib/schemas';
+import { ok, err, isErr, tryCatchAsync, type Result } from '@/lib/result';
+import {
+  toRawTicketsFile,
+  validateTicketsFile,
+  type RawTicketsFile,
+  type TicketProblem,
+} from '@/lib/ticket-validation';
+
+export const TICKETS_FILENAME = 'tickets.json';
+export const LOCK_SUFFIX = '.lock';
+
+const LOCK_RETRY_MS = 50;
+const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+const DEFAULT_LOCK_STALE_MS = 30000;
+
+export interface TicketsSnapshot {
+  data: TicketsFile;
+  /**
+   * Content hash of tickets.json at read time.
+   * Mutations pass it back to detect concurrent modification.
+   */
+  revision: string;
+}
+
+export interface LockOptions {
+  /**
+   * How long to wait for another holder to release the lock
+   * @default 5000
+   */
+  timeoutMs?: number;
+  /**
+   * Age after which an existing lock file is considered abandoned
+   * @default 30000
+   */
+  staleMs?: number;
+}
+
+export interface RawTicketsSnapshot {
+  raw: RawTicketsFile;
+  revision: string;
+}
+
+export interface TicketsReportSnapshot extends TicketsSnapshot {
+  /**
+   * Entries that failed validation; see validateTicketsFile
+   */
+  problems: TicketProblem[];
+}
+
+/**
+ * Compute the revision identifier for raw tickets.json content
+ */
+export function computeRevision(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Read tickets.json without validating its entries
+ */
+export async function readRawTicketsFile(
+  ralphDir: string,
+): Promise<Result<RawTicketsSnapshot, string>> {
+  const filePath = getRalphFilePath(TICKETS_FILENAME, ralphDir);
+
+  const readResult = await tryCatchAsync(() => readFile(filePath, 'utf-8'));
+
+  if (isErr(readResult)) {
+    return err(`Failed to read tickets.json: ${readResult.error}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readResult.value);
+  } catch (e) {
+    return err(`Failed to parse tickets.json: ${e}`);
+  }
+
+  const rawResult = toRawTicketsFile(json);
+  if (isErr(rawResult)) {
+    return err(`Failed to parse tickets.json: ${rawResult.error}`);
+  }
+
+  return ok({
+    raw: rawResult.value,
+    revision: computeRevision(readResult.value),
+  });
+}
+
+/**
+ * Read and parse tickets.json, returning its data and revision.
+ * Fails if any entry is invalid; use readTicketsReport to read around them.
+ */
+export async function readTicketsFile(
+  ralphDir: string,
+): Promise<Result<TicketsSnapshot, string>> {
+  const rawResult = await readRawTicketsFile(ralphDir);
+  if (isErr(rawResult)) {
+    return rawResult;
+  }
+
+  const parsed = TicketsFileSchema.safeParse(rawResult.value.raw);
+  if (!parsed.success) {
+    return err(`Failed to parse tickets.json: ${parsed.error}`);
+  }
+
+  return ok({ data: parsed.data, revision: rawResult.value.revision });
+}
+
+/**
+ * Read tickets.json, keeping the valid tickets and reporting the rest
+ */
+export async function readTicketsReport(
+  ralphDir: string,
+  statusNames?: readonly string[],
+): Promise<Result<TicketsReportSnapshot, string>> {
+  const rawResult = await readRawTicketsFile(ralphDir);
+  if (isErr(rawResult)) {
+    return rawResult;
+  }
+
+  const { data, problems } = validateTicketsFile(
+    rawResult.value.raw,
+    statusNames,
+  );
+  return ok({ data, problems, revision: rawResult.value.revision });
+}
+
+/**
+ * Atomically write tickets data to tickets.json.
+ * Writes to a temp file in the same directory, then renames it over the
+ * original so readers never observe a partially written file.
+ * Returns the revision of the written content.
+ */
+export async function writeTicketsFile(
+  data: TicketsFile | RawTicketsFile,
+  ralphDir: string,
+): Promise<Result<string, string>> {
+  const filePath = getRalphFilePath(TICKETS_FILENAME, ralphDir);
+  const content = JSON.stringify(data, null, 2) + '\n';
+  const tempPath = join(
+    dirname(filePath),
+    `.${basename(filePath)}.${process.pid}.${Date.now().toString(36)}.tmp`,
+  );
+
+  const writeResult = await tryCatchAsync(async () => {
+    await writeFile(tempPath, content, 'utf-8');
+    await rename(tempPath, filePath);
+  });
+
+  if (isErr(writeResult)) {
+    await rm(tempPath, { force: true });
+    return err(`Failed to write tickets.json: ${writeResult.error}`);
+  }
+
+  return ok(computeRevision(content));
+}
+
+/**
+ * Remove the lock file if it is older than staleMs.
+ * It is renamed away first, so of several waiters that find it stale only
+ * one removes it; if a fresh lock replaced it in the meantime, that one is
+ * put back. Returns whether the lock may be free now.
+ */
+async function removeStaleLock(
+  lockPath: string,
+  staleMs: number,
+): Promise<boolean> {
+  const statResult = await tryCatchAsync(() => stat(lockPath));
+  if (isErr(statResult)) {
+    // Lock vanished between attempts; treat as free
+    return true;
+  }
+  const stale = statResult.value;
+  if (Date.now() - stale.mtimeMs <= staleMs) {
+    return false;
+  }
+
+  const takenPath = `${lockPath}.${process.pid}-${randomBytes(4).toString('hex')}`;
+  const renameResult = await tryCatchAsync(() => rename(lockPath, takenPath));
+  if (isErr(renameResult)) {
+    // Another waiter took it over first
+    return true;
+  }
+
+  const takenResult = await tryCatchAsync(() => stat(takenPath));
+  const isSameLock =
+    !isErr(takenResult) &&
+    takenResult.value.ino === stale.ino &&
+    takenResult.value.mtimeMs === stale.mtimeMs;
+  if (!isSameLock) {
+    // Fails if yet another lock exists, which then holds instead
+    await tryCatchAsync(() => link(takenPath, lockPath));
+  }
+  await rm(takenPath, { force: true });
+  return isSameLock;
+}
+
+async function acquireLock(
+  lockPath: string,
+  timeoutMs: number,
+  staleMs: number,
+): Promise<Result<void, string>> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    try {
+      const handle = await open(lockPath, 'wx');
+      await handle.writeFile(
+        JSON.stringify({
+          owner: 'ralph-watch',
+          pid: process.pid,
+          acquiredAt: new Date().toISOString(),
+        }),
+      );
+      await handle.close();
+      return ok(undefined);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') {
+        return err(`Failed to lock tickets.json: ${e}`);
+      }
+    }
+
+    if (await removeStaleLock(lockPath, staleMs)) {
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      return err(
+        'Timed out waiting for tickets.json lock (another process is writing it)',
+      );
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Run fn while holding the advisory lock on tickets.json.
+ * The lock is a tickets.json.lock file created exclusively; ralph and other
+ * writers should create it the same way (O_CREAT | O_EXCL) before writing.
+ * Locks older than staleMs are assumed abandoned and taken over.
+ */
+export async function withTicketsLock<T>(
+  ralphDir: string,
+  fn: () => Promise<T>,
+  options: LockOptions = {},
+): Promise<Result<T, string>> {
+  const lockPath = getRalphFilePath(TICKETS_FILENAME + LOCK_SUFFIX, ralphDir);
+  const lockResult = await acquireLock(
+    lockPath,
+    options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS,
+    options.staleMs ?? DEFAULT_LOCK_STALE_MS,
+  );
+
+  if (isErr(lockResult)) {
+    return lockResult;
+  }
+
+  try {
+    return ok(await fn());
+  } finally {
+    await rm(lockPath, { force: true });
+  }
+}
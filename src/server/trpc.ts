@@ -3,6 +3,7 @@ import type { FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch';
 import superjson from 'superjson';
 import { resolve } from 'path';
 import { getEnv } from '@/lib/env';
+import { AUTHOR_HEADER, parseAuthorHeader } from '@/lib/ticket-author';
 
 // Validate environment variables on server startup (skip in test environment)
 if (process.env.NODE_ENV !== 'test') {
@@ -23,23 +24,42 @@ export function getRalphFilePath(filename: string, ralphDir?: string): string {
   return resolve(ralphDir ?? getRalphDir(), filename);
 }
 
+/**
+ * Directory inside a Ralph directory where ralph-watch keeps its own state
+ */
+export const STATE_DIRNAME = '.ralph-watch';
+
+/**
+ * Get the absolute path to a ralph-watch state file in a Ralph directory
+ */
+export function getRalphStatePath(filename: string, ralphDir?: string): string {
+  return resolve(ralphDir ?? getRalphDir(), STATE_DIRNAME, filename);
+}
+
 /**
  * Context available to all tRPC procedures
  */
 export interface Context {
   ralphDir: string;
+  /**
+   * Name of the person making the request, as set in their browser
+   */
+  author?: string;
 }
 
 /**
  * Create context for each tRPC request
- * Reads x-ralph-dir header if present, otherwise uses env var
+ * Reads x-ralph-dir header if present, otherwise uses env var, and the
+ * author header if present
  */
 export function createContext(opts: FetchCreateContextFnOptions): Context {
   const headerDir = opts.req.headers.get('x-ralph-dir');
   const ralphDir = headerDir ?? getRalphDir();
+  const author = parseAuthorHeader(opts.req.headers.get(AUTHOR_HEADER));
 
   return {
     ralphDir,
+    ...(author !== undefined && { author }),
   };
 }
 
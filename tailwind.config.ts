@@ -13,6 +13,15 @@ const config: Config = {
   ],
   theme: {
     extend: {
+      keyframes: {
+        'ticket-flash': {
+          '0%': { backgroundColor: 'hsl(var(--primary) / 0.15)' },
+          '100%': { backgroundColor: 'transparent' },
+        },
+      },
+      animation: {
+        'ticket-flash': 'ticket-flash 1.5s ease-out',
+      },
       borderRadius: {
         lg: 'var(--radius)',
         md: 'calc(var(--radius) - 2px)',